@@ -1,4 +1,6 @@
+import { relative } from '@std/path';
 import { ToolExecutor } from '../../../packages/core/tools/tool_executor.ts';
+import type { RestoreResult } from '../../../packages/core/checkpoint/checkpoint_manager.ts';
 
 /**
  * CLIコマンドハンドラークラス
@@ -6,18 +8,27 @@ import { ToolExecutor } from '../../../packages/core/tools/tool_executor.ts';
  */
 export class CommandHandler {
   private toolExecutor: ToolExecutor;
+  private currentSessionId?: string;
 
   constructor(toolExecutor: ToolExecutor) {
     this.toolExecutor = toolExecutor;
   }
 
+  /**
+   * 現在のセッションIDを設定
+   */
+  setCurrentSession(sessionId: string): void {
+    this.currentSessionId = sessionId;
+  }
+
   /**
    * コマンドを処理
    * @param command 実行するコマンド
    * @returns コマンド処理が続行可能な場合true、終了する場合false
    */
   async handleCommand(command: string): Promise<boolean> {
-    const cmd = command.toLowerCase().trim();
+    const [name, ...args] = command.trim().split(/\s+/);
+    const cmd = name.toLowerCase();
 
     switch (cmd) {
       case '/quit':
@@ -34,6 +45,18 @@ export class CommandHandler {
         this.showTools();
         return true;
 
+      case '/undo':
+        await this.undo();
+        return true;
+
+      case '/checkpoints':
+        await this.showCheckpoints();
+        return true;
+
+      case '/restore':
+        await this.restore(args[0]);
+        return true;
+
       default:
         console.log(`❓ 不明なコマンド: ${command}`);
         console.log('ヘルプを表示するには /help と入力してください');
@@ -49,6 +72,9 @@ export class CommandHandler {
     console.log('  /quit, /q    - セッションを終了');
     console.log('  /help, /h    - このヘルプを表示');
     console.log('  /tools       - 利用可能なツール一覧を表示');
+    console.log('  /undo        - 直前のファイル変更を取り消す');
+    console.log('  /checkpoints - ファイル変更のチェックポイント一覧を表示');
+    console.log('  /restore <id> - 指定したチェックポイントの直前の状態に戻す');
     console.log('\n💡 XMLツール呼び出し例:');
     console.log('  <tool_call>');
     console.log('  <read_file>');
@@ -77,4 +103,101 @@ export class CommandHandler {
       console.log('');
     }
   }
+
+  /**
+   * 直前のチェックポイントを取り消す
+   */
+  private async undo(): Promise<void> {
+    if (!this.currentSessionId) {
+      console.log('❌ セッションが開始されていません');
+      return;
+    }
+
+    try {
+      const result = await this.toolExecutor.getCheckpointManager().undo(this.currentSessionId);
+      if (!result) {
+        console.log('ℹ️  取り消せる変更はありません');
+        return;
+      }
+      this.showRestoreResult(result);
+    } catch (error) {
+      console.log(
+        `❌ 取り消しに失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * チェックポイント一覧を表示
+   */
+  private async showCheckpoints(): Promise<void> {
+    if (!this.currentSessionId) {
+      console.log('❌ セッションが開始されていません');
+      return;
+    }
+
+    const checkpoints = await this.toolExecutor.getCheckpointManager().listCheckpoints(
+      this.currentSessionId,
+    );
+    if (checkpoints.length === 0) {
+      console.log('ℹ️  このセッションのチェックポイントはありません');
+      return;
+    }
+
+    console.log('\n📌 チェックポイント（/restore <id> でその変更の直前に戻せます）:');
+    for (const checkpoint of checkpoints) {
+      const time = new Date(checkpoint.timestamp).toLocaleTimeString();
+      const paths = checkpoint.paths.map((path) => this.formatPath(path)).join(', ');
+      console.log(`  [${checkpoint.id}] ${time} ${checkpoint.toolName}: ${paths}`);
+    }
+    console.log('');
+  }
+
+  /**
+   * 指定したチェックポイントの直前の状態に戻す
+   */
+  private async restore(id: string | undefined): Promise<void> {
+    if (!this.currentSessionId) {
+      console.log('❌ セッションが開始されていません');
+      return;
+    }
+    if (!id || !/^\d+$/.test(id)) {
+      console.log('使い方: /restore <id>（id は /checkpoints で確認できます）');
+      return;
+    }
+
+    try {
+      const result = await this.toolExecutor.getCheckpointManager().restore(
+        this.currentSessionId,
+        Number(id),
+      );
+      this.showRestoreResult(result);
+    } catch (error) {
+      console.log(
+        `❌ 復元に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * 復元結果を表示
+   */
+  private showRestoreResult(result: RestoreResult): void {
+    const ids = result.reverted.map((checkpoint) => checkpoint.id).join(', ');
+    console.log(`⏪ ${result.reverted.length}個の変更を取り消しました (チェックポイント: ${ids})`);
+    for (const path of result.restored) {
+      console.log(`  復元: ${this.formatPath(path)}`);
+    }
+    for (const path of result.removed) {
+      console.log(`  削除: ${this.formatPath(path)}`);
+    }
+  }
+
+  /**
+   * 作業ディレクトリ内のパスは相対パスで表示
+   */
+  private formatPath(path: string): string {
+    const relativePath = relative(Deno.cwd(), path);
+    return relativePath.startsWith('..') ? path : relativePath;
+  }
 }
@@ -0,0 +1,581 @@
+import { Command } from '@cliffy/command';
+import { resolve } from '@std/path';
+import { ConfigManager } from '../../../packages/core/config/manager.ts';
+import {
+  DatasetExporter,
+  type DatasetFormat,
+  type DatasetRedactor,
+} from '../../../packages/core/history/dataset_exporter.ts';
+import {
+  getLastActivity,
+  HistoryRecorder,
+} from '../../../packages/core/history/history_recorder.ts';
+import {
+  TranscriptExporter,
+  type TranscriptFormat,
+} from '../../../packages/core/history/transcript_exporter.ts';
+import { SecretScanner } from '../../../packages/core/permission/secret_scanner.ts';
+import { ToolExecutor } from '../../../packages/core/tools/tool_executor.ts';
+import type { Message, SessionHistory } from '../../../packages/interfaces/history.ts';
+
+/**
+ * 一覧・検索で表示する既定の件数
+ */
+const DEFAULT_LIST_LIMIT = 20;
+
+/**
+ * 折りたたんだ表示で残す文字数
+ */
+const COLLAPSED_LENGTH = 100;
+
+/**
+ * データセットの形式
+ */
+const DATASET_FORMATS: DatasetFormat[] = ['openai', 'openai-tools', 'sharegpt'];
+
+/**
+ * 会話記録の形式
+ */
+const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['md', 'html'];
+
+/**
+ * セッションの絞り込み条件
+ */
+interface SessionFilter {
+  since?: string;
+  until?: string;
+  model?: string;
+  directory?: string;
+  here?: boolean;
+}
+
+/**
+ * セッション一覧のオプション
+ */
+interface ListOptions extends SessionFilter {
+  limit: number;
+}
+
+/**
+ * データセット出力のオプション
+ */
+interface DatasetOptions extends SessionFilter {
+  format: string;
+  output?: string;
+  successfulOnly?: boolean;
+  systemPrompt: boolean;
+  dedupe: boolean;
+  redact: boolean;
+  anonymizePaths?: boolean;
+}
+
+/**
+ * 空白をまとめて1行にし、長い場合は末尾を省略
+ */
+function truncate(text: string, length = COLLAPSED_LENGTH): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+}
+
+/**
+ * 日時を表示用にフォーマット
+ */
+function formatDate(time: number | string): string {
+  return new Date(time).toLocaleString();
+}
+
+/**
+ * 日付の指定を解析
+ */
+function parseDate(value: string, option: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${option} の日付が無効です: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * ツール実行結果（JSON）を1行にまとめる
+ */
+function summarizeToolResult(payload: string): string {
+  try {
+    const result = JSON.parse(payload) as { success?: boolean; output?: string; error?: string };
+    if (result.success === false) {
+      return `❌ ${truncate(result.error ?? '')}`;
+    }
+    return `✅ ${truncate(result.output ?? JSON.stringify(result))}`;
+  } catch {
+    return truncate(payload);
+  }
+}
+
+/**
+ * アシスタントの発言中のXML形式のツール呼び出しを1行の要約に置き換える
+ */
+function collapseXmlToolCalls(content: string): string {
+  return content.replace(/<tool_call>([\s\S]*?)(<\/tool_call>|$)/g, (_match, body: string) => {
+    const tool = body.match(/<(\w+)>([\s\S]*?)<\/\1>/);
+    if (!tool) {
+      return `🔧 ${truncate(body)}`;
+    }
+    const params = [...tool[2].matchAll(/<(\w+)>([\s\S]*?)<\/\1>/g)]
+      .map(([, name, value]) => `${name}=${value.trim()}`)
+      .join(', ');
+    return `🔧 ${tool[1]}(${truncate(params, COLLAPSED_LENGTH - tool[1].length)})`;
+  });
+}
+
+/**
+ * メッセージを表示用の行に変換
+ * @param full true の場合はシステムプロンプトやツールの呼び出し・結果を省略しない
+ */
+function formatMessage(message: Message, full: boolean): string[] {
+  const time = new Date(message.timestamp).toLocaleTimeString();
+  const toolResponse = message.content.match(/^<tool_response>([\s\S]*)<\/tool_response>$/);
+
+  if (message.role === 'system') {
+    return full
+      ? [`⚙️  システム [${time}]`, message.content]
+      : [`⚙️  システムプロンプト（${message.content.length} 文字、--full で表示）`];
+  }
+
+  if (message.role === 'tool' || toolResponse) {
+    const payload = toolResponse ? toolResponse[1] : message.content;
+    const toolName = typeof message.metadata?.toolName === 'string'
+      ? `${message.metadata.toolName}: `
+      : '';
+    return full
+      ? [`   ↳ 結果 ${toolName}[${time}]`, payload]
+      : [`   ↳ ${toolName}${summarizeToolResult(payload)}`];
+  }
+
+  if (message.role === 'assistant') {
+    const lines = [`🤖 アシスタント [${time}]`];
+    const content = full ? message.content : collapseXmlToolCalls(message.content);
+    if (content.trim() !== '') {
+      lines.push(content.trim());
+    }
+    const toolCalls = message.metadata?.toolCalls;
+    if (Array.isArray(toolCalls)) {
+      for (const call of toolCalls as { name: string; arguments: string }[]) {
+        lines.push(
+          full
+            ? `🔧 ${call.name}(${call.arguments})`
+            : `🔧 ${call.name}(${truncate(call.arguments, COLLAPSED_LENGTH - call.name.length)})`,
+        );
+      }
+    }
+    return lines;
+  }
+
+  if (message.metadata?.warning && !full) {
+    return [`⚠️  ${truncate(message.content)}`];
+  }
+  return [`👤 ユーザー [${time}]`, message.content];
+}
+
+/**
+ * 作業ディレクトリとホームディレクトリのパスを置き換える
+ */
+function anonymizePaths(text: string, session: SessionHistory): string {
+  const workingDirectory = session.metadata?.workingDirectory;
+  const home = Deno.env.get('HOME') ?? Deno.env.get('USERPROFILE');
+  let result = workingDirectory ? text.replaceAll(workingDirectory, '.') : text;
+  if (home) {
+    result = result.replaceAll(home, '~');
+  }
+  return result;
+}
+
+/**
+ * セッションの最初のユーザーの発言
+ */
+function getFirstUserMessage(session: SessionHistory): string | undefined {
+  return session.messages.find((message) =>
+    message.role === 'user' && !message.content.startsWith('<tool_response>') &&
+    !message.metadata?.warning
+  )?.content;
+}
+
+/**
+ * 履歴の閲覧・削除・出力を行うクラス
+ */
+export class HistoryBrowser {
+  private configManager: ConfigManager;
+  private historyRecorder: HistoryRecorder;
+
+  constructor(configManager: ConfigManager) {
+    this.configManager = configManager;
+    this.historyRecorder = new HistoryRecorder(configManager);
+  }
+
+  /**
+   * セッション一覧を表示（最終更新が新しい順）
+   */
+  async list(options: ListOptions): Promise<void> {
+    const sessions = (await this.filterSessions(options))
+      .sort((a, b) => getLastActivity(b) - getLastActivity(a));
+
+    if (sessions.length === 0) {
+      console.log('ℹ️  該当するセッションはありません');
+      return;
+    }
+
+    console.log(
+      `\n📚 セッション一覧（${Math.min(sessions.length, options.limit)}/${sessions.length} 件）:`,
+    );
+    for (const session of sessions.slice(0, options.limit)) {
+      const turns = session.messages.filter((message) =>
+        message.role === 'user' && !message.content.startsWith('<tool_response>')
+      ).length;
+      const status = session.metadata?.interrupted ? ' ⚠️ 未終了' : '';
+      const updatedAt = formatDate(getLastActivity(session));
+      console.log(`\n  ${session.sessionId}  ${updatedAt}  ${session.model}  💬 ${turns}${status}`);
+      if (session.metadata?.workingDirectory) {
+        console.log(`    📁 ${session.metadata.workingDirectory}`);
+      }
+      const firstMessage = getFirstUserMessage(session);
+      if (firstMessage) {
+        console.log(`    ${truncate(firstMessage, 80)}`);
+      }
+    }
+    console.log('');
+  }
+
+  /**
+   * セッションの会話を表示
+   */
+  async show(sessionId: string, full: boolean): Promise<void> {
+    const session = await this.findSession(sessionId);
+
+    console.log(`\n📖 セッション ${session.sessionId}`);
+    console.log(`📋 モデル: ${session.model}`);
+    console.log(`🕒 開始: ${formatDate(session.timestamp)}`);
+    if (session.metadata?.workingDirectory) {
+      console.log(`📁 ディレクトリ: ${session.metadata.workingDirectory}`);
+    }
+    if (session.metadata?.interrupted) {
+      console.log('⚠️  終了が記録されていないセッションです');
+    }
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+    // ツールの結果は呼び出したメッセージの直後に続けて表示する
+    const isToolResult = (message?: Message) =>
+      message?.role === 'tool' || !!message?.content.startsWith('<tool_response>');
+    session.messages.forEach((message, index) => {
+      console.log(formatMessage(message, full).join('\n'));
+      if (!isToolResult(session.messages[index + 1])) {
+        console.log('');
+      }
+    });
+  }
+
+  /**
+   * メッセージを検索して一致箇所を表示
+   */
+  async search(query: string, limit: number): Promise<void> {
+    const results = (await this.historyRecorder.searchMessages(query))
+      .sort((a, b) => getLastActivity(b.session) - getLastActivity(a.session));
+
+    if (results.length === 0) {
+      console.log(`ℹ️  "${query}" に一致するメッセージはありません`);
+      return;
+    }
+
+    console.log(
+      `\n🔍 "${query}" の検索結果（${Math.min(results.length, limit)}/${results.length} 件）:`,
+    );
+    for (const { session, message } of results.slice(0, limit)) {
+      // 一致した箇所の前後を表示する
+      const start = message.content.toLowerCase().indexOf(query.toLowerCase());
+      const snippet = message.content.slice(Math.max(start - 40, 0), start + query.length + 60);
+      console.log(`\n  ${session.sessionId}  ${formatDate(message.timestamp)}  [${message.role}]`);
+      console.log(`    ${start > 40 ? '…' : ''}${truncate(snippet, COLLAPSED_LENGTH)}`);
+    }
+    console.log('');
+  }
+
+  /**
+   * セッションを削除
+   */
+  async delete(sessionIds: string[], yes: boolean): Promise<void> {
+    const sessions = await Promise.all(sessionIds.map((id) => this.findSession(id)));
+    if (!yes && !confirm(`${sessions.length} 件のセッションを削除しますか？`)) {
+      console.log('キャンセルしました');
+      return;
+    }
+
+    // 実行中のセッションは削除せずに残りの削除を続ける
+    for (const session of sessions) {
+      try {
+        await this.historyRecorder.deleteSession(session.sessionId);
+        console.log(`🗑️  ${session.sessionId} を削除しました`);
+      } catch (error) {
+        console.error(`⚠️  ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * 古いセッションをまとめて削除
+   * 条件を指定しない場合は設定の最大履歴保持数を超えた古いセッションを削除する
+   */
+  async prune(olderThanDays?: number, keep?: number): Promise<void> {
+    if (olderThanDays === undefined && keep === undefined) {
+      keep = (await this.configManager.getAppSettings()).maxHistoryCount;
+    }
+    const olderThan = olderThanDays !== undefined
+      ? new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000)
+      : undefined;
+
+    const deleted = await this.historyRecorder.pruneSessions({ olderThan, keep });
+    console.log(
+      deleted.length > 0
+        ? `🗑️  ${deleted.length} 件のセッションを削除しました`
+        : 'ℹ️  削除するセッションはありません',
+    );
+  }
+
+  /**
+   * セッションをファインチューニング用のデータセットとして出力（開始が古い順）
+   * 出力先を指定しない場合は標準出力に書き込み、結果の件数は標準エラー出力に表示する
+   */
+  async dataset(options: DatasetOptions): Promise<void> {
+    const format = DATASET_FORMATS.find((candidate) => candidate === options.format);
+    if (!format) {
+      throw new Error(
+        `形式が無効です: ${options.format}（${
+          DATASET_FORMATS.join(', ')
+        } のいずれかを指定してください）`,
+      );
+    }
+
+    const sessions = (await this.filterSessions(options))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    const redactors: DatasetRedactor[] = [];
+    if (options.redact) {
+      const settings = await this.configManager.getSecuritySettings();
+      const scanner = new SecretScanner({ ...settings.secrets, enabled: true });
+      redactors.push((text) => scanner.redact(text).text);
+    }
+    if (options.anonymizePaths) {
+      redactors.push(anonymizePaths);
+    }
+
+    const toolExecutor = new ToolExecutor(this.configManager);
+    const result = new DatasetExporter({
+      format,
+      onlySuccessful: options.successfulOnly,
+      includeSystemPrompt: options.systemPrompt,
+      deduplicate: options.dedupe,
+      redactors,
+      tools: toolExecutor.getToolSchemas(),
+      parameterLookup: (toolName) => toolExecutor.getTool(toolName)?.parameterDefinitions,
+    }).export(sessions);
+
+    if (options.output) {
+      await Deno.writeTextFile(options.output, result.content);
+    } else {
+      await Deno.stdout.write(new TextEncoder().encode(result.content));
+    }
+
+    const { unsuccessful, duplicate, empty } = result.skipped;
+    console.error(
+      `📦 ${result.exported} 件のセッションを出力しました` +
+        `（除外: 未成功 ${unsuccessful} 件、重複 ${duplicate} 件、応答なし ${empty} 件）` +
+        (options.output ? `: ${options.output}` : ''),
+    );
+  }
+
+  /**
+   * セッションの会話記録をMarkdownまたはHTMLで出力
+   * 出力先を指定しない場合は標準出力に書き込む
+   */
+  async exportTranscript(sessionId: string, format: string, output?: string): Promise<void> {
+    const transcriptFormat = TRANSCRIPT_FORMATS.find((candidate) => candidate === format);
+    if (!transcriptFormat) {
+      throw new Error(
+        `形式が無効です: ${format}（${
+          TRANSCRIPT_FORMATS.join(', ')
+        } のいずれかを指定してください）`,
+      );
+    }
+
+    const session = await this.findSession(sessionId);
+    const toolExecutor = new ToolExecutor(this.configManager);
+    const content = new TranscriptExporter({
+      format: transcriptFormat,
+      parameterLookup: (toolName) => toolExecutor.getTool(toolName)?.parameterDefinitions,
+    }).export(session);
+
+    if (output) {
+      await Deno.writeTextFile(output, content);
+      console.log(`📄 セッション ${session.sessionId} の会話記録を出力しました: ${output}`);
+    } else {
+      await Deno.stdout.write(new TextEncoder().encode(content));
+    }
+  }
+
+  /**
+   * 条件に一致するセッションを取得
+   */
+  private async filterSessions(filter: SessionFilter): Promise<SessionHistory[]> {
+    const since = filter.since ? parseDate(filter.since, '--since') : undefined;
+    const until = filter.until ? parseDate(filter.until, '--until') : undefined;
+    const directory = filter.here
+      ? Deno.cwd()
+      : filter.directory
+      ? resolve(filter.directory)
+      : undefined;
+
+    return (await this.historyRecorder.listSessions(Number.MAX_SAFE_INTEGER))
+      .filter((session) => {
+        const lastActivity = getLastActivity(session);
+        return (!since || lastActivity >= since.getTime()) &&
+          (!until || new Date(session.timestamp) <= until) &&
+          (!filter.model || session.model === filter.model) &&
+          (!directory || session.metadata?.workingDirectory === directory);
+      });
+  }
+
+  /**
+   * セッションIDまたはその先頭部分からセッションを取得
+   */
+  private async findSession(sessionId: string): Promise<SessionHistory> {
+    const session = await this.historyRecorder.getSession(sessionId);
+    if (session) {
+      return session;
+    }
+
+    const matches = (await this.historyRecorder.listSessions(Number.MAX_SAFE_INTEGER))
+      .filter((candidate) => candidate.sessionId.startsWith(sessionId));
+    if (matches.length === 1) {
+      return matches[0];
+    }
+    throw new Error(
+      matches.length === 0
+        ? `セッション ${sessionId} が見つかりません`
+        : `"${sessionId}" に一致するセッションが複数あります。IDをもっと長く指定してください`,
+    );
+  }
+}
+
+/**
+ * サブコマンドを実行し、エラーはメッセージを表示して終了する
+ */
+async function run(task: () => Promise<void>): Promise<void> {
+  try {
+    await task();
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    Deno.exit(1);
+  }
+}
+
+/**
+ * 履歴の閲覧・削除・出力を行う history サブコマンドを作成
+ */
+export function createHistoryCommand(configManager: ConfigManager) {
+  const browser = new HistoryBrowser(configManager);
+
+  return new Command()
+    .description('会話履歴の一覧・表示・検索・削除・データセット出力')
+    .action(function (this: Command) {
+      this.showHelp();
+    })
+    .command(
+      'list',
+      new Command()
+        .description('セッションの一覧を表示（最終更新が新しい順）')
+        .option('--since <date:string>', 'この日時以降に更新されたセッションのみ表示')
+        .option('--until <date:string>', 'この日時以前に開始されたセッションのみ表示')
+        .option('--model <model:string>', '指定したモデルのセッションのみ表示')
+        .option('--directory <path:string>', '指定したディレクトリで開始したセッションのみ表示')
+        .option('--here', '現在のディレクトリで開始したセッションのみ表示', {
+          conflicts: ['directory'],
+        })
+        .option('-n, --limit <count:integer>', '表示する件数', { default: DEFAULT_LIST_LIMIT })
+        .action((options: ListOptions) => run(() => browser.list(options))),
+    )
+    .command(
+      'show',
+      new Command()
+        .description('セッションの会話を表示（ツールの呼び出しと結果は1行に省略）')
+        .arguments('<sessionId:string>')
+        .option('--full', 'システムプロンプトとツールの呼び出し・結果を省略せずに表示')
+        .action((options: { full?: boolean }, sessionId: string) =>
+          run(() => browser.show(sessionId, !!options.full))
+        ),
+    )
+    .command(
+      'search',
+      new Command()
+        .description('すべてのセッションのメッセージを検索')
+        .arguments('<text:string>')
+        .option('-n, --limit <count:integer>', '表示する件数', { default: DEFAULT_LIST_LIMIT })
+        .action((options: { limit: number }, text: string) =>
+          run(() => browser.search(text, options.limit))
+        ),
+    )
+    .command(
+      'delete',
+      new Command()
+        .description('セッションを削除')
+        .arguments('<sessionIds...:string>')
+        .option('-y, --yes', '確認せずに削除')
+        .action((options: { yes?: boolean }, sessionIds: string[]) =>
+          run(() => browser.delete(sessionIds, !!options.yes))
+        ),
+    )
+    .command(
+      'prune',
+      new Command()
+        .description('古いセッションをまとめて削除（指定がない場合は最大履歴保持数を超えた分）')
+        .option('--older-than <days:integer>', '最終更新からこの日数が経過したセッションを削除')
+        .option('--keep <count:integer>', '新しい順にこの件数を残して削除')
+        .action((options: { olderThan?: number; keep?: number }) =>
+          run(() => browser.prune(options.olderThan, options.keep))
+        ),
+    )
+    .command(
+      'export',
+      new Command()
+        .description('セッションの会話記録をMarkdownまたは単一ファイルのHTMLで出力')
+        .arguments('<sessionId:string>')
+        .option(
+          '-f, --format <format:string>',
+          `出力形式（${TRANSCRIPT_FORMATS.join(', ')}）`,
+          { default: 'md' },
+        )
+        .option('-o, --output <path:string>', '出力先のファイル（指定しない場合は標準出力）')
+        .action((options: { format: string; output?: string }, sessionId: string) =>
+          run(() => browser.exportTranscript(sessionId, options.format, options.output))
+        ),
+    )
+    .command(
+      'dataset',
+      new Command()
+        .description('セッションをファインチューニング用のデータセットとして出力')
+        .option(
+          '-f, --format <format:string>',
+          `出力形式（${DATASET_FORMATS.join(', ')}）`,
+          { default: 'openai' },
+        )
+        .option('-o, --output <path:string>', '出力先のファイル（指定しない場合は標準出力）')
+        .option('--successful-only', '最後の respond_to_user が success のセッションのみ出力')
+        .option('--no-system-prompt', 'システムプロンプトを含めない')
+        .option('--no-dedupe', '同じ会話のセッションもすべて出力')
+        .option('--no-redact', '機密情報をマスクしない')
+        .option('--anonymize-paths', '作業ディレクトリとホームディレクトリのパスを置き換える')
+        .option('--since <date:string>', 'この日時以降に更新されたセッションのみ出力')
+        .option('--until <date:string>', 'この日時以前に開始されたセッションのみ出力')
+        .option('--model <model:string>', '指定したモデルのセッションのみ出力')
+        .option('--directory <path:string>', '指定したディレクトリで開始したセッションのみ出力')
+        .option('--here', '現在のディレクトリで開始したセッションのみ出力', {
+          conflicts: ['directory'],
+        })
+        .action((options: DatasetOptions) => run(() => browser.dataset(options))),
+    );
+}
@@ -0,0 +1,149 @@
+import { assert, assertEquals, assertRejects, assertStringIncludes } from '@std/assert';
+import { join } from '@std/path';
+import type { ConfigManager } from '../../../packages/core/config/manager.ts';
+import { HistoryRecorder } from '../../../packages/core/history/history_recorder.ts';
+import type { Message, SessionHistory } from '../../../packages/interfaces/history.ts';
+import { HistoryBrowser } from './history_command.ts';
+
+/**
+ * 一時ディレクトリを履歴ディレクトリとして、保存済みのセッションを用意して実行する
+ */
+async function withSessions(
+  sessions: SessionHistory[],
+  fn: (browser: HistoryBrowser, recorder: HistoryRecorder) => Promise<void>,
+): Promise<void> {
+  const historyDir = await Deno.makeTempDir();
+  const configManager = {
+    getHistoryDirectory: () => historyDir,
+    getSecuritySettings: () => Promise.resolve({ secrets: {} }),
+    getAppSettings: () => Promise.resolve({ maxHistoryCount: 2 }),
+  } as unknown as ConfigManager;
+  const recorder = new HistoryRecorder(configManager);
+  try {
+    for (const session of sessions) {
+      await recorder.exportSession(
+        session,
+        join(
+          historyDir,
+          'sessions',
+          session.timestamp.slice(0, 10),
+          `session_${session.sessionId}.json`,
+        ),
+      );
+    }
+    await fn(new HistoryBrowser(configManager), recorder);
+  } finally {
+    await Deno.remove(historyDir, { recursive: true });
+  }
+}
+
+/**
+ * 実行中に console.log へ出力された内容を取得
+ */
+async function captureOutput(fn: () => Promise<void>): Promise<string> {
+  const lines: string[] = [];
+  const log = console.log;
+  console.log = (...data: unknown[]) => lines.push(data.join(' '));
+  try {
+    await fn();
+  } finally {
+    console.log = log;
+  }
+  return lines.join('\n');
+}
+
+function createSession(
+  sessionId: string,
+  timestamp: string,
+  options: { model?: string; workingDirectory?: string; messages?: Omit<Message, 'timestamp'>[] } =
+    {},
+): SessionHistory {
+  return {
+    sessionId,
+    timestamp,
+    model: options.model ?? 'gpt-4',
+    messages: (options.messages ?? [{ role: 'user', content: `${sessionId} の依頼` }])
+      .map((message) => ({ ...message, timestamp })),
+    metadata: { workingDirectory: options.workingDirectory ?? '/work/a' },
+  };
+}
+
+const sessions = [
+  createSession('alpha-1', '2025-01-01T00:00:00.000Z'),
+  createSession('alpha-2', '2025-02-01T00:00:00.000Z', { model: 'claude' }),
+  createSession('beta-1', '2025-03-01T00:00:00.000Z', { workingDirectory: '/work/b' }),
+];
+
+Deno.test('HistoryBrowser.list: モデル・ディレクトリ・期間で絞り込み、新しい順に表示する', async () => {
+  await withSessions(sessions, async (browser) => {
+    const ids = async (options: Parameters<HistoryBrowser['list']>[0]) =>
+      [...(await captureOutput(() => browser.list(options))).matchAll(/^ {2}(\S+)/gm)]
+        .map(([, id]) => id);
+
+    assertEquals(await ids({ limit: 20 }), ['beta-1', 'alpha-2', 'alpha-1']);
+    assertEquals(await ids({ limit: 1 }), ['beta-1']);
+    assertEquals(await ids({ limit: 20, model: 'claude' }), ['alpha-2']);
+    assertEquals(await ids({ limit: 20, directory: '/work/b' }), ['beta-1']);
+    assertEquals(await ids({ limit: 20, since: '2025-01-15', until: '2025-02-15' }), ['alpha-2']);
+    assertStringIncludes(
+      await captureOutput(() => browser.list({ limit: 20, model: 'none' })),
+      '該当するセッションはありません',
+    );
+    await assertRejects(() => browser.list({ limit: 20, since: 'yesterday' }), Error, '--since');
+  });
+});
+
+Deno.test('HistoryBrowser.show: IDの先頭部分が1件のみに一致する場合に表示する', async () => {
+  await withSessions(sessions, async (browser) => {
+    assertStringIncludes(await captureOutput(() => browser.show('beta', false)), 'beta-1 の依頼');
+    assertStringIncludes(
+      await captureOutput(() => browser.show('alpha-1', false)),
+      'セッション alpha-1',
+    );
+    await assertRejects(() => browser.show('alpha', false), Error, '複数あります');
+    await assertRejects(() => browser.show('gamma', false), Error, '見つかりません');
+  });
+});
+
+Deno.test('HistoryBrowser.search: 一致した箇所の前後を表示する', async () => {
+  const long = createSession('long-1', '2025-01-01T00:00:00.000Z', {
+    messages: [
+      { role: 'system', content: 'needle in the system prompt' },
+      { role: 'user', content: `${'x'.repeat(100)} needle ${'y'.repeat(100)}` },
+    ],
+  });
+  await withSessions([long], async (browser) => {
+    const output = await captureOutput(() => browser.search('NEEDLE', 20));
+
+    assertStringIncludes(output, '（1/1 件）');
+    assertStringIncludes(output, '[user]');
+    assertStringIncludes(output, `…${'x'.repeat(39)} needle y`);
+    assert(!output.includes('x'.repeat(40)));
+    assertStringIncludes(
+      await captureOutput(() => browser.search('missing', 20)),
+      'に一致するメッセージはありません',
+    );
+  });
+});
+
+Deno.test('HistoryBrowser.prune: 件数・期間を指定して古いセッションを削除する', async () => {
+  const old = createSession('old-1', '2000-01-01T00:00:00.000Z');
+  await withSessions([old, ...sessions], async (browser, recorder) => {
+    const remaining = async () =>
+      (await recorder.listSessions()).map((session) => session.sessionId).sort();
+
+    // 条件を指定しない場合は設定の最大履歴保持数（2件）を残す
+    await captureOutput(() => browser.prune());
+    assertEquals(await remaining(), ['alpha-2', 'beta-1']);
+
+    await captureOutput(() => browser.prune(undefined, 1));
+    assertEquals(await remaining(), ['beta-1']);
+
+    await captureOutput(() => browser.prune(1));
+    assertEquals(await remaining(), []);
+    assertStringIncludes(
+      await captureOutput(() => browser.prune(1)),
+      '削除するセッションはありません',
+    );
+  });
+});
@@ -7,6 +7,7 @@ import { SessionManager } from '../../packages/core/session/session_manager.ts';
 import { ChatEngine } from '../../packages/core/chat/chat_engine.ts';
 import { CommandHandler } from './commands/command_handler.ts';
 import { InputHandler } from './prompt/input_handler.ts';
+import { createHistoryCommand } from './commands/history_command.ts';
 
 /**
  * メインアプリケーションクラス
@@ -31,11 +32,17 @@ class MinocApp {
       this.configManager,
       this.historyRecorder,
       this.progressManager,
+      this.toolExecutor.getProcessRegistry(),
     );
     this.chatEngine = new ChatEngine(
       this.toolExecutor,
       this.historyRecorder,
       this.progressManager,
+      async (text, stream) => {
+        await (stream === 'stderr' ? Deno.stderr : Deno.stdout).write(
+          new TextEncoder().encode(text),
+        );
+      },
     );
     this.commandHandler = new CommandHandler(this.toolExecutor);
     this.inputHandler = new InputHandler(this.chatEngine, this.commandHandler);
@@ -50,15 +57,35 @@ class MinocApp {
 
   /**
    * 対話セッションを開始
+   * @param resume 再開するセッション（latest の場合は現在のディレクトリで最後に使用したセッション）
    */
-  async startChat(model?: string, apiKey?: string): Promise<void> {
+  async startChat(
+    model?: string,
+    apiKey?: string,
+    resume?: { sessionId: string | 'latest'; refreshSystemPrompt: boolean },
+  ): Promise<void> {
     try {
-      // セッションを開始
-      const { sessionId, openaiClient } = await this.sessionManager.startChat(model, apiKey);
+      // セッションを開始（指定された場合は保存済みのセッションを再開）
+      let resumeId = resume?.sessionId;
+      if (resumeId === 'latest') {
+        resumeId = await this.sessionManager.findLatestSessionId() ?? undefined;
+        if (!resumeId) {
+          throw new Error('このディレクトリで再開できるセッションが見つかりません');
+        }
+      }
+      const { sessionId, llmClient } = resumeId
+        ? await this.sessionManager.resumeChat(
+          resumeId,
+          model,
+          apiKey,
+          resume!.refreshSystemPrompt,
+        )
+        : await this.sessionManager.startChat(model, apiKey);
 
       // ChatEngineに必要な情報を設定
       this.chatEngine.setCurrentSession(sessionId);
-      this.chatEngine.setOpenAIClient(openaiClient);
+      this.commandHandler.setCurrentSession(sessionId);
+      this.chatEngine.setLLMClient(llmClient);
 
       // 対話ループを開始
       await this.inputHandler.startChatLoop();
@@ -70,6 +97,42 @@ class MinocApp {
     }
   }
 
+  /**
+   * 設定管理クラスを取得
+   */
+  getConfigManager(): ConfigManager {
+    return this.configManager;
+  }
+
+  /**
+   * 有効な設定値とその設定元を表示
+   */
+  async showConfig(): Promise<void> {
+    const projectFiles = await this.configManager.getProjectConfigFiles();
+    console.log(`🗂️  グローバル設定: ${this.configManager.getConfigDirectory()}`);
+    for (const file of projectFiles) {
+      console.log(`📁 プロジェクト設定: ${file.path}`);
+    }
+
+    const configs: [string, () => Promise<unknown>][] = [
+      ['settings.toml', () => this.configManager.getAppSettings()],
+      ['permissions.toml', () => this.configManager.getPermissionSettings()],
+      ['models.toml', () => this.configManager.getModelSettings()],
+      ['security.toml', () => this.configManager.getSecuritySettings()],
+      ['debug.toml', () => this.configManager.getDebugSettings()],
+    ];
+    for (const [filename, load] of configs) {
+      await load();
+      console.log(`\n[${filename}]`);
+      for (const { key, value, sources } of this.configManager.getConfigSources(filename)) {
+        // APIキーは表示しない
+        const display = /apiKey$/i.test(key) ? '********' : JSON.stringify(value);
+        console.log(`  ${key} = ${display}`);
+        console.log(`      ← ${sources.join(', ')}`);
+      }
+    }
+  }
+
   /**
    * JSONバックアップファイルをクリーンアップ
    */
@@ -96,10 +159,19 @@ async function main() {
     .version('0.1.0')
     .description('Minoc - LLMエージェント PC操作支援ツール')
     .option('-m, --model <model:string>', 'LLMモデル名')
-    .option('-k, --api-key <key:string>', 'OpenAI APIキー')
+    .option('-k, --api-key <key:string>', 'LLM APIキー')
     .option('--init', '設定を初期化')
     .option('--cleanup-json', 'JSONバックアップファイルを削除')
-    .option('--allow-all-permissions', 'すべての権限要求をスキップして全て許可する')
+    .option(
+      '--allow-all-permissions',
+      'すべての権限要求をスキップして全て許可する（再帰削除など承認が必須の操作を除く）',
+    )
+    .option('--resume <sessionId:string>', '保存済みのセッションを再開')
+    .option('--continue', 'このディレクトリで最後に使用したセッションを再開', {
+      conflicts: ['resume'],
+    })
+    .option('--refresh-prompt', '再開時にシステムプロンプトのディレクトリ構造などを最新にする')
+    .option('--show-config', '有効な設定値と、それぞれを設定したファイルを表示')
     .action(async (options) => {
       if (options.allowAllPermissions) {
         app.setSkipAllApprovals(true);
@@ -109,6 +181,12 @@ async function main() {
         return;
       }
 
+      if (options.showConfig) {
+        await app.initialize();
+        await app.showConfig();
+        return;
+      }
+
       if (options.cleanupJson) {
         await app.initialize();
         await app.cleanupJsonBackups();
@@ -117,8 +195,16 @@ async function main() {
       }
 
       await app.initialize();
-      await app.startChat(options.model, options.apiKey);
+      const resumeId = options.continue ? 'latest' : options.resume;
+      await app.startChat(
+        options.model,
+        options.apiKey,
+        resumeId
+          ? { sessionId: resumeId, refreshSystemPrompt: !!options.refreshPrompt }
+          : undefined,
+      );
     })
+    .command('history', createHistoryCommand(app.getConfigManager()))
     .parse(Deno.args);
 }
 
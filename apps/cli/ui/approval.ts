@@ -1,5 +1,16 @@
-import type { ToolCallRequest } from '../../../packages/interfaces/tool.ts';
+import { extname } from '@std/path';
+import type {
+  FileChangePreview,
+  Tool,
+  ToolCallRequest,
+  ToolExecutionContext,
+  ToolParameters,
+} from '../../../packages/interfaces/tool.ts';
 import type { PermissionResult } from '../../../packages/core/permission/permission_manager.ts';
+import { describeRule } from '../../../packages/core/permission/permission_rules.ts';
+import type { PermissionRule } from '../../../packages/core/config/types.ts';
+import { createUnifiedDiff } from '../../../packages/core/tools/diff.ts';
+import { splitArguments } from '../../../packages/core/tools/shell_utils.ts';
 
 /**
  * 承認選択肢
@@ -12,6 +23,66 @@ export type ApprovalChoice = 'allow_once' | 'allow_always' | 'deny';
 export interface ApprovalResult {
   choice: ApprovalChoice;
   remember: boolean;
+  /** ユーザーが変更内容を編集した場合の実行パラメータ */
+  modifiedParameters?: ToolParameters;
+  /** allow_always の場合に追加する許可ルール */
+  rule?: PermissionRule;
+}
+
+/**
+ * 承認画面に差分を表示する最小の行数（端末の高さが取得できない場合もこの行数）
+ */
+const MIN_DIFF_PREVIEW_LINES = 40;
+
+/**
+ * ANSIカラーで装飾（端末以外への出力や NO_COLOR 指定時は装飾しない）
+ */
+function color(text: string, code: string): string {
+  if (Deno.env.get('NO_COLOR') || !Deno.stdout.isTerminal()) {
+    return text;
+  }
+  return `\x1b[${code}m${text}\x1b[0m`;
+}
+
+/**
+ * 変更内容を色付きの unified diff の行に整形
+ */
+export function formatChangePreviews(previews: FileChangePreview[]): string[] {
+  const lines: string[] = [];
+  for (const { path, before, after } of previews) {
+    if (before === null) {
+      lines.push(color(`📄 新規作成: ${path}`, '1'));
+    } else if (after === null) {
+      lines.push(color(`🗑️  削除: ${path}`, '1'));
+    } else {
+      lines.push(color(`✏️  変更: ${path}`, '1'));
+    }
+
+    const diff = createUnifiedDiff(
+      before === null ? '/dev/null' : `a/${path}`,
+      after === null ? '/dev/null' : `b/${path}`,
+      before ?? '',
+      after ?? '',
+    );
+    if (diff === '') {
+      lines.push('   (内容に変更はありません)');
+      continue;
+    }
+    for (const line of diff.replace(/\n$/, '').split('\n')) {
+      if (line.startsWith('+++') || line.startsWith('---')) {
+        lines.push(color(line, '1'));
+      } else if (line.startsWith('@@')) {
+        lines.push(color(line, '36'));
+      } else if (line.startsWith('+')) {
+        lines.push(color(line, '32'));
+      } else if (line.startsWith('-')) {
+        lines.push(color(line, '31'));
+      } else {
+        lines.push(line);
+      }
+    }
+  }
+  return lines;
 }
 
 /**
@@ -24,6 +95,8 @@ export class ApprovalManager {
   async requestApproval(
     toolCall: ToolCallRequest,
     permissionResult: PermissionResult,
+    tool?: Tool,
+    context?: ToolExecutionContext,
   ): Promise<ApprovalResult> {
     console.log('\n🔐 ツール実行の承認が必要です');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
@@ -50,25 +123,64 @@ export class ApprovalManager {
       }
     }
 
+    // ファイルを変更するツールは現在の内容との差分を表示
+    let parameters = toolCall.parameters;
+    let modifiedParameters: ToolParameters | undefined;
+    let previews = await this.loadPreviews(tool, parameters, context);
+    let diff = formatChangePreviews(previews);
+    const diffShown = diff.length > 0 && this.showDiff(diff);
+    const canEdit = previews.length === 1 && previews[0].after !== null &&
+      tool?.withEditedContent !== undefined;
+
     console.log('\n選択肢:');
     console.log('  1) 今回だけ許可 (allow_once)');
-    console.log('  2) 永続的に許可 (allow_always)');
+    const rule = permissionResult.suggestedRule;
+    if (rule) {
+      console.log(`  2) 同様の呼び出しを常に許可 (allow_always): ${describeRule(rule)}`);
+    }
     console.log('  3) 拒否 (deny)');
+    if (diff.length > 0 && !diffShown) {
+      console.log('  d) 差分全体をページャーで表示');
+    }
+    if (canEdit) {
+      console.log('  e) 変更後の内容をエディタで編集してから承認');
+    }
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
 
     while (true) {
       const input = await this.getUserInput('選択してください (1-3): ');
 
-      switch (input.trim()) {
+      switch (input.trim().toLowerCase()) {
         case '1':
-          return { choice: 'allow_once', remember: false };
+          return { choice: 'allow_once', remember: false, modifiedParameters };
         case '2':
-          return { choice: 'allow_always', remember: true };
+          if (!rule) break;
+          return { choice: 'allow_always', remember: true, modifiedParameters, rule };
         case '3':
           return { choice: 'deny', remember: false };
-        default:
-          console.log('❌ 無効な選択です。1-3の数字を入力してください。');
+        case 'd':
+          if (diff.length === 0) break;
+          await this.showInPager(diff.join('\n') + '\n');
+          continue;
+        case 'e': {
+          if (!canEdit) break;
+          const edited = await this.editInEditor(previews[0].path, previews[0].after!);
+          if (edited === null || edited === previews[0].after) {
+            console.log('ℹ️  内容は変更されませんでした');
+            continue;
+          }
+          parameters = await tool!.withEditedContent!(parameters, edited, context);
+          modifiedParameters = parameters;
+          previews = [{ ...previews[0], after: edited }];
+          diff = formatChangePreviews(previews);
+          if (!this.showDiff(diff)) {
+            console.log('  d) 差分全体をページャーで表示');
+          }
+          console.log('✏️  編集した内容で承認できます（1 または 2 を選択してください）');
+          continue;
+        }
       }
+      console.log('❌ 無効な選択です。1-3の数字を入力してください。');
     }
   }
 
@@ -96,6 +208,111 @@ export class ApprovalManager {
     }
   }
 
+  /**
+   * ツールからファイルの変更内容を取得（取得できない場合は表示しない）
+   */
+  private async loadPreviews(
+    tool: Tool | undefined,
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<FileChangePreview[]> {
+    if (!tool?.previewChanges) {
+      return [];
+    }
+    try {
+      return await tool.previewChanges(parameters, context);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 差分を表示（長い場合は先頭だけを表示）
+   * @returns 差分全体を表示した場合true
+   */
+  private showDiff(lines: string[]): boolean {
+    let limit = MIN_DIFF_PREVIEW_LINES;
+    try {
+      limit = Math.max(limit, Deno.consoleSize().rows - 15);
+    } catch {
+      // 端末でない場合は既定の行数
+    }
+
+    console.log('🔍 変更内容:');
+    console.log(lines.slice(0, limit).join('\n'));
+    if (lines.length <= limit) {
+      return true;
+    }
+    console.log(`... (残り ${lines.length - limit} 行は d で表示できます)`);
+    return false;
+  }
+
+  /**
+   * テキストをページャーで表示（起動できない場合はそのまま出力）
+   */
+  private async showInPager(text: string): Promise<void> {
+    const pager = Deno.env.get('PAGER') || (Deno.build.os === 'windows' ? 'more' : 'less -R');
+    const [program, ...args] = splitArguments(pager);
+
+    let child: Deno.ChildProcess;
+    try {
+      child = new Deno.Command(program, {
+        args,
+        stdin: 'piped',
+        stdout: 'inherit',
+        stderr: 'inherit',
+      }).spawn();
+    } catch {
+      console.log(text);
+      return;
+    }
+
+    const writer = child.stdin.getWriter();
+    try {
+      await writer.write(new TextEncoder().encode(text));
+      await writer.close();
+    } catch {
+      // 途中でページャーが終了した場合は残りを捨てる
+    }
+    await child.status;
+  }
+
+  /**
+   * 内容をエディタ（$VISUAL または $EDITOR）で編集
+   * @returns 編集後の内容（エディタを起動できなかった場合はnull）
+   */
+  private async editInEditor(path: string, content: string): Promise<string | null> {
+    const editor = Deno.env.get('VISUAL') || Deno.env.get('EDITOR') ||
+      (Deno.build.os === 'windows' ? 'notepad' : 'vi');
+    const [program, ...args] = splitArguments(editor);
+
+    // 拡張子を合わせてエディタのシンタックスハイライトを効かせる
+    const tempFile = await Deno.makeTempFile({ prefix: 'minoc-', suffix: extname(path) });
+    try {
+      await Deno.writeTextFile(tempFile, content);
+      const status = await new Deno.Command(program, {
+        args: [...args, tempFile],
+        stdin: 'inherit',
+        stdout: 'inherit',
+        stderr: 'inherit',
+      }).spawn().status;
+      if (!status.success) {
+        console.log(`❌ エディタが異常終了しました (終了コード: ${status.code})`);
+        return null;
+      }
+      return await Deno.readTextFile(tempFile);
+    } catch (error) {
+      console.log(
+        `❌ エディタを起動できませんでした (${editor}): ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+      return null;
+    } finally {
+      await Deno.remove(tempFile).catch(() => {});
+    }
+  }
+
   /**
    * ユーザー入力を取得
    */
@@ -141,9 +358,19 @@ export class ApprovalManager {
     const descriptions: Record<string, string> = {
       'read_file': 'ファイルの内容を読み込みます',
       'write_to_file': 'ファイルに内容を書き込みます（ファイルを変更・作成）',
+      'edit_file': 'ファイル内のテキストを置換します（ファイルを変更）',
+      'apply_patch': 'パッチを適用します（ファイルを変更・作成・削除）',
       'create_directory': 'ディレクトリを作成します',
+      'delete_path': 'ファイルまたはディレクトリを削除します（元に戻せません）',
+      'move_path': 'ファイルまたはディレクトリを移動・名前変更します',
+      'copy_path': 'ファイルまたはディレクトリをコピーします',
       'search_files': 'ファイルパターンに基づいてファイルを検索します',
       'execute_command': 'シェルコマンドを実行します（システムを変更する可能性）',
+      'start_process': 'コマンドをバックグラウンドで起動します（システムを変更する可能性）',
+      'send_process_input': 'バックグラウンドプロセスに入力を送信します',
+      'stop_process': 'バックグラウンドプロセスを停止します',
+      'git_commit': 'Gitリポジトリにコミットを作成します（履歴に残ります）',
+      'set_env': '以降に実行するコマンドの環境変数を設定します',
     };
 
     return descriptions[toolName] || '不明なツール';
@@ -192,7 +419,7 @@ export class ApprovalManager {
       case 'allow_once':
         return '今回だけ許可';
       case 'allow_always':
-        return '永続的に許可';
+        return '同様の呼び出しを常に許可';
       case 'deny':
         return '拒否';
       default:
@@ -0,0 +1,59 @@
+import { assertEquals } from '@std/assert';
+import { formatChangePreviews } from './approval.ts';
+
+/**
+ * 端末への出力でも装飾しないようにして実行する
+ */
+function withoutColor(fn: () => void): void {
+  const noColor = Deno.env.get('NO_COLOR');
+  Deno.env.set('NO_COLOR', '1');
+  try {
+    fn();
+  } finally {
+    if (noColor === undefined) {
+      Deno.env.delete('NO_COLOR');
+    } else {
+      Deno.env.set('NO_COLOR', noColor);
+    }
+  }
+}
+
+Deno.test('formatChangePreviews: 変更・新規作成・削除を unified diff で表示する', () => {
+  withoutColor(() => {
+    assertEquals(
+      formatChangePreviews([
+        { path: 'src/a.ts', before: 'one\ntwo\n', after: 'one\n2\n' },
+        { path: 'new.txt', before: null, after: 'hello\n' },
+        { path: 'old.txt', before: 'bye\n', after: null },
+      ]),
+      [
+        '✏️  変更: src/a.ts',
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1,2 +1,2 @@',
+        ' one',
+        '-two',
+        '+2',
+        '📄 新規作成: new.txt',
+        '--- /dev/null',
+        '+++ b/new.txt',
+        '@@ -0,0 +1 @@',
+        '+hello',
+        '🗑️  削除: old.txt',
+        '--- a/old.txt',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-bye',
+      ],
+    );
+  });
+});
+
+Deno.test('formatChangePreviews: 内容が同じ場合は変更がないことを表示する', () => {
+  withoutColor(() => {
+    assertEquals(formatChangePreviews([{ path: 'a.txt', before: 'same\n', after: 'same\n' }]), [
+      '✏️  変更: a.txt',
+      '   (内容に変更はありません)',
+    ]);
+  });
+});
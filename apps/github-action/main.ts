@@ -8,7 +8,8 @@
 import { ChatEngine } from '../../packages/core/chat/chat_engine.ts';
 import { ConfigManager } from '../../packages/core/config/manager.ts';
 import { HistoryRecorder } from '../../packages/core/history/history_recorder.ts';
-import { OpenAIClient } from '../../packages/core/llm/openai_client.ts';
+import { createLLMClient } from '../../packages/core/llm/client_factory.ts';
+import type { LLMClient } from '../../packages/core/llm/llm_client.ts';
 import { ToolExecutor } from '../../packages/core/tools/tool_executor.ts';
 import { SessionManager } from '../../packages/core/session/session_manager.ts';
 import type { AgentConfig } from '../../packages/interfaces/agent.ts';
@@ -20,7 +21,7 @@ export class MinocGitHubAction {
   private configManager: ConfigManager;
   private toolExecutor: ToolExecutor;
   private historyRecorder: HistoryRecorder;
-  private openaiClient: OpenAIClient;
+  private llmClient: LLMClient;
   private chatEngine: ChatEngine;
   private sessionManager: SessionManager;
 
@@ -39,11 +40,25 @@ export class MinocGitHubAction {
       top_p: undefined,
       max_tokens: undefined,
     };
-    this.openaiClient = new OpenAIClient(dummyConfig);
+    this.llmClient = createLLMClient(dummyConfig);
 
     // ProgressManagerは不要なのでデフォルトのNoOpProgressManagerを使用
-    this.sessionManager = new SessionManager(this.configManager, this.historyRecorder);
-    this.chatEngine = new ChatEngine(this.toolExecutor, this.historyRecorder);
+    this.sessionManager = new SessionManager(
+      this.configManager,
+      this.historyRecorder,
+      undefined,
+      this.toolExecutor.getProcessRegistry(),
+    );
+    this.chatEngine = new ChatEngine(
+      this.toolExecutor,
+      this.historyRecorder,
+      undefined,
+      async (text, stream) => {
+        await (stream === 'stderr' ? Deno.stderr : Deno.stdout).write(
+          new TextEncoder().encode(text),
+        );
+      },
+    );
   }
 
   /**
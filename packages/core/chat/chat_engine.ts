@@ -1,10 +1,24 @@
-import type { Message } from '../../interfaces/history.ts';
+import type { Message, ToolResponseMetadata } from '../../interfaces/history.ts';
 import { ToolExecutor } from '../tools/tool_executor.ts';
+import { describeRule } from '../permission/permission_rules.ts';
 import { HistoryRecorder } from '../history/history_recorder.ts';
-import { OpenAIClient } from '../llm/openai_client.ts';
+import type {
+  ChatCompletionOptions,
+  ChatCompletionResponse,
+  LLMClient,
+  NativeToolCall,
+} from '../llm/llm_client.ts';
 import type { IProgressManager } from '../../interfaces/progress.ts';
 import { NoOpProgressManager } from '../../interfaces/progress.ts';
-import type { ToolExecutionContext } from '../../interfaces/tool.ts';
+import type { ToolCallRequest, ToolResult } from '../../interfaces/tool.ts';
+import { ToolCallStreamFilter } from './tool_call_stream_filter.ts';
+import { ContextManager, DEFAULT_CONTEXT_WINDOW, estimateTokens } from './context_manager.ts';
+
+/**
+ * ストリーミング応答やコマンドの出力の表示先
+ * streamにはコマンドの出力元が渡される（指定がない場合はLLMの応答）
+ */
+export type StreamOutput = (text: string, stream?: 'stdout' | 'stderr') => Promise<void> | void;
 
 /**
  * 対話エンジンクラス
@@ -14,24 +28,29 @@ export class ChatEngine {
   private toolExecutor: ToolExecutor;
   private historyRecorder: HistoryRecorder;
   private progressManager: IProgressManager;
-  private openaiClient?: OpenAIClient;
+  private streamOutput: StreamOutput;
+  private contextManager: ContextManager = new ContextManager();
+  private llmClient?: LLMClient;
   private currentSessionId?: string;
 
   constructor(
     toolExecutor: ToolExecutor,
     historyRecorder: HistoryRecorder,
     progressManager?: IProgressManager,
+    streamOutput?: StreamOutput,
   ) {
     this.toolExecutor = toolExecutor;
     this.historyRecorder = historyRecorder;
     this.progressManager = progressManager || new NoOpProgressManager();
+    // 表示先の指定がない場合はストリーミング応答を表示しない
+    this.streamOutput = streamOutput ?? (() => {});
   }
 
   /**
-   * OpenAIクライアントを設定
+   * LLMクライアントを設定
    */
-  setOpenAIClient(client: OpenAIClient): void {
-    this.openaiClient = client;
+  setLLMClient(client: LLMClient): void {
+    this.llmClient = client;
   }
 
   /**
@@ -45,7 +64,7 @@ export class ChatEngine {
    * ユーザーメッセージを処理
    */
   async processUserMessage(message: string): Promise<void> {
-    if (!this.openaiClient || !this.currentSessionId) {
+    if (!this.llmClient || !this.currentSessionId) {
       throw new Error('ChatEngineが適切に初期化されていません');
     }
 
@@ -77,69 +96,73 @@ export class ChatEngine {
           throw new Error('セッション情報の取得に失敗しました');
         }
 
-        const response = await this.progressManager.withProgress(
-          'LLMから応答を取得中',
-          () => this.openaiClient!.chatCompletion(session.messages),
+        const nativeMode = this.llmClient!.getConfig().toolCallMode === 'native';
+        const options = nativeMode ? { tools: this.toolExecutor.getToolSchemas() } : {};
+        const startTime = Date.now();
+        const response = await this.requestCompletion(
+          this.compactMessages(session.messages, options),
+          options,
         );
+        const durationMs = Date.now() - startTime;
 
         // LLMからの出力をassistantとして記録
         await this.historyRecorder.recordMessage(this.currentSessionId!, {
           role: 'assistant',
           content: response.content,
           timestamp: new Date().toISOString(),
-          metadata: { usage: response.usage },
+          metadata: response.toolCalls
+            ? { usage: response.usage, durationMs, toolCalls: response.toolCalls }
+            : { usage: response.usage, durationMs },
         });
 
-        // 応答メッセージ内の <tool_call> ブロックを抽出
-        const allToolCalls = [...response.content.matchAll(/<tool_call>[\s\S]*?<\/tool_call>/g)];
-        if (allToolCalls.length > 1) {
-          // 複数ツール呼び出しエラーを即座に返す
-          await this.historyRecorder.recordMessage(this.currentSessionId!, {
-            role: 'user',
-            content:
-              `<tool_response>{"success": false, "error": "複数のツールを同時に呼び出すことはできません"}</tool_response>`,
-            timestamp: new Date().toISOString(),
-          });
-          continue;
-        } else if (allToolCalls.length === 1) {
-          const block = allToolCalls[0][0];
-          const parsed = this.toolExecutor.parseXmlToolCall(block);
-          if (parsed) {
-            const toolExecuted = await this.handleToolCall({
-              toolName: parsed.toolName,
-              parameters: parsed.parameters,
-            }, block);
-            // respond_to_user ツールが正常に実行された場合はループを終了
-            if (toolExecuted && parsed.toolName === 'respond_to_user') {
-              break;
-            }
+        // ネイティブ関数呼び出しモードの場合は tool_calls を処理
+        if (nativeMode) {
+          const finished = await this.handleNativeToolCalls(response.toolCalls ?? []);
+          if (finished) {
+            break;
           }
           continue;
-        } else {
-          // ツール呼び出しがない場合は警告メッセージを返してループ継続
-          const warningMessage =
-            `ツールを呼び出してください。ユーザーへの応答を表示する場合は respond_to_user ツールを使用してください。
-
-利用可能なツール:
-- respond_to_user: ユーザーに回答や情報を表示
-- read_file: ファイルを読み込み
-- write_to_file: ファイルに書き込み
-- execute_command: コマンドを実行
-- list_directory: ディレクトリ内容を一覧表示
-- search_files: ファイルを検索
-- read_files: 複数ファイルを一括読み込み
-- create_directory: ディレクトリを作成
-
-必ずいずれかのツールを呼び出してください。`;
+        }
 
-          await this.historyRecorder.recordMessage(this.currentSessionId!, {
-            role: 'user',
-            content: warningMessage,
-            timestamp: new Date().toISOString(),
-            metadata: { warning: 'no_tool_call' },
+        // 応答メッセージ内の <tool_call> ブロックをパース
+        const parsed = this.toolExecutor.parseXmlToolCall(response.content);
+        if (parsed.status === 'none') {
+          // ツール呼び出しがない場合は警告メッセージを返してループ継続
+          await this.recordNoToolCallWarning();
+          continue;
+        }
+        if (parsed.status === 'incomplete') {
+          await this.recordToolResponse({}, {
+            success: false,
+            error: 'ツール呼び出しが </tool_call> で閉じられていません',
           });
           continue;
         }
+        if (parsed.status === 'error') {
+          // パースエラーの位置をモデルに返して再試行を促す
+          await this.recordToolResponse({}, {
+            success: false,
+            error: `ツール呼び出しのパースに失敗しました: ${parsed.message}`,
+          });
+          continue;
+        }
+        if (response.content.includes('<tool_call>', parsed.end)) {
+          // 複数ツール呼び出しエラーを即座に返す
+          await this.recordToolResponse({}, {
+            success: false,
+            error: '複数のツールを同時に呼び出すことはできません',
+          });
+          continue;
+        }
+
+        const toolExecuted = await this.handleToolCall({
+          toolName: parsed.toolName,
+          parameters: parsed.parameters,
+        }, response.content.slice(parsed.start, parsed.end));
+        // respond_to_user ツールが正常に実行された場合はループを終了
+        if (toolExecuted && parsed.toolName === 'respond_to_user') {
+          break;
+        }
       } catch (error) {
         const errorMessage = (error && typeof error === 'object' && 'message' in error)
           ? (error as { message: string }).message
@@ -156,12 +179,181 @@ export class ChatEngine {
     }
   }
 
+  /**
+   * 送信するメッセージをコンテキスト予算内に圧縮
+   * 履歴には元のメッセージが残り、リクエストペイロードのみを圧縮する
+   */
+  private compactMessages(messages: Message[], options: ChatCompletionOptions): Message[] {
+    const config = this.llmClient!.getConfig();
+    const contextWindow = config.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+    const toolSchemaTokens = options.tools ? estimateTokens(JSON.stringify(options.tools)) : 0;
+    const budget = contextWindow - (config.max_tokens ?? 0) - toolSchemaTokens;
+
+    const result = this.contextManager.compact(messages, budget);
+    if (result.compacted) {
+      console.log(
+        `📦 コンテキストを圧縮しました (推定 ${result.estimatedTokens} / ${budget} トークン、` +
+          `ツール結果 ${result.elidedToolResponses} 件を要約、${result.droppedMessages} 件を省略)`,
+      );
+    }
+    return result.messages;
+  }
+
+  /**
+   * ネイティブ関数呼び出しの tool_calls を処理
+   * @returns respond_to_user ツールが正常に実行された場合true
+   */
+  private async handleNativeToolCalls(toolCalls: NativeToolCall[]): Promise<boolean> {
+    if (toolCalls.length === 0) {
+      await this.recordNoToolCallWarning();
+      return false;
+    }
+
+    if (toolCalls.length > 1) {
+      // すべての tool_call_id に応答する必要があるため、個別にエラーを返す
+      for (const toolCall of toolCalls) {
+        await this.recordToolResponse({ id: toolCall.id, toolName: toolCall.name }, {
+          success: false,
+          error: '複数のツールを同時に呼び出すことはできません',
+        });
+      }
+      return false;
+    }
+
+    const toolCall = toolCalls[0];
+    let parameters: Record<string, unknown>;
+    try {
+      parameters = toolCall.arguments.trim() === '' ? {} : JSON.parse(toolCall.arguments);
+    } catch (error) {
+      await this.recordToolResponse({ id: toolCall.id, toolName: toolCall.name }, {
+        success: false,
+        error: `ツール引数のJSONを解析できません: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      });
+      return false;
+    }
+
+    const toolExecuted = await this.handleToolCall({
+      id: toolCall.id,
+      toolName: toolCall.name,
+      parameters,
+    });
+    return toolExecuted && toolCall.name === 'respond_to_user';
+  }
+
+  /**
+   * ツール呼び出しがない場合の警告メッセージを記録
+   */
+  private async recordNoToolCallWarning(): Promise<void> {
+    const toolList = this.toolExecutor.listTools()
+      .map((tool) => `- ${tool.name}: ${tool.description}`)
+      .join('\n');
+    const warningMessage =
+      `ツールを呼び出してください。ユーザーへの応答を表示する場合は respond_to_user ツールを使用してください。
+
+利用可能なツール:
+${toolList}
+
+必ずいずれかのツールを呼び出してください。`;
+
+    await this.historyRecorder.recordMessage(this.currentSessionId!, {
+      role: 'user',
+      content: warningMessage,
+      timestamp: new Date().toISOString(),
+      metadata: { warning: 'no_tool_call' },
+    });
+  }
+
+  /**
+   * ツール実行結果を記録
+   * ネイティブ関数呼び出しの場合は tool ロール、XML形式の場合は <tool_response> として記録する
+   * @param details 承認結果や実行時間などメタデータに記録する情報
+   */
+  private async recordToolResponse(
+    toolCall: { id?: string; toolName?: string },
+    result: ToolResult,
+    details: Omit<ToolResponseMetadata, 'toolCallId' | 'toolName'> = {},
+  ): Promise<void> {
+    // 機密情報はJSONに変換する前にマスクする（エスケープされた改行などで検出漏れしないように）
+    const scanner = await this.toolExecutor.getPermissionManager().getSecurityManager()
+      .getSecretScanner();
+    const { value: redacted, count } = scanner.redactValue(result);
+    if (count > 0) {
+      console.log(`🔒 ツール結果に含まれる機密情報を ${count} 件マスクしました`);
+    }
+    const payload = JSON.stringify(redacted);
+
+    if (toolCall.id) {
+      await this.historyRecorder.recordMessage(this.currentSessionId!, {
+        role: 'tool',
+        content: payload,
+        timestamp: new Date().toISOString(),
+        metadata: { toolCallId: toolCall.id, toolName: toolCall.toolName, ...details },
+      });
+      return;
+    }
+
+    await this.historyRecorder.recordMessage(this.currentSessionId!, {
+      role: 'user',
+      content: `<tool_response>${payload}</tool_response>`,
+      timestamp: new Date().toISOString(),
+      metadata: toolCall.toolName ? { toolName: toolCall.toolName, ...details } : undefined,
+    });
+  }
+
+  /**
+   * LLMから応答を取得（設定に応じてストリーミングで逐次表示）
+   */
+  private async requestCompletion(
+    messages: Message[],
+    options: ChatCompletionOptions,
+  ): Promise<ChatCompletionResponse> {
+    if (this.llmClient!.getConfig().stream === false) {
+      return this.progressManager.withProgress(
+        'LLMから応答を取得中',
+        () => this.llmClient!.chatCompletion(messages, options),
+      );
+    }
+
+    const stream = this.llmClient!.chatCompletionStream(messages, options);
+    const filter = new ToolCallStreamFilter();
+
+    // 最初のトークンを受信するまではプログレス表示を行う
+    let next = await this.progressManager.withProgress(
+      'LLMから応答を取得中',
+      () => stream.next(),
+    );
+
+    while (!next.done) {
+      const event = next.value;
+      if (event.type === 'done') {
+        const rest = filter.flush();
+        if (rest) {
+          await this.streamOutput(rest);
+        }
+        if (filter.content.trim().length > 0) {
+          await this.streamOutput('\n');
+        }
+        return event.response;
+      }
+
+      const displayText = filter.push(event.content);
+      if (displayText) {
+        await this.streamOutput(displayText);
+      }
+      next = await stream.next();
+    }
+
+    throw new Error('ストリーミング応答が完了しませんでした');
+  }
+
   /**
    * ツール呼び出しを処理
    * @returns ツール実行が成功した場合true、失敗・拒否された場合false
    */
   private async handleToolCall(
-    toolCall: { toolName: string; parameters: Record<string, unknown> },
+    toolCall: ToolCallRequest,
     xmlString?: string,
   ): Promise<boolean> {
     if (!this.currentSessionId) return false;
@@ -173,79 +365,89 @@ export class ChatEngine {
 
     if (!permissionResult.allowed) {
       console.log(`❌ ツール実行が拒否されました: ${permissionResult.reason}`);
-      await this.historyRecorder.recordMessage(this.currentSessionId, {
-        role: 'user',
-        content:
-          `<tool_response>{"success": false, "error": "${permissionResult.reason}"}</tool_response>`,
-        timestamp: new Date().toISOString(),
-      });
+      await this.recordToolResponse(toolCall, {
+        success: false,
+        error: permissionResult.reason,
+      }, { approval: 'blocked' });
       return false;
     }
 
+    // コマンドの出力は実行中に表示先へ逐次渡す（受け取った順に表示されるよう直列に書き込む）
+    let pendingOutput: Promise<void> = Promise.resolve();
+    let endsWithNewline = true;
+    const context = await this.toolExecutor.createExecutionContext(
+      this.currentSessionId,
+      (chunk, stream) => {
+        pendingOutput = pendingOutput.then(() => this.streamOutput(chunk, stream));
+        endsWithNewline = chunk.endsWith('\n');
+      },
+    );
+    let editedByUser = false;
+    let approvalDecision: ToolResponseMetadata['approval'] = 'auto';
+
     // 承認が必要な場合（ApprovalManagerは外部から注入される必要がある）
     if (permissionResult.requiresApproval) {
       // この部分は後で外部からの依存注入に変更する
       const { ApprovalManager } = await import('../../../apps/cli/ui/approval.ts');
       const approvalManager = new ApprovalManager();
 
-      const approval = await approvalManager.requestApproval(toolCall, permissionResult);
+      const approval = await approvalManager.requestApproval(
+        toolCall,
+        permissionResult,
+        this.toolExecutor.getTool(toolCall.toolName),
+        context,
+      );
 
       if (approval.choice === 'deny') {
         console.log('❌ ユーザーによって実行が拒否されました');
 
-        await this.historyRecorder.recordMessage(this.currentSessionId, {
-          role: 'user',
-          content:
-            `<tool_response>{"success": false, "error": "ツール実行がユーザーによって拒否されました"}</tool_response>`,
-          timestamp: new Date().toISOString(),
-        });
+        await this.recordToolResponse(toolCall, {
+          success: false,
+          error: 'ツール実行がユーザーによって拒否されました',
+        }, { approval: 'deny' });
 
         return false;
       }
 
-      // 永続許可の場合は設定を更新
-      if (approval.choice === 'allow_always') {
+      approvalDecision = approval.choice;
+
+      // 永続許可の場合は許可ルールを追加
+      if (approval.choice === 'allow_always' && approval.rule) {
         const permissionManager = this.toolExecutor.getPermissionManager();
-        await permissionManager.addToPermanentlyAllowed(toolCall.toolName);
+        await permissionManager.addAllowRule(approval.rule);
+        console.log(`✅ 許可ルールを追加しました: ${describeRule(approval.rule)}`);
+      }
+
+      // ユーザーが編集した内容で実行する
+      if (approval.modifiedParameters) {
+        toolCall = { ...toolCall, parameters: approval.modifiedParameters };
+        editedByUser = true;
       }
     }
 
     // ツールを実行
     console.log('⚙️  ツールを実行中...');
 
-    const context: ToolExecutionContext = {
-      workingDirectory: Deno.cwd(),
-      environment: Deno.env.toObject(),
-      sessionId: this.currentSessionId,
-      timestamp: new Date(),
-    };
-
+    const startTime = Date.now();
     const result = await this.toolExecutor.executeTool(toolCall, context);
-
-    // stdout と stderr を最大 100 行に制限
-    if (
-      toolCall.toolName === 'execute_command' && result.success && result.data &&
-      typeof (result.data as any).stdout === 'string'
-    ) {
-      const data = result.data as any;
-      const stdoutLines = data.stdout.split('\n');
-      if (stdoutLines.length > 100) {
-        data.stdout = stdoutLines.slice(0, 100).join('\n') + '\n...[省略]...';
-      }
-      if (typeof data.stderr === 'string') {
-        const stderrLines = data.stderr.split('\n');
-        if (stderrLines.length > 100) {
-          data.stderr = stderrLines.slice(0, 100).join('\n') + '\n...[省略]...';
-        }
-      }
+    const durationMs = Date.now() - startTime;
+    await pendingOutput;
+    if (!endsWithNewline) {
+      console.log();
+    }
+    if (editedByUser) {
+      // 提案とは異なる内容が書き込まれたことをLLMに伝える
+      result.output =
+        `ユーザーが変更内容を編集してから承認しました。ファイルの内容は提案と異なります\n${
+          result.output ?? ''
+        }`;
     }
 
     // ツール実行結果をJSONで記録してLLMに詳細データを渡す
-    const payload = JSON.stringify(result);
-    await this.historyRecorder.recordMessage(this.currentSessionId, {
-      role: 'user',
-      content: `<tool_response>${payload}</tool_response>`,
-      timestamp: new Date().toISOString(),
+    await this.recordToolResponse(toolCall, result, {
+      approval: approvalDecision,
+      edited: editedByUser || undefined,
+      durationMs,
     });
 
     // 結果を表示
@@ -0,0 +1,221 @@
+import type { Message } from '../../interfaces/history.ts';
+
+/**
+ * コンテキストウィンドウ未設定時の既定値（トークン数）
+ */
+export const DEFAULT_CONTEXT_WINDOW = 128000;
+
+/**
+ * メッセージごとのオーバーヘッド（ロール情報などの推定トークン数）
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * 圧縮オプション
+ */
+export interface ContextCompactionOptions {
+  /** 圧縮対象外とする直近のメッセージ数 */
+  keepRecentMessages: number;
+  /** 古いassistantメッセージを切り詰める際に残す文字数 */
+  maxAssistantChars: number;
+}
+
+/**
+ * 圧縮結果
+ */
+export interface ContextCompactionResult {
+  messages: Message[];
+  /** 圧縮が行われたかどうか */
+  compacted: boolean;
+  /** 圧縮後の推定トークン数 */
+  estimatedTokens: number;
+  /** 省略されたツール結果の数 */
+  elidedToolResponses: number;
+  /** 削除された古いメッセージの数 */
+  droppedMessages: number;
+}
+
+/**
+ * テキストのトークン数を推定
+ * 正確なトークナイザーは使わず、英数字は約4文字、CJK文字は約1文字で1トークンとみなす
+ */
+export function estimateTokens(text: string): number {
+  let asciiChars = 0;
+  let wideChars = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 0x2e80) {
+      asciiChars++;
+    } else {
+      wideChars++;
+    }
+  }
+  return Math.ceil(asciiChars / 4) + wideChars;
+}
+
+/**
+ * メッセージのトークン数を推定
+ */
+export function estimateMessageTokens(message: Message): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content);
+  const toolCalls = message.metadata?.toolCalls as Array<{ arguments?: string }> | undefined;
+  for (const toolCall of toolCalls ?? []) {
+    tokens += estimateTokens(toolCall.arguments ?? '');
+  }
+  return tokens;
+}
+
+/**
+ * メッセージ一覧のトークン数を推定
+ */
+export function estimateMessagesTokens(messages: Message[]): number {
+  return messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+}
+
+/**
+ * コンテキスト管理クラス
+ * 送信するメッセージがコンテキスト予算を超える場合に、古いツール結果から順に圧縮する
+ * 履歴に記録された元のメッセージは変更せず、送信用のコピーのみを圧縮する
+ */
+export class ContextManager {
+  private options: ContextCompactionOptions;
+
+  constructor(options: Partial<ContextCompactionOptions> = {}) {
+    this.options = {
+      keepRecentMessages: 6,
+      maxAssistantChars: 2000,
+      ...options,
+    };
+  }
+
+  /**
+   * メッセージ一覧を予算内に収まるよう圧縮
+   * @param budget 入力に使用できるトークン数
+   */
+  compact(messages: Message[], budget: number): ContextCompactionResult {
+    const working = messages.map((message) => ({ ...message }));
+    let estimatedTokens = estimateMessagesTokens(working);
+    const result: ContextCompactionResult = {
+      messages: working,
+      compacted: false,
+      estimatedTokens,
+      elidedToolResponses: 0,
+      droppedMessages: 0,
+    };
+
+    if (estimatedTokens <= budget) {
+      return result;
+    }
+
+    // システムプロンプトと直近のメッセージは保護する
+    const protectedStart = working[0]?.role === 'system' ? 1 : 0;
+    const recentStart = Math.max(protectedStart, working.length - this.options.keepRecentMessages);
+
+    // 段階1: 古いツール結果のペイロードを要約に置き換える
+    for (let i = protectedStart; i < recentStart && estimatedTokens > budget; i++) {
+      const elided = this.elideToolResponse(working[i]);
+      if (elided) {
+        estimatedTokens += estimateMessageTokens(elided) - estimateMessageTokens(working[i]);
+        working[i] = elided;
+        result.elidedToolResponses++;
+      }
+    }
+
+    // 段階2: 古いassistantメッセージ（書き込み内容を含むツール呼び出しなど）を切り詰める
+    for (let i = protectedStart; i < recentStart && estimatedTokens > budget; i++) {
+      const message = working[i];
+      if (message.role === 'assistant' && message.content.length > this.options.maxAssistantChars) {
+        const truncated = {
+          ...message,
+          content: message.content.slice(0, this.options.maxAssistantChars) +
+            `\n...[コンテキスト節約のため ${
+              message.content.length - this.options.maxAssistantChars
+            } 文字を省略]`,
+        };
+        estimatedTokens += estimateMessageTokens(truncated) - estimateMessageTokens(message);
+        working[i] = truncated;
+      }
+    }
+
+    // 段階3: それでも超える場合は古いメッセージから削除する
+    let dropEnd = protectedStart;
+    while (estimatedTokens > budget && dropEnd < recentStart) {
+      estimatedTokens -= estimateMessageTokens(working[dropEnd]);
+      dropEnd++;
+    }
+    // tool ロールのメッセージが対応するツール呼び出しなしで残らないようにする
+    while (dropEnd < working.length - 1 && working[dropEnd].role === 'tool') {
+      estimatedTokens -= estimateMessageTokens(working[dropEnd]);
+      dropEnd++;
+    }
+
+    if (dropEnd > protectedStart) {
+      result.droppedMessages = dropEnd - protectedStart;
+      const notice: Message = {
+        role: 'user',
+        content:
+          `[コンテキスト節約のため、以前の会話 ${result.droppedMessages} 件は省略されました]`,
+        timestamp: working[dropEnd - 1].timestamp,
+        metadata: { compacted: true },
+      };
+      working.splice(protectedStart, result.droppedMessages, notice);
+      estimatedTokens += estimateMessageTokens(notice);
+    }
+
+    result.messages = working;
+    result.compacted = true;
+    result.estimatedTokens = estimatedTokens;
+    return result;
+  }
+
+  /**
+   * ツール結果メッセージのペイロードを要約に置き換える
+   * @returns 置き換え後のメッセージ、ツール結果でない場合はnull
+   */
+  private elideToolResponse(message: Message): Message | null {
+    if (message.metadata?.compacted) {
+      return null;
+    }
+
+    let payload: string;
+    if (message.role === 'tool') {
+      payload = message.content;
+    } else if (message.role === 'user') {
+      const match = message.content.match(/^<tool_response>([\s\S]*)<\/tool_response>$/);
+      if (!match) {
+        return null;
+      }
+      payload = match[1];
+    } else {
+      return null;
+    }
+
+    const summary = JSON.stringify(this.summarizePayload(payload));
+    if (summary.length >= payload.length) {
+      return null;
+    }
+
+    return {
+      ...message,
+      content: message.role === 'tool' ? summary : `<tool_response>${summary}</tool_response>`,
+      metadata: { ...message.metadata, compacted: true },
+    };
+  }
+
+  /**
+   * ツール結果のJSONから詳細データを除き、成否と概要のみを残す
+   */
+  private summarizePayload(payload: string): Record<string, unknown> {
+    const summary: Record<string, unknown> = {};
+    try {
+      const parsed = JSON.parse(payload) as Record<string, unknown>;
+      summary.success = parsed.success;
+      if (parsed.output !== undefined) summary.output = parsed.output;
+      if (parsed.error !== undefined) summary.error = parsed.error;
+    } catch {
+      // JSONでない場合は概要のみ
+    }
+    summary.elided =
+      `コンテキスト節約のため詳細データ (${payload.length} 文字) を省略しました。必要であれば再取得してください`;
+    return summary;
+  }
+}
@@ -0,0 +1,73 @@
+import { assert, assertEquals, assertStringIncludes } from '@std/assert';
+import type { Message } from '../../interfaces/history.ts';
+import { ContextManager, estimateMessagesTokens, estimateTokens } from './context_manager.ts';
+
+function message(role: Message['role'], content: string): Message {
+  return { role, content, timestamp: '2025-01-01T00:00:00.000Z' };
+}
+
+function toolResponse(data: string): Message {
+  return message(
+    'user',
+    `<tool_response>${
+      JSON.stringify({ success: true, data: { content: data }, output: 'ファイルを読み込みました' })
+    }</tool_response>`,
+  );
+}
+
+Deno.test('estimateTokens: 英数字とCJK文字で異なる比率で推定する', () => {
+  assertEquals(estimateTokens('abcdefgh'), 2);
+  assertEquals(estimateTokens('日本語'), 3);
+  assertEquals(estimateTokens(''), 0);
+});
+
+Deno.test('ContextManager: 予算内であればメッセージを変更しない', () => {
+  const messages = [message('system', 'system'), message('user', 'hello')];
+  const result = new ContextManager().compact(messages, 1000);
+
+  assertEquals(result.compacted, false);
+  assertEquals(result.messages, messages);
+});
+
+Deno.test('ContextManager: 古いツール結果から要約し、システムプロンプトと直近の会話を保持する', () => {
+  const messages = [
+    message('system', 'system prompt'),
+    message('user', '調べてください'),
+    message('assistant', '<tool_call><read_file><path>a.ts</path></read_file></tool_call>'),
+    toolResponse('x'.repeat(4000)),
+    message('assistant', '<tool_call><read_file><path>b.ts</path></read_file></tool_call>'),
+    toolResponse('y'.repeat(4000)),
+    message('assistant', '<tool_call><read_file><path>c.ts</path></read_file></tool_call>'),
+    toolResponse('z'.repeat(400)),
+  ];
+  const original = structuredClone(messages);
+
+  const result = new ContextManager({ keepRecentMessages: 3 }).compact(messages, 1500);
+
+  assert(result.compacted);
+  assertEquals(result.droppedMessages, 0);
+  assertEquals(result.messages.length, messages.length);
+  assertEquals(result.messages[0], messages[0]);
+  assertStringIncludes(result.messages[3].content, '省略');
+  assertStringIncludes(result.messages[3].content, 'ファイルを読み込みました');
+  assertEquals(result.messages.slice(-3), messages.slice(-3));
+  assert(estimateMessagesTokens(result.messages) <= 1500);
+  // 元のメッセージ（履歴）は変更されない
+  assertEquals(messages, original);
+});
+
+Deno.test('ContextManager: 要約で足りない場合は古いメッセージを削除して通知を挿入する', () => {
+  const messages = [
+    message('system', 'system prompt'),
+    message('user', 'a'.repeat(4000)),
+    message('assistant', 'b'.repeat(1000)),
+    message('user', '最新の質問'),
+  ];
+
+  const result = new ContextManager({ keepRecentMessages: 1 }).compact(messages, 200);
+
+  assertEquals(result.droppedMessages, 2);
+  assertEquals(result.messages[0], messages[0]);
+  assertStringIncludes(result.messages[1].content, '以前の会話 2 件は省略されました');
+  assertEquals(result.messages[2], messages[3]);
+});
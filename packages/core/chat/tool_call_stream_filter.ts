@@ -0,0 +1,72 @@
+const TOOL_CALL_OPEN = '<tool_call>';
+
+/**
+ * ストリーミング応答の表示用フィルター
+ * <tool_call> ブロックより前のテキストのみを逐次表示する
+ */
+export class ToolCallStreamFilter {
+  private text = '';
+  private displayedLength = 0;
+  private toolCallStart = -1;
+
+  /**
+   * 受信したテキストを追加し、新たに表示可能になったテキストを返す
+   */
+  push(delta: string): string {
+    this.text += delta;
+
+    if (this.toolCallStart === -1) {
+      const start = this.text.indexOf(TOOL_CALL_OPEN);
+      if (start !== -1) {
+        this.toolCallStart = start;
+        return this.take(start);
+      }
+
+      // タグの途中で分割されている可能性がある末尾は保留する
+      return this.take(this.text.length - this.partialTagLength());
+    }
+
+    return '';
+  }
+
+  /**
+   * ストリーム終了時に保留中のテキストを返す
+   */
+  flush(): string {
+    if (this.toolCallStart !== -1) {
+      return '';
+    }
+    return this.take(this.text.length);
+  }
+
+  /**
+   * これまでに受信したテキスト全体
+   */
+  get content(): string {
+    return this.text;
+  }
+
+  /**
+   * 指定位置までの未表示テキストを取り出す
+   */
+  private take(end: number): string {
+    if (end <= this.displayedLength) {
+      return '';
+    }
+    const chunk = this.text.slice(this.displayedLength, end);
+    this.displayedLength = end;
+    return chunk;
+  }
+
+  /**
+   * 末尾が <tool_call> の先頭部分と一致する長さを返す
+   */
+  private partialTagLength(): number {
+    for (let length = Math.min(TOOL_CALL_OPEN.length - 1, this.text.length); length > 0; length--) {
+      if (this.text.endsWith(TOOL_CALL_OPEN.slice(0, length))) {
+        return length;
+      }
+    }
+    return 0;
+  }
+}
@@ -0,0 +1,31 @@
+import { assertEquals } from '@std/assert';
+import { ToolCallStreamFilter } from './tool_call_stream_filter.ts';
+
+Deno.test('ToolCallStreamFilter: <tool_call> より前のテキストのみを表示する', () => {
+  const filter = new ToolCallStreamFilter();
+
+  assertEquals(filter.push('ファイルを読み'), 'ファイルを読み');
+  assertEquals(filter.push('込みます\n<tool_call><read_file>'), '込みます\n');
+  assertEquals(filter.push('<path>a.ts</path></read_file></tool_call>'), '');
+  assertEquals(filter.flush(), '');
+  assertEquals(
+    filter.content,
+    'ファイルを読み込みます\n<tool_call><read_file><path>a.ts</path></read_file></tool_call>',
+  );
+});
+
+Deno.test('ToolCallStreamFilter: チャンクの境界で分割されたタグを表示しない', () => {
+  const filter = new ToolCallStreamFilter();
+
+  assertEquals(filter.push('確認します<to'), '確認します');
+  assertEquals(filter.push('ol_'), '');
+  assertEquals(filter.push('call><list_directory>'), '');
+  assertEquals(filter.flush(), '');
+
+  // タグではなかった場合は保留したテキストを表示する
+  const text = new ToolCallStreamFilter();
+  assertEquals(text.push('a <to'), 'a ');
+  assertEquals(text.push('p> b'), '<top> b');
+  assertEquals(text.push('<'), '');
+  assertEquals(text.flush(), '<');
+});
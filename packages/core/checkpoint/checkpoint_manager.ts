@@ -0,0 +1,286 @@
+import { dirname, join, resolve } from '@std/path';
+import { ensureDir, exists } from '@std/fs';
+import { ConfigManager } from '../config/manager.ts';
+import type { AffectedPath } from '../../interfaces/tool.ts';
+
+/**
+ * 1つのチェックポイントに記録するパスの上限
+ */
+const MAX_CHECKPOINT_ENTRIES = 1000;
+
+/**
+ * 1つのチェックポイントに保存するファイル内容の合計サイズの上限
+ */
+const MAX_CHECKPOINT_BYTES = 50 * 1024 * 1024;
+
+/**
+ * チェックポイントに記録したパスの変更前の状態
+ */
+export interface CheckpointEntry {
+  /** 絶対パス */
+  path: string;
+  /** 変更前の種類（存在しなかった場合は missing） */
+  type: 'file' | 'directory' | 'symlink' | 'missing';
+  /** ファイル内容を保存したファイル名 */
+  blob?: string;
+  /** ファイルのパーミッション */
+  mode?: number;
+  /** シンボリックリンクのリンク先 */
+  target?: string;
+}
+
+/**
+ * チェックポイント（ツール実行前のファイルの状態）
+ */
+export interface Checkpoint {
+  id: number;
+  sessionId: string;
+  timestamp: string;
+  toolName: string;
+  /** ツールに指定された対象のパス */
+  paths: string[];
+  entries: CheckpointEntry[];
+}
+
+/**
+ * 復元結果
+ */
+export interface RestoreResult {
+  /** 取り消したチェックポイント（新しい順） */
+  reverted: Checkpoint[];
+  /** 内容を元に戻したファイル */
+  restored: string[];
+  /** 新しく作成されていたため削除したパス */
+  removed: string[];
+}
+
+/**
+ * チェックポイントの操作エラー
+ */
+export class CheckpointError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CheckpointError';
+  }
+}
+
+/**
+ * チェックポイント管理クラス
+ * ファイルを変更するツールの実行前に対象の内容を保存し、セッション内の任意の時点に戻せるようにする
+ */
+export class CheckpointManager {
+  private configManager: ConfigManager;
+
+  constructor(configManager: ConfigManager) {
+    this.configManager = configManager;
+  }
+
+  /**
+   * 対象パスの現在の状態を保存してチェックポイントを作成
+   * ディレクトリは存在のみを記録し、recursive の場合だけ中のファイルも保存する
+   * @throws {CheckpointError} 記録するパスの数や内容のサイズが上限を超えた場合（チェックポイントは作成しない）
+   */
+  async createCheckpoint(
+    sessionId: string,
+    toolName: string,
+    paths: AffectedPath[],
+  ): Promise<Checkpoint> {
+    const checkpoints = await this.listCheckpoints(sessionId);
+    const id = (checkpoints.at(-1)?.id ?? 0) + 1;
+    const blobDir = join(this.getSessionDirectory(sessionId), String(id));
+    await ensureDir(blobDir);
+
+    const entries: CheckpointEntry[] = [];
+    const seen = new Set<string>();
+    let totalBytes = 0;
+    const addEntry = (entry: CheckpointEntry, size = 0) => {
+      totalBytes += size;
+      if (entries.length >= MAX_CHECKPOINT_ENTRIES || totalBytes > MAX_CHECKPOINT_BYTES) {
+        throw new CheckpointError(
+          '対象のファイルが多すぎるため、チェックポイントを作成しませんでした' +
+            `（上限: ${MAX_CHECKPOINT_ENTRIES} 件、${MAX_CHECKPOINT_BYTES / 1024 / 1024}MB）`,
+        );
+      }
+      entries.push(entry);
+    };
+
+    const snapshot = async (path: string, recursive: boolean) => {
+      if (seen.has(path)) return;
+      seen.add(path);
+
+      let info: Deno.FileInfo;
+      try {
+        info = await Deno.lstat(path);
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+          // 途中で作成される親ディレクトリも取り消せるよう、存在しない最上位のパスを記録する
+          let missing = path;
+          while (dirname(missing) !== missing && !await exists(dirname(missing))) {
+            missing = dirname(missing);
+          }
+          if (missing === path || !seen.has(missing)) {
+            seen.add(missing);
+            addEntry({ path: missing, type: 'missing' });
+          }
+          return;
+        }
+        throw error;
+      }
+
+      if (info.isDirectory) {
+        addEntry({ path, type: 'directory' });
+        if (recursive) {
+          for await (const entry of Deno.readDir(path)) {
+            await snapshot(join(path, entry.name), true);
+          }
+        }
+      } else if (info.isFile) {
+        const blob = String(entries.length);
+        addEntry({ path, type: 'file', blob, mode: info.mode ?? undefined }, info.size);
+        await Deno.copyFile(path, join(blobDir, blob));
+      } else if (info.isSymlink) {
+        addEntry({ path, type: 'symlink', target: await Deno.readLink(path) });
+      }
+    };
+
+    // コピー・移動で既存のディレクトリの下に新しく作成されるパスを記録する
+    const recordCreated = async (source: string, destination: string) => {
+      for await (const entry of Deno.readDir(source)) {
+        const target = join(destination, entry.name);
+        const info = await Deno.lstat(target).catch(() => null);
+        if (!info) {
+          await snapshot(target, false);
+        } else if (info.isDirectory && entry.isDirectory) {
+          await recordCreated(join(source, entry.name), target);
+        }
+      }
+    };
+
+    try {
+      for (const { path, recursive, source } of paths) {
+        await snapshot(resolve(path), recursive ?? false);
+        if (source && (await Deno.stat(source).catch(() => null))?.isDirectory) {
+          const destination = resolve(path);
+          if ((await Deno.stat(destination).catch(() => null))?.isDirectory) {
+            await recordCreated(resolve(source), destination);
+          }
+        }
+      }
+    } catch (error) {
+      await Deno.remove(blobDir, { recursive: true }).catch(() => {});
+      throw error;
+    }
+
+    const checkpoint: Checkpoint = {
+      id,
+      sessionId,
+      timestamp: new Date().toISOString(),
+      toolName,
+      paths: paths.map(({ path }) => path),
+      entries,
+    };
+    checkpoints.push(checkpoint);
+    await this.saveIndex(sessionId, checkpoints);
+    return checkpoint;
+  }
+
+  /**
+   * セッションのチェックポイント一覧を取得（古い順）
+   */
+  async listCheckpoints(sessionId: string): Promise<Checkpoint[]> {
+    const indexPath = join(this.getSessionDirectory(sessionId), 'index.json');
+    if (!await exists(indexPath)) {
+      return [];
+    }
+    return JSON.parse(await Deno.readTextFile(indexPath)) as Checkpoint[];
+  }
+
+  /**
+   * 指定したチェックポイントを作成する直前の状態に戻す
+   * それ以降のチェックポイントも新しい順に取り消して削除する
+   */
+  async restore(sessionId: string, checkpointId: number): Promise<RestoreResult> {
+    const checkpoints = await this.listCheckpoints(sessionId);
+    const index = checkpoints.findIndex((checkpoint) => checkpoint.id === checkpointId);
+    if (index === -1) {
+      throw new CheckpointError(`チェックポイントが見つかりません: ${checkpointId}`);
+    }
+
+    const reverted = checkpoints.slice(index).reverse();
+    const restored = new Set<string>();
+    const removed = new Set<string>();
+
+    for (const checkpoint of reverted) {
+      const blobDir = join(this.getSessionDirectory(sessionId), String(checkpoint.id));
+
+      const remove = async (path: string) => {
+        await Deno.remove(path, { recursive: true });
+        removed.add(path);
+        restored.delete(path);
+      };
+
+      // 親ディレクトリが子より先に並んでいるため、記録順に戻せばよい
+      // 削除するのはツールが新しく作成したパス（missing）のみで、ディレクトリ内の記録していない中身は残す
+      for (const entry of checkpoint.entries) {
+        const current = await Deno.lstat(entry.path).catch(() => null);
+
+        if (entry.type === 'missing') {
+          if (current) await remove(entry.path);
+          continue;
+        }
+
+        if (entry.type === 'directory') {
+          if (current && !current.isDirectory) await remove(entry.path);
+          await ensureDir(entry.path);
+          continue;
+        }
+
+        if (current && (current.isDirectory || entry.type === 'symlink')) {
+          await remove(entry.path);
+        }
+        await ensureDir(dirname(entry.path));
+        if (entry.type === 'symlink') {
+          await Deno.symlink(entry.target!, entry.path);
+        } else {
+          if (current?.isSymlink) await Deno.remove(entry.path);
+          await Deno.copyFile(join(blobDir, entry.blob!), entry.path);
+          if (entry.mode !== undefined && Deno.build.os !== 'windows') {
+            await Deno.chmod(entry.path, entry.mode & 0o777);
+          }
+        }
+        removed.delete(entry.path);
+        restored.add(entry.path);
+      }
+
+      await Deno.remove(blobDir, { recursive: true }).catch(() => {});
+    }
+
+    await this.saveIndex(sessionId, checkpoints.slice(0, index));
+    return { reverted, restored: [...restored], removed: [...removed] };
+  }
+
+  /**
+   * 最新のチェックポイントを取り消す
+   * @returns チェックポイントがない場合はnull
+   */
+  async undo(sessionId: string): Promise<RestoreResult | null> {
+    const latest = (await this.listCheckpoints(sessionId)).at(-1);
+    return latest ? await this.restore(sessionId, latest.id) : null;
+  }
+
+  /**
+   * セッションのチェックポイントの保存先
+   */
+  private getSessionDirectory(sessionId: string): string {
+    return join(this.configManager.getCheckpointsDirectory(), sessionId);
+  }
+
+  /**
+   * チェックポイント一覧を保存
+   */
+  private async saveIndex(sessionId: string, checkpoints: Checkpoint[]): Promise<void> {
+    const sessionDir = this.getSessionDirectory(sessionId);
+    await ensureDir(sessionDir);
+    await Deno.writeTextFile(join(sessionDir, 'index.json'), JSON.stringify(checkpoints, null, 2));
+  }
+}
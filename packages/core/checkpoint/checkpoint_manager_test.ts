@@ -0,0 +1,140 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { exists } from '@std/fs';
+import { join } from '@std/path';
+import type { ConfigManager } from '../config/manager.ts';
+import { CheckpointError, CheckpointManager } from './checkpoint_manager.ts';
+
+const withTempDirs = async (
+  fn: (manager: CheckpointManager, workDir: string) => Promise<void>,
+) => {
+  const storeDir = await Deno.makeTempDir();
+  const workDir = await Deno.makeTempDir();
+  const configManager = { getCheckpointsDirectory: () => storeDir } as unknown as ConfigManager;
+  try {
+    await fn(new CheckpointManager(configManager), workDir);
+  } finally {
+    await Deno.remove(storeDir, { recursive: true });
+    await Deno.remove(workDir, { recursive: true });
+  }
+};
+
+Deno.test('CheckpointManager: 編集・削除・新規作成をまとめて取り消す', async () => {
+  await withTempDirs(async (manager, workDir) => {
+    const edited = join(workDir, 'edited.txt');
+    const deleted = join(workDir, 'dir', 'deleted.txt');
+    const created = join(workDir, 'new', 'created.txt');
+    await Deno.writeTextFile(edited, 'before');
+    await Deno.mkdir(join(workDir, 'dir'));
+    await Deno.writeTextFile(deleted, 'keep me');
+
+    await manager.createCheckpoint('s1', 'edit_file', [{ path: edited }]);
+    await Deno.writeTextFile(edited, 'after');
+    await manager.createCheckpoint('s1', 'delete_path', [
+      { path: join(workDir, 'dir'), recursive: true },
+    ]);
+    await Deno.remove(join(workDir, 'dir'), { recursive: true });
+    await manager.createCheckpoint('s1', 'write_to_file', [{ path: created }]);
+    await Deno.mkdir(join(workDir, 'new'));
+    await Deno.writeTextFile(created, 'new');
+
+    assertEquals((await manager.listCheckpoints('s1')).map((c) => c.id), [1, 2, 3]);
+
+    const result = await manager.restore('s1', 1);
+
+    assertEquals(result.reverted.map((c) => c.id), [3, 2, 1]);
+    assertEquals(await Deno.readTextFile(edited), 'before');
+    assertEquals(await Deno.readTextFile(deleted), 'keep me');
+    assertEquals(await exists(join(workDir, 'new')), false);
+    assertEquals(result.removed, [join(workDir, 'new')]);
+    assertEquals(await manager.listCheckpoints('s1'), []);
+  });
+});
+
+Deno.test('CheckpointManager: undo は最新のチェックポイントだけを取り消す', async () => {
+  await withTempDirs(async (manager, workDir) => {
+    const file = join(workDir, 'file.txt');
+    await manager.createCheckpoint('s1', 'write_to_file', [{ path: file }]);
+    await Deno.writeTextFile(file, 'v1');
+    await manager.createCheckpoint('s1', 'edit_file', [{ path: file }]);
+    await Deno.writeTextFile(file, 'v2');
+
+    await manager.undo('s1');
+    assertEquals(await Deno.readTextFile(file), 'v1');
+    assertEquals((await manager.listCheckpoints('s1')).map((c) => c.id), [1]);
+
+    await manager.undo('s1');
+    assertEquals(await exists(file), false);
+    assertEquals(await manager.undo('s1'), null);
+  });
+});
+
+Deno.test('CheckpointManager: 存在しないチェックポイントの復元はエラー', async () => {
+  await withTempDirs(async (manager) => {
+    await assertRejects(() => manager.restore('s1', 1), CheckpointError);
+  });
+});
+
+Deno.test('CheckpointManager: チェックポイント作成後に作成された無関係なファイルは取り消しで削除しない', async () => {
+  await withTempDirs(async (manager, workDir) => {
+    const dir = join(workDir, 'dir');
+    await Deno.mkdir(dir);
+
+    const checkpoint = await manager.createCheckpoint('s1', 'write_to_file', [
+      { path: dir },
+      { path: join(dir, 'new.txt') },
+    ]);
+    assertEquals(checkpoint.entries.map((entry) => entry.type), ['directory', 'missing']);
+    await Deno.writeTextFile(join(dir, 'new.txt'), 'by tool');
+    // ツール以外（ユーザーやコマンド）が作成したファイル
+    await Deno.writeTextFile(join(dir, 'unrelated.txt'), 'by user');
+
+    const result = await manager.undo('s1');
+
+    assertEquals(result?.removed, [join(dir, 'new.txt')]);
+    assertEquals(await exists(join(dir, 'new.txt')), false);
+    assertEquals(await Deno.readTextFile(join(dir, 'unrelated.txt')), 'by user');
+  });
+});
+
+Deno.test('CheckpointManager: 既存のディレクトリへの上書きコピーは作成されたパスだけを削除して戻す', async () => {
+  await withTempDirs(async (manager, workDir) => {
+    const source = join(workDir, 'source');
+    const destination = join(workDir, 'destination');
+    await Deno.mkdir(source);
+    await Deno.mkdir(destination);
+    await Deno.writeTextFile(join(source, 'x.txt'), 'new');
+    await Deno.writeTextFile(join(source, 'y.txt'), 'new');
+    await Deno.writeTextFile(join(destination, 'x.txt'), 'old');
+
+    await manager.createCheckpoint('s1', 'copy_path', [
+      { path: destination, recursive: true, source },
+    ]);
+    for (const name of ['x.txt', 'y.txt']) {
+      await Deno.copyFile(join(source, name), join(destination, name));
+    }
+    await Deno.writeTextFile(join(destination, 'z.txt'), 'by user');
+
+    await manager.undo('s1');
+
+    assertEquals(await Deno.readTextFile(join(destination, 'x.txt')), 'old');
+    assertEquals(await exists(join(destination, 'y.txt')), false);
+    assertEquals(await Deno.readTextFile(join(destination, 'z.txt')), 'by user');
+  });
+});
+
+Deno.test('CheckpointManager: 上限を超えるディレクトリはチェックポイントを作成しない', async () => {
+  await withTempDirs(async (manager, workDir) => {
+    for (let i = 0; i < 1000; i++) {
+      await Deno.writeTextFile(join(workDir, `${i}.txt`), '');
+    }
+
+    // 存在のみを記録する場合は中身の数に関係なく作成できる
+    await manager.createCheckpoint('s1', 'create_directory', [{ path: workDir }]);
+    await assertRejects(
+      () => manager.createCheckpoint('s1', 'delete_path', [{ path: workDir, recursive: true }]),
+      CheckpointError,
+      '上限',
+    );
+    assertEquals((await manager.listCheckpoints('s1')).map((c) => c.id), [1]);
+  });
+});
@@ -0,0 +1,325 @@
+import { dirname, join, resolve } from '@std/path';
+import { exists } from '@std/fs';
+
+/**
+ * プロジェクト設定の1ファイル分
+ */
+export interface ProjectConfigFile {
+  /** ファイルの絶対パス */
+  path: string;
+  /**
+   * 設定の読み込み方法
+   * directory: .minoc/ 内の設定ファイル（settings.toml など）
+   * file: minoc.toml（[settings] などのテーブルに各設定を記述する）
+   */
+  kind: 'directory' | 'file';
+}
+
+/**
+ * 設定値ごとの設定元（キーは formatConfigKey で連結したパス）
+ */
+export type ConfigSources = Map<string, string[]>;
+
+/**
+ * プロジェクト設定のディレクトリ名
+ */
+export const PROJECT_CONFIG_DIRECTORY = '.minoc';
+
+/**
+ * プロジェクト設定の単一ファイル名
+ */
+export const PROJECT_CONFIG_FILE = 'minoc.toml';
+
+/**
+ * プロジェクト設定で変更できる範囲
+ * リポジトリに含まれる設定で権限や接続先を緩められないよう、それ以外のキーは無視する
+ */
+export interface ProjectConfigPolicy {
+  /** 値を変更できるキー（ドット区切り、* は任意のキー。テーブルを指定した場合は配下すべて） */
+  allow: string[];
+  /** 要素の追加のみできる配列（拒否ルールやブロックリストなど制限を強める設定） */
+  append: string[];
+}
+
+/**
+ * 設定ファイルごとのプロジェクト設定で変更できる範囲（記載のないファイルはすべて無視する）
+ */
+export const PROJECT_CONFIG_POLICIES: Record<string, ProjectConfigPolicy> = {
+  'settings.toml': {
+    allow: [
+      'defaultModel',
+      'debug',
+      'showProgress',
+      'progressThreshold',
+      'logLevel',
+      'commandOutput',
+    ],
+    append: ['environment.deny'],
+  },
+  'permissions.toml': {
+    allow: [],
+    append: ['denyRules', 'autoReject', 'blockedCommands'],
+  },
+  'security.toml': {
+    allow: [],
+    append: ['customBlocklist', 'secrets.patterns'],
+  },
+  'debug.toml': {
+    allow: ['verboseLogging', 'logToolExecutions', 'measurePerformance'],
+    append: [],
+  },
+  'models.toml': {
+    allow: [
+      '*.temperature',
+      '*.top_p',
+      '*.top_k',
+      '*.max_tokens',
+      '*.contextWindow',
+      '*.stream',
+      '*.toolCallMode',
+      '*.customInstructions',
+    ],
+    append: [],
+  },
+};
+
+/**
+ * 値がテーブル（プレーンなオブジェクト）かを判定
+ */
+function isTable(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) &&
+    !(value instanceof Date);
+}
+
+/**
+ * 2つの値が同じ内容かを判定
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * 配列に同じ内容の要素が含まれるかを判定
+ */
+function includesValue(list: unknown[], value: unknown): boolean {
+  return list.some((item) => isSameValue(item, value));
+}
+
+/**
+ * 作業ディレクトリから祖先ディレクトリへ向かってプロジェクト設定を探す
+ * @param ignoreDirectory 対象外にするディレクトリ（グローバル設定の .minoc）
+ * @returns 適用順（遠い祖先から作業ディレクトリの順、同じディレクトリでは minoc.toml が先）
+ */
+export async function findProjectConfigFiles(
+  startDirectory: string,
+  ignoreDirectory?: string,
+): Promise<ProjectConfigFile[]> {
+  const files: ProjectConfigFile[] = [];
+  let directory = resolve(startDirectory);
+
+  while (true) {
+    const configDirectory = join(directory, PROJECT_CONFIG_DIRECTORY);
+    const found: ProjectConfigFile[] = [];
+    if (await exists(join(directory, PROJECT_CONFIG_FILE), { isFile: true })) {
+      found.push({ path: join(directory, PROJECT_CONFIG_FILE), kind: 'file' });
+    }
+    if (
+      (!ignoreDirectory || resolve(ignoreDirectory) !== configDirectory) &&
+      await exists(configDirectory, { isDirectory: true })
+    ) {
+      found.push({ path: configDirectory, kind: 'directory' });
+    }
+    files.unshift(...found);
+
+    const parent = dirname(directory);
+    if (parent === directory) {
+      return files;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * キーのパスがパターンに一致するかを判定（パターンより深いキーはその配下として一致する）
+ */
+function matchesKeyPattern(path: string[], pattern: string): boolean {
+  const segments = pattern.split('.');
+  return segments.length <= path.length &&
+    segments.every((segment, index) => segment === '*' || segment === path[index]);
+}
+
+/**
+ * プロジェクト設定からポリシーで変更できない値を取り除く
+ * @returns 適用する値と、無視したキー（formatConfigKey で連結したパス）
+ */
+export function restrictProjectConfig(
+  values: Record<string, unknown>,
+  policy: ProjectConfigPolicy | undefined,
+): { values: Record<string, unknown>; ignored: string[] } {
+  const ignored: string[] = [];
+
+  const visit = (table: Record<string, unknown>, path: string[], prefix: string) => {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(table)) {
+      const childPath = [...path, key];
+      const childKey = formatConfigKey(prefix, key);
+      if (policy?.allow.some((pattern) => matchesKeyPattern(childPath, pattern))) {
+        result[key] = value;
+      } else if (
+        Array.isArray(value) &&
+        policy?.append.some((pattern) => matchesKeyPattern(childPath, pattern))
+      ) {
+        result[key] = value;
+      } else if (isTable(value)) {
+        const child = visit(value, childPath, childKey);
+        if (Object.keys(child).length > 0) {
+          result[key] = child;
+        }
+      } else {
+        ignored.push(childKey);
+      }
+    }
+    return result;
+  };
+
+  return { values: visit(values, [], ''), ignored };
+}
+
+/**
+ * 設定を重ねる
+ * テーブルはキーごとに再帰的にマージし、配列は重複しない要素を末尾に追加し、それ以外の値は上書きする
+ */
+export function mergeConfig<T>(base: T, override: unknown): T {
+  if (isTable(base) && isTable(override)) {
+    const result: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+      result[key] = key in base ? mergeConfig(base[key], value) : value;
+    }
+    return result as T;
+  }
+  if (Array.isArray(base) && Array.isArray(override)) {
+    const result = [...base];
+    for (const item of override) {
+      if (!includesValue(result, item)) {
+        result.push(item);
+      }
+    }
+    return result as T;
+  }
+  return (override === undefined ? base : override) as T;
+}
+
+/**
+ * 重ねた設定に対する変更を、重ねる前の設定に反映する
+ * プロジェクト設定から取り込まれた値をグローバル設定に書き戻さないために使用する
+ * @param target 変更を反映する設定（グローバル設定）
+ * @param before 変更前の重ねた設定
+ * @param after 変更後の重ねた設定
+ */
+export function applyConfigChanges(target: unknown, before: unknown, after: unknown): unknown {
+  if (isTable(after) && isTable(before)) {
+    const result: Record<string, unknown> = isTable(target) ? { ...target } : {};
+    for (const [key, value] of Object.entries(after)) {
+      const applied = key in before ? applyConfigChanges(result[key], before[key], value) : value;
+      if (applied === undefined) {
+        delete result[key];
+      } else {
+        result[key] = applied;
+      }
+    }
+    for (const key of Object.keys(before)) {
+      if (!(key in after)) {
+        delete result[key];
+      }
+    }
+    return result;
+  }
+  if (Array.isArray(after) && Array.isArray(before)) {
+    const removed = before.filter((item) => !includesValue(after, item));
+    const added = after.filter((item) => !includesValue(before, item));
+    const result = (Array.isArray(target) ? target : []).filter((item) =>
+      !includesValue(removed, item)
+    );
+    for (const item of added) {
+      if (!includesValue(result, item)) {
+        result.push(item);
+      }
+    }
+    return result;
+  }
+  return isSameValue(before, after) ? target : after;
+}
+
+/**
+ * テーブルのキーをドット区切りで連結（. などを含むキーはTOMLと同様に引用符で囲む）
+ */
+export function formatConfigKey(prefix: string, key: string): string {
+  const part = /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+  return prefix ? `${prefix}.${part}` : part;
+}
+
+/**
+ * テーブル以外の値をキーごとに列挙する
+ */
+export function flattenConfig(values: unknown, prefix = ''): Map<string, unknown> {
+  const entries = new Map<string, unknown>();
+  if (!isTable(values)) {
+    return entries;
+  }
+  for (const [key, value] of Object.entries(values)) {
+    const path = formatConfigKey(prefix, key);
+    if (isTable(value)) {
+      for (const [childKey, childValue] of flattenConfig(value, path)) {
+        entries.set(childKey, childValue);
+      }
+    } else {
+      entries.set(path, value);
+    }
+  }
+  return entries;
+}
+
+/**
+ * 設定値の設定元を記録する
+ * @param replace true の場合は既存の記録を置き換える（配列も追加ではなく上書きとして扱う）
+ */
+export function recordConfigSources(
+  sources: ConfigSources,
+  values: unknown,
+  source: string,
+  replace = false,
+  prefix = '',
+): void {
+  if (!isTable(values)) {
+    return;
+  }
+  for (const [key, value] of Object.entries(values)) {
+    const path = formatConfigKey(prefix, key);
+    if (replace) {
+      clearSources(sources, path);
+    }
+    if (isTable(value)) {
+      sources.delete(path);
+      recordConfigSources(sources, value, source, replace, path);
+    } else if (Array.isArray(value) && !replace && sources.has(path)) {
+      const current = sources.get(path)!;
+      if (value.length > 0 && !current.includes(source)) {
+        current.push(source);
+      }
+    } else {
+      clearSources(sources, path);
+      sources.set(path, [source]);
+    }
+  }
+}
+
+/**
+ * キーとその配下の設定元の記録を削除
+ */
+function clearSources(sources: ConfigSources, path: string): void {
+  for (const key of [...sources.keys()]) {
+    if (key === path || key.startsWith(`${path}.`)) {
+      sources.delete(key);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { assertEquals } from '@std/assert';
+import { join } from '@std/path';
+import {
+  applyConfigChanges,
+  type ConfigSources,
+  findProjectConfigFiles,
+  flattenConfig,
+  mergeConfig,
+  PROJECT_CONFIG_POLICIES,
+  recordConfigSources,
+  restrictProjectConfig,
+} from './config_layers.ts';
+
+Deno.test('mergeConfig: テーブルはマージし、配列は重複なく追加し、それ以外は上書きする', () => {
+  const global = {
+    defaultModel: 'gpt-4',
+    shell: { enabled: false, args: ['-c'] },
+    blockedCommands: ['rm -rf', 'sudo'],
+    allowRules: [{ tool: 'read_file' }],
+  };
+  const project = {
+    defaultModel: 'claude',
+    shell: { enabled: true },
+    blockedCommands: ['sudo', 'git push'],
+    allowRules: [{ tool: 'read_file' }, { tool: 'execute_command', commandPrefix: 'deno test' }],
+  };
+
+  assertEquals(mergeConfig(global, project), {
+    defaultModel: 'claude',
+    shell: { enabled: true, args: ['-c'] },
+    blockedCommands: ['rm -rf', 'sudo', 'git push'],
+    allowRules: [{ tool: 'read_file' }, { tool: 'execute_command', commandPrefix: 'deno test' }],
+  });
+  assertEquals(global.blockedCommands, ['rm -rf', 'sudo']);
+});
+
+Deno.test('applyConfigChanges: プロジェクト設定の値をグローバル設定に書き戻さない', () => {
+  const global = { level: 'normal', allowRules: [{ tool: 'read_file' }], legacy: ['x'] };
+  const before = mergeConfig(global, {
+    level: 'strict',
+    allowRules: [{ tool: 'list_directory' }],
+  });
+  const after = {
+    level: 'strict',
+    allowRules: [{ tool: 'read_file' }, { tool: 'list_directory' }, { tool: 'git_status' }],
+  };
+
+  assertEquals(applyConfigChanges(global, before, after), {
+    level: 'normal',
+    allowRules: [{ tool: 'read_file' }, { tool: 'git_status' }],
+  });
+  assertEquals(
+    applyConfigChanges(global, before, { ...after, level: 'permissive', allowRules: [] }),
+    { level: 'permissive', allowRules: [] },
+  );
+});
+
+Deno.test('restrictProjectConfig: 権限や接続先を緩める値は無視し、制限を強める配列は追加できる', () => {
+  assertEquals(
+    restrictProjectConfig({
+      allowRules: [{ tool: 'execute_command', commandPrefix: 'curl' }],
+      denyRules: [{ tool: 'execute_command', commandPrefix: 'git push' }],
+      permissionLevel: 'permissive',
+    }, PROJECT_CONFIG_POLICIES['permissions.toml']),
+    {
+      values: { denyRules: [{ tool: 'execute_command', commandPrefix: 'git push' }] },
+      ignored: ['allowRules', 'permissionLevel'],
+    },
+  );
+  assertEquals(
+    restrictProjectConfig({
+      'gpt-4': { baseUrl: 'https://example.com', temperature: 0 },
+    }, PROJECT_CONFIG_POLICIES['models.toml']),
+    { values: { 'gpt-4': { temperature: 0 } }, ignored: ['gpt-4.baseUrl'] },
+  );
+  assertEquals(
+    restrictProjectConfig({
+      defaultModel: 'claude',
+      commandOutput: { stream: false },
+      environment: { inherit: 'all', deny: ['DB_*'], overrides: { PATH: '/tmp' } },
+      workspace: { roots: ['/'] },
+    }, PROJECT_CONFIG_POLICIES['settings.toml']),
+    {
+      values: {
+        defaultModel: 'claude',
+        commandOutput: { stream: false },
+        environment: { deny: ['DB_*'] },
+      },
+      ignored: [
+        'environment.inherit',
+        'environment.overrides.PATH',
+        'workspace.roots',
+      ],
+    },
+  );
+  assertEquals(
+    restrictProjectConfig({ workspace: { outsideAccess: 'allow' } }, undefined).values,
+    {},
+  );
+});
+
+Deno.test('recordConfigSources: 上書きした値は最後の設定元、配列は追加したすべての設定元', () => {
+  const sources: ConfigSources = new Map();
+  recordConfigSources(sources, { shell: { enabled: false }, deny: ['A'] }, 'default', true);
+  recordConfigSources(sources, { shell: { enabled: true } }, 'global.toml', true);
+  recordConfigSources(sources, { shell: { path: 'bash' }, deny: ['B'] }, 'minoc.toml');
+  recordConfigSources(sources, { 'gpt-3.5': { temperature: 0 } }, 'minoc.toml');
+
+  assertEquals(Object.fromEntries(sources), {
+    'shell.enabled': ['global.toml'],
+    'shell.path': ['minoc.toml'],
+    'deny': ['default', 'minoc.toml'],
+    '"gpt-3.5".temperature': ['minoc.toml'],
+  });
+  assertEquals(
+    [...flattenConfig({ 'gpt-3.5': { temperature: 0 }, deny: ['A'] }).keys()],
+    ['"gpt-3.5".temperature', 'deny'],
+  );
+});
+
+Deno.test('findProjectConfigFiles: 祖先から作業ディレクトリの順に見つけ、グローバル設定は除く', async () => {
+  const root = await Deno.makeTempDir();
+  try {
+    const project = join(root, 'project');
+    const nested = join(project, 'packages', 'app');
+    await Deno.mkdir(nested, { recursive: true });
+    await Deno.mkdir(join(root, '.minoc'));
+    await Deno.mkdir(join(project, '.minoc'));
+    await Deno.writeTextFile(join(project, 'minoc.toml'), '');
+    await Deno.writeTextFile(join(nested, 'minoc.toml'), '');
+
+    const files = await findProjectConfigFiles(nested, join(root, '.minoc'));
+    assertEquals(files.filter((file) => file.path.startsWith(root)), [
+      { path: join(project, 'minoc.toml'), kind: 'file' },
+      { path: join(project, '.minoc'), kind: 'directory' },
+      { path: join(nested, 'minoc.toml'), kind: 'file' },
+    ]);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
@@ -8,18 +8,62 @@ import type {
   PermissionSettings,
   SecuritySettings,
 } from './types.ts';
+import {
+  applyConfigChanges,
+  type ConfigSources,
+  findProjectConfigFiles,
+  flattenConfig,
+  mergeConfig,
+  PROJECT_CONFIG_POLICIES,
+  type ProjectConfigFile,
+  recordConfigSources,
+  restrictProjectConfig,
+} from './config_layers.ts';
+
+/**
+ * 設定ファイルの内容と出所
+ */
+export interface ConfigValueSource {
+  /** ドット区切りのキー */
+  key: string;
+  value: unknown;
+  /** 値を設定したファイル（配列は要素を追加したすべてのファイル） */
+  sources: string[];
+}
+
+/**
+ * 読み込んだ設定（保存時にプロジェクト設定の値を除くために保持する）
+ */
+interface LoadedConfig {
+  /** グローバル設定のみの値 */
+  global: unknown;
+  /** プロジェクト設定を重ねた値 */
+  effective: unknown;
+  sources: ConfigSources;
+}
+
+/**
+ * 既定値の設定元の表示名
+ */
+const DEFAULT_SOURCE = '(デフォルト)';
 
 /**
  * 設定管理クラス
+ * 実行ファイルと同階層の .minoc をグローバル設定とし、作業ディレクトリとその祖先にある
+ * プロジェクト設定（.minoc/ または minoc.toml）を近いものが優先されるように重ねる
  */
 export class ConfigManager {
   private configDir: string;
   private executablePath: string;
+  private projectDirectory: string;
+  private projectConfigFiles: Promise<ProjectConfigFile[]> | null = null;
+  private loadedConfigs = new Map<string, LoadedConfig>();
 
-  constructor() {
+  constructor(projectDirectory = Deno.cwd()) {
     // 実行ファイルのパスを取得（要件定義の通り、実行ファイルと同階層を基準とする）
     this.executablePath = Deno.execPath();
     this.configDir = join(dirname(this.executablePath), '.minoc');
+    this.projectDirectory = projectDirectory;
   }
 
   /**
@@ -39,37 +83,139 @@ export class ConfigManager {
     return join(this.configDir, 'config', filename);
   }
 
+  /**
+   * 読み込むプロジェクト設定を取得（適用順）
+   */
+  getProjectConfigFiles(): Promise<ProjectConfigFile[]> {
+    if (!this.projectConfigFiles) {
+      this.projectConfigFiles = findProjectConfigFiles(this.projectDirectory, this.configDir);
+    }
+    return this.projectConfigFiles;
+  }
+
   /**
    * 設定ファイルを読み込み
+   * グローバル設定はトップレベルのキー単位で既定値を置き換え、
+   * プロジェクト設定は mergeConfig の規則（テーブルはマージ、配列は追加、それ以外は上書き）で重ねる
    */
   private async loadConfig<T>(filename: string, defaultConfig: T): Promise<T> {
+    const global = await this.loadGlobalConfig(filename, defaultConfig);
+    const sources: ConfigSources = new Map();
+    recordConfigSources(sources, defaultConfig, DEFAULT_SOURCE, true);
+    if (global.parsed) {
+      recordConfigSources(sources, global.parsed, this.getConfigPath(filename), true);
+    }
+
+    let config = global.config;
+    for (const layer of await this.loadProjectLayers(filename)) {
+      config = mergeConfig(config, layer.values);
+      recordConfigSources(sources, layer.values, layer.source);
+    }
+
+    this.loadedConfigs.set(filename, {
+      global: structuredClone(global.config),
+      effective: structuredClone(config),
+      sources,
+    });
+    return config;
+  }
+
+  /**
+   * グローバル設定ファイルを読み込み
+   */
+  private async loadGlobalConfig<T>(
+    filename: string,
+    defaultConfig: T,
+  ): Promise<{ config: T; parsed?: Record<string, unknown> }> {
     const configPath = this.getConfigPath(filename);
 
     if (!await exists(configPath)) {
       await this.saveConfig(filename, defaultConfig);
-      return defaultConfig;
+      return { config: defaultConfig };
     }
 
     try {
       const content = await Deno.readTextFile(configPath);
-      const parsed = parseToml(content) as T;
-      return { ...defaultConfig, ...parsed };
+      const parsed = parseToml(content);
+      return { config: { ...defaultConfig, ...parsed }, parsed };
     } catch (error) {
       console.warn(`設定ファイル ${filename} の読み込みに失敗しました:`, error);
-      return defaultConfig;
+      return { config: defaultConfig };
+    }
+  }
+
+  /**
+   * 設定ファイルに対応するプロジェクト設定を読み込む（適用順）
+   * 権限や接続先を緩める値は PROJECT_CONFIG_POLICIES に従って無視する
+   */
+  private async loadProjectLayers(
+    filename: string,
+  ): Promise<{ source: string; values: Record<string, unknown> }[]> {
+    const section = filename.replace(/\.toml$/, '');
+    const layers: { source: string; values: Record<string, unknown> }[] = [];
+
+    for (const file of await this.getProjectConfigFiles()) {
+      const path = file.kind === 'directory' ? join(file.path, filename) : file.path;
+      if (!await exists(path, { isFile: true })) {
+        continue;
+      }
+      try {
+        const parsed = parseToml(await Deno.readTextFile(path));
+        const values = file.kind === 'directory' ? parsed : parsed[section];
+        if (values && typeof values === 'object' && !Array.isArray(values)) {
+          const source = file.kind === 'directory' ? path : `${path} [${section}]`;
+          const restricted = restrictProjectConfig(
+            values as Record<string, unknown>,
+            PROJECT_CONFIG_POLICIES[filename],
+          );
+          if (restricted.ignored.length > 0) {
+            console.warn(
+              `⚠️  プロジェクト設定 ${source} の次の値は安全のため無視しました` +
+                `（グローバル設定で指定してください）: ${restricted.ignored.join(', ')}`,
+            );
+          }
+          layers.push({ source, values: restricted.values });
+        }
+      } catch (error) {
+        console.warn(`プロジェクト設定 ${path} の読み込みに失敗しました:`, error);
+      }
     }
+    return layers;
   }
 
   /**
    * 設定ファイルを保存
+   * プロジェクト設定を重ねて読み込んだ場合は、読み込み後の変更点だけをグローバル設定に反映する
    */
   private async saveConfig<T>(filename: string, config: T): Promise<void> {
+    const loaded = this.loadedConfigs.get(filename);
+    const global = loaded ? applyConfigChanges(loaded.global, loaded.effective, config) : config;
+    if (loaded) {
+      loaded.global = structuredClone(global);
+      loaded.effective = structuredClone(config);
+    }
+
     const configPath = this.getConfigPath(filename);
     await ensureDir(dirname(configPath));
-    const tomlContent = stringifyToml(config as Record<string, unknown>);
+    const tomlContent = stringifyToml(global as Record<string, unknown>);
     await Deno.writeTextFile(configPath, tomlContent);
   }
 
+  /**
+   * 読み込み済みの設定ファイルの各値とその設定元を取得
+   */
+  getConfigSources(filename: string): ConfigValueSource[] {
+    const loaded = this.loadedConfigs.get(filename);
+    if (!loaded) {
+      return [];
+    }
+    return [...flattenConfig(loaded.effective)].map(([key, value]) => ({
+      key,
+      value,
+      sources: loaded.sources.get(key) ?? [],
+    }));
+  }
+
   /**
    * アプリケーション設定を取得
    */
@@ -81,6 +227,53 @@ export class ConfigManager {
       progressThreshold: 5,
       logLevel: 'INFO',
       maxHistoryCount: 100,
+      shell: {
+        enabled: false,
+      },
+      commandOutput: {
+        stream: true,
+        headLines: 100,
+        tailLines: 200,
+        maxBytes: 256 * 1024,
+      },
+      environment: {
+        inherit: 'all',
+        allow: [
+          'PATH',
+          'HOME',
+          'USER',
+          'LOGNAME',
+          'SHELL',
+          'TERM',
+          'LANG',
+          'LC_*',
+          'TZ',
+          'TMPDIR',
+          'TEMP',
+          'TMP',
+          'PWD',
+          'USERPROFILE',
+          'APPDATA',
+          'LOCALAPPDATA',
+          'SYSTEMROOT',
+          'COMSPEC',
+          'PATHEXT',
+        ],
+        deny: [
+          '*_API_KEY',
+          '*_APIKEY',
+          '*_TOKEN',
+          '*_SECRET',
+          '*_SECRET_*',
+          '*_PASSWORD',
+          '*_CREDENTIALS',
+          'AWS_*',
+          'AZURE_*',
+          'OPENAI_*',
+          'ANTHROPIC_*',
+        ],
+        overrides: {},
+      },
     };
 
     return this.loadConfig('settings.toml', defaultSettings);
@@ -98,7 +291,8 @@ export class ConfigManager {
    */
   async getPermissionSettings(): Promise<PermissionSettings> {
     const defaultSettings: PermissionSettings = {
-      permanentlyAllowed: [],
+      allowRules: [],
+      denyRules: [],
       autoReject: [],
       blockedCommands: [
         'rm -rf',
@@ -129,32 +323,40 @@ export class ConfigManager {
   async getModelSettings(): Promise<ModelSettings> {
     const defaultSettings: ModelSettings = {
       'gpt-4': {
+        provider: 'openai',
         baseUrl: 'https://api.openai.com/v1',
         temperature: 0.7,
         top_p: 1.0,
         top_k: 50,
         max_tokens: 4096,
+        contextWindow: 8192,
       },
       'gpt-3.5-turbo': {
+        provider: 'openai',
         baseUrl: 'https://api.openai.com/v1',
         temperature: 0.7,
         top_p: 1.0,
         top_k: 50,
         max_tokens: 4096,
+        contextWindow: 16385,
       },
       'claude-3-5-sonnet-20241022': {
+        provider: 'anthropic',
         baseUrl: 'https://api.anthropic.com/v1',
         temperature: 0.7,
         top_p: 1.0,
         top_k: 50,
         max_tokens: 4096,
+        contextWindow: 200000,
       },
       'claude-3-haiku-20240307': {
+        provider: 'anthropic',
         baseUrl: 'https://api.anthropic.com/v1',
         temperature: 0.7,
         top_p: 1.0,
         top_k: 50,
         max_tokens: 4096,
+        contextWindow: 200000,
       },
     };
 
@@ -207,6 +409,16 @@ export class ConfigManager {
         ],
       },
       showSecurityWarnings: true,
+      workspace: {
+        roots: [],
+        allowedDirectories: [],
+        outsideAccess: 'approval',
+      },
+      secrets: {
+        enabled: true,
+        detectHighEntropy: true,
+        patterns: [],
+      },
     };
 
     return this.loadConfig('security.toml', defaultSettings);
@@ -254,6 +466,13 @@ export class ConfigManager {
     return join(this.configDir, 'history');
   }
 
+  /**
+   * チェックポイントディレクトリのパスを取得
+   */
+  getCheckpointsDirectory(): string {
+    return join(this.configDir, 'checkpoints');
+  }
+
   /**
    * 設定ディレクトリのパスを取得
    */
@@ -14,14 +14,64 @@ export interface AppSettings {
   logLevel: 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
   /** 最大履歴保持数 */
   maxHistoryCount: number;
+  /** シェル実行設定 */
+  shell: ShellSettings;
+  /** コマンド出力設定 */
+  commandOutput: CommandOutputSettings;
+  /** コマンドに渡す環境変数の設定 */
+  environment: EnvironmentSettings;
+}
+
+/**
+ * シェル実行設定
+ */
+export interface ShellSettings {
+  /** シェル経由でコマンドを実行するか（パイプ、&&、リダイレクト、変数展開などが使用可能になる） */
+  enabled: boolean;
+  /** 使用するシェル（未指定時は Linux/macOS では sh、Windows では cmd） */
+  path?: string;
+  /** コマンド文字列の前に渡す引数（未指定時は -c、cmd の場合は /d /s /c） */
+  args?: string[];
+}
+
+/**
+ * コマンド出力設定
+ */
+export interface CommandOutputSettings {
+  /** 実行中の出力をターミナルに逐次表示するか */
+  stream: boolean;
+  /** LLMに渡す出力に残す先頭の行数 */
+  headLines: number;
+  /** LLMに渡す出力に残す末尾の行数 */
+  tailLines: number;
+  /** 標準出力・標準エラー出力ごとに保持する合計の上限（バイト） */
+  maxBytes: number;
+}
+
+/**
+ * コマンドに渡す環境変数の設定
+ */
+export interface EnvironmentSettings {
+  /** 引き継ぐ範囲（all: すべて、allowlist: allow に一致する変数のみ） */
+  inherit: 'all' | 'allowlist';
+  /** 引き継ぐ変数名のglobパターン（inherit が allowlist の場合に使用） */
+  allow: string[];
+  /** 引き継がない変数名のglobパターン（allow より優先され、set_env でも設定できない） */
+  deny: string[];
+  /** 常に設定する変数（ポリシーより優先される） */
+  overrides: Record<string, string>;
 }
 
 /**
  * 権限設定
  */
 export interface PermissionSettings {
-  /** 永続許可されたツール */
-  permanentlyAllowed: string[];
+  /** 永続許可されたツール（旧形式。読み込み時に allowRules へ移行される） */
+  permanentlyAllowed?: string[];
+  /** 承認なしで実行を許可するルール */
+  allowRules: PermissionRule[];
+  /** 実行を拒否するルール（許可ルールより優先される） */
+  denyRules: PermissionRule[];
   /** 自動拒否するツール */
   autoReject: string[];
   /** 危険なコマンドのブロックリスト */
@@ -30,10 +80,24 @@ export interface PermissionSettings {
   permissionLevel: 'strict' | 'normal' | 'permissive';
 }
 
+/**
+ * ツール名とパラメータの条件で呼び出しに一致させる権限ルール
+ */
+export interface PermissionRule {
+  /** ツール名（* はすべてのツール） */
+  tool: string;
+  /** コマンドの接頭辞（引数単位で比較。"deno test" は "deno test -A" に一致） */
+  commandPrefix?: string;
+  /** 対象パスのglobパターン（相対パターンは作業ディレクトリからのパスと比較） */
+  pathGlob?: string;
+}
+
 /**
  * モデル設定
  */
 export interface ModelConfig {
+  /** APIプロバイダー（openai: Chat Completions API、anthropic: Messages API） */
+  provider?: 'openai' | 'anthropic';
   /** APIベースURL */
   baseUrl?: string;
   /** APIキー */
@@ -43,6 +107,12 @@ export interface ModelConfig {
   top_p?: number;
   top_k?: number;
   max_tokens?: number;
+  /** コンテキストウィンドウのトークン数（超える場合は古いツール結果から圧縮） */
+  contextWindow?: number;
+  /** ストリーミング応答を使用するか（デフォルト: true） */
+  stream?: boolean;
+  /** ツール呼び出し形式（xml: XMLタグ形式、native: ネイティブ関数呼び出し、デフォルト: xml） */
+  toolCallMode?: 'xml' | 'native';
   /** カスタムインストラクション */
   customInstructions?: string;
 }
@@ -70,6 +140,34 @@ export interface SecuritySettings {
   };
   /** セキュリティ警告の表示 */
   showSecurityWarnings: boolean;
+  /** ファイル操作を許可する範囲 */
+  workspace: WorkspaceSettings;
+  /** ツール結果・履歴に含まれる機密情報のマスク */
+  secrets: SecretScanSettings;
+}
+
+/**
+ * 機密情報の検出設定
+ */
+export interface SecretScanSettings {
+  /** 機密情報のマスクを有効にするか */
+  enabled: boolean;
+  /** エントロピーの高いトークン（ランダムな文字列）も検出するか */
+  detectHighEntropy: boolean;
+  /** 追加で検出する正規表現（secret という名前のグループがある場合はその部分だけをマスク） */
+  patterns: string[];
+}
+
+/**
+ * ワークスペース設定
+ */
+export interface WorkspaceSettings {
+  /** プロジェクトのルートディレクトリ（未指定時は起動時の作業ディレクトリ） */
+  roots: string[];
+  /** ルート以外にアクセスを許可するディレクトリ */
+  allowedDirectories: string[];
+  /** ワークスペース外へのアクセスの扱い（deny: 拒否、approval: 常に承認を求める） */
+  outsideAccess: 'deny' | 'approval';
 }
 
 /**
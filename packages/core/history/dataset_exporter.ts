@@ -0,0 +1,346 @@
+import type { Message, SessionHistory } from '../../interfaces/history.ts';
+import type { NativeToolCall } from '../llm/llm_client.ts';
+import type { ToolSchema } from '../tools/tool_schema.ts';
+import { type ParameterDefinitionLookup, parseToolCall } from '../tools/xml_tool_parser.ts';
+
+/**
+ * データセットの形式
+ * - openai: OpenAIのチャットファインチューニング用JSONL（記録されたとおりの会話）
+ * - openai-tools: openai と同じ形式で、XML形式のツール呼び出しを tool_calls に変換したもの
+ * - sharegpt: ShareGPT形式（conversations）のJSON
+ */
+export type DatasetFormat = 'openai' | 'openai-tools' | 'sharegpt';
+
+/**
+ * 出力する内容を置き換える関数（機密情報やパスのマスクなど）
+ */
+export type DatasetRedactor = (text: string, session: SessionHistory) => string;
+
+/**
+ * データセットの出力オプション
+ */
+export interface DatasetExportOptions {
+  format: DatasetFormat;
+  /** 最後の respond_to_user が success のセッションのみ出力する */
+  onlySuccessful?: boolean;
+  /** システムプロンプトを含める（デフォルト: true） */
+  includeSystemPrompt?: boolean;
+  /** 同じ会話を1件にまとめる（デフォルト: true） */
+  deduplicate?: boolean;
+  /** メッセージとツール呼び出しの引数に順に適用する置き換え */
+  redactors?: DatasetRedactor[];
+  /** ツール定義（ツール呼び出しを含むレコードに tools として出力する） */
+  tools?: ToolSchema[];
+  /** XML形式のツール呼び出しのパラメータの型を解決する関数 */
+  parameterLookup?: ParameterDefinitionLookup;
+}
+
+/**
+ * データセットの出力結果
+ */
+export interface DatasetExportResult {
+  /** ファイルに書き込む内容 */
+  content: string;
+  /** 出力したセッション数 */
+  exported: number;
+  /** 出力しなかったセッション数（理由ごと） */
+  skipped: { unsuccessful: number; duplicate: number; empty: number };
+}
+
+/**
+ * 形式に依存しないツール呼び出し
+ */
+interface DatasetToolCall {
+  id: string;
+  name: string;
+  /** JSON文字列の引数 */
+  arguments: string;
+}
+
+/**
+ * 形式に依存しない会話の1ターン
+ */
+interface DatasetTurn {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  toolCalls?: DatasetToolCall[];
+  toolCallId?: string;
+  name?: string;
+}
+
+/**
+ * XML形式のツール実行結果
+ */
+const TOOL_RESPONSE_PATTERN = /^<tool_response>([\s\S]*)<\/tool_response>$/;
+
+/**
+ * セッションの最後の respond_to_user の種類を取得
+ * @returns respond_to_user を呼び出していない場合はnull
+ */
+export function getFinalResponseType(session: SessionHistory): 'success' | 'error' | null {
+  for (const message of [...session.messages].reverse()) {
+    if (message.role !== 'assistant') continue;
+
+    const toolCalls = message.metadata?.toolCalls as NativeToolCall[] | undefined;
+    const nativeCall = toolCalls?.findLast((call) => call.name === 'respond_to_user');
+    if (nativeCall) {
+      try {
+        return JSON.parse(nativeCall.arguments).type === 'error' ? 'error' : 'success';
+      } catch {
+        return 'error';
+      }
+    }
+
+    const parsed = parseToolCall(message.content);
+    if (parsed.status === 'ok' && parsed.toolName === 'respond_to_user') {
+      return parsed.parameters.type === 'error' ? 'error' : 'success';
+    }
+  }
+  return null;
+}
+
+/**
+ * セッションをファインチューニング用のデータセットに変換するクラス
+ */
+export class DatasetExporter {
+  private options: DatasetExportOptions;
+
+  constructor(options: DatasetExportOptions) {
+    this.options = options;
+  }
+
+  /**
+   * セッションをデータセットに変換
+   */
+  export(sessions: SessionHistory[]): DatasetExportResult {
+    const records: Record<string, unknown>[] = [];
+    const seen = new Set<string>();
+    const skipped = { unsuccessful: 0, duplicate: 0, empty: 0 };
+
+    for (const session of sessions) {
+      if (this.options.onlySuccessful && getFinalResponseType(session) !== 'success') {
+        skipped.unsuccessful++;
+        continue;
+      }
+
+      const turns = this.toTurns(session, this.options.format !== 'openai');
+      if (!turns.some((turn) => turn.role === 'assistant')) {
+        skipped.empty++;
+        continue;
+      }
+
+      // ツール呼び出しIDは連番に振り直しているため、会話の内容だけで重複を判定できる
+      if (this.options.deduplicate ?? true) {
+        const key = JSON.stringify(turns);
+        if (seen.has(key)) {
+          skipped.duplicate++;
+          continue;
+        }
+        seen.add(key);
+      }
+
+      records.push(
+        this.options.format === 'sharegpt' ? this.toShareGPT(turns) : this.toOpenAI(turns),
+      );
+    }
+
+    const content = this.options.format === 'sharegpt'
+      ? JSON.stringify(records, null, 2) + '\n'
+      : records.map((record) => JSON.stringify(record) + '\n').join('');
+    return { content, exported: records.length, skipped };
+  }
+
+  /**
+   * セッションのメッセージを会話のターンに変換
+   * @param structured XML形式のツール呼び出しと結果を tool_calls と tool ロールに変換するか
+   */
+  private toTurns(session: SessionHistory, structured: boolean): DatasetTurn[] {
+    const turns: DatasetTurn[] = [];
+    const callIds = new Map<string, string>();
+    const pendingCalls: DatasetToolCall[] = [];
+    let callCount = 0;
+    const redact = (text: string) =>
+      (this.options.redactors ?? []).reduce(
+        (current, redactor) => redactor(current, session),
+        text,
+      );
+    const nextCallId = (originalId?: string) => {
+      const id = `call_${++callCount}`;
+      if (originalId !== undefined) callIds.set(originalId, id);
+      return id;
+    };
+
+    for (const message of session.messages) {
+      const content = redact(message.content);
+
+      if (message.role === 'system') {
+        if (this.options.includeSystemPrompt ?? true) {
+          turns.push({ role: 'system', content });
+        }
+        continue;
+      }
+
+      if (message.role === 'tool') {
+        const originalId = message.metadata?.toolCallId;
+        turns.push({
+          role: 'tool',
+          content,
+          toolCallId: callIds.get(String(originalId)) ?? String(originalId ?? ''),
+          name: typeof message.metadata?.toolName === 'string'
+            ? message.metadata.toolName
+            : undefined,
+        });
+        continue;
+      }
+
+      if (message.role === 'user') {
+        const toolResponse = content.match(TOOL_RESPONSE_PATTERN);
+        if (structured && toolResponse) {
+          const call = pendingCalls.shift();
+          turns.push({
+            role: 'tool',
+            content: toolResponse[1],
+            toolCallId: call?.id ?? nextCallId(),
+            name: call?.name,
+          });
+        } else {
+          // LLMクライアントと同じく <user_query> で囲んだ内容を学習させる
+          turns.push({ role: 'user', content: `<user_query>${content}</user_query>` });
+        }
+        continue;
+      }
+
+      turns.push(
+        this.toAssistantTurn(message, content, structured, redact, nextCallId, pendingCalls),
+      );
+    }
+
+    return turns;
+  }
+
+  /**
+   * アシスタントのメッセージをターンに変換
+   */
+  private toAssistantTurn(
+    message: Message,
+    content: string,
+    structured: boolean,
+    redact: (text: string) => string,
+    nextCallId: (originalId?: string) => string,
+    pendingCalls: DatasetToolCall[],
+  ): DatasetTurn {
+    const nativeCalls = message.metadata?.toolCalls as NativeToolCall[] | undefined;
+    if (nativeCalls && nativeCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: content || null,
+        toolCalls: nativeCalls.map((call) => ({
+          id: nextCallId(call.id),
+          name: call.name,
+          arguments: redact(call.arguments),
+        })),
+      };
+    }
+
+    if (structured) {
+      const parsed = parseToolCall(content, this.options.parameterLookup);
+      if (parsed.status === 'ok') {
+        const call = {
+          id: nextCallId(),
+          name: parsed.toolName,
+          arguments: JSON.stringify(parsed.parameters),
+        };
+        pendingCalls.push(call);
+        return {
+          role: 'assistant',
+          content: content.slice(0, parsed.start).trim() || null,
+          toolCalls: [call],
+        };
+      }
+    }
+
+    return { role: 'assistant', content };
+  }
+
+  /**
+   * OpenAIのチャットファインチューニング形式のレコードに変換
+   */
+  private toOpenAI(turns: DatasetTurn[]): Record<string, unknown> {
+    const messages = turns.map((turn) => {
+      switch (turn.role) {
+        case 'assistant':
+          return turn.toolCalls
+            ? {
+              role: 'assistant',
+              content: turn.content,
+              tool_calls: turn.toolCalls.map((call) => ({
+                id: call.id,
+                type: 'function',
+                function: { name: call.name, arguments: call.arguments },
+              })),
+            }
+            : { role: 'assistant', content: turn.content };
+        case 'tool':
+          return { role: 'tool', tool_call_id: turn.toolCallId, content: turn.content };
+        default:
+          return { role: turn.role, content: turn.content };
+      }
+    });
+
+    const record: Record<string, unknown> = { messages };
+    if (this.options.tools && turns.some((turn) => turn.toolCalls)) {
+      record.tools = this.options.tools.map((tool) => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      }));
+    }
+    return record;
+  }
+
+  /**
+   * ShareGPT形式のレコードに変換
+   * 発言とツール呼び出しを同じターンに含められないため、ツール呼び出しのターンは function_call のみにする
+   */
+  private toShareGPT(turns: DatasetTurn[]): Record<string, unknown> {
+    const record: Record<string, unknown> = {};
+    const conversations: { from: string; value: string }[] = [];
+
+    for (const turn of turns) {
+      if (turn.role === 'system') {
+        record.system = turn.content;
+      } else if (turn.role === 'user') {
+        conversations.push({ from: 'human', value: turn.content ?? '' });
+      } else if (turn.role === 'tool') {
+        conversations.push({ from: 'observation', value: turn.content ?? '' });
+      } else if (turn.toolCalls) {
+        const calls = turn.toolCalls.map((call) => ({
+          name: call.name,
+          arguments: parseArguments(call.arguments),
+        }));
+        conversations.push({
+          from: 'function_call',
+          value: JSON.stringify(calls.length === 1 ? calls[0] : calls),
+        });
+      } else {
+        conversations.push({ from: 'gpt', value: turn.content ?? '' });
+      }
+    }
+
+    record.conversations = conversations;
+    if (this.options.tools && turns.some((turn) => turn.toolCalls)) {
+      record.tools = JSON.stringify(this.options.tools);
+    }
+    return record;
+  }
+}
+
+/**
+ * JSON文字列の引数をオブジェクトに変換（解析できない場合は文字列のまま）
+ */
+function parseArguments(args: string): unknown {
+  try {
+    return JSON.parse(args);
+  } catch {
+    return args;
+  }
+}
@@ -0,0 +1,121 @@
+import { assertEquals } from '@std/assert';
+import type { Message, SessionHistory } from '../../interfaces/history.ts';
+import { DatasetExporter, getFinalResponseType } from './dataset_exporter.ts';
+
+const timestamp = '2025-01-01T00:00:00.000Z';
+
+function createSession(messages: Omit<Message, 'timestamp'>[]): SessionHistory {
+  return {
+    sessionId: crypto.randomUUID(),
+    timestamp,
+    model: 'gpt-4',
+    messages: messages.map((message) => ({ ...message, timestamp })),
+    metadata: {},
+  };
+}
+
+const respond = (type: string) =>
+  `<tool_call><respond_to_user><type>${type}</type><message>done</message></respond_to_user></tool_call>`;
+
+const xmlSession = createSession([
+  { role: 'system', content: 'prompt' },
+  { role: 'user', content: 'read a.txt' },
+  {
+    role: 'assistant',
+    content: 'reading\n<tool_call><read_file><path>a.txt</path></read_file></tool_call>',
+  },
+  { role: 'user', content: '<tool_response>{"success":true,"content":"hi"}</tool_response>' },
+  { role: 'assistant', content: respond('success') },
+]);
+
+Deno.test('getFinalResponseType: 最後の respond_to_user の種類を返す', () => {
+  assertEquals(getFinalResponseType(xmlSession), 'success');
+  assertEquals(
+    getFinalResponseType(createSession([{ role: 'assistant', content: respond('error') }])),
+    'error',
+  );
+  assertEquals(
+    getFinalResponseType(createSession([{
+      role: 'assistant',
+      content: '',
+      metadata: {
+        toolCalls: [{ id: 'x', name: 'respond_to_user', arguments: '{"message":"ok"}' }],
+      },
+    }])),
+    'success',
+  );
+  assertEquals(getFinalResponseType(createSession([{ role: 'user', content: 'hi' }])), null);
+});
+
+Deno.test('DatasetExporter: openai-tools ではXML形式のツール呼び出しを tool_calls に変換する', () => {
+  const result = new DatasetExporter({ format: 'openai-tools', includeSystemPrompt: false })
+    .export([xmlSession]);
+  const record = JSON.parse(result.content);
+
+  assertEquals(result.exported, 1);
+  assertEquals(record.messages.slice(0, 3), [
+    { role: 'user', content: '<user_query>read a.txt</user_query>' },
+    {
+      role: 'assistant',
+      content: 'reading',
+      tool_calls: [{
+        id: 'call_1',
+        type: 'function',
+        function: { name: 'read_file', arguments: '{"path":"a.txt"}' },
+      }],
+    },
+    { role: 'tool', tool_call_id: 'call_1', content: '{"success":true,"content":"hi"}' },
+  ]);
+  assertEquals(record.messages[3].tool_calls[0].id, 'call_2');
+});
+
+Deno.test('DatasetExporter: sharegpt ではツール呼び出しを function_call と observation にする', () => {
+  const result = new DatasetExporter({ format: 'sharegpt' }).export([xmlSession]);
+  const [record] = JSON.parse(result.content);
+
+  assertEquals(record.system, 'prompt');
+  assertEquals(record.conversations.map((turn: { from: string }) => turn.from), [
+    'human',
+    'function_call',
+    'observation',
+    'function_call',
+  ]);
+  assertEquals(JSON.parse(record.conversations[1].value), {
+    name: 'read_file',
+    arguments: { path: 'a.txt' },
+  });
+});
+
+Deno.test('DatasetExporter: 成功したセッションの絞り込み、置き換え、重複の除外', () => {
+  const failed = createSession([
+    { role: 'user', content: 'task' },
+    { role: 'assistant', content: respond('error') },
+  ]);
+  const native = createSession([
+    { role: 'user', content: 'token is sk-secret' },
+    {
+      role: 'assistant',
+      content: '',
+      metadata: {
+        toolCalls: [{ id: 'toolu_1', name: 'get_env', arguments: '{"name":"sk-secret"}' }],
+      },
+    },
+    { role: 'tool', content: 'sk-secret', metadata: { toolCallId: 'toolu_1' } },
+    { role: 'assistant', content: respond('success') },
+  ]);
+  const duplicate = { ...native, sessionId: 'other' };
+
+  const result = new DatasetExporter({
+    format: 'openai',
+    onlySuccessful: true,
+    redactors: [(text) => text.replaceAll('sk-secret', '[REDACTED]')],
+  }).export([failed, native, duplicate, createSession([{ role: 'user', content: 'hi' }])]);
+
+  assertEquals(result.exported, 1);
+  assertEquals(result.skipped, { unsuccessful: 2, duplicate: 1, empty: 0 });
+  assertEquals(result.content.includes('sk-secret'), false);
+  const [userMessage, assistantMessage, toolMessage] = JSON.parse(result.content).messages;
+  assertEquals(userMessage.content, '<user_query>token is [REDACTED]</user_query>');
+  assertEquals(assistantMessage.tool_calls[0].id, 'call_1');
+  assertEquals(toolMessage.tool_call_id, 'call_1');
+});
@@ -1,13 +1,54 @@
-import { join } from '@std/path';
+import { dirname, join } from '@std/path';
 import { ensureDir, exists } from '@std/fs';
 import { v4 as uuid } from '@std/uuid';
 import type {
   HistoryRecorder as IHistoryRecorder,
   Message,
+  MessageRole,
   SessionHistory,
   SessionMetadata,
 } from '../../interfaces/history.ts';
 import { ConfigManager } from '../config/manager.ts';
+import { SecretScanner } from '../permission/secret_scanner.ts';
+import {
+  acquireSessionLock,
+  getLockPath,
+  readLiveOwner,
+  releaseSessionLock,
+  type SessionLockOwner,
+} from './session_lock.ts';
+import {
+  appendSessionLog,
+  applyResume,
+  replaySessionLog,
+  type SessionLogRecord,
+  toSessionLogRecords,
+} from './session_log.ts';
+
+/**
+ * セッションファイル名（.jsonl は記録中または異常終了したセッションのログ、.json は終了時に書き出したもの）
+ */
+const SESSION_FILE_PATTERN = /^session_.+\.jsonl?$/;
+
+/**
+ * メッセージの検索結果
+ */
+export interface MessageSearchResult {
+  session: SessionHistory;
+  /** セッション内のメッセージの位置 */
+  index: number;
+  message: Message;
+}
+
+/**
+ * セッションの最終更新日時（最後のメッセージの日時）を取得
+ */
+export function getLastActivity(session: SessionHistory): number {
+  return Math.max(
+    new Date(session.timestamp).getTime(),
+    ...session.messages.map((message) => new Date(message.timestamp).getTime() || 0),
+  );
+}
 
 /**
  * 履歴記録実装クラス
@@ -15,6 +56,7 @@ import { ConfigManager } from '../config/manager.ts';
 export class HistoryRecorder implements IHistoryRecorder {
   private configManager: ConfigManager;
   private activeSessions: Map<string, SessionHistory> = new Map();
+  private secretScanner: SecretScanner | null = null;
 
   constructor(configManager: ConfigManager) {
     this.configManager = configManager;
@@ -34,6 +76,7 @@ export class HistoryRecorder implements IHistoryRecorder {
       messages: [],
       metadata: {
         model,
+        workingDirectory: Deno.cwd(),
       },
     };
 
@@ -46,10 +89,67 @@ export class HistoryRecorder implements IHistoryRecorder {
 
     session.messages.push(systemMessage);
     this.activeSessions.set(sessionId, session);
+    const logPath = await this.getLogPath(session);
+    await acquireSessionLock(sessionId, getLockPath(logPath));
+    await appendSessionLog(logPath, toSessionLogRecords(session));
 
     return sessionId;
   }
 
+  /**
+   * 保存済みのセッションを再開
+   * 以降のメッセージは同じセッションのログに追記される（終了済みのセッションはログに戻してから追記する）
+   * @param systemPrompt 指定した場合はシステムプロンプトを置き換える（ディレクトリ構造などを最新にする）
+   * @throws {SessionLockedError} 別のプロセスで実行中のセッションの場合
+   */
+  async resumeSession(sessionId: string, systemPrompt?: string): Promise<SessionHistory> {
+    if (this.activeSessions.has(sessionId)) {
+      throw new Error(`セッション ${sessionId} は既に実行中です`);
+    }
+
+    const found = await this.findSessionFile(sessionId);
+    const session = found ? await this.loadSessionFromPath(found) : null;
+    if (!found || !session) {
+      throw new Error(`セッション ${sessionId} が見つかりません`);
+    }
+
+    // 同じセッションのログに複数のプロセスが追記しないよう、ロックを取得してから再開する
+    const logPath = await this.getLogPath(session);
+    const lockPath = getLockPath(logPath);
+    await acquireSessionLock(sessionId, lockPath);
+
+    const timestamp = new Date().toISOString();
+    const resumeRecord: SessionLogRecord = { type: 'resume', timestamp, systemPrompt };
+    try {
+      if (found === logPath) {
+        await appendSessionLog(logPath, [resumeRecord]);
+      } else {
+        // 終了時に書き出したJSONはログを作り直してから削除する
+        await Deno.remove(logPath).catch(() => {});
+        await appendSessionLog(logPath, [...toSessionLogRecords(session), resumeRecord]);
+        await Deno.remove(found);
+      }
+    } catch (error) {
+      await releaseSessionLock(lockPath);
+      throw error;
+    }
+
+    applyResume(session, timestamp, systemPrompt);
+    this.activeSessions.set(sessionId, session);
+
+    return { ...session };
+  }
+
+  /**
+   * 作業ディレクトリで最後に使用したセッションを取得
+   */
+  async findLatestSession(workingDirectory: string): Promise<SessionHistory | null> {
+    const sessions = await this.listSessions(Number.MAX_SAFE_INTEGER);
+    return sessions
+      .filter((session) => session.metadata?.workingDirectory === workingDirectory)
+      .sort((a, b) => getLastActivity(b) - getLastActivity(a))[0] ?? null;
+  }
+
   /**
    * メッセージを記録
    */
@@ -59,18 +159,26 @@ export class HistoryRecorder implements IHistoryRecorder {
       throw new Error(`セッション ${sessionId} が見つかりません`);
     }
 
+    // 機密情報はLLMへの送信やファイルへの保存の前にマスクする
+    const scanner = await this.getSecretScanner();
+    const { value: redacted } = scanner.redactValue({
+      content: message.content,
+      metadata: message.metadata,
+    });
+
     // タイムスタンプがない場合は現在時刻を設定
     const messageWithTimestamp = {
       ...message,
+      ...redacted,
       timestamp: message.timestamp || new Date().toISOString(),
     };
 
     session.messages.push(messageWithTimestamp);
 
-    // 定期的にファイルに保存（メッセージ数が5の倍数の時）
-    if (session.messages.length % 5 === 0) {
-      await this.saveSessionToFile(session);
-    }
+    // 異常終了しても失われないよう、メッセージごとにログへ追記する
+    await appendSessionLog(await this.getLogPath(session), [
+      { type: 'message', message: messageWithTimestamp },
+    ]);
   }
 
   /**
@@ -85,8 +193,14 @@ export class HistoryRecorder implements IHistoryRecorder {
     // メタデータを更新
     session.metadata = { ...session.metadata, ...metadata };
 
-    // ファイルに保存
-    await this.saveSessionToFile(session);
+    // 終了を記録してから、ログをSessionHistory形式のJSONにまとめる
+    const logPath = await this.getLogPath(session);
+    await appendSessionLog(logPath, [
+      { type: 'end', timestamp: new Date().toISOString(), metadata },
+    ]);
+    await this.exportSession(session, join(dirname(logPath), `session_${sessionId}.json`));
+    await Deno.remove(logPath);
+    await releaseSessionLock(getLockPath(logPath));
 
     // アクティブセッションから削除
     this.activeSessions.delete(sessionId);
@@ -131,15 +245,21 @@ export class HistoryRecorder implements IHistoryRecorder {
 
         // セッションファイルを検索
         for await (const sessionEntry of Deno.readDir(datePath)) {
-          if (!sessionEntry.isFile || !sessionEntry.name.endsWith('.json')) {
+          if (!sessionEntry.isFile || !SESSION_FILE_PATTERN.test(sessionEntry.name)) {
             continue;
           }
 
           const sessionPath = join(datePath, sessionEntry.name);
           try {
             const sessionData = await this.loadSessionFromPath(sessionPath);
-            if (sessionData) {
+            // ログとJSONの両方がある場合（まとめる途中で中断された場合）はログを優先する
+            const index = sessions.findIndex((session) =>
+              session.sessionId === sessionData?.sessionId
+            );
+            if (sessionData && index === -1) {
               sessions.push(sessionData);
+            } else if (sessionData && sessionPath.endsWith('.jsonl')) {
+              sessions[index] = sessionData;
             }
           } catch {
             // ファイル読み込みエラーは無視
@@ -166,27 +286,132 @@ export class HistoryRecorder implements IHistoryRecorder {
   }
 
   /**
-   * セッションをファイルに保存
+   * メッセージの内容を検索（大文字・小文字を区別しない）
+   * @param roles 検索対象の役割（デフォルトではシステムプロンプトを除く）
    */
-  private async saveSessionToFile(session: SessionHistory): Promise<void> {
+  async searchMessages(
+    query: string,
+    roles: MessageRole[] = ['user', 'assistant', 'tool'],
+  ): Promise<MessageSearchResult[]> {
+    const needle = query.toLowerCase();
+    const results: MessageSearchResult[] = [];
+    for (const session of await this.listSessions(Number.MAX_SAFE_INTEGER)) {
+      session.messages.forEach((message, index) => {
+        if (roles.includes(message.role) && message.content.toLowerCase().includes(needle)) {
+          results.push({ session, index, message });
+        }
+      });
+    }
+    return results;
+  }
+
+  /**
+   * セッションを削除
+   * @returns 削除するファイルがあった場合true
+   */
+  async deleteSession(sessionId: string): Promise<boolean> {
+    if (this.activeSessions.has(sessionId)) {
+      throw new Error(`セッション ${sessionId} は実行中のため削除できません`);
+    }
+    const owner = await this.getLiveOwner(sessionId);
+    if (owner) {
+      throw new Error(
+        `セッション ${sessionId} は別のプロセス（PID ${owner.pid}）で実行中のため削除できません`,
+      );
+    }
+
+    // ログと書き出したJSONの両方がある場合はどちらも削除する（異常終了時のロックも取り除く）
+    let deleted = false;
+    let filePath: string | null;
+    while ((filePath = await this.findSessionFile(sessionId)) !== null) {
+      await Deno.remove(filePath);
+      await releaseSessionLock(getLockPath(filePath));
+      deleted = true;
+    }
+    return deleted;
+  }
+
+  /**
+   * 別のプロセスで実行中のセッションの場合、そのプロセスを取得
+   */
+  async getLiveOwner(sessionId: string): Promise<SessionLockOwner | null> {
+    const filePath = await this.findSessionFile(sessionId);
+    return filePath ? await readLiveOwner(getLockPath(filePath)) : null;
+  }
+
+  /**
+   * 古いセッションをまとめて削除（最終更新日時で判定する）
+   * 実行中のセッションは削除しない
+   * @param options.olderThan この日時より前に最後に更新されたセッションを削除
+   * @param options.keep 新しい順にこの件数を残して削除
+   * @returns 削除したセッションID
+   */
+  async pruneSessions(options: { olderThan?: Date; keep?: number }): Promise<string[]> {
+    const sessions = (await this.listSessions(Number.MAX_SAFE_INTEGER))
+      .sort((a, b) => getLastActivity(b) - getLastActivity(a));
+
+    const deleted: string[] = [];
+    for (const [index, session] of sessions.entries()) {
+      const expired = options.olderThan !== undefined &&
+        getLastActivity(session) < options.olderThan.getTime();
+      const overflow = options.keep !== undefined && index >= options.keep;
+      if (
+        (expired || overflow) && !this.activeSessions.has(session.sessionId) &&
+        !await this.getLiveOwner(session.sessionId) &&
+        await this.deleteSession(session.sessionId)
+      ) {
+        deleted.push(session.sessionId);
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * 機密情報の検出・マスククラスを取得
+   */
+  private async getSecretScanner(): Promise<SecretScanner> {
+    if (!this.secretScanner) {
+      const settings = await this.configManager.getSecuritySettings();
+      this.secretScanner = new SecretScanner(settings.secrets);
+    }
+    return this.secretScanner;
+  }
+
+  /**
+   * セッションをSessionHistory形式のJSONとして書き出す
+   * 書き込み途中で中断されても既存のファイルが壊れないよう、一時ファイルに書いてから置き換える
+   */
+  async exportSession(session: SessionHistory, filePath: string): Promise<void> {
+    await ensureDir(dirname(filePath));
+    const tempPath = `${filePath}.tmp`;
+    await Deno.writeTextFile(tempPath, JSON.stringify(session, null, 2));
+    await Deno.rename(tempPath, filePath);
+  }
+
+  /**
+   * セッションのログファイルのパスを取得（日付ディレクトリは作成する）
+   */
+  private async getLogPath(session: SessionHistory): Promise<string> {
     const historyDir = this.configManager.getHistoryDirectory();
-    const sessionDate = new Date(session.timestamp);
-    const dateStr = sessionDate.toISOString().split('T')[0]; // YYYY-MM-DD
+    const dateStr = new Date(session.timestamp).toISOString().split('T')[0]; // YYYY-MM-DD
 
     const sessionDir = join(historyDir, 'sessions', dateStr);
     await ensureDir(sessionDir);
-
-    const filename = `session_${session.sessionId}.json`;
-    const filePath = join(sessionDir, filename);
-
-    const sessionData = JSON.stringify(session, null, 2);
-    await Deno.writeTextFile(filePath, sessionData);
+    return join(sessionDir, `session_${session.sessionId}.jsonl`);
   }
 
   /**
    * セッションをファイルから読み込み
    */
   private async loadSessionFromFile(sessionId: string): Promise<SessionHistory | null> {
+    const filePath = await this.findSessionFile(sessionId);
+    return filePath ? this.loadSessionFromPath(filePath) : null;
+  }
+
+  /**
+   * セッションのファイルを検索（ログとJSONの両方がある場合はログを優先する）
+   */
+  private async findSessionFile(sessionId: string): Promise<string | null> {
     const historyDir = this.configManager.getHistoryDirectory();
     const sessionsDir = join(historyDir, 'sessions');
 
@@ -200,11 +425,11 @@ export class HistoryRecorder implements IHistoryRecorder {
         if (!dateEntry.isDirectory) continue;
 
         const datePath = join(sessionsDir, dateEntry.name);
-        const filename = `session_${sessionId}.json`;
-        const filePath = join(datePath, filename);
-
-        if (await exists(filePath)) {
-          return this.loadSessionFromPath(filePath);
+        for (const extension of ['.jsonl', '.json']) {
+          const filePath = join(datePath, `session_${sessionId}${extension}`);
+          if (await exists(filePath)) {
+            return filePath;
+          }
         }
       }
     } catch {
@@ -216,14 +441,17 @@ export class HistoryRecorder implements IHistoryRecorder {
 
   /**
    * 指定されたパスからセッションを読み込み
+   * ログ（.jsonl）は記録を再生して復元し、終了していないセッションは metadata.interrupted を付ける
    */
   private async loadSessionFromPath(filePath: string): Promise<SessionHistory | null> {
     try {
       const content = await Deno.readTextFile(filePath);
-      const session = JSON.parse(content) as SessionHistory;
+      const session = filePath.endsWith('.jsonl')
+        ? replaySessionLog(content)?.session
+        : JSON.parse(content) as SessionHistory;
 
       // 基本的な検証
-      if (!session.sessionId || !session.timestamp || !session.model) {
+      if (!session || !session.sessionId || !session.timestamp || !session.model) {
         return null;
       }
 
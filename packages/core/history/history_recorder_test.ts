@@ -0,0 +1,226 @@
+import { assert, assertEquals, assertRejects } from '@std/assert';
+import type { ConfigManager } from '../config/manager.ts';
+import { HistoryRecorder } from './history_recorder.ts';
+import { SessionLockedError } from './session_lock.ts';
+
+/**
+ * 一時ディレクトリを履歴ディレクトリとして実行する
+ * @param fn 同じ履歴ディレクトリを使う記録クラスを作成する関数を受け取る（別のプロセスの代わり）
+ */
+async function withHistory(
+  fn: (createRecorder: () => HistoryRecorder, historyDir: string) => Promise<void>,
+): Promise<void> {
+  const historyDir = await Deno.makeTempDir();
+  const configManager = {
+    getHistoryDirectory: () => historyDir,
+    getSecuritySettings: () => Promise.resolve({ secrets: {} }),
+  } as unknown as ConfigManager;
+  try {
+    await fn(() => new HistoryRecorder(configManager), historyDir);
+  } finally {
+    await Deno.remove(historyDir, { recursive: true });
+  }
+}
+
+/**
+ * 終了したプロセスのIDを取得
+ */
+async function getExitedPid(): Promise<number> {
+  const child = new Deno.Command(Deno.execPath(), {
+    args: ['eval', ''],
+    stdout: 'null',
+    stderr: 'null',
+  }).spawn();
+  await child.status;
+  return child.pid;
+}
+
+Deno.test('HistoryRecorder: 終了したセッションを再開し、同じセッションに追記する', async () => {
+  await withHistory(async (createRecorder) => {
+    const first = createRecorder();
+    const sessionId = await first.startSession('gpt-4', 'old prompt');
+    await first.recordMessage(sessionId, { role: 'user', content: '最初の依頼', timestamp: '' });
+    await first.endSession(sessionId, { toolCallsCount: 1 });
+
+    const second = createRecorder();
+    const resumed = await second.resumeSession(sessionId, 'new prompt');
+    assertEquals(resumed.messages.map((message) => message.content), ['new prompt', '最初の依頼']);
+    await second.recordMessage(sessionId, { role: 'user', content: '続きの依頼', timestamp: '' });
+    await second.endSession(sessionId, {});
+
+    const saved = await createRecorder().getSession(sessionId);
+    assert(saved);
+    assertEquals(saved.messages.map((message) => message.content), [
+      'new prompt',
+      '最初の依頼',
+      '続きの依頼',
+    ]);
+    assertEquals(saved.metadata.resumedAt?.length, 1);
+    assertEquals(saved.metadata.toolCallsCount, 1);
+    assertEquals((await createRecorder().listSessions()).length, 1);
+  });
+});
+
+Deno.test('HistoryRecorder: 作業ディレクトリで最後に更新したセッションを取得する', async () => {
+  await withHistory(async (createRecorder) => {
+    const recorder = createRecorder();
+    const older = await recorder.startSession('gpt-4', 'prompt');
+    const newer = await recorder.startSession('gpt-4', 'prompt');
+    await recorder.recordMessage(newer, {
+      role: 'user',
+      content: 'a',
+      timestamp: '2999-01-01T00:00:00.000Z',
+    });
+    await recorder.endSession(newer, {});
+    await recorder.endSession(older, {});
+
+    assertEquals((await createRecorder().findLatestSession(Deno.cwd()))?.sessionId, newer);
+    assertEquals(await createRecorder().findLatestSession('/nonexistent'), null);
+
+    // 再開して発言したセッションが最後に使用したセッションになる
+    const resumed = createRecorder();
+    await resumed.resumeSession(older);
+    await resumed.recordMessage(older, {
+      role: 'user',
+      content: 'b',
+      timestamp: '2999-01-02T00:00:00.000Z',
+    });
+    await resumed.endSession(older, {});
+    assertEquals((await createRecorder().findLatestSession(Deno.cwd()))?.sessionId, older);
+  });
+});
+
+Deno.test('HistoryRecorder: 別のプロセスで実行中のセッションは再開しない', async () => {
+  await withHistory(async (createRecorder, historyDir) => {
+    const running = createRecorder();
+    const sessionId = await running.startSession('gpt-4', 'prompt');
+
+    const other = createRecorder();
+    await assertRejects(
+      () => other.resumeSession(sessionId),
+      SessionLockedError,
+      `PID ${Deno.pid}`,
+    );
+
+    // 終了後は再開できる
+    await running.endSession(sessionId, {});
+    await other.resumeSession(sessionId);
+    await other.endSession(sessionId, {});
+
+    // 異常終了したプロセスのロックは無視する
+    const crashed = await createRecorder().startSession('gpt-4', 'prompt');
+    const [dateDir] = await Array.fromAsync(Deno.readDir(`${historyDir}/sessions`));
+    await Deno.writeTextFile(
+      `${historyDir}/sessions/${dateDir.name}/session_${crashed}.lock`,
+      JSON.stringify({ pid: await getExitedPid(), timestamp: new Date().toISOString() }),
+    );
+    const recovered = await createRecorder().resumeSession(crashed);
+    assertEquals(recovered.sessionId, crashed);
+  });
+});
+
+Deno.test('HistoryRecorder: 同じPIDでもこのプロセスが取得していないロックは無視する', async () => {
+  await withHistory(async (createRecorder, historyDir) => {
+    const recorder = createRecorder();
+    const sessionId = await recorder.startSession('gpt-4', 'prompt');
+    await recorder.endSession(sessionId, {});
+
+    // コンテナで再起動した場合など、以前のプロセスが同じPIDで残したロック
+    const [dateDir] = await Array.fromAsync(Deno.readDir(`${historyDir}/sessions`));
+    await Deno.writeTextFile(
+      `${historyDir}/sessions/${dateDir.name}/session_${sessionId}.lock`,
+      JSON.stringify({
+        pid: Deno.pid,
+        token: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+      }),
+    );
+
+    const other = createRecorder();
+    assertEquals(await other.getLiveOwner(sessionId), null);
+    const resumed = await other.resumeSession(sessionId);
+    assertEquals(resumed.sessionId, sessionId);
+
+    // 再開後はこのプロセスのロックとして扱う
+    assertEquals((await createRecorder().getLiveOwner(sessionId))?.pid, Deno.pid);
+    await other.endSession(sessionId, {});
+    assertEquals(await createRecorder().deleteSession(sessionId), true);
+  });
+});
+
+Deno.test('HistoryRecorder: searchMessages は大文字・小文字を区別せず、既定ではシステムプロンプトを除く', async () => {
+  await withHistory(async (createRecorder) => {
+    const recorder = createRecorder();
+    const sessionId = await recorder.startSession('gpt-4', 'Deno prompt');
+    await recorder.recordMessage(sessionId, { role: 'user', content: 'deno test', timestamp: '' });
+    await recorder.recordMessage(sessionId, { role: 'assistant', content: 'OK', timestamp: '' });
+    await recorder.recordMessage(sessionId, { role: 'tool', content: 'DENO', timestamp: '' });
+    await recorder.endSession(sessionId, {});
+
+    const results = await createRecorder().searchMessages('Deno');
+    assertEquals(results.map(({ index, message }) => [index, message.role]), [
+      [1, 'user'],
+      [3, 'tool'],
+    ]);
+    assertEquals(results[0].session.sessionId, sessionId);
+    assertEquals(
+      (await createRecorder().searchMessages('deno', ['system'])).map(({ index }) => index),
+      [0],
+    );
+  });
+});
+
+Deno.test('HistoryRecorder: deleteSession はログ・JSON・ロックを削除し、実行中のセッションは削除しない', async () => {
+  await withHistory(async (createRecorder, historyDir) => {
+    const recorder = createRecorder();
+    const ended = await recorder.startSession('gpt-4', 'prompt');
+    await recorder.endSession(ended, {});
+    const running = await recorder.startSession('gpt-4', 'prompt');
+
+    await assertRejects(() => recorder.deleteSession(running), Error, '実行中のため削除できません');
+    await assertRejects(
+      () => createRecorder().deleteSession(running),
+      Error,
+      `PID ${Deno.pid}`,
+    );
+
+    const other = createRecorder();
+    assertEquals(await other.deleteSession(ended), true);
+    assertEquals(await other.deleteSession(ended), false);
+    assertEquals((await other.listSessions()).map((session) => session.sessionId), [running]);
+
+    // 異常終了したセッションはロックごと削除する
+    const [dateDir] = await Array.fromAsync(Deno.readDir(`${historyDir}/sessions`));
+    const sessionDir = `${historyDir}/sessions/${dateDir.name}`;
+    await Deno.writeTextFile(
+      `${sessionDir}/session_${running}.lock`,
+      JSON.stringify({ pid: await getExitedPid(), timestamp: new Date().toISOString() }),
+    );
+    assertEquals(await other.deleteSession(running), true);
+    assertEquals(await Array.fromAsync(Deno.readDir(sessionDir)), []);
+  });
+});
+
+Deno.test('HistoryRecorder: pruneSessions は最終更新日時で判定し、実行中のセッションを残す', async () => {
+  await withHistory(async (createRecorder) => {
+    const recorder = createRecorder();
+    const record = async (timestamp: string, end = true) => {
+      const sessionId = await recorder.startSession('gpt-4', 'prompt');
+      await recorder.recordMessage(sessionId, { role: 'user', content: 'a', timestamp });
+      if (end) await recorder.endSession(sessionId, {});
+      return sessionId;
+    };
+    const old = await record('2000-01-01T00:00:00.000Z');
+    const running = await record('2000-01-02T00:00:00.000Z', false);
+    const recent = await record('2999-01-01T00:00:00.000Z');
+    const latest = await record('2999-01-02T00:00:00.000Z');
+
+    const other = createRecorder();
+    assertEquals(await other.pruneSessions({ olderThan: new Date() }), [old]);
+    assertEquals(await other.pruneSessions({ keep: 1 }), [recent]);
+    assertEquals(
+      (await other.listSessions()).map((session) => session.sessionId).sort(),
+      [latest, running].sort(),
+    );
+  });
+});
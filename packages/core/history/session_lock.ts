@@ -0,0 +1,134 @@
+/**
+ * セッションを記録中のプロセス（ロックファイルの内容）
+ */
+export interface SessionLockOwner {
+  pid: number;
+  /** ロックごとに生成する値（以前に同じPIDだったプロセスのロックと区別する） */
+  token: string;
+  /** ロックを取得した日時 */
+  timestamp: string;
+}
+
+/**
+ * このプロセスが取得したロック（ロックファイルのパスとトークン）
+ */
+const heldLocks = new Map<string, string>();
+
+/**
+ * セッションが別のプロセスで記録中の場合のエラー
+ */
+export class SessionLockedError extends Error {
+  readonly owner: SessionLockOwner;
+
+  constructor(sessionId: string, owner: SessionLockOwner) {
+    super(`セッション ${sessionId} は別のプロセス（PID ${owner.pid}）で実行中です`);
+    this.name = 'SessionLockedError';
+    this.owner = owner;
+  }
+}
+
+/**
+ * ログファイルに対応するロックファイルのパスを取得
+ */
+export function getLockPath(logPath: string): string {
+  return logPath.replace(/\.jsonl?$/, '.lock');
+}
+
+/**
+ * プロセスが実行中か確認
+ */
+export async function isProcessAlive(pid: number): Promise<boolean> {
+  try {
+    switch (Deno.build.os) {
+      case 'linux':
+        await Deno.stat(`/proc/${pid}`);
+        return true;
+      case 'windows': {
+        const { stdout } = await new Deno.Command('tasklist', {
+          args: ['/FI', `PID eq ${pid}`, '/NH', '/FO', 'CSV'],
+          stdout: 'piped',
+          stderr: 'null',
+        }).output();
+        return new TextDecoder().decode(stdout).includes(`"${pid}"`);
+      }
+      default: {
+        const { success } = await new Deno.Command('ps', {
+          args: ['-p', String(pid)],
+          stdout: 'null',
+          stderr: 'null',
+        }).output();
+        return success;
+      }
+    }
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound && Deno.build.os === 'linux') {
+      return false;
+    }
+    // 確認できない場合は、記録中のセッションを壊さないよう実行中とみなす
+    return true;
+  }
+}
+
+/**
+ * ロックファイルを読み込み、実行中のプロセスが記録しているセッションの場合はそのプロセスを返す
+ * PIDがこのプロセスと同じ場合は、このプロセスが取得したロックのトークンと一致する場合のみ実行中とみなす
+ * （コンテナでは起動のたびに同じPIDになるため、異常終了した以前のプロセスのロックと区別する）
+ * @returns ロックがない場合や、ロックしたプロセスが終了している場合はnull
+ */
+export async function readLiveOwner(lockPath: string): Promise<SessionLockOwner | null> {
+  let owner: SessionLockOwner;
+  try {
+    owner = JSON.parse(await Deno.readTextFile(lockPath));
+  } catch {
+    return null;
+  }
+  if (typeof owner?.pid !== 'number') {
+    return null;
+  }
+  if (owner.pid === Deno.pid) {
+    return heldLocks.get(lockPath) === owner.token ? owner : null;
+  }
+  return await isProcessAlive(owner.pid) ? owner : null;
+}
+
+/**
+ * セッションのロックを取得
+ * 異常終了したプロセスが残したロックは取り除いて取得し直す
+ * @throws {SessionLockedError} 別の実行中のプロセスがロックしている場合
+ */
+export async function acquireSessionLock(sessionId: string, lockPath: string): Promise<void> {
+  const owner: SessionLockOwner = {
+    pid: Deno.pid,
+    token: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+  };
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      // 同時に取得しようとした場合に一方のみが成功するよう、新規作成のみ許可する
+      await Deno.writeTextFile(lockPath, JSON.stringify(owner), { createNew: true });
+      heldLocks.set(lockPath, owner.token);
+      return;
+    } catch (error) {
+      if (!(error instanceof Deno.errors.AlreadyExists)) {
+        throw error;
+      }
+    }
+
+    const liveOwner = await readLiveOwner(lockPath);
+    if (liveOwner) {
+      throw new SessionLockedError(sessionId, liveOwner);
+    }
+    await Deno.remove(lockPath).catch(() => {});
+  }
+
+  throw new Error(`セッション ${sessionId} のロックを取得できませんでした`);
+}
+
+/**
+ * セッションのロックを解除
+ */
+export async function releaseSessionLock(lockPath: string): Promise<void> {
+  heldLocks.delete(lockPath);
+  await Deno.remove(lockPath).catch(() => {});
+}
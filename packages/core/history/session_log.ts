@@ -0,0 +1,158 @@
+import type { Message, SessionHistory, SessionMetadata } from '../../interfaces/history.ts';
+
+/**
+ * セッションログ（JSONL）の1行分の記録
+ */
+export type SessionLogRecord =
+  | {
+    /** セッション開始（ファイルの先頭に1つだけ記録される） */
+    type: 'header';
+    sessionId: string;
+    timestamp: string;
+    model: string;
+    metadata: SessionMetadata;
+  }
+  | {
+    /** メッセージの追加 */
+    type: 'message';
+    message: Message;
+  }
+  | {
+    /** セッションの再開（システムプロンプトを更新した場合はその内容） */
+    type: 'resume';
+    timestamp: string;
+    systemPrompt?: string;
+  }
+  | {
+    /** セッション終了 */
+    type: 'end';
+    timestamp: string;
+    metadata: SessionMetadata;
+  };
+
+/**
+ * ログから復元したセッション
+ */
+export interface ReplayedSession {
+  session: SessionHistory;
+  /** 終了の記録があるか（ない場合は異常終了または実行中） */
+  ended: boolean;
+}
+
+/**
+ * セッションログに記録を追記し、ディスクへの書き込みを完了させる
+ */
+export async function appendSessionLog(
+  path: string,
+  records: SessionLogRecord[],
+): Promise<void> {
+  const content = records.map((record) => JSON.stringify(record) + '\n').join('');
+  const file = await Deno.open(path, { append: true, create: true });
+  try {
+    const data = new TextEncoder().encode(content);
+    let written = 0;
+    while (written < data.length) {
+      written += await file.write(data.subarray(written));
+    }
+    await file.sync();
+  } finally {
+    file.close();
+  }
+}
+
+/**
+ * セッションの再開を反映する
+ */
+export function applyResume(
+  session: SessionHistory,
+  timestamp: string,
+  systemPrompt?: string,
+): void {
+  if (systemPrompt !== undefined) {
+    const systemMessage = session.messages.find((message) => message.role === 'system');
+    if (systemMessage) {
+      systemMessage.content = systemPrompt;
+      systemMessage.timestamp = timestamp;
+    } else {
+      session.messages.unshift({ role: 'system', content: systemPrompt, timestamp });
+    }
+  }
+
+  const { interrupted: _interrupted, ...metadata } = session.metadata;
+  session.metadata = {
+    ...metadata,
+    resumedAt: [...(metadata.resumedAt ?? []), timestamp],
+  };
+}
+
+/**
+ * セッションログの内容からセッションを復元
+ * 書き込み途中で中断された行などの解析できない行は読み飛ばす
+ * @returns ヘッダーがない場合はnull
+ */
+export function replaySessionLog(content: string): ReplayedSession | null {
+  let session: SessionHistory | null = null;
+  let ended = false;
+
+  for (const line of content.split('\n')) {
+    if (line.trim() === '') continue;
+
+    let record: SessionLogRecord;
+    try {
+      record = JSON.parse(line) as SessionLogRecord;
+    } catch {
+      continue;
+    }
+
+    if (record.type === 'header') {
+      session = {
+        sessionId: record.sessionId,
+        timestamp: record.timestamp,
+        model: record.model,
+        messages: [],
+        metadata: record.metadata ?? {},
+      };
+      continue;
+    }
+    if (!session) continue;
+
+    switch (record.type) {
+      case 'message':
+        session.messages.push(record.message);
+        ended = false;
+        break;
+      case 'resume':
+        applyResume(session, record.timestamp, record.systemPrompt);
+        ended = false;
+        break;
+      case 'end':
+        session.metadata = { ...session.metadata, ...record.metadata };
+        ended = true;
+        break;
+    }
+  }
+
+  if (!session) {
+    return null;
+  }
+  if (!ended) {
+    session.metadata = { ...session.metadata, interrupted: true };
+  }
+  return { session, ended };
+}
+
+/**
+ * 保存済みのセッションをログの記録に変換（JSON形式のセッションを再開する場合に使用）
+ */
+export function toSessionLogRecords(session: SessionHistory): SessionLogRecord[] {
+  return [
+    {
+      type: 'header',
+      sessionId: session.sessionId,
+      timestamp: session.timestamp,
+      model: session.model,
+      metadata: session.metadata,
+    },
+    ...session.messages.map((message): SessionLogRecord => ({ type: 'message', message })),
+  ];
+}
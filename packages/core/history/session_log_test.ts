@@ -0,0 +1,79 @@
+import { assertEquals } from '@std/assert';
+import { join } from '@std/path';
+import { appendSessionLog, replaySessionLog, toSessionLogRecords } from './session_log.ts';
+
+const header = {
+  type: 'header',
+  sessionId: 's1',
+  timestamp: '2025-01-01T00:00:00.000Z',
+  model: 'gpt-4',
+  metadata: { model: 'gpt-4' },
+};
+const message = (role: string, content: string) => ({
+  type: 'message',
+  message: { role, content, timestamp: '2025-01-01T00:00:01.000Z' },
+});
+
+Deno.test('replaySessionLog: 終了の記録までのメッセージとメタデータを復元する', () => {
+  const content = [
+    header,
+    message('system', 'prompt'),
+    message('user', 'hello'),
+    { type: 'end', timestamp: '2025-01-01T00:01:00.000Z', metadata: { toolCallsCount: 2 } },
+  ].map((record) => JSON.stringify(record)).join('\n') + '\n';
+
+  const replayed = replaySessionLog(content)!;
+  assertEquals(replayed.ended, true);
+  assertEquals(replayed.session.messages.map((m) => m.content), ['prompt', 'hello']);
+  assertEquals(replayed.session.metadata, { model: 'gpt-4', toolCallsCount: 2 });
+});
+
+Deno.test('replaySessionLog: 書き込み途中の行を読み飛ばし、未終了のセッションとして開く', () => {
+  const content = [header, message('user', 'hello')]
+    .map((record) => JSON.stringify(record)).join('\n') + '\n{"type":"message","mess';
+
+  const replayed = replaySessionLog(content)!;
+  assertEquals(replayed.ended, false);
+  assertEquals(replayed.session.messages.map((m) => m.content), ['hello']);
+  assertEquals(replayed.session.metadata.interrupted, true);
+  assertEquals(replaySessionLog('{"type":"message"}\n'), null);
+});
+
+Deno.test('replaySessionLog: 再開の記録でシステムプロンプトを置き換える', () => {
+  const content = [
+    header,
+    message('system', 'old prompt'),
+    { type: 'end', timestamp: '2025-01-01T00:01:00.000Z', metadata: {} },
+    { type: 'resume', timestamp: '2025-01-02T00:00:00.000Z', systemPrompt: 'new prompt' },
+    message('user', 'again'),
+  ].map((record) => JSON.stringify(record)).join('\n');
+
+  const replayed = replaySessionLog(content)!;
+  assertEquals(replayed.ended, false);
+  assertEquals(replayed.session.messages.map((m) => m.content), ['new prompt', 'again']);
+  assertEquals(replayed.session.metadata.resumedAt, ['2025-01-02T00:00:00.000Z']);
+});
+
+Deno.test('appendSessionLog: 追記した記録から同じセッションを復元できる', async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const path = join(dir, 'session_s1.jsonl');
+    const session = {
+      sessionId: 's1',
+      timestamp: '2025-01-01T00:00:00.000Z',
+      model: 'gpt-4',
+      messages: [{ role: 'system' as const, content: 'prompt', timestamp: header.timestamp }],
+      metadata: { model: 'gpt-4' },
+    };
+    await appendSessionLog(path, toSessionLogRecords(session));
+    await appendSessionLog(path, [{
+      type: 'end',
+      timestamp: '2025-01-01T00:01:00.000Z',
+      metadata: {},
+    }]);
+
+    assertEquals(replaySessionLog(await Deno.readTextFile(path)), { session, ended: true });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
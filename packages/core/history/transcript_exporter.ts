@@ -0,0 +1,602 @@
+import type {
+  SessionHistory,
+  ToolApprovalDecision,
+  ToolResponseMetadata,
+} from '../../interfaces/history.ts';
+import type { ToolResult } from '../../interfaces/tool.ts';
+import type { NativeToolCall } from '../llm/llm_client.ts';
+import { type ParameterDefinitionLookup, parseToolCall } from '../tools/xml_tool_parser.ts';
+import { getLastActivity } from './history_recorder.ts';
+
+/**
+ * 会話記録の出力形式
+ */
+export type TranscriptFormat = 'md' | 'html';
+
+/**
+ * 会話記録の出力オプション
+ */
+export interface TranscriptExportOptions {
+  format: TranscriptFormat;
+  /** XML形式のツール呼び出しのパラメータの型を解決する関数 */
+  parameterLookup?: ParameterDefinitionLookup;
+}
+
+/**
+ * ツール呼び出し
+ */
+interface TranscriptToolCall {
+  name: string;
+  /** 引数を解析できない場合は元の文字列 */
+  parameters: Record<string, unknown> | string;
+}
+
+/**
+ * 会話記録の1項目
+ */
+type TranscriptEntry =
+  | { kind: 'system' | 'user' | 'notice'; time: string; content: string }
+  | {
+    kind: 'assistant';
+    time: string;
+    /** ツール呼び出し以外の発言 */
+    text: string;
+    calls: TranscriptToolCall[];
+    durationMs?: number;
+    tokens?: number;
+  }
+  | {
+    kind: 'result';
+    time: string;
+    toolName?: string;
+    success?: boolean;
+    body: string;
+    metadata: ToolResponseMetadata;
+  };
+
+/**
+ * セッションの概要
+ */
+interface TranscriptSummary {
+  title: string;
+  rows: [string, string][];
+}
+
+/**
+ * 長い内容を折りたたむ行数
+ */
+const COLLAPSE_LINES = 20;
+
+/**
+ * 長い内容を折りたたむ文字数
+ */
+const COLLAPSE_CHARS = 2000;
+
+/**
+ * 引数を1行で表示する最大の文字数
+ */
+const INLINE_VALUE_LENGTH = 120;
+
+/**
+ * XML形式のツール実行結果
+ */
+const TOOL_RESPONSE_PATTERN = /^<tool_response>([\s\S]*)<\/tool_response>$/;
+
+/**
+ * 承認結果の表示名
+ */
+const APPROVAL_LABELS: Record<ToolApprovalDecision, string> = {
+  auto: '自動実行',
+  allow_once: '今回のみ許可',
+  allow_always: '常に許可',
+  deny: 'ユーザーが拒否',
+  blocked: '権限により拒否',
+};
+
+/**
+ * 実行時間を表示用にフォーマット
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${ms}ms`;
+  }
+  if (ms < 60 * 1000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  const seconds = Math.round(ms / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}h ${String(minutes).padStart(2, '0')}m ${rest}s`
+    : `${minutes}m ${rest}s`;
+}
+
+/**
+ * 日時を表示用にフォーマット
+ */
+function formatTime(timestamp: string | number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+/**
+ * 内容が長く折りたたむべきかを判定
+ */
+function isLong(text: string): boolean {
+  return text.length > COLLAPSE_CHARS || text.split('\n').length > COLLAPSE_LINES;
+}
+
+/**
+ * JSON文字列の引数をオブジェクトに変換（解析できない場合は文字列のまま）
+ */
+function parseArguments(args: string): Record<string, unknown> | string {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : args;
+  } catch {
+    return args;
+  }
+}
+
+/**
+ * 引数の値を表示用の文字列に変換
+ * @returns inline: 1行で表示できる短い値か
+ */
+function formatParameterValue(value: unknown): { text: string; inline: boolean } {
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2) ?? 'null';
+  return { text, inline: !text.includes('\n') && text.length <= INLINE_VALUE_LENGTH };
+}
+
+/**
+ * ツール実行結果（JSON）から表示する内容を取り出す
+ */
+function describeToolResult(payload: string): { success?: boolean; body: string } {
+  try {
+    const result = JSON.parse(payload) as ToolResult;
+    const parts = [result.success === false ? result.error : result.output]
+      .filter((part): part is string => !!part);
+    if (result.data !== undefined) {
+      parts.push(JSON.stringify(result.data, null, 2));
+    }
+    return { success: result.success, body: parts.join('\n\n') };
+  } catch {
+    return { body: payload };
+  }
+}
+
+/**
+ * ツール実行結果の見出し（ツール名・承認結果・実行時間・日時）
+ */
+function describeResultHeading(entry: Extract<TranscriptEntry, { kind: 'result' }>): string {
+  const icon = entry.success === false ? '❌' : entry.success ? '✅' : '↳';
+  const parts = [`${icon} ${entry.toolName ?? 'ツール'} の結果`];
+  if (entry.metadata.approval) {
+    parts.push(APPROVAL_LABELS[entry.metadata.approval] ?? entry.metadata.approval);
+  }
+  if (entry.metadata.edited) {
+    parts.push('ユーザーが編集');
+  }
+  if (typeof entry.metadata.durationMs === 'number') {
+    parts.push(formatDuration(entry.metadata.durationMs));
+  }
+  parts.push(entry.time);
+  return parts.join(' · ');
+}
+
+/**
+ * アシスタントの発言の見出し（日時・応答時間・トークン数）
+ */
+function describeAssistantHeading(entry: Extract<TranscriptEntry, { kind: 'assistant' }>): string {
+  const parts = ['🤖 アシスタント', entry.time];
+  if (entry.durationMs !== undefined) {
+    parts.push(`応答 ${formatDuration(entry.durationMs)}`);
+  }
+  if (entry.tokens !== undefined) {
+    parts.push(`${entry.tokens} トークン`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * respond_to_user の呼び出しであればその内容を取得
+ */
+function getResponse(call: TranscriptToolCall): { type: string; message: string } | null {
+  if (call.name !== 'respond_to_user' || typeof call.parameters === 'string') {
+    return null;
+  }
+  return {
+    type: String(call.parameters.type ?? 'success'),
+    message: String(call.parameters.message ?? ''),
+  };
+}
+
+/**
+ * セッションを共有用の会話記録（MarkdownまたはHTML）に変換するクラス
+ */
+export class TranscriptExporter {
+  private options: TranscriptExportOptions;
+
+  constructor(options: TranscriptExportOptions) {
+    this.options = options;
+  }
+
+  /**
+   * セッションを会話記録に変換
+   */
+  export(session: SessionHistory): string {
+    const entries = this.toEntries(session);
+    const summary = this.summarize(session, entries);
+    return this.options.format === 'html'
+      ? renderHtml(summary, entries)
+      : renderMarkdown(summary, entries);
+  }
+
+  /**
+   * メッセージを会話記録の項目に変換
+   */
+  private toEntries(session: SessionHistory): TranscriptEntry[] {
+    const entries: TranscriptEntry[] = [];
+    let lastToolName: string | undefined;
+
+    for (const message of session.messages) {
+      const time = formatTime(message.timestamp);
+      const metadata = message.metadata ?? {};
+      const toolResponse = message.role === 'user'
+        ? message.content.match(TOOL_RESPONSE_PATTERN)
+        : null;
+
+      if (message.role === 'tool' || toolResponse) {
+        const result = describeToolResult(toolResponse ? toolResponse[1] : message.content);
+        entries.push({
+          kind: 'result',
+          time,
+          // 記録されていない古い履歴は直前の呼び出しのツール名を使う
+          toolName: typeof metadata.toolName === 'string' ? metadata.toolName : lastToolName,
+          ...result,
+          metadata: metadata as ToolResponseMetadata,
+        });
+        continue;
+      }
+
+      if (message.role === 'system' || message.role === 'user') {
+        entries.push({
+          kind: message.role === 'system' ? 'system' : metadata.warning ? 'notice' : 'user',
+          time,
+          content: message.content,
+        });
+        continue;
+      }
+
+      let text = message.content;
+      let calls: TranscriptToolCall[] = [];
+      const nativeCalls = metadata.toolCalls as NativeToolCall[] | undefined;
+      if (nativeCalls && nativeCalls.length > 0) {
+        calls = nativeCalls.map((call) => ({
+          name: call.name,
+          parameters: parseArguments(call.arguments),
+        }));
+      } else {
+        const parsed = parseToolCall(message.content, this.options.parameterLookup);
+        if (parsed.status === 'ok') {
+          text = `${message.content.slice(0, parsed.start)}${message.content.slice(parsed.end)}`;
+          calls = [{ name: parsed.toolName, parameters: parsed.parameters }];
+        }
+      }
+      lastToolName = calls.at(-1)?.name ?? lastToolName;
+
+      const usage = metadata.usage as { totalTokens?: number } | undefined;
+      entries.push({
+        kind: 'assistant',
+        time,
+        text: text.trim(),
+        calls,
+        durationMs: typeof metadata.durationMs === 'number' ? metadata.durationMs : undefined,
+        tokens: usage?.totalTokens,
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * セッションの概要を作成
+   */
+  private summarize(session: SessionHistory, entries: TranscriptEntry[]): TranscriptSummary {
+    const lastActivity = getLastActivity(session);
+    const duration = lastActivity - new Date(session.timestamp).getTime();
+    const rows: [string, string][] = [
+      ['モデル', session.model],
+      ['開始', formatTime(session.timestamp)],
+      ['最終更新', `${formatTime(lastActivity)}（${formatDuration(Math.max(duration, 0))}）`],
+    ];
+    if (session.metadata?.workingDirectory) {
+      rows.push(['ディレクトリ', session.metadata.workingDirectory]);
+    }
+
+    let toolCalls = 0;
+    let tokens = 0;
+    const approvals = new Map<string, number>();
+    for (const entry of entries) {
+      if (entry.kind === 'assistant') {
+        toolCalls += entry.calls.length;
+        tokens += entry.tokens ?? 0;
+      }
+      if (entry.kind === 'result' && entry.metadata.approval) {
+        const label = APPROVAL_LABELS[entry.metadata.approval] ?? entry.metadata.approval;
+        approvals.set(label, (approvals.get(label) ?? 0) + 1);
+      }
+    }
+    rows.push(['ツール呼び出し', `${toolCalls} 回`]);
+    if (approvals.size > 0) {
+      rows.push([
+        '承認',
+        [...approvals].map(([label, count]) => `${label} ${count} 回`).join('、'),
+      ]);
+    }
+    if (tokens > 0) {
+      rows.push(['トークン', String(tokens)]);
+    }
+    if (session.metadata?.interrupted) {
+      rows.push(['状態', '終了が記録されていません']);
+    }
+
+    return { title: `Minoc セッション ${session.sessionId}`, rows };
+  }
+}
+
+/**
+ * 内容に含まれないバッククォートの数でコードブロックを作る
+ */
+function markdownFence(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(Math.max(3, longest + 1));
+  return `${fence}\n${text}\n${fence}`;
+}
+
+/**
+ * 長い内容は <details> で折りたたんだコードブロックにする
+ */
+function markdownBlock(text: string, label: string): string {
+  if (!isLong(text)) {
+    return markdownFence(text);
+  }
+  const lines = text.split('\n').length;
+  return `<details><summary>${escapeHtml(label)}（${lines} 行）</summary>\n\n${
+    markdownFence(text)
+  }\n\n</details>`;
+}
+
+/**
+ * インラインコードを作る
+ */
+function markdownCode(text: string): string {
+  const fence = text.includes('`') ? '``' : '`';
+  return fence.length > 1 ? `${fence} ${text} ${fence}` : `${fence}${text}${fence}`;
+}
+
+/**
+ * Markdown形式で出力
+ */
+function renderMarkdown(summary: TranscriptSummary, entries: TranscriptEntry[]): string {
+  const sections = [
+    `# ${summary.title}`,
+    [
+      '| 項目 | 値 |',
+      '| --- | --- |',
+      ...summary.rows.map(([key, value]) => `| ${key} | ${value.replaceAll('|', '\\|')} |`),
+    ].join('\n'),
+    '---',
+  ];
+
+  for (const entry of entries) {
+    switch (entry.kind) {
+      case 'system':
+        sections.push(
+          `<details><summary>⚙️ システムプロンプト（${entry.content.length} 文字）</summary>\n\n${
+            markdownFence(entry.content)
+          }\n\n</details>`,
+        );
+        break;
+      case 'user':
+        sections.push(`### 👤 ユーザー · ${entry.time}`, entry.content);
+        break;
+      case 'notice':
+        sections.push(`> ⚠️ ${entry.content.split('\n')[0]}`);
+        break;
+      case 'assistant': {
+        sections.push(`### ${describeAssistantHeading(entry)}`);
+        if (entry.text) {
+          sections.push(entry.text);
+        }
+        for (const call of entry.calls) {
+          const response = getResponse(call);
+          if (response) {
+            sections.push(`**💬 応答（${response.type}）**`, response.message);
+            continue;
+          }
+          sections.push(`**🔧 ${call.name}**`);
+          if (typeof call.parameters === 'string') {
+            sections.push(markdownBlock(call.parameters, '引数'));
+            continue;
+          }
+          const lines = Object.entries(call.parameters).map(([name, value]) => {
+            const { text, inline } = formatParameterValue(value);
+            return inline
+              ? `- ${markdownCode(name)}: ${markdownCode(text)}`
+              : `- ${markdownCode(name)}:\n\n${
+                markdownBlock(text, name).replace(/^(?=.)/gm, '  ')
+              }`;
+          });
+          if (lines.length > 0) {
+            sections.push(lines.join('\n'));
+          }
+        }
+        break;
+      }
+      case 'result':
+        sections.push(`> ${describeResultHeading(entry)}`);
+        if (entry.body) {
+          sections.push(markdownBlock(entry.body, '結果'));
+        }
+        break;
+    }
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+/**
+ * HTMLの特殊文字をエスケープ
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;');
+}
+
+/**
+ * 整形済みテキストを作る（長い内容は折りたたむ）
+ */
+function htmlBlock(text: string, label: string): string {
+  const pre = `<pre>${escapeHtml(text)}</pre>`;
+  if (!isLong(text)) {
+    return pre;
+  }
+  const lines = text.split('\n').length;
+  return `<details><summary>${escapeHtml(label)}（${lines} 行）</summary>${pre}</details>`;
+}
+
+/**
+ * 外部ファイルを参照しないスタイル
+ */
+const HTML_STYLE = `
+body { margin: 0; background: #f6f7f9; color: #1f2328;
+  font-family: -apple-system, "Segoe UI", "Hiragino Sans", "Noto Sans JP", sans-serif; }
+main { max-width: 960px; margin: 0 auto; padding: 24px; }
+h1 { font-size: 1.4em; word-break: break-all; }
+table { border-collapse: collapse; margin-bottom: 24px; }
+th, td { border: 1px solid #d0d7de; padding: 4px 12px; text-align: left; vertical-align: top; }
+th { background: #eef1f4; white-space: nowrap; }
+.entry { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; margin: 12px 0;
+  padding: 12px 16px; }
+.entry.user { border-left: 4px solid #0969da; }
+.entry.assistant { border-left: 4px solid #8250df; }
+.entry.result { border-left: 4px solid #8c959f; margin-left: 24px; }
+.entry.result.ok { border-left-color: #1a7f37; }
+.entry.result.failed { border-left-color: #cf222e; }
+.entry.notice, .entry.system { background: #fff8c5; }
+.meta { color: #59636e; font-size: 0.85em; margin-bottom: 8px; }
+.text { white-space: pre-wrap; overflow-wrap: anywhere; }
+.call { margin-top: 12px; }
+.call-name { font-weight: 600; }
+.response { margin-top: 12px; padding: 8px 12px; background: #ddf4ff; border-radius: 6px; }
+dl { margin: 8px 0 0; }
+dt { font-family: ui-monospace, monospace; color: #59636e; }
+dd { margin: 0 0 8px 16px; }
+pre, code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.85em; }
+pre { background: #f6f8fa; border-radius: 6px; margin: 8px 0 0; padding: 8px 12px;
+  white-space: pre-wrap; overflow-wrap: anywhere; }
+summary { cursor: pointer; color: #59636e; }
+`;
+
+/**
+ * HTML形式で出力（スタイルを含む単一のファイル）
+ */
+function renderHtml(summary: TranscriptSummary, entries: TranscriptEntry[]): string {
+  const body: string[] = [];
+
+  for (const entry of entries) {
+    switch (entry.kind) {
+      case 'system':
+        body.push(
+          `<details class="entry system"><summary>⚙️ システムプロンプト（${entry.content.length} 文字）</summary>${
+            htmlBlock(entry.content, 'システムプロンプト')
+          }</details>`,
+        );
+        break;
+      case 'user':
+        body.push(
+          `<section class="entry user"><div class="meta">👤 ユーザー · ${
+            escapeHtml(entry.time)
+          }</div><div class="text">${escapeHtml(entry.content)}</div></section>`,
+        );
+        break;
+      case 'notice':
+        body.push(
+          `<details class="entry notice"><summary>⚠️ ${
+            escapeHtml(entry.content.split('\n')[0])
+          }</summary>${htmlBlock(entry.content, '警告')}</details>`,
+        );
+        break;
+      case 'assistant': {
+        const parts = [`<div class="meta">${escapeHtml(describeAssistantHeading(entry))}</div>`];
+        if (entry.text) {
+          parts.push(`<div class="text">${escapeHtml(entry.text)}</div>`);
+        }
+        for (const call of entry.calls) {
+          const response = getResponse(call);
+          if (response) {
+            parts.push(
+              `<div class="response"><div class="meta">💬 応答（${
+                escapeHtml(response.type)
+              }）</div><div class="text">${escapeHtml(response.message)}</div></div>`,
+            );
+            continue;
+          }
+          const parameters = typeof call.parameters === 'string'
+            ? htmlBlock(call.parameters, '引数')
+            : `<dl>${
+              Object.entries(call.parameters).map(([name, value]) => {
+                const { text, inline } = formatParameterValue(value);
+                return `<dt>${escapeHtml(name)}</dt><dd>${
+                  inline ? `<code>${escapeHtml(text)}</code>` : htmlBlock(text, name)
+                }</dd>`;
+              }).join('')
+            }</dl>`;
+          parts.push(
+            `<div class="call"><div class="call-name">🔧 ${
+              escapeHtml(call.name)
+            }</div>${parameters}</div>`,
+          );
+        }
+        body.push(`<section class="entry assistant">${parts.join('')}</section>`);
+        break;
+      }
+      case 'result': {
+        const status = entry.success === false ? ' failed' : entry.success ? ' ok' : '';
+        body.push(
+          `<section class="entry result${status}"><div class="meta">${
+            escapeHtml(describeResultHeading(entry))
+          }</div>${entry.body ? htmlBlock(entry.body, '結果') : ''}</section>`,
+        );
+        break;
+      }
+    }
+  }
+
+  const rows = summary.rows
+    .map(([key, value]) => `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(summary.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(summary.title)}</h1>
+<table>
+${rows}
+</table>
+${body.join('\n')}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,78 @@
+import { assert, assertEquals, assertStringIncludes } from '@std/assert';
+import type { Message, SessionHistory } from '../../interfaces/history.ts';
+import { formatDuration, TranscriptExporter } from './transcript_exporter.ts';
+
+const timestamp = '2025-01-01T00:00:00.000Z';
+
+function createSession(messages: Omit<Message, 'timestamp'>[]): SessionHistory {
+  return {
+    sessionId: 'session-1',
+    timestamp,
+    model: 'gpt-4',
+    messages: messages.map((message) => ({ ...message, timestamp })),
+    metadata: { workingDirectory: '/work' },
+  };
+}
+
+const longOutput = Array.from({ length: 50 }, (_, i) => `line ${i}`).join('\n');
+
+const session = createSession([
+  { role: 'system', content: 'prompt' },
+  { role: 'user', content: 'fix <b>bug</b>' },
+  {
+    role: 'assistant',
+    content:
+      'まず確認します\n<tool_call><execute_command><command>deno test</command></execute_command></tool_call>',
+    metadata: { durationMs: 1500, usage: { totalTokens: 42 } },
+  },
+  {
+    role: 'user',
+    content: `<tool_response>${
+      JSON.stringify({ success: true, output: longOutput })
+    }</tool_response>`,
+    metadata: { toolName: 'execute_command', approval: 'allow_once', durationMs: 320 },
+  },
+  {
+    role: 'assistant',
+    content: '',
+    metadata: {
+      toolCalls: [{
+        id: 'call_1',
+        name: 'respond_to_user',
+        arguments: '{"type":"success","message":"直しました"}',
+      }],
+    },
+  },
+]);
+
+Deno.test('formatDuration: 実行時間を単位付きで表示する', () => {
+  assertEquals(formatDuration(320), '320ms');
+  assertEquals(formatDuration(1500), '1.5s');
+  assertEquals(formatDuration(65000), '1m 05s');
+  assertEquals(formatDuration(3723000), '1h 02m 03s');
+});
+
+Deno.test('TranscriptExporter: Markdownにツール呼び出し・承認結果・実行時間を含め、長い結果は折りたたむ', () => {
+  const markdown = new TranscriptExporter({ format: 'md' }).export(session);
+
+  assertStringIncludes(markdown, '# Minoc セッション session-1');
+  assertStringIncludes(markdown, '| 承認 | 今回のみ許可 1 回 |');
+  assertStringIncludes(markdown, 'まず確認します');
+  assertStringIncludes(markdown, '**🔧 execute_command**\n\n- `command`: `deno test`');
+  assertStringIncludes(markdown, '> ✅ execute_command の結果 · 今回のみ許可 · 320ms');
+  assertStringIncludes(markdown, '<details><summary>結果（50 行）</summary>');
+  assertStringIncludes(markdown, '応答 1.5s · 42 トークン');
+  assertStringIncludes(markdown, '**💬 応答（success）**\n\n直しました');
+  assert(!markdown.includes('<tool_call>'));
+});
+
+Deno.test('TranscriptExporter: HTMLは外部ファイルを参照しない単一のファイルで、内容をエスケープする', () => {
+  const html = new TranscriptExporter({ format: 'html' }).export(session);
+
+  assert(html.startsWith('<!DOCTYPE html>'));
+  assertStringIncludes(html, 'fix &lt;b&gt;bug&lt;/b&gt;');
+  assertStringIncludes(html, '<dt>command</dt><dd><code>deno test</code></dd>');
+  assertStringIncludes(html, '<details><summary>結果（50 行）</summary>');
+  assert(!/<(script|link|img)\b/.test(html));
+  assert(!/\b(src|href)=/.test(html));
+});
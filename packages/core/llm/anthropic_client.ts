@@ -0,0 +1,452 @@
+import type { Message } from '../../interfaces/history.ts';
+import {
+  type ApiError,
+  BaseLLMClient,
+  type ChatCompletionOptions,
+  type ChatCompletionResponse,
+  type ChatStreamEvent,
+  type NativeToolCall,
+} from './llm_client.ts';
+
+/**
+ * Anthropic Messages APIのバージョン
+ */
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * max_tokens未指定時の既定値（Messages APIでは必須パラメータ）
+ */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Messages APIのコンテンツブロック
+ */
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+/**
+ * Messages APIのメッセージ
+ */
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+/**
+ * Messages APIのレスポンス
+ */
+interface AnthropicResponse {
+  model: string;
+  content: AnthropicContentBlock[];
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * ストリーミング時のServer-Sent Event
+ */
+interface AnthropicStreamEvent {
+  type: string;
+  index?: number;
+  message?: { model?: string; usage?: { input_tokens?: number; output_tokens?: number } };
+  content_block?: { type: string; id?: string; name?: string; text?: string };
+  delta?: { type?: string; text?: string; partial_json?: string };
+  usage?: { output_tokens?: number };
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * Messages APIが返すエラー
+ */
+export class AnthropicApiError extends Error {
+  readonly status: number;
+  readonly errorType: string;
+
+  constructor(status: number, errorType: string, message: string) {
+    super(message);
+    this.name = 'AnthropicApiError';
+    this.status = status;
+    this.errorType = errorType;
+  }
+}
+
+/**
+ * Anthropic Messages APIクライアントクラス
+ */
+export class AnthropicClient extends BaseLLMClient {
+  /**
+   * チャット完了API呼び出し
+   */
+  override chatCompletion(
+    messages: Message[],
+    options: ChatCompletionOptions = {},
+  ): Promise<ChatCompletionResponse> {
+    const body = this.buildRequestBody(messages, options, false);
+
+    return this.executeWithRetry(async () => {
+      try {
+        const response = await this.post(body);
+        const data = await response.json() as AnthropicResponse;
+
+        let content = '';
+        const toolCalls: NativeToolCall[] = [];
+        for (const block of data.content ?? []) {
+          if (block.type === 'text') {
+            content += block.text;
+          } else if (block.type === 'tool_use') {
+            toolCalls.push({
+              id: block.id,
+              name: block.name,
+              arguments: JSON.stringify(block.input ?? {}),
+            });
+          }
+        }
+
+        // LLMが空の応答を返した場合は再試行をトリガー
+        if (content.trim().length === 0 && toolCalls.length === 0) {
+          throw new Error('空の応答を受信しました');
+        }
+
+        return {
+          content,
+          toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+          usage: this.convertUsage(data.usage),
+          model: data.model ?? this.config.model,
+        };
+      } catch (error) {
+        throw this.convertError(error);
+      }
+    });
+  }
+
+  /**
+   * ストリーミングでのチャット完了API呼び出し
+   * 最初のトークンを受信するまでに失敗した場合はリトライする
+   */
+  override async *chatCompletionStream(
+    messages: Message[],
+    options: ChatCompletionOptions = {},
+  ): AsyncGenerator<ChatStreamEvent> {
+    const body = this.buildRequestBody(messages, options, true);
+
+    let content = '';
+    let model = this.config.model;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    const toolCalls: NativeToolCall[] = [];
+
+    // イベントを処理し、表示すべきテキストがあれば返す
+    const handleEvent = (event: AnthropicStreamEvent): string => {
+      switch (event.type) {
+        case 'message_start':
+          model = event.message?.model ?? model;
+          inputTokens = event.message?.usage?.input_tokens ?? inputTokens;
+          outputTokens = event.message?.usage?.output_tokens ?? outputTokens;
+          return '';
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            toolCalls[event.index ?? 0] = {
+              id: event.content_block.id ?? '',
+              name: event.content_block.name ?? '',
+              arguments: '',
+            };
+          }
+          return event.content_block?.type === 'text' ? event.content_block.text ?? '' : '';
+        case 'content_block_delta':
+          if (event.delta?.type === 'input_json_delta' && toolCalls[event.index ?? 0]) {
+            toolCalls[event.index ?? 0].arguments += event.delta.partial_json ?? '';
+            return '';
+          }
+          return event.delta?.type === 'text_delta' ? event.delta.text ?? '' : '';
+        case 'message_delta':
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          return '';
+        case 'error':
+          throw new AnthropicApiError(
+            500,
+            event.error?.type ?? 'api_error',
+            event.error?.message ?? 'ストリーミング中にエラーが発生しました',
+          );
+        default:
+          return '';
+      }
+    };
+
+    // 最初のトークンを受信するまでをリトライ対象とする
+    const { events, firstText } = await this.executeWithRetry(async () => {
+      let events: AsyncGenerator<AnthropicStreamEvent> | undefined;
+      try {
+        const response = await this.post(body);
+        events = this.readServerSentEvents(response.body!);
+
+        while (true) {
+          const next = await events.next();
+          if (next.done) {
+            // テキストを受信する前にストリームが終了した場合は再試行をトリガー
+            throw new Error('空の応答を受信しました');
+          }
+          const text = handleEvent(next.value);
+          if (text || toolCalls.length > 0) {
+            return { events, firstText: text };
+          }
+        }
+      } catch (error) {
+        // 再試行前に読み込み途中のストリームを解放する
+        await events?.return(undefined);
+        throw this.convertError(error);
+      }
+    });
+
+    if (firstText) {
+      content += firstText;
+      yield { type: 'delta', content: firstText };
+    }
+
+    // 最初のトークン以降の失敗はリトライせずに呼び出し元へ通知する
+    try {
+      for await (const event of events) {
+        const text = handleEvent(event);
+        if (text) {
+          content += text;
+          yield { type: 'delta', content: text };
+        }
+      }
+    } catch (error) {
+      throw this.convertError(error);
+    }
+
+    const completedToolCalls = toolCalls.filter((toolCall) => toolCall !== undefined)
+      .map((toolCall) => ({ ...toolCall, arguments: toolCall.arguments || '{}' }));
+    yield {
+      type: 'done',
+      response: {
+        content,
+        toolCalls: completedToolCalls.length > 0 ? completedToolCalls : undefined,
+        usage: this.convertUsage({ input_tokens: inputTokens, output_tokens: outputTokens }),
+        model,
+      },
+    };
+  }
+
+  /**
+   * Messages APIにリクエストを送信
+   */
+  private async post(body: Record<string, unknown>): Promise<Response> {
+    const baseUrl = (this.config.baseUrl ?? 'https://api.anthropic.com/v1').replace(/\/+$/, '');
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/messages`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': this.config.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new Error(
+        `network error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (!response.ok) {
+      let errorType = 'api_error';
+      let message = `HTTP ${response.status}`;
+      try {
+        const data = await response.json();
+        errorType = data?.error?.type ?? errorType;
+        message = data?.error?.message ?? message;
+      } catch {
+        // エラーレスポンスがJSONでない場合はステータスのみを使用
+      }
+      throw new AnthropicApiError(response.status, errorType, message);
+    }
+
+    return response;
+  }
+
+  /**
+   * APIリクエストボディを構築（未定義の値は除外）
+   */
+  private buildRequestBody(
+    messages: Message[],
+    options: ChatCompletionOptions,
+    stream: boolean,
+  ): Record<string, unknown> {
+    const { system, messages: anthropicMessages } = this.convertMessages(messages);
+
+    const body: Record<string, unknown> = {
+      model: this.config.model,
+      messages: anthropicMessages,
+      max_tokens: this.config.max_tokens ?? DEFAULT_MAX_TOKENS,
+      stream,
+    };
+
+    // Messages APIではシステムプロンプトを独立したフィールドで送信する
+    if (system) {
+      body.system = system;
+    }
+
+    // 定義されているパラメータのみ追加
+    if (this.config.temperature !== undefined) {
+      body.temperature = this.config.temperature;
+    }
+    if (this.config.top_p !== undefined) {
+      body.top_p = this.config.top_p;
+    }
+    if (this.config.top_k !== undefined) {
+      body.top_k = this.config.top_k;
+    }
+
+    // ネイティブ関数呼び出しモードの場合はツール定義を送信
+    if (options.tools && options.tools.length > 0) {
+      body.tools = options.tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters,
+      }));
+    }
+
+    return body;
+  }
+
+  /**
+   * メッセージ形式をMessages API形式に変換
+   * systemメッセージは分離し、同じロールが連続する場合は1つのメッセージに結合する
+   */
+  private convertMessages(
+    messages: Message[],
+  ): { system: string; messages: AnthropicMessage[] } {
+    const systemParts: string[] = [];
+    const anthropicMessages: AnthropicMessage[] = [];
+
+    const push = (role: 'user' | 'assistant', blocks: AnthropicContentBlock[]) => {
+      const last = anthropicMessages[anthropicMessages.length - 1];
+      if (last && last.role === role) {
+        last.content.push(...blocks);
+      } else {
+        anthropicMessages.push({ role, content: blocks });
+      }
+    };
+
+    for (const message of messages) {
+      if (message.role === 'system') {
+        systemParts.push(message.content);
+      } else if (message.role === 'user') {
+        push('user', [{ type: 'text', text: `<user_query>${message.content}</user_query>` }]);
+      } else if (message.role === 'assistant') {
+        const blocks: AnthropicContentBlock[] = [];
+        if (message.content.trim().length > 0) {
+          blocks.push({ type: 'text', text: message.content });
+        }
+        const toolCalls = message.metadata?.toolCalls as NativeToolCall[] | undefined;
+        for (const toolCall of toolCalls ?? []) {
+          blocks.push({
+            type: 'tool_use',
+            id: toolCall.id,
+            name: toolCall.name,
+            input: this.parseArguments(toolCall.arguments),
+          });
+        }
+        if (blocks.length > 0) {
+          push('assistant', blocks);
+        }
+      } else if (message.role === 'tool') {
+        push('user', [{
+          type: 'tool_result',
+          tool_use_id: String(message.metadata?.toolCallId ?? ''),
+          content: message.content,
+        }]);
+      }
+    }
+
+    return { system: systemParts.join('\n\n'), messages: anthropicMessages };
+  }
+
+  /**
+   * ツール引数のJSON文字列をオブジェクトに変換
+   */
+  private parseArguments(args: string): unknown {
+    try {
+      return args.trim() === '' ? {} : JSON.parse(args);
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * 使用量をChatCompletionResponse形式に変換
+   */
+  private convertUsage(
+    usage?: { input_tokens: number; output_tokens: number },
+  ): ChatCompletionResponse['usage'] {
+    if (!usage) {
+      return undefined;
+    }
+    return {
+      promptTokens: usage.input_tokens,
+      completionTokens: usage.output_tokens,
+      totalTokens: usage.input_tokens + usage.output_tokens,
+    };
+  }
+
+  /**
+   * Server-Sent Eventsのストリームをイベントオブジェクトに分解
+   */
+  private async *readServerSentEvents(
+    body: ReadableStream<Uint8Array>,
+  ): AsyncGenerator<AnthropicStreamEvent> {
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+          const rawEvent = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+
+          const data = rawEvent.split('\n')
+            .filter((line) => line.startsWith('data:'))
+            .map((line) => line.slice(5).trimStart())
+            .join('\n');
+          if (data) {
+            yield JSON.parse(data);
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * エラーを分類してApiErrorに変換
+   * Messages API固有のエラー種別を優先して判定する
+   */
+  protected override convertError(error: unknown): ApiError {
+    if (error instanceof AnthropicApiError) {
+      switch (error.errorType) {
+        case 'rate_limit_error':
+          return { type: 'rate_limit', message: 'レート制限に達しました', retryable: true };
+        case 'overloaded_error':
+          return { type: 'server', message: 'APIが過負荷状態です', retryable: true };
+        case 'authentication_error':
+        case 'permission_error':
+          return { type: 'auth', message: 'API認証に失敗しました', retryable: false };
+        case 'invalid_request_error':
+        case 'not_found_error':
+        case 'request_too_large':
+          return { type: 'unknown', message: error.message, retryable: false };
+      }
+    }
+    return super.convertError(error);
+  }
+}
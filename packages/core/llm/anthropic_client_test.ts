@@ -0,0 +1,229 @@
+import { assert, assertEquals } from '@std/assert';
+import type { Message } from '../../interfaces/history.ts';
+import { AnthropicClient } from './anthropic_client.ts';
+import type { ApiError } from './llm_client.ts';
+
+/**
+ * Messages APIのローカル代替サーバーを起動
+ */
+function startStandIn(
+  handler: (body: Record<string, unknown>, request: Request) => Response | Promise<Response>,
+): { baseUrl: string; server: Deno.HttpServer<Deno.NetAddr> } {
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, async (req) => {
+    const body = await req.json();
+    return handler(body, req);
+  });
+  return { baseUrl: `http://127.0.0.1:${server.addr.port}/v1`, server };
+}
+
+function createClient(baseUrl: string): AnthropicClient {
+  const client = new AnthropicClient({
+    provider: 'anthropic',
+    baseUrl,
+    apiKey: 'test-key',
+    model: 'claude-test',
+    temperature: 0.5,
+    top_k: 40,
+  });
+  client.updateRetryConfig({ baseDelay: 1, maxDelay: 1 });
+  return client;
+}
+
+const messages: Message[] = [
+  { role: 'system', content: 'system prompt', timestamp: '' },
+  { role: 'user', content: 'こんにちは', timestamp: '' },
+];
+
+Deno.test('AnthropicClient: systemとtop_kを送信し使用量を集計する', async () => {
+  let received: Record<string, unknown> = {};
+  let headers = new Headers();
+  const { baseUrl, server } = startStandIn((body, req) => {
+    received = body;
+    headers = req.headers;
+    return Response.json({
+      model: 'claude-test',
+      content: [{ type: 'text', text: '応答です' }],
+      usage: { input_tokens: 10, output_tokens: 5 },
+    });
+  });
+
+  try {
+    const response = await createClient(baseUrl).chatCompletion(messages);
+
+    assertEquals(response.content, '応答です');
+    assertEquals(response.usage, { promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+    assertEquals(received.system, 'system prompt');
+    assertEquals(received.top_k, 40);
+    assertEquals(received.max_tokens, 4096);
+    assertEquals(received.messages, [
+      { role: 'user', content: [{ type: 'text', text: '<user_query>こんにちは</user_query>' }] },
+    ]);
+    assertEquals(headers.get('x-api-key'), 'test-key');
+  } finally {
+    await server.shutdown();
+  }
+});
+
+Deno.test('AnthropicClient: ストリーミング応答とtool_useを組み立てる', async () => {
+  const events = [
+    {
+      type: 'message_start',
+      message: { model: 'claude-test', usage: { input_tokens: 7, output_tokens: 0 } },
+    },
+    { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '読み' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '込みます' } },
+    {
+      type: 'content_block_start',
+      index: 1,
+      content_block: { type: 'tool_use', id: 'toolu_1', name: 'read_file' },
+    },
+    {
+      type: 'content_block_delta',
+      index: 1,
+      delta: { type: 'input_json_delta', partial_json: '{"path":' },
+    },
+    {
+      type: 'content_block_delta',
+      index: 1,
+      delta: { type: 'input_json_delta', partial_json: '"a.ts"}' },
+    },
+    { type: 'message_delta', usage: { output_tokens: 12 } },
+    { type: 'message_stop' },
+  ];
+  const { baseUrl, server } = startStandIn(() => {
+    const sse = events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+      .join('');
+    return new Response(sse, { headers: { 'content-type': 'text/event-stream' } });
+  });
+
+  try {
+    const deltas: string[] = [];
+    let done;
+    for await (const event of createClient(baseUrl).chatCompletionStream(messages)) {
+      if (event.type === 'delta') {
+        deltas.push(event.content);
+      } else {
+        done = event.response;
+      }
+    }
+
+    assertEquals(deltas, ['読み', '込みます']);
+    assert(done);
+    assertEquals(done.content, '読み込みます');
+    assertEquals(done.toolCalls, [{
+      id: 'toolu_1',
+      name: 'read_file',
+      arguments: '{"path":"a.ts"}',
+    }]);
+    assertEquals(done.usage, { promptTokens: 7, completionTokens: 12, totalTokens: 19 });
+  } finally {
+    await server.shutdown();
+  }
+});
+
+Deno.test('AnthropicClient: overloaded_errorは再試行し、認証エラーは即座に失敗する', async () => {
+  let attempts = 0;
+  const { baseUrl, server } = startStandIn((body) => {
+    attempts++;
+    if (body.model === 'claude-test' && attempts === 1) {
+      return Response.json(
+        { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+        { status: 529 },
+      );
+    }
+    return Response.json({
+      model: 'claude-test',
+      content: [{ type: 'text', text: 'ok' }],
+      usage: { input_tokens: 1, output_tokens: 1 },
+    });
+  });
+
+  const { baseUrl: authUrl, server: authServer } = startStandIn(() =>
+    Response.json(
+      { type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } },
+      { status: 401 },
+    )
+  );
+
+  try {
+    const response = await createClient(baseUrl).chatCompletion(messages);
+    assertEquals(response.content, 'ok');
+    assertEquals(attempts, 2);
+
+    // ApiErrorはErrorインスタンスではないため、assertRejectsではなく直接捕捉する
+    let error: ApiError | undefined;
+    try {
+      await createClient(authUrl).chatCompletion(messages);
+    } catch (e) {
+      error = e as ApiError;
+    }
+    assert(error);
+    assertEquals(error.type, 'auth');
+    assertEquals(error.retryable, false);
+  } finally {
+    await server.shutdown();
+    await authServer.shutdown();
+  }
+});
+
+Deno.test('AnthropicClient: 最初のトークンを受信する前に終了したストリームのみ再試行する', async () => {
+  const toResponse = (events: Record<string, unknown>[]) =>
+    new Response(
+      events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(''),
+      { headers: { 'content-type': 'text/event-stream' } },
+    );
+  const start = {
+    type: 'message_start',
+    message: { model: 'claude-test', usage: { input_tokens: 1, output_tokens: 0 } },
+  };
+  const textDelta = (text: string) => ({
+    type: 'content_block_delta',
+    index: 0,
+    delta: { type: 'text_delta', text },
+  });
+  const overloaded = {
+    type: 'error',
+    error: { type: 'overloaded_error', message: 'Overloaded' },
+  };
+
+  let attempts = 0;
+  const { baseUrl, server } = startStandIn(() => {
+    attempts++;
+    return attempts === 1
+      ? toResponse([start, { type: 'message_stop' }])
+      : toResponse([start, textDelta('こん'), textDelta('にちは'), { type: 'message_stop' }]);
+  });
+
+  // 最初のトークンを表示した後のエラーは、重複して表示しないよう再試行しない
+  let partialAttempts = 0;
+  const { baseUrl: partialUrl, server: partialServer } = startStandIn(() => {
+    partialAttempts++;
+    return toResponse([start, textDelta('途中'), overloaded]);
+  });
+
+  try {
+    const deltas: string[] = [];
+    for await (const event of createClient(baseUrl).chatCompletionStream(messages)) {
+      if (event.type === 'delta') deltas.push(event.content);
+    }
+    assertEquals(attempts, 2);
+    assertEquals(deltas, ['こん', 'にちは']);
+
+    let error: ApiError | undefined;
+    const partialDeltas: string[] = [];
+    try {
+      for await (const event of createClient(partialUrl).chatCompletionStream(messages)) {
+        if (event.type === 'delta') partialDeltas.push(event.content);
+      }
+    } catch (e) {
+      error = e as ApiError;
+    }
+    assert(error);
+    assertEquals(partialAttempts, 1);
+    assertEquals(partialDeltas, ['途中']);
+  } finally {
+    await server.shutdown();
+    await partialServer.shutdown();
+  }
+});
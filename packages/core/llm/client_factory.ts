@@ -0,0 +1,31 @@
+import type { AgentConfig } from '../../interfaces/agent.ts';
+import { AnthropicClient } from './anthropic_client.ts';
+import type { LLMClient } from './llm_client.ts';
+import { OpenAIClient } from './openai_client.ts';
+
+/**
+ * 設定からプロバイダーを判定
+ * providerが未指定の場合はベースURLから推定し、既定はOpenAI互換とする
+ */
+export function resolveProvider(config: AgentConfig): 'openai' | 'anthropic' {
+  if (config.provider) {
+    return config.provider;
+  }
+  if (config.baseUrl && new URL(config.baseUrl).hostname === 'api.anthropic.com') {
+    return 'anthropic';
+  }
+  return 'openai';
+}
+
+/**
+ * 設定に応じたLLMクライアントを生成
+ */
+export function createLLMClient(config: AgentConfig): LLMClient {
+  switch (resolveProvider(config)) {
+    case 'anthropic':
+      return new AnthropicClient(config);
+    case 'openai':
+    default:
+      return new OpenAIClient(config);
+  }
+}
@@ -0,0 +1,273 @@
+import type { AgentConfig } from '../../interfaces/agent.ts';
+import type { Message } from '../../interfaces/history.ts';
+import type { ToolSchema } from '../tools/tool_schema.ts';
+
+/**
+ * APIエラー情報
+ */
+export interface ApiError {
+  type: 'network' | 'rate_limit' | 'server' | 'auth' | 'unknown';
+  message: string;
+  retryable: boolean;
+}
+
+/**
+ * ネイティブ関数呼び出しで返されたツール呼び出し
+ */
+export interface NativeToolCall {
+  id: string;
+  name: string;
+  /** JSON文字列の引数 */
+  arguments: string;
+}
+
+/**
+ * チャット完了リクエストのオプション
+ */
+export interface ChatCompletionOptions {
+  /** ネイティブ関数呼び出しで送信するツール定義 */
+  tools?: ToolSchema[];
+}
+
+/**
+ * チャット完了レスポンス
+ */
+export interface ChatCompletionResponse {
+  content: string;
+  /** ネイティブ関数呼び出しモードでのツール呼び出し */
+  toolCalls?: NativeToolCall[];
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  model: string;
+}
+
+/**
+ * ストリーミング応答のイベント
+ * deltaは逐次受信したテキスト、doneは最終的な応答全体と使用量
+ */
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; response: ChatCompletionResponse };
+
+/**
+ * リトライ設定
+ */
+export interface RetryConfig {
+  maxRetries: number;
+  baseDelay: number; // ミリ秒
+  maxDelay: number; // ミリ秒
+}
+
+/**
+ * LLMクライアントインターフェース
+ * プロバイダーごとの実装をChatEngineから隠蔽する
+ */
+export interface LLMClient {
+  /**
+   * チャット完了API呼び出し
+   */
+  chatCompletion(
+    messages: Message[],
+    options?: ChatCompletionOptions,
+  ): Promise<ChatCompletionResponse>;
+
+  /**
+   * ストリーミングでのチャット完了API呼び出し
+   */
+  chatCompletionStream(
+    messages: Message[],
+    options?: ChatCompletionOptions,
+  ): AsyncGenerator<ChatStreamEvent>;
+
+  /**
+   * 現在の設定を取得
+   */
+  getConfig(): AgentConfig;
+
+  /**
+   * 設定を更新
+   */
+  updateConfig(config: AgentConfig): void;
+
+  /**
+   * リトライ設定を更新
+   */
+  updateRetryConfig(retryConfig: Partial<RetryConfig>): void;
+}
+
+/**
+ * LLMクライアント基底クラス
+ * エラー分類と指数バックオフによるリトライを共通化
+ */
+export abstract class BaseLLMClient implements LLMClient {
+  protected config: AgentConfig;
+  protected retryConfig: RetryConfig;
+
+  constructor(config: AgentConfig) {
+    this.config = config;
+    this.retryConfig = {
+      maxRetries: 3,
+      baseDelay: 1000,
+      maxDelay: 16000,
+    };
+  }
+
+  abstract chatCompletion(
+    messages: Message[],
+    options?: ChatCompletionOptions,
+  ): Promise<ChatCompletionResponse>;
+
+  abstract chatCompletionStream(
+    messages: Message[],
+    options?: ChatCompletionOptions,
+  ): AsyncGenerator<ChatStreamEvent>;
+
+  /**
+   * エラーを分類してApiErrorに変換
+   */
+  protected convertError(error: unknown): ApiError {
+    // 変換済みのエラーはそのまま返す（再変換でリトライ可否が失われないように）
+    if (this.isApiError(error)) {
+      return error;
+    }
+
+    if (error instanceof Error) {
+      // 空の応答エラーは再試行可能とする
+      if (error.message.includes('空の応答')) {
+        return {
+          type: 'server',
+          message: error.message,
+          retryable: true,
+        };
+      }
+      // HTTPステータスを持つAPIエラー
+      if ('status' in error) {
+        const status = (error as { status: number }).status;
+
+        if (status === 429) {
+          return {
+            type: 'rate_limit',
+            message: 'レート制限に達しました',
+            retryable: true,
+          };
+        }
+
+        if (status === 401 || status === 403) {
+          return {
+            type: 'auth',
+            message: 'API認証に失敗しました',
+            retryable: false,
+          };
+        }
+
+        if (status >= 500) {
+          return {
+            type: 'server',
+            message: 'サーバーエラーが発生しました',
+            retryable: true,
+          };
+        }
+      }
+
+      // ネットワークエラー
+      if (error.message.includes('fetch') || error.message.includes('network')) {
+        return {
+          type: 'network',
+          message: 'ネットワークエラーが発生しました',
+          retryable: true,
+        };
+      }
+
+      return {
+        type: 'unknown',
+        message: error.message,
+        retryable: false,
+      };
+    }
+
+    return {
+      type: 'unknown',
+      message: `不明なエラーが発生しました: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      retryable: false,
+    };
+  }
+
+  /**
+   * ApiErrorかどうかを判定
+   */
+  protected isApiError(error: unknown): error is ApiError {
+    return typeof error === 'object' && error !== null && !(error instanceof Error) &&
+      'type' in error && 'message' in error && 'retryable' in error;
+  }
+
+  /**
+   * 指数バックオフによるリトライ実行
+   */
+  protected async executeWithRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: ApiError | null = null;
+
+    for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        const apiError = this.convertError(error);
+
+        lastError = apiError;
+
+        // リトライ不可能なエラーの場合は即座に失敗
+        if (!apiError.retryable) {
+          throw apiError;
+        }
+
+        // 最後の試行の場合はエラーを投げる
+        if (attempt === this.retryConfig.maxRetries) {
+          throw apiError;
+        }
+
+        // 指数バックオフで待機
+        const delay = Math.min(
+          this.retryConfig.baseDelay * Math.pow(2, attempt),
+          this.retryConfig.maxDelay,
+        );
+
+        console.warn(
+          `API呼び出し失敗（試行 ${attempt + 1}/${
+            this.retryConfig.maxRetries + 1
+          }）: ${apiError.message}`,
+        );
+        console.warn(`${delay}ms後にリトライします...`);
+
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+
+    // ここに到達することはないはずだが、安全のため
+    throw lastError || new Error('リトライ回数を超過しました');
+  }
+
+  /**
+   * 現在の設定を取得
+   */
+  getConfig(): AgentConfig {
+    return this.config;
+  }
+
+  /**
+   * 設定を更新
+   */
+  updateConfig(config: AgentConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * リトライ設定を更新
+   */
+  updateRetryConfig(retryConfig: Partial<RetryConfig>): void {
+    this.retryConfig = { ...this.retryConfig, ...retryConfig };
+  }
+}
@@ -1,89 +1,43 @@
 import OpenAI from 'openai';
 import type { AgentConfig } from '../../interfaces/agent.ts';
 import type { Message } from '../../interfaces/history.ts';
-
-/**
- * APIエラー情報
- */
-export interface ApiError {
-  type: 'network' | 'rate_limit' | 'server' | 'auth' | 'unknown';
-  message: string;
-  retryable: boolean;
-}
-
-/**
- * チャット完了レスポンス
- */
-export interface ChatCompletionResponse {
-  content: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
-  model: string;
-}
-
-/**
- * リトライ設定
- */
-export interface RetryConfig {
-  maxRetries: number;
-  baseDelay: number; // ミリ秒
-  maxDelay: number; // ミリ秒
-}
+import {
+  BaseLLMClient,
+  type ChatCompletionOptions,
+  type ChatCompletionResponse,
+  type ChatStreamEvent,
+  type NativeToolCall,
+} from './llm_client.ts';
 
 /**
  * OpenAI APIクライアントクラス
  */
-export class OpenAIClient {
+export class OpenAIClient extends BaseLLMClient {
   private client: OpenAI;
-  private config: AgentConfig;
-  private retryConfig: RetryConfig;
 
   constructor(config: AgentConfig) {
-    this.config = config;
+    super(config);
     this.client = new OpenAI({
       apiKey: config.apiKey,
       baseURL: config.baseUrl,
     });
-
-    this.retryConfig = {
-      maxRetries: 3,
-      baseDelay: 1000,
-      maxDelay: 16000,
-    };
   }
 
   /**
    * チャット完了API呼び出し
    */
-  async chatCompletion(
+  override async chatCompletion(
     messages: Message[],
-    stream = false,
+    options: ChatCompletionOptions = {},
   ): Promise<ChatCompletionResponse> {
     const openaiMessages = this.convertMessages(messages);
 
     return this.executeWithRetry(async () => {
       try {
-        // APIリクエストパラメータを構築（未定義の値は除外）
-        const requestParams: any = {
-          model: this.config.model,
-          messages: openaiMessages,
+        const requestParams = {
+          ...this.buildRequestParams(openaiMessages, options),
           stream: false, // 明示的にfalseに設定
-        };
-
-        // 定義されているパラメータのみ追加
-        if (this.config.temperature !== undefined) {
-          requestParams.temperature = this.config.temperature;
-        }
-        if (this.config.top_p !== undefined) {
-          requestParams.top_p = this.config.top_p;
-        }
-        if (this.config.max_tokens !== undefined) {
-          requestParams.max_tokens = this.config.max_tokens;
-        }
-        // 注意: OpenAI APIはtop_kをサポートしていないため、ここでは除外
+        } as OpenAI.Chat.ChatCompletionCreateParamsNonStreaming;
 
         const response = await this.client.chat.completions.create(requestParams);
 
@@ -96,12 +50,18 @@ export class OpenAIClient {
 
           // LLMが空の応答を返した場合は再試行をトリガー
           const content = choice.message.content || '';
-          if (content.trim().length === 0) {
+          const toolCalls = (choice.message.tool_calls ?? []).map((toolCall) => ({
+            id: toolCall.id,
+            name: toolCall.function.name,
+            arguments: toolCall.function.arguments,
+          }));
+          if (content.trim().length === 0 && toolCalls.length === 0) {
             throw new Error('空の応答を受信しました');
           }
 
           return {
             content: content,
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
             usage: response.usage
               ? {
                 promptTokens: response.usage.prompt_tokens,
@@ -121,164 +81,208 @@ export class OpenAIClient {
   }
 
   /**
-   * メッセージ形式をOpenAI形式に変換
+   * ストリーミングでのチャット完了API呼び出し
+   * 最初のトークンを受信するまでに失敗した場合はリトライする
    */
-  private convertMessages(messages: Message[]): Array<{
-    role: 'system' | 'user' | 'assistant';
-    content: string;
-  }> {
-    const openaiMessages: Array<{
-      role: 'system' | 'user' | 'assistant';
-      content: string;
-    }> = [];
+  override async *chatCompletionStream(
+    messages: Message[],
+    options: ChatCompletionOptions = {},
+  ): AsyncGenerator<ChatStreamEvent> {
+    const openaiMessages = this.convertMessages(messages);
 
-    for (const message of messages) {
-      if (message.role === 'system') {
-        openaiMessages.push({
-          role: 'system',
-          content: message.content,
-        });
-      } else if (message.role === 'user') {
-        openaiMessages.push({
-          role: 'user',
-          content: `<user_query>${message.content}</user_query>`,
-        });
-      } else if (message.role === 'assistant') {
-        openaiMessages.push({
-          role: 'assistant',
-          content: message.content,
-        });
+    // 最初のテキストを受信するまでをリトライ対象とする
+    const { iterator, firstChunks } = await this.executeWithRetry(async () => {
+      try {
+        const requestParams = {
+          ...this.buildRequestParams(openaiMessages, options),
+          stream: true,
+          stream_options: { include_usage: true },
+        } as OpenAI.Chat.ChatCompletionCreateParamsStreaming;
+
+        const stream = await this.client.chat.completions.create(requestParams);
+        const iterator = stream[Symbol.asyncIterator]();
+        const firstChunks: OpenAI.Chat.ChatCompletionChunk[] = [];
+
+        while (true) {
+          const next = await iterator.next();
+          if (next.done) {
+            // テキストを受信する前にストリームが終了した場合は再試行をトリガー
+            throw new Error('空の応答を受信しました');
+          }
+          firstChunks.push(next.value);
+          const delta = next.value.choices?.[0]?.delta;
+          if (delta?.content || (delta?.tool_calls && delta.tool_calls.length > 0)) {
+            break;
+          }
+        }
+
+        return { iterator, firstChunks };
+      } catch (error) {
+        throw this.convertError(error);
       }
-    }
+    });
 
-    return openaiMessages;
-  }
+    let content = '';
+    let model = this.config.model;
+    let usage: ChatCompletionResponse['usage'];
+    const toolCalls: NativeToolCall[] = [];
 
-  /**
-   * エラーを分類してApiErrorに変換
-   */
-  private convertError(error: unknown): ApiError {
-    if (error instanceof Error) {
-      // 空の応答エラーは再試行可能とする
-      if (error.message.includes('空の応答')) {
-        return {
-          type: 'server',
-          message: error.message,
-          retryable: true,
+    const handleChunk = (chunk: OpenAI.Chat.ChatCompletionChunk): string => {
+      if (chunk.model) {
+        model = chunk.model;
+      }
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
         };
       }
-      // OpenAI固有のエラー
-      if ('status' in error) {
-        const status = (error as any).status;
-
-        if (status === 429) {
-          return {
-            type: 'rate_limit',
-            message: 'レート制限に達しました',
-            retryable: true,
-          };
+      // ツール呼び出しは断片的に届くため、インデックスごとに連結する
+      for (const toolCallDelta of chunk.choices?.[0]?.delta?.tool_calls ?? []) {
+        const toolCall = toolCalls[toolCallDelta.index] ??= { id: '', name: '', arguments: '' };
+        if (toolCallDelta.id) {
+          toolCall.id = toolCallDelta.id;
         }
-
-        if (status === 401 || status === 403) {
-          return {
-            type: 'auth',
-            message: 'API認証に失敗しました',
-            retryable: false,
-          };
+        if (toolCallDelta.function?.name) {
+          toolCall.name += toolCallDelta.function.name;
         }
-
-        if (status >= 500) {
-          return {
-            type: 'server',
-            message: 'サーバーエラーが発生しました',
-            retryable: true,
-          };
+        if (toolCallDelta.function?.arguments) {
+          toolCall.arguments += toolCallDelta.function.arguments;
         }
       }
+      return chunk.choices?.[0]?.delta?.content || '';
+    };
 
-      // ネットワークエラー
-      if (error.message.includes('fetch') || error.message.includes('network')) {
-        return {
-          type: 'network',
-          message: 'ネットワークエラーが発生しました',
-          retryable: true,
-        };
+    for (const chunk of firstChunks) {
+      const delta = handleChunk(chunk);
+      if (delta) {
+        content += delta;
+        yield { type: 'delta', content: delta };
       }
+    }
 
-      return {
-        type: 'unknown',
-        message: error.message,
-        retryable: false,
-      };
+    // 最初のトークン以降の失敗はリトライせずに呼び出し元へ通知する
+    try {
+      while (true) {
+        const next = await iterator.next();
+        if (next.done) break;
+        const delta = handleChunk(next.value);
+        if (delta) {
+          content += delta;
+          yield { type: 'delta', content: delta };
+        }
+      }
+    } catch (error) {
+      throw this.convertError(error);
     }
 
-    return {
-      type: 'unknown',
-      message: `不明なエラーが発生しました: ${error instanceof Error ? error.message : String(error)}`,
-      retryable: false,
+    const completedToolCalls = toolCalls.filter((toolCall) => toolCall !== undefined);
+    yield {
+      type: 'done',
+      response: {
+        content,
+        toolCalls: completedToolCalls.length > 0 ? completedToolCalls : undefined,
+        usage,
+        model,
+      },
     };
   }
 
   /**
-   * 指数バックオフによるリトライ実行
+   * APIリクエストパラメータを構築（未定義の値は除外）
    */
-  private async executeWithRetry<T>(operation: () => Promise<T>): Promise<T> {
-    let lastError: ApiError | null = null;
+  private buildRequestParams(
+    openaiMessages: OpenAI.Chat.ChatCompletionMessageParam[],
+    options: ChatCompletionOptions,
+  ): Record<string, unknown> {
+    const requestParams: Record<string, unknown> = {
+      model: this.config.model,
+      messages: openaiMessages,
+    };
 
-    for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
-      try {
-        return await operation();
-      } catch (error) {
-        const apiError = this.convertError(error);
+    // 定義されているパラメータのみ追加
+    if (this.config.temperature !== undefined) {
+      requestParams.temperature = this.config.temperature;
+    }
+    if (this.config.top_p !== undefined) {
+      requestParams.top_p = this.config.top_p;
+    }
+    if (this.config.max_tokens !== undefined) {
+      requestParams.max_tokens = this.config.max_tokens;
+    }
+    // 注意: OpenAI APIはtop_kをサポートしていないため、ここでは除外
+
+    // ネイティブ関数呼び出しモードの場合はツール定義を送信
+    if (options.tools && options.tools.length > 0) {
+      requestParams.tools = options.tools.map((tool) => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      }));
+    }
 
-        lastError = apiError;
+    return requestParams;
+  }
 
-        // リトライ不可能なエラーの場合は即座に失敗
-        if (!apiError.retryable) {
-          throw apiError;
-        }
+  /**
+   * メッセージ形式をOpenAI形式に変換
+   */
+  private convertMessages(messages: Message[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const openaiMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
 
-        // 最後の試行の場合はエラーを投げる
-        if (attempt === this.retryConfig.maxRetries) {
-          throw apiError;
+    for (const message of messages) {
+      if (message.role === 'system') {
+        openaiMessages.push({
+          role: 'system',
+          content: message.content,
+        });
+      } else if (message.role === 'user') {
+        openaiMessages.push({
+          role: 'user',
+          content: `<user_query>${message.content}</user_query>`,
+        });
+      } else if (message.role === 'assistant') {
+        const toolCalls = message.metadata?.toolCalls as NativeToolCall[] | undefined;
+        if (toolCalls && toolCalls.length > 0) {
+          openaiMessages.push({
+            role: 'assistant',
+            content: message.content || null,
+            tool_calls: toolCalls.map((toolCall) => ({
+              id: toolCall.id,
+              type: 'function',
+              function: { name: toolCall.name, arguments: toolCall.arguments },
+            })),
+          });
+        } else {
+          openaiMessages.push({
+            role: 'assistant',
+            content: message.content,
+          });
         }
-
-        // 指数バックオフで待機
-        const delay = Math.min(
-          this.retryConfig.baseDelay * Math.pow(2, attempt),
-          this.retryConfig.maxDelay,
-        );
-
-        console.warn(
-          `API呼び出し失敗（試行 ${attempt + 1}/${
-            this.retryConfig.maxRetries + 1
-          }）: ${apiError.message}`,
-        );
-        console.warn(`${delay}ms後にリトライします...`);
-
-        await new Promise((resolve) => setTimeout(resolve, delay));
+      } else if (message.role === 'tool') {
+        openaiMessages.push({
+          role: 'tool',
+          tool_call_id: String(message.metadata?.toolCallId ?? ''),
+          content: message.content,
+        });
       }
     }
 
-    // ここに到達することはないはずだが、安全のため
-    throw lastError || new Error('リトライ回数を超過しました');
+    return openaiMessages;
   }
 
   /**
    * 設定を更新
    */
-  updateConfig(config: AgentConfig): void {
-    this.config = config;
+  override updateConfig(config: AgentConfig): void {
+    super.updateConfig(config);
     this.client = new OpenAI({
       apiKey: config.apiKey,
       baseURL: config.baseUrl,
     });
   }
-
-  /**
-   * リトライ設定を更新
-   */
-  updateRetryConfig(retryConfig: Partial<RetryConfig>): void {
-    this.retryConfig = { ...this.retryConfig, ...retryConfig };
-  }
 }
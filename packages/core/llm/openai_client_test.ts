@@ -0,0 +1,64 @@
+import { assertEquals } from '@std/assert';
+import type { Message } from '../../interfaces/history.ts';
+import { OpenAIClient } from './openai_client.ts';
+
+/**
+ * Chat Completions APIのローカル代替サーバーを起動
+ */
+function startStandIn(
+  handler: (body: Record<string, unknown>) => Response,
+): { baseUrl: string; server: Deno.HttpServer<Deno.NetAddr> } {
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, async (req) => {
+    const body = await req.json();
+    return handler(body);
+  });
+  return { baseUrl: `http://127.0.0.1:${server.addr.port}/v1`, server };
+}
+
+/**
+ * ストリーミング応答（SSE）を作成
+ */
+function streamResponse(contents: string[]): Response {
+  const chunks = contents.map((content) => ({
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'gpt-test',
+    choices: [{ index: 0, delta: { content }, finish_reason: null }],
+  }));
+  const sse = [...chunks.map((chunk) => JSON.stringify(chunk)), '[DONE]']
+    .map((data) => `data: ${data}\n\n`)
+    .join('');
+  return new Response(sse, { headers: { 'content-type': 'text/event-stream' } });
+}
+
+const messages: Message[] = [{ role: 'user', content: 'こんにちは', timestamp: '' }];
+
+Deno.test('OpenAIClient: 最初のトークンを受信する前に終了したストリームは再試行する', async () => {
+  let attempts = 0;
+  const { baseUrl, server } = startStandIn(() => {
+    attempts++;
+    return streamResponse(attempts === 1 ? [] : ['こん', 'にちは']);
+  });
+
+  try {
+    const client = new OpenAIClient({ baseUrl, apiKey: 'test-key', model: 'gpt-test' });
+    client.updateRetryConfig({ baseDelay: 1, maxDelay: 1 });
+
+    const deltas: string[] = [];
+    let content = '';
+    for await (const event of client.chatCompletionStream(messages)) {
+      if (event.type === 'delta') {
+        deltas.push(event.content);
+      } else {
+        content = event.response.content;
+      }
+    }
+
+    assertEquals(attempts, 2);
+    assertEquals(deltas, ['こん', 'にちは']);
+    assertEquals(content, 'こんにちは');
+  } finally {
+    await server.shutdown();
+  }
+});
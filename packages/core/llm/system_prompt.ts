@@ -1,4 +1,5 @@
 import { join } from '@std/path';
+import { DEFAULT_MAX_BYTES, DEFAULT_MAX_LINES } from '../tools/file_reader.ts';
 
 /**
  * 現在のディレクトリ情報を取得
@@ -95,6 +96,13 @@ export const SYSTEM_PROMPT_TOOLS = `
 </tool_call>
 \`\`\`
 
+パラメータの値はそのままのテキストとして扱われます（\`\\n\` などのエスケープは変換されません）。
+値にXMLやHTMLのようなテキストが含まれる場合は、CDATAセクションで囲んでください：
+
+\`\`\`xml
+<content><![CDATA[<div>Hello</div>]]></content>
+\`\`\`
+
 ## 利用可能なツール
 
 ### 応答ツール
@@ -138,8 +146,13 @@ export const SYSTEM_PROMPT_TOOLS = `
 
 ### ファイル操作ツール
 
-**read_file**: ファイルの内容を読み込み
+**read_file**: ファイルの内容を行番号付きで読み込み（各行の先頭に「行番号+タブ」が付きますが、これはファイルの内容ではありません）
 - path: 読み込むファイルのパス
+- startLine: 読み込み開始行（オプション、デフォルト: 1）
+- endLine: 読み込み終了行（オプション、デフォルト: 最終行）
+大きなファイルは上限（${DEFAULT_MAX_LINES}行 / ${
+  DEFAULT_MAX_BYTES / 1024
+}KB）を超えた部分が省略されるため、startLine を指定して続きを読み込んでください。バイナリファイルは種類とサイズのみが返されます。
 
 【例】ファイルを読み込む場合：
 \`\`\`xml
@@ -150,8 +163,19 @@ export const SYSTEM_PROMPT_TOOLS = `
 </tool_call>
 \`\`\`
 
+【例】ファイルの100行目から200行目を読み込む場合：
+\`\`\`xml
+<tool_call>
+<read_file>
+<path>logs/server.log</path>
+<startLine>100</startLine>
+<endLine>200</endLine>
+</read_file>
+</tool_call>
+\`\`\`
+
 **read_files**: 複数のファイルの内容を読み込み
-- paths: 読み込むファイルパスのリスト 最大5件
+- paths: 読み込むファイルパスのリスト 最大5件（各ファイルは read_file と同じ上限で省略され、合計も制限されます）
 
 【例】複数のファイルを読み込む場合：
 \`\`\`xml
@@ -251,6 +275,44 @@ export const SYSTEM_PROMPT_TOOLS = `
 </tool_call>
 \`\`\`
 
+**edit_file**: ファイル内のテキストを置換して編集（既存ファイルの一部を変更する場合は write_to_file よりこちらを優先してください）
+- path: 編集するファイルのパス
+- edits: 置換内容のリスト。各要素の oldText（置換前のテキスト）は空白や改行を含めファイル内容と完全に一致し、ファイル内で1箇所のみに一致する必要があります。newText は置換後のテキストです。すべての置換はまとめて適用され、1つでも失敗した場合はファイルは変更されません
+
+【例】ファイルの一部を書き換える場合：
+\`\`\`xml
+<tool_call>
+<edit_file>
+<path>src/main.ts</path>
+<edits>
+<edit>
+<oldText><![CDATA[const port = 8000;]]></oldText>
+<newText><![CDATA[const port = 8080;]]></newText>
+</edit>
+</edits>
+</edit_file>
+</tool_call>
+\`\`\`
+
+**apply_patch**: unified diff 形式のパッチを適用（複数ファイルの変更、ファイルの作成・削除・名前変更に対応）
+- patch: unified diff 形式のパッチ。新規作成は \`--- /dev/null\`、削除は \`+++ /dev/null\` を使用します。いずれかのハンクが適用できない場合はどのファイルも変更されず、実際のファイル内容が返されます
+
+【例】パッチを適用する場合：
+\`\`\`xml
+<tool_call>
+<apply_patch>
+<patch><![CDATA[--- a/src/main.ts
++++ b/src/main.ts
+@@ -1,3 +1,3 @@
+ import { serve } from './server.ts';
+-const port = 8000;
++const port = 8080;
+ serve(port);
+]]></patch>
+</apply_patch>
+</tool_call>
+\`\`\`
+
 **create_directory**: ディレクトリを作成
 - path: 作成するディレクトリのパス
 - recursive: 親ディレクトリも作成するかどうか（オプション、デフォルト: true）
@@ -277,6 +339,37 @@ export const SYSTEM_PROMPT_TOOLS = `
 </tool_call>
 \`\`\`
 
+### ファイル管理ツール
+
+ファイルの削除・移動・コピーには execute_command ではなく以下のツールを使用してください。
+
+**delete_path**: ファイルまたはディレクトリを削除
+- path: 削除するパス
+- recursive: 空でないディレクトリを中身ごと削除するかどうか（オプション、デフォルト: false）。true の場合は常にユーザーの承認が必要です
+
+**move_path**: ファイルまたはディレクトリを移動・名前変更
+- source: 移動元のパス
+- destination: 移動先のパス
+- overwrite: 移動先が存在する場合に上書きするかどうか（オプション、デフォルト: false）
+
+【例】ファイル名を変更する場合：
+\`\`\`xml
+<tool_call>
+<move_path>
+<source>src/old_name.ts</source>
+<destination>src/new_name.ts</destination>
+</move_path>
+</tool_call>
+\`\`\`
+
+**copy_path**: ファイルまたはディレクトリをコピー
+- source: コピー元のパス
+- destination: コピー先のパス
+- overwrite: コピー先が存在する場合に上書きするかどうか（オプション、デフォルト: false）
+
+**stat_path**: ファイルまたはディレクトリの種類・サイズ・更新日時を取得
+- path: 対象のパス
+
 ### コマンド実行ツール
 
 **execute_command**: シェルコマンドを実行
@@ -285,6 +378,9 @@ export const SYSTEM_PROMPT_TOOLS = `
 - timeout: タイムアウト時間（ミリ秒、オプション、デフォルト: 30000）
 - requiresApproval: 明示的に承認を要求するかどうか（オプション）
 
+パイプ（|）、連結（&&, ;）、リダイレクト（>）、変数展開（$VAR）、グロブ（*）などのシェル構文は、ユーザーの設定でシェル実行が有効な場合のみ使用できます。無効な場合はエラーが返されるため、コマンドを分割して実行し、作業ディレクトリは workingDirectory で指定してください。
+出力が長い場合は先頭と末尾の行だけが返され、中間の行は省略されます（省略した行数が示されます）。必要な部分は grep などで絞り込んでください。
+
 【例】基本的なコマンド実行：
 \`\`\`xml
 <tool_call>
@@ -305,7 +401,102 @@ export const SYSTEM_PROMPT_TOOLS = `
 </tool_call>
 \`\`\`
 
-ユーザーから指示は、プログラミングやデータ分析、執筆、あるいは単なる雑談など多岐にわたります。
+### バックグラウンドプロセスツール
+
+開発サーバーやウォッチャーなど、終了を待たずに実行し続けるコマンドには execute_command ではなく以下のツールを使用してください。
+起動したプロセスはセッションの終了時にすべて停止されます。
+
+**start_process**: コマンドをバックグラウンドで起動し、プロセスIDと起動直後の出力を返す
+- command: 実行するコマンド
+- workingDirectory: 作業ディレクトリ（オプション）
+- wait: 起動直後の出力を待つ時間（ミリ秒、オプション、デフォルト: 1000）
+
+**read_process_output**: 前回の取得以降の標準出力・標準エラー出力を取得
+- id: プロセスID
+- wait: 出力を取得する前に待つ時間（ミリ秒、オプション）
+
+**send_process_input**: プロセスの標準入力にテキストを送信
+- id: プロセスID
+- input: 送信するテキスト
+- appendNewline: 末尾に改行を追加するかどうか（オプション、デフォルト: true）
+- closeStdin: 送信後に標準入力を閉じるかどうか（オプション、デフォルト: false）
+
+**list_processes**: このセッションで起動したプロセスの一覧と状態を取得
+
+**stop_process**: プロセスを停止
+- id: プロセスID
+- force: 強制終了するかどうか（オプション、デフォルト: false）
+
+【例】開発サーバーを起動する場合：
+\`\`\`xml
+<tool_call>
+<start_process>
+<command>npm run dev</command>
+<wait>3000</wait>
+</start_process>
+</tool_call>
+\`\`\`
+
+### 環境変数ツール
+
+コマンドに渡される環境変数は設定のポリシーで絞り込まれています。APIキーなどの認証情報はコマンドに渡されません。
+
+**get_env**: コマンドに渡される環境変数の値を取得
+- name: 環境変数名（オプション、省略すると変数名の一覧を返す）
+
+**set_env**: このセッションで以降に実行するコマンドに渡す環境変数を設定
+- name: 環境変数名
+- value: 設定する値（オプション、省略すると変数を削除）
+
+### Gitツール
+
+Gitリポジトリの状態や履歴の確認には execute_command ではなく以下のツールを使用してください。結果は解析済みのデータとして返されます。
+すべてのツールで workingDirectory（オプション）にリポジトリ内のディレクトリを指定できます。
+
+**git_status**: ブランチ、ステージ済み・未ステージ・未追跡・競合中のファイルを取得
+
+**git_diff**: ファイルごとの差分（追加・削除行数とハンク）を取得
+- staged: ステージ済みの変更を対象にするかどうか（オプション、デフォルト: false）
+- ref: 比較対象のリビジョン（オプション、例: HEAD~1, main）
+- path: 対象を絞り込むパス（オプション）
+
+**git_log**: コミット履歴を取得
+- maxCount: 取得するコミット数（オプション、デフォルト: 20）
+- ref: 起点のリビジョン（オプション）
+- path: このパスを変更したコミットに絞り込む（オプション）
+
+**git_show**: コミットの情報と変更内容を取得
+- ref: 対象のコミット（オプション、デフォルト: HEAD）
+- path: 変更内容を絞り込むパス（オプション）
+
+**git_commit**: 変更をコミット（常にユーザーの承認が必要です）
+- message: コミットメッセージ
+- paths: コミット前にステージするファイルまたはディレクトリのリスト（オプション）
+- all: 追跡済みファイルの変更をすべてステージするかどうか（オプション、デフォルト: false）
+
+【例】変更したファイルをコミットする場合：
+\`\`\`xml
+<tool_call>
+<git_commit>
+<message>ログイン画面のバリデーションを修正</message>
+<paths>["src/login.ts", "src/login_test.ts"]</paths>
+</git_commit>
+</tool_call>
+\`\`\`
+
+`;
+
+export const SYSTEM_PROMPT_NATIVE_TOOLS = `
+## ツール呼び出し形式
+
+ツールはAPIのネイティブ関数呼び出し（function calling）機能を使用して呼び出してください。
+各ツールの説明とパラメータはツール定義として提供されています。XML形式でツール呼び出しを記述しないでください。
+ユーザーへの最終的な回答や情報の表示には必ず respond_to_user ツールを使用し、要求を完全に満たせた場合は type に success、そうでない場合は error を指定してください。
+
+`;
+
+export const SYSTEM_PROMPT_GUIDELINES =
+  `ユーザーから指示は、プログラミングやデータ分析、執筆、あるいは単なる雑談など多岐にわたります。
 上記のディレクトリ構造情報を参考に、適切なファイルパスを使用してください。
 現在の日時情報を参考に、タイムスタンプが必要な処理や時間に関連する作業を適切に行ってください。
 あなたの目的は、ユーザーからの指示(<user_query>タグ内に記載)に従うことです。
@@ -349,11 +540,17 @@ export const SYSTEM_PROMPT_TOOLS = `
 
 /**
  * システムプロンプトとカスタムインストラクションを結合
+ * ネイティブ関数呼び出しモードではXML形式のツール説明を省略する
  */
-export async function buildSystemPrompt(customInstructions?: string): Promise<string> {
+export async function buildSystemPrompt(
+  customInstructions?: string,
+  toolCallMode: 'xml' | 'native' = 'xml',
+): Promise<string> {
   const directoryInfo = await getCurrentDirectoryInfo();
+  const toolsSection = toolCallMode === 'native' ? SYSTEM_PROMPT_NATIVE_TOOLS : SYSTEM_PROMPT_TOOLS;
 
-  let result = SYSTEM_PROMPT_PREFIX + '\n\n' + directoryInfo + '\n' + SYSTEM_PROMPT_TOOLS;
+  let result = SYSTEM_PROMPT_PREFIX + '\n\n' + directoryInfo + '\n' + toolsSection +
+    SYSTEM_PROMPT_GUIDELINES;
 
   if (customInstructions && customInstructions.trim() !== '') {
     result += `
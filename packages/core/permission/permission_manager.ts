@@ -1,6 +1,13 @@
-import type { PermissionSettings } from '../config/types.ts';
+import type { PermissionRule, PermissionSettings } from '../config/types.ts';
 import { ConfigManager } from '../config/manager.ts';
 import { type SecurityCheckResult, SecurityManager } from './security_manager.ts';
+import {
+  describeRule,
+  isAllowedByRule,
+  isDeniedByRule,
+  isSameRule,
+  suggestRule,
+} from './permission_rules.ts';
 import type { ToolCallRequest } from '../../interfaces/tool.ts';
 
 /**
@@ -11,6 +18,8 @@ export interface PermissionResult {
   requiresApproval: boolean;
   reason?: string;
   securityResult?: SecurityCheckResult;
+  /** 「同様の呼び出しを常に許可」する場合に追加する許可ルール（一般化できない場合は未設定） */
+  suggestedRule?: PermissionRule;
 }
 
 /**
@@ -33,7 +42,20 @@ export class PermissionManager {
    */
   private async loadSettings(): Promise<PermissionSettings> {
     if (!this.permissionSettings) {
-      this.permissionSettings = await this.configManager.getPermissionSettings();
+      const settings = await this.configManager.getPermissionSettings();
+
+      // ツール名だけの旧形式の永続許可は、すべての引数に一致する許可ルールに移行する
+      if (settings.permanentlyAllowed) {
+        for (const tool of settings.permanentlyAllowed) {
+          if (!settings.allowRules.some((rule) => isSameRule(rule, { tool }))) {
+            settings.allowRules.push({ tool });
+          }
+        }
+        delete settings.permanentlyAllowed;
+        await this.configManager.savePermissionSettings(settings);
+      }
+
+      this.permissionSettings = settings;
     }
     return this.permissionSettings;
   }
@@ -59,6 +81,31 @@ export class PermissionManager {
       };
     }
 
+    // 拒否ルールは全許可モードや許可ルールより優先する
+    const workingDirectory = Deno.cwd();
+    const denyRule = settings.denyRules.find((rule) =>
+      isDeniedByRule(rule, toolCall, workingDirectory)
+    );
+    if (denyRule) {
+      return {
+        allowed: false,
+        requiresApproval: false,
+        reason: `拒否ルールに一致したため実行できません: ${describeRule(denyRule)}`,
+        securityResult,
+      };
+    }
+
+    // 自動拒否リストのチェックは廃止されました
+
+    // 再帰削除や機密ファイルへのアクセスなどは、全許可モード・権限レベル・許可ルールに関わらず承認を必須とする
+    if (securityResult.forceApproval) {
+      return {
+        allowed: true,
+        requiresApproval: true,
+        securityResult,
+      };
+    }
+
     // 全許可モードの場合、承認不要で許可
     if (this.skipAllApprovals) {
       return {
@@ -68,10 +115,8 @@ export class PermissionManager {
       };
     }
 
-    // 自動拒否リストのチェックは廃止されました
-
-    // 永続許可リストのチェック
-    if (settings.permanentlyAllowed.includes(toolCall.toolName)) {
+    // 許可ルールのチェック
+    if (settings.allowRules.some((rule) => isAllowedByRule(rule, toolCall, workingDirectory))) {
       return {
         allowed: true,
         requiresApproval: false,
@@ -86,6 +131,9 @@ export class PermissionManager {
       allowed: true,
       requiresApproval,
       securityResult,
+      suggestedRule: requiresApproval
+        ? suggestRule(toolCall, workingDirectory) ?? undefined
+        : undefined,
     };
   }
 
@@ -125,24 +173,35 @@ export class PermissionManager {
   }
 
   /**
-   * ツールを永続許可リストに追加
+   * 許可ルールを追加
    */
-  async addToPermanentlyAllowed(toolName: string): Promise<void> {
+  async addAllowRule(rule: PermissionRule): Promise<void> {
     const settings = await this.loadSettings();
-    if (!settings.permanentlyAllowed.includes(toolName)) {
-      settings.permanentlyAllowed.push(toolName);
+    if (!settings.allowRules.some((existing) => isSameRule(existing, rule))) {
+      settings.allowRules.push(rule);
       await this.saveSettings(settings);
     }
   }
 
   /**
-   * 永続許可リストからツールを削除
+   * 許可ルールを削除
    */
-  async removeFromPermanentlyAllowed(toolName: string): Promise<void> {
+  async removeAllowRule(rule: PermissionRule): Promise<void> {
     const settings = await this.loadSettings();
-    const index = settings.permanentlyAllowed.indexOf(toolName);
+    const index = settings.allowRules.findIndex((existing) => isSameRule(existing, rule));
     if (index !== -1) {
-      settings.permanentlyAllowed.splice(index, 1);
+      settings.allowRules.splice(index, 1);
+      await this.saveSettings(settings);
+    }
+  }
+
+  /**
+   * 拒否ルールを追加
+   */
+  async addDenyRule(rule: PermissionRule): Promise<void> {
+    const settings = await this.loadSettings();
+    if (!settings.denyRules.some((existing) => isSameRule(existing, rule))) {
+      settings.denyRules.push(rule);
       await this.saveSettings(settings);
     }
   }
@@ -180,6 +239,7 @@ export class PermissionManager {
 
   /**
    * 全許可モードを設定する
+   * 承認が必須の操作（SecurityCheckResult.forceApproval）は全許可モードでも承認を求める
    */
   public setSkipAllApprovals(enabled: boolean): void {
     this.skipAllApprovals = enabled;
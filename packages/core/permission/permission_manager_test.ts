@@ -0,0 +1,57 @@
+import { assertEquals } from '@std/assert';
+import type { ConfigManager } from '../config/manager.ts';
+import type { PermissionSettings, SecuritySettings } from '../config/types.ts';
+import { PermissionManager } from './permission_manager.ts';
+
+function createManager(permissions: Partial<PermissionSettings> = {}): PermissionManager {
+  const permissionSettings: PermissionSettings = {
+    allowRules: [],
+    denyRules: [],
+    autoReject: [],
+    blockedCommands: [],
+    permissionLevel: 'permissive',
+    ...permissions,
+  };
+  const securitySettings: SecuritySettings = {
+    enableBlocklist: true,
+    customBlocklist: [],
+    riskLevels: { high: [], medium: [], low: [] },
+    showSecurityWarnings: true,
+    workspace: { roots: [], allowedDirectories: [], outsideAccess: 'approval' },
+    secrets: { enabled: true, detectHighEntropy: true, patterns: [] },
+  };
+  const configManager = {
+    getPermissionSettings: () => Promise.resolve(permissionSettings),
+    savePermissionSettings: () => Promise.resolve(),
+    getSecuritySettings: () => Promise.resolve(securitySettings),
+  } as unknown as ConfigManager;
+  return new PermissionManager(configManager);
+}
+
+Deno.test('PermissionManager: 全許可モードでも再帰削除は承認を求める', async () => {
+  const manager = createManager({ allowRules: [{ tool: 'delete_path' }] });
+  manager.setSkipAllApprovals(true);
+
+  const recursive = await manager.checkPermission({
+    toolName: 'delete_path',
+    parameters: { path: 'build', recursive: true },
+  });
+  assertEquals([recursive.allowed, recursive.requiresApproval], [true, true]);
+
+  const single = await manager.checkPermission({
+    toolName: 'delete_path',
+    parameters: { path: 'build/a.txt' },
+  });
+  assertEquals([single.allowed, single.requiresApproval], [true, false]);
+});
+
+Deno.test('PermissionManager: 全許可モードでも拒否ルールは優先する', async () => {
+  const manager = createManager({ denyRules: [{ tool: 'delete_path' }] });
+  manager.setSkipAllApprovals(true);
+
+  const result = await manager.checkPermission({
+    toolName: 'delete_path',
+    parameters: { path: 'build/a.txt' },
+  });
+  assertEquals([result.allowed, result.requiresApproval], [false, false]);
+});
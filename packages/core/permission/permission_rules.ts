@@ -0,0 +1,199 @@
+import { dirname, globToRegExp, isAbsolute, relative } from '@std/path';
+import type { PermissionRule } from '../config/types.ts';
+import type { ToolCallRequest } from '../../interfaces/tool.ts';
+import {
+  containsSubstitution,
+  findRedirectTargets,
+  splitArguments,
+  splitShellCommands,
+} from '../tools/shell_utils.ts';
+import { resolveToolPath } from '../tools/path_utils.ts';
+import { getToolPaths } from './workspace_policy.ts';
+
+/**
+ * コマンド接頭辞の後に続けてよいサブコマンドらしい引数（npm run build など）
+ */
+const SUBCOMMAND_PATTERN = /^[a-z][\w:-]*$/i;
+
+/**
+ * 許可ルールに一致するかを判定
+ * 許可ルールはコマンドのすべてのサブコマンド、すべての対象パスが条件を満たす場合のみ一致する
+ */
+export function isAllowedByRule(
+  rule: PermissionRule,
+  toolCall: ToolCallRequest,
+  workingDirectory: string,
+): boolean {
+  if (!matchesTool(rule, toolCall)) {
+    return false;
+  }
+
+  if (rule.commandPrefix !== undefined) {
+    const command = toolCall.parameters.command;
+    if (typeof command !== 'string') {
+      return false;
+    }
+    // リダイレクトでファイルに書き込むコマンドや、置換で任意のコマンドを埋め込めるコマンドは
+    // 接頭辞が一致しても許可しない
+    const commands = splitShellCommands(command);
+    if (
+      commands.length === 0 || findRedirectTargets(command).length > 0 ||
+      containsSubstitution(command)
+    ) {
+      return false;
+    }
+    if (!commands.every((subCommand) => hasCommandPrefix(subCommand, rule.commandPrefix!))) {
+      return false;
+    }
+  }
+
+  if (rule.pathGlob !== undefined) {
+    const paths = getToolPaths(toolCall.parameters);
+    const pattern = globToRegExp(rule.pathGlob, { extended: true, globstar: true });
+    if (
+      paths.length === 0 ||
+      !paths.every((path) => pattern.test(toRulePath(rule.pathGlob!, path, workingDirectory)))
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * 拒否ルールに一致するかを判定
+ * 拒否ルールはいずれかのサブコマンド、いずれかの対象パスが条件を満たせば一致する
+ */
+export function isDeniedByRule(
+  rule: PermissionRule,
+  toolCall: ToolCallRequest,
+  workingDirectory: string,
+): boolean {
+  if (!matchesTool(rule, toolCall)) {
+    return false;
+  }
+
+  if (rule.commandPrefix !== undefined) {
+    const command = toolCall.parameters.command;
+    if (
+      typeof command !== 'string' ||
+      !splitShellCommands(command).some((subCommand) =>
+        hasCommandPrefix(subCommand, rule.commandPrefix!)
+      )
+    ) {
+      return false;
+    }
+  }
+
+  if (rule.pathGlob !== undefined) {
+    const pattern = globToRegExp(rule.pathGlob, { extended: true, globstar: true });
+    if (
+      !getToolPaths(toolCall.parameters).some((path) =>
+        pattern.test(toRulePath(rule.pathGlob!, path, workingDirectory))
+      )
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * 「同様の呼び出しを常に許可」するためのルールを生成
+ * @returns 安全に一般化できない呼び出しの場合はnull
+ */
+export function suggestRule(
+  toolCall: ToolCallRequest,
+  workingDirectory: string,
+): PermissionRule | null {
+  const command = toolCall.parameters.command;
+  if (typeof command === 'string') {
+    const commands = splitShellCommands(command);
+    if (commands.length !== 1 || findRedirectTargets(command).length > 0) {
+      return null;
+    }
+
+    // プログラム名とサブコマンド（最大2つ）を接頭辞にする。サブコマンドがない場合はコマンド全体
+    const args = splitArguments(commands[0]);
+    if (args.length === 0) {
+      return null;
+    }
+    let length = 1;
+    while (length < Math.min(args.length, 3) && SUBCOMMAND_PATTERN.test(args[length])) {
+      length++;
+    }
+    const prefix = (length === 1 ? args : args.slice(0, length))
+      .map((arg) => /\s/.test(arg) ? `"${arg}"` : arg);
+    return { tool: toolCall.toolName, commandPrefix: prefix.join(' ') };
+  }
+
+  const paths = getToolPaths(toolCall.parameters).map((path) =>
+    toRulePath('', path, workingDirectory)
+  );
+  if (paths.length === 0) {
+    return { tool: toolCall.toolName };
+  }
+
+  // 同じディレクトリ配下のパスはそのディレクトリ以下をまとめて許可する
+  const directories = new Set(paths.map((path) => dirname(path)));
+  if (directories.size === 1) {
+    const [directory] = directories;
+    if (directory !== '.') {
+      return { tool: toolCall.toolName, pathGlob: `${directory}/**` };
+    }
+    if (paths.length === 1) {
+      return { tool: toolCall.toolName, pathGlob: paths[0] };
+    }
+  }
+  return null;
+}
+
+/**
+ * ルールを表示用の文字列に変換
+ */
+export function describeRule(rule: PermissionRule): string {
+  const conditions: string[] = [];
+  if (rule.commandPrefix !== undefined) {
+    conditions.push(`コマンドが "${rule.commandPrefix}" で始まる`);
+  }
+  if (rule.pathGlob !== undefined) {
+    conditions.push(`パスが ${rule.pathGlob} に一致`);
+  }
+
+  const tool = rule.tool === '*' ? 'すべてのツール' : rule.tool;
+  return conditions.length > 0 ? `${tool}（${conditions.join('、')}）` : tool;
+}
+
+/**
+ * 2つのルールが同じ条件かを判定
+ */
+export function isSameRule(a: PermissionRule, b: PermissionRule): boolean {
+  return a.tool === b.tool && a.commandPrefix === b.commandPrefix && a.pathGlob === b.pathGlob;
+}
+
+/**
+ * ルールの対象ツールに一致するか（* はすべてのツール）
+ */
+function matchesTool(rule: PermissionRule, toolCall: ToolCallRequest): boolean {
+  return rule.tool === '*' || rule.tool === toolCall.toolName;
+}
+
+/**
+ * コマンドが接頭辞の引数で始まるかを判定（"deno test" は "deno testing" には一致しない）
+ */
+function hasCommandPrefix(command: string, prefix: string): boolean {
+  const args = splitArguments(command);
+  const prefixArgs = splitArguments(prefix);
+  return prefixArgs.length > 0 && prefixArgs.every((arg, index) => args[index] === arg);
+}
+
+/**
+ * ルールと比較するパス（絶対パスのパターンには絶対パス、それ以外は作業ディレクトリからの相対パス）
+ */
+function toRulePath(pattern: string, path: string, workingDirectory: string): string {
+  const fullPath = resolveToolPath(path, workingDirectory);
+  const rulePath = isAbsolute(pattern) ? fullPath : relative(workingDirectory, fullPath) || '.';
+  return rulePath.replaceAll('\\', '/');
+}
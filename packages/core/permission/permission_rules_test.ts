@@ -0,0 +1,104 @@
+import { assertEquals } from '@std/assert';
+import { isAllowedByRule, isDeniedByRule, suggestRule } from './permission_rules.ts';
+
+const cwd = '/work/project';
+const command = (value: string) => ({
+  toolName: 'execute_command',
+  parameters: { command: value },
+});
+const write = (path: string) => ({ toolName: 'write_to_file', parameters: { path, content: '' } });
+
+Deno.test('isAllowedByRule: コマンドの接頭辞は引数単位で比較する', () => {
+  const rule = { tool: 'execute_command', commandPrefix: 'deno test' };
+
+  assertEquals(isAllowedByRule(rule, command('deno test -A'), cwd), true);
+  assertEquals(isAllowedByRule(rule, command('deno  test'), cwd), true);
+  assertEquals(isAllowedByRule(rule, command('deno testing'), cwd), false);
+  assertEquals(isAllowedByRule(rule, command('deno run main.ts'), cwd), false);
+  assertEquals(
+    isAllowedByRule({ ...rule, tool: 'start_process' }, command('deno test'), cwd),
+    false,
+  );
+});
+
+Deno.test('isAllowedByRule: 連結したコマンドやリダイレクトは許可しない', () => {
+  const rule = { tool: 'execute_command', commandPrefix: 'deno test' };
+
+  assertEquals(isAllowedByRule(rule, command('deno test && rm -rf src'), cwd), false);
+  assertEquals(isAllowedByRule(rule, command('deno test > out.txt'), cwd), false);
+  assertEquals(isAllowedByRule(rule, command('deno test a.ts; deno test b.ts'), cwd), true);
+});
+
+Deno.test('isAllowedByRule: クォート内を含むコマンド置換・プロセス置換は許可しない', () => {
+  const rule = { tool: 'execute_command', commandPrefix: 'deno test' };
+
+  assertEquals(isAllowedByRule(rule, command('deno test $(rm -rf ~/x)'), cwd), false);
+  assertEquals(isAllowedByRule(rule, command('deno test "$(rm -rf ~/x)"'), cwd), false);
+  assertEquals(isAllowedByRule(rule, command('deno test "`rm -rf ~/x`"'), cwd), false);
+  assertEquals(isAllowedByRule(rule, command('deno test <(rm -rf ~/x)'), cwd), false);
+  assertEquals(isAllowedByRule(rule, command('deno test >(rm -rf ~/x)'), cwd), false);
+});
+
+Deno.test('isAllowedByRule: パスのglobはすべての対象パスに一致する必要がある', () => {
+  const rule = { tool: 'write_to_file', pathGlob: 'src/**' };
+
+  assertEquals(isAllowedByRule(rule, write('src/a/b.ts'), cwd), true);
+  assertEquals(isAllowedByRule(rule, write('/work/project/src/c.ts'), cwd), true);
+  assertEquals(isAllowedByRule(rule, write('src/../secret.ts'), cwd), false);
+  assertEquals(isAllowedByRule(rule, write('test/a.ts'), cwd), false);
+  assertEquals(
+    isAllowedByRule(
+      { tool: 'move_path', pathGlob: 'src/**' },
+      { toolName: 'move_path', parameters: { source: 'src/a.ts', destination: 'lib/a.ts' } },
+      cwd,
+    ),
+    false,
+  );
+});
+
+Deno.test('isDeniedByRule: いずれかのサブコマンド・パスが一致すれば拒否する', () => {
+  assertEquals(
+    isDeniedByRule(
+      { tool: 'execute_command', commandPrefix: 'git push' },
+      command('git add . && git push'),
+      cwd,
+    ),
+    true,
+  );
+  assertEquals(
+    isDeniedByRule(
+      { tool: '*', pathGlob: '.env*' },
+      { toolName: 'move_path', parameters: { source: 'a.txt', destination: '.env.local' } },
+      cwd,
+    ),
+    true,
+  );
+  assertEquals(isDeniedByRule({ tool: '*', pathGlob: '.env*' }, write('src/env.ts'), cwd), false);
+});
+
+Deno.test('suggestRule: 呼び出しを一般化したルールを生成する', () => {
+  assertEquals(suggestRule(command('deno test -A src/'), cwd), {
+    tool: 'execute_command',
+    commandPrefix: 'deno test',
+  });
+  assertEquals(suggestRule(command('npm run build -- --watch'), cwd), {
+    tool: 'execute_command',
+    commandPrefix: 'npm run build',
+  });
+  assertEquals(suggestRule(command('ls -la'), cwd), {
+    tool: 'execute_command',
+    commandPrefix: 'ls -la',
+  });
+  assertEquals(suggestRule(command('make && make install'), cwd), null);
+  assertEquals(suggestRule(write('src/lib/a.ts'), cwd), {
+    tool: 'write_to_file',
+    pathGlob: 'src/lib/**',
+  });
+  assertEquals(suggestRule(write('README.md'), cwd), {
+    tool: 'write_to_file',
+    pathGlob: 'README.md',
+  });
+  assertEquals(suggestRule({ toolName: 'git_status', parameters: {} }, cwd), {
+    tool: 'git_status',
+  });
+});
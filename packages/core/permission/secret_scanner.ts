@@ -0,0 +1,240 @@
+import { basename } from '@std/path';
+import type { SecretScanSettings } from '../config/types.ts';
+
+/**
+ * 検出した機密情報
+ */
+export interface SecretFinding {
+  /** 機密情報の種類 */
+  type: string;
+  /** 元のテキスト内の開始位置 */
+  start: number;
+  /** 元のテキスト内の終了位置 */
+  end: number;
+}
+
+/**
+ * マスク結果
+ */
+export interface RedactionResult {
+  text: string;
+  findings: SecretFinding[];
+}
+
+/**
+ * 機密情報のパターン（secret グループがある場合はその部分だけをマスクする）
+ */
+interface SecretPattern {
+  type: string;
+  pattern: RegExp;
+}
+
+/**
+ * 既知の形式のAPIキー・トークン・秘密鍵
+ */
+const BUILTIN_PATTERNS: SecretPattern[] = [
+  {
+    type: 'private_key',
+    pattern:
+      /-----BEGIN [A-Z ]*PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY( BLOCK)?-----/g,
+  },
+  { type: 'aws_access_key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    type: 'github_token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g,
+  },
+  { type: 'anthropic_api_key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { type: 'openai_api_key', pattern: /\bsk-(?:proj-|svcacct-)?[A-Za-z0-9_-]{20,}/g },
+  { type: 'slack_token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { type: 'google_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { type: 'stripe_key', pattern: /\b(?:sk|rk)_(?:live|test)_[0-9A-Za-z]{16,}/g },
+  { type: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  {
+    // 設定ファイルやコード中の文字列リテラル（"api_key": "..." など）
+    type: 'credential',
+    pattern:
+      /\b[\w.-]*(?:password|passwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key)["']?\s*[:=]\s*["'](?<secret>[^\s"'\\]{8,})["']/gi,
+  },
+  {
+    // .env 形式の環境変数（API_KEY=... など）
+    type: 'credential',
+    pattern:
+      /^[ \t]*(?:export[ \t]+)?[A-Z0-9_]*(?:PASSWORD|PASSWD|SECRET|TOKEN|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY)[A-Z0-9_]*[ \t]*=[ \t]*["']?(?<secret>[^\s"'#\\]{8,})/gm,
+  },
+];
+
+/**
+ * エントロピーを判定する候補（大文字・小文字・数字が混在する長い文字列）
+ */
+const HIGH_ENTROPY_CANDIDATE = /[A-Za-z0-9+_=-]{32,}/g;
+
+/**
+ * 1文字あたりのエントロピーの閾値（ビット）
+ */
+const HIGH_ENTROPY_THRESHOLD = 4.0;
+
+/**
+ * 機密情報を含むことが多いファイル名
+ */
+const SECRET_FILE_PATTERNS = [
+  /^\.env(\..+)?$/,
+  /^\.?(id_rsa|id_dsa|id_ecdsa|id_ed25519)$/,
+  /\.(pem|key|p12|pfx|jks|keystore)$/,
+  /^\.(npmrc|pypirc|netrc|pgpass|git-credentials)$/,
+  /^credentials(\.json)?$/,
+  /^secrets?\.(json|ya?ml|toml)$/,
+];
+
+/**
+ * 機密情報を含まない雛形ファイル
+ */
+const SECRET_FILE_EXCLUDES = /\.(example|sample|template|dist)$/;
+
+/**
+ * 機密情報を含むことが多いファイルかどうかを判定
+ */
+export function isSecretFile(path: string): boolean {
+  const name = basename(path.replaceAll('\\', '/')).toLowerCase();
+  if (SECRET_FILE_EXCLUDES.test(name)) {
+    return false;
+  }
+  return SECRET_FILE_PATTERNS.some((pattern) => pattern.test(name));
+}
+
+/**
+ * 機密情報の検出・マスククラス
+ * ツールの実行結果や履歴に含まれるAPIキーなどをLLMやファイルに渡す前に置き換える
+ */
+export class SecretScanner {
+  private enabled: boolean;
+  private detectHighEntropy: boolean;
+  private patterns: SecretPattern[];
+
+  constructor(settings?: Partial<SecretScanSettings>) {
+    this.enabled = settings?.enabled ?? true;
+    this.detectHighEntropy = settings?.detectHighEntropy ?? true;
+    this.patterns = [...BUILTIN_PATTERNS];
+
+    for (const [index, source] of (settings?.patterns ?? []).entries()) {
+      try {
+        this.patterns.push({ type: `custom_${index + 1}`, pattern: new RegExp(source, 'g') });
+      } catch {
+        console.warn(`⚠️  無効な機密情報パターンを無視しました: ${source}`);
+      }
+    }
+  }
+
+  /**
+   * テキストに含まれる機密情報を検出
+   */
+  scan(text: string): SecretFinding[] {
+    if (!this.enabled || text === '') {
+      return [];
+    }
+
+    const findings: SecretFinding[] = [];
+    for (const { type, pattern } of this.patterns) {
+      for (const match of text.matchAll(new RegExp(pattern.source, this.withIndices(pattern)))) {
+        const secret = match.indices?.groups?.secret;
+        const [start, end] = secret ?? [match.index!, match.index! + match[0].length];
+        if (end > start) {
+          findings.push({ type, start, end });
+        }
+      }
+    }
+
+    if (this.detectHighEntropy) {
+      for (const match of text.matchAll(HIGH_ENTROPY_CANDIDATE)) {
+        if (isHighEntropy(match[0])) {
+          findings.push({
+            type: 'high_entropy',
+            start: match.index!,
+            end: match.index! + match[0].length,
+          });
+        }
+      }
+    }
+
+    // 重なる検出結果は1つの範囲にまとめる
+    findings.sort((a, b) => a.start - b.start || b.end - a.end);
+    const merged: SecretFinding[] = [];
+    for (const finding of findings) {
+      const last = merged.at(-1);
+      if (last && finding.start < last.end) {
+        last.end = Math.max(last.end, finding.end);
+        continue;
+      }
+      merged.push({ ...finding });
+    }
+    return merged;
+  }
+
+  /**
+   * テキストに含まれる機密情報をマスク
+   */
+  redact(text: string): RedactionResult {
+    const findings = this.scan(text);
+    let result = '';
+    let cursor = 0;
+    for (const finding of findings) {
+      result += text.slice(cursor, finding.start) + `[REDACTED:${finding.type}]`;
+      cursor = finding.end;
+    }
+    return { text: result + text.slice(cursor), findings };
+  }
+
+  /**
+   * オブジェクトに含まれるすべての文字列の機密情報をマスク
+   * @returns マスクした値と検出件数
+   */
+  redactValue<T>(value: T): { value: T; count: number } {
+    let count = 0;
+    const visit = (current: unknown): unknown => {
+      if (typeof current === 'string') {
+        const { text, findings } = this.redact(current);
+        count += findings.length;
+        return text;
+      }
+      if (Array.isArray(current)) {
+        return current.map(visit);
+      }
+      if (current !== null && typeof current === 'object' && !(current instanceof Date)) {
+        return Object.fromEntries(
+          Object.entries(current).map(([key, child]) => [key, visit(child)]),
+        );
+      }
+      return current;
+    };
+    return { value: visit(value) as T, count };
+  }
+
+  /**
+   * 一致位置を取得できるようにフラグを補う
+   */
+  private withIndices(pattern: RegExp): string {
+    const flags = pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g';
+    return flags.includes('d') ? flags : flags + 'd';
+  }
+}
+
+/**
+ * ランダムに生成されたトークンらしい文字列かどうかを判定
+ * ハッシュ値（16進数）やUUID、長い識別子を除外するため、大文字・小文字・数字が複数含まれるものに限る
+ */
+function isHighEntropy(token: string): boolean {
+  const count = (pattern: RegExp) => token.match(pattern)?.length ?? 0;
+  if (count(/[A-Z]/g) < 2 || count(/[a-z]/g) < 2 || count(/[0-9]/g) < 3) {
+    return false;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of token) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / token.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy >= HIGH_ENTROPY_THRESHOLD;
+}
@@ -1,11 +1,20 @@
 import type { SecuritySettings } from '../config/types.ts';
 import { ConfigManager } from '../config/manager.ts';
+import { parsePatch } from '../tools/patch.ts';
+import { findRedirectTargets, splitShellCommands } from '../tools/shell_utils.ts';
+import { getToolPaths, WorkspacePolicy } from './workspace_policy.ts';
+import { isSecretFile, SecretScanner } from './secret_scanner.ts';
 
 /**
  * リスクレベル
  */
 export type RiskLevel = 'low' | 'medium' | 'high';
 
+/**
+ * リスクレベルの大小関係
+ */
+const RISK_ORDER: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
 /**
  * セキュリティチェック結果
  */
@@ -14,6 +23,8 @@ export interface SecurityCheckResult {
   riskLevel: RiskLevel;
   blockedReason?: string;
   warning?: string;
+  /** 権限レベルや永続許可に関わらず承認を必須とする */
+  forceApproval?: boolean;
 }
 
 /**
@@ -22,6 +33,8 @@ export interface SecurityCheckResult {
 export class SecurityManager {
   private configManager: ConfigManager;
   private securitySettings: SecuritySettings | null = null;
+  private workspacePolicy: WorkspacePolicy | null = null;
+  private secretScanner: SecretScanner | null = null;
 
   constructor(configManager: ConfigManager) {
     this.configManager = configManager;
@@ -43,10 +56,35 @@ export class SecurityManager {
   async updateSettings(settings: SecuritySettings): Promise<void> {
     await this.configManager.saveSecuritySettings(settings);
     this.securitySettings = settings;
+    this.workspacePolicy = null;
+    this.secretScanner = null;
+  }
+
+  /**
+   * ワークスペースの範囲を判定するポリシーを取得
+   */
+  async getWorkspacePolicy(): Promise<WorkspacePolicy> {
+    if (!this.workspacePolicy) {
+      const settings = await this.loadSettings();
+      this.workspacePolicy = new WorkspacePolicy(settings.workspace);
+    }
+    return this.workspacePolicy;
+  }
+
+  /**
+   * 機密情報の検出・マスククラスを取得
+   */
+  async getSecretScanner(): Promise<SecretScanner> {
+    if (!this.secretScanner) {
+      const settings = await this.loadSettings();
+      this.secretScanner = new SecretScanner(settings.secrets);
+    }
+    return this.secretScanner;
   }
 
   /**
    * コマンドのセキュリティチェック
+   * パイプラインや連結されたコマンドは、全体と各サブコマンドを評価して最も高いリスクを採用する
    */
   async checkCommand(command: string): Promise<SecurityCheckResult> {
     const settings = await this.loadSettings();
@@ -58,6 +96,42 @@ export class SecurityManager {
       };
     }
 
+    const subCommands = splitShellCommands(command);
+    const candidates = subCommands.length > 1 ? [command, ...subCommands] : [command];
+
+    let result: SecurityCheckResult = { allowed: true, riskLevel: 'low' };
+    for (const candidate of candidates) {
+      const candidateResult = this.evaluateCommand(candidate, settings);
+      if (!candidateResult.allowed) {
+        return candidate === command ? candidateResult : {
+          ...candidateResult,
+          blockedReason: `${candidateResult.blockedReason} (サブコマンド: ${candidate})`,
+        };
+      }
+      if (RISK_ORDER[candidateResult.riskLevel] > RISK_ORDER[result.riskLevel]) {
+        result = candidateResult;
+      }
+    }
+
+    // リダイレクトによる危険なパスへの書き込み
+    const dangerousTarget = findRedirectTargets(command).find((target) =>
+      this.isDangerousPath(target)
+    );
+    if (dangerousTarget) {
+      return {
+        allowed: false,
+        riskLevel: 'high',
+        blockedReason: `危険なファイルパスへのリダイレクトが検出されました: ${dangerousTarget}`,
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * 単一のコマンド文字列をリスクパターンと照合
+   */
+  private evaluateCommand(command: string, settings: SecuritySettings): SecurityCheckResult {
     // 高リスクコマンドのチェック
     const highRiskMatch = this.findMatchingPattern(command, settings.riskLevels.high);
     if (highRiskMatch) {
@@ -108,10 +182,60 @@ export class SecurityManager {
 
   /**
    * ツール名のセキュリティチェック
+   * ツール固有のチェックに加え、ワークスペース外のパスへのアクセスを拒否または承認必須にする
    */
   async checkTool(
     toolName: string,
     parameters: Record<string, unknown>,
+  ): Promise<SecurityCheckResult> {
+    let result = await this.checkToolParameters(toolName, parameters);
+    if (!result.allowed) {
+      return result;
+    }
+
+    // 機密情報を含むことが多いファイルの読み込みは警告して承認を求める
+    if (toolName === 'read_file' || toolName === 'read_files') {
+      const secretFiles = getToolPaths(parameters).filter((path) => isSecretFile(path));
+      if (secretFiles.length > 0) {
+        result = {
+          allowed: true,
+          riskLevel: 'high',
+          warning: `機密情報を含む可能性のあるファイルです: ${secretFiles.join(', ')}`,
+          forceApproval: true,
+        };
+      }
+    }
+
+    const policy = await this.getWorkspacePolicy();
+    const outside = await policy.findOutsidePaths(getToolPaths(parameters));
+    if (outside.length === 0) {
+      return result;
+    }
+
+    if (policy.outsideAccess === 'deny') {
+      return {
+        allowed: false,
+        riskLevel: 'high',
+        blockedReason: `ワークスペース外のパスへのアクセスは許可されていません: ${
+          outside.join(', ')
+        }`,
+      };
+    }
+    const warning = `ワークスペース外のパスにアクセスします: ${outside.join(', ')}`;
+    return {
+      allowed: true,
+      riskLevel: result.riskLevel === 'high' ? 'high' : 'medium',
+      warning: result.warning ? `${result.warning} / ${warning}` : warning,
+      forceApproval: true,
+    };
+  }
+
+  /**
+   * ツール固有のセキュリティチェック
+   */
+  private async checkToolParameters(
+    toolName: string,
+    parameters: Record<string, unknown>,
   ): Promise<SecurityCheckResult> {
     const settings = await this.loadSettings();
 
@@ -124,6 +248,73 @@ export class SecurityManager {
         }
         break;
       }
+      case 'start_process': {
+        const command = parameters.command as string;
+        if (command) {
+          return this.checkCommand(command);
+        }
+        break;
+      }
+      case 'send_process_input': {
+        // 実行中のプロセスへの入力はコマンド実行に準じて中リスクとして扱う
+        return {
+          allowed: true,
+          riskLevel: 'medium',
+          warning: settings.showSecurityWarnings ? 'プロセスへの入力の送信です' : undefined,
+        };
+      }
+      case 'read_process_output':
+      case 'list_processes':
+      case 'stop_process': {
+        // セッション内のプロセスの参照・停止は低リスク
+        return {
+          allowed: true,
+          riskLevel: 'low',
+        };
+      }
+      case 'get_env': {
+        // ポリシー適用後の環境変数の参照は低リスク（値は結果のマスク処理の対象になる）
+        return {
+          allowed: true,
+          riskLevel: 'low',
+        };
+      }
+      case 'set_env': {
+        // 以降のコマンドの動作（PATH など）を変えられるため中リスクとして扱う
+        return {
+          allowed: true,
+          riskLevel: 'medium',
+          warning: settings.showSecurityWarnings ? '環境変数の変更です' : undefined,
+        };
+      }
+      case 'git_status':
+      case 'git_diff':
+      case 'git_log':
+      case 'git_show': {
+        // リポジトリ情報の参照は低リスク
+        return {
+          allowed: true,
+          riskLevel: 'low',
+        };
+      }
+      case 'git_commit': {
+        const paths = Array.isArray(parameters.paths) ? parameters.paths.map(String) : [];
+        const dangerous = paths.find((path) => this.isDangerousPath(path));
+        if (dangerous) {
+          return {
+            allowed: false,
+            riskLevel: 'high',
+            blockedReason: `危険なパスのコミットが検出されました: ${dangerous}`,
+          };
+        }
+        // コミットは履歴に残るため常に承認を必須とする
+        return {
+          allowed: true,
+          riskLevel: 'medium',
+          warning: settings.showSecurityWarnings ? 'Gitのコミット操作です' : undefined,
+          forceApproval: true,
+        };
+      }
       case 'write_to_file': {
         const path = parameters.path as string;
         if (path && this.isDangerousPath(path)) {
@@ -140,6 +331,98 @@ export class SecurityManager {
           warning: settings.showSecurityWarnings ? 'ファイルの書き込み操作です' : undefined,
         };
       }
+      case 'edit_file': {
+        const path = parameters.path as string;
+        if (path && this.isDangerousPath(path)) {
+          return {
+            allowed: false,
+            riskLevel: 'high',
+            blockedReason: `危険なファイルパスの編集が検出されました: ${path}`,
+          };
+        }
+        // ファイル編集は書き込みと同様に中リスクとして扱う
+        return {
+          allowed: true,
+          riskLevel: 'medium',
+          warning: settings.showSecurityWarnings ? 'ファイルの編集操作です' : undefined,
+        };
+      }
+      case 'apply_patch': {
+        let paths: string[] = [];
+        try {
+          paths = parsePatch(String(parameters.patch ?? '')).flatMap((filePatch) =>
+            [filePatch.oldPath, filePatch.newPath].filter((path): path is string => path !== null)
+          );
+        } catch {
+          // 解析できないパッチはツール側でエラーとして扱う
+        }
+        const dangerous = paths.find((path) => this.isDangerousPath(path));
+        if (dangerous) {
+          return {
+            allowed: false,
+            riskLevel: 'high',
+            blockedReason: `危険なファイルパスへのパッチ適用が検出されました: ${dangerous}`,
+          };
+        }
+        // パッチ適用は書き込みと同様に中リスクとして扱う
+        return {
+          allowed: true,
+          riskLevel: 'medium',
+          warning: settings.showSecurityWarnings ? 'パッチによるファイルの変更操作です' : undefined,
+        };
+      }
+      case 'delete_path': {
+        const path = parameters.path as string;
+        if (path && this.isDangerousPath(path)) {
+          return {
+            allowed: false,
+            riskLevel: 'high',
+            blockedReason: `危険なパスの削除が検出されました: ${path}`,
+          };
+        }
+        // 削除は元に戻せないため高リスク、ディレクトリの再帰削除は常に承認を必須とする
+        const recursive = parameters.recursive === true;
+        return {
+          allowed: true,
+          riskLevel: 'high',
+          warning: recursive
+            ? 'ディレクトリを中身ごと削除します'
+            : settings.showSecurityWarnings
+            ? 'ファイルの削除操作です'
+            : undefined,
+          forceApproval: recursive,
+        };
+      }
+      case 'move_path':
+      case 'copy_path': {
+        const source = parameters.source as string;
+        const destination = parameters.destination as string;
+        const dangerous = [source, destination].find((path) => path && this.isDangerousPath(path));
+        if (dangerous) {
+          return {
+            allowed: false,
+            riskLevel: 'high',
+            blockedReason: `危険なパスの${
+              toolName === 'move_path' ? '移動' : 'コピー'
+            }が検出されました: ${dangerous}`,
+          };
+        }
+        // 移動・コピーは書き込みと同様に中リスクとして扱う
+        return {
+          allowed: true,
+          riskLevel: 'medium',
+          warning: settings.showSecurityWarnings
+            ? `ファイルの${toolName === 'move_path' ? '移動' : 'コピー'}操作です`
+            : undefined,
+        };
+      }
+      case 'stat_path': {
+        // 情報取得は低リスク
+        return {
+          allowed: true,
+          riskLevel: 'low',
+        };
+      }
       case 'create_directory': {
         const path = parameters.path as string;
         if (path && this.isDangerousPath(path)) {
@@ -235,7 +518,7 @@ export class SecurityManager {
   /**
    * 危険なファイルパスかどうかをチェック
    */
-  private isDangerousPath(path: string): boolean {
+  isDangerousPath(path: string): boolean {
     const dangerousPaths = [
       '/etc/',
       '/bin/',
@@ -0,0 +1,118 @@
+import { basename, dirname, isAbsolute, join, relative } from '@std/path';
+import type { WorkspaceSettings } from '../config/types.ts';
+import type { ToolParameters } from '../../interfaces/tool.ts';
+import { parsePatch } from '../tools/patch.ts';
+import { resolveToolPath } from '../tools/path_utils.ts';
+
+/**
+ * ツールのパラメータのうちファイルシステム上のパスを表すもの
+ */
+const PATH_PARAMETERS = ['path', 'source', 'destination', 'directory', 'workingDirectory'];
+
+/**
+ * ツール呼び出しのパラメータからアクセスするパスを取得
+ */
+export function getToolPaths(parameters: ToolParameters): string[] {
+  const paths = PATH_PARAMETERS.map((key) => parameters[key]).filter((value): value is string =>
+    typeof value === 'string' && value !== ''
+  );
+  if (Array.isArray(parameters.paths)) {
+    paths.push(
+      ...parameters.paths.filter((value): value is string => typeof value === 'string'),
+    );
+  }
+  if (typeof parameters.patch === 'string') {
+    try {
+      for (const { oldPath, newPath } of parsePatch(parameters.patch)) {
+        if (oldPath !== null) paths.push(oldPath);
+        if (newPath !== null) paths.push(newPath);
+      }
+    } catch {
+      // 解析できないパッチは実行時にエラーになる
+    }
+  }
+  return paths;
+}
+
+/**
+ * シンボリックリンクを解決した実際のパスを取得
+ * 存在しないパスは存在する最も近い親ディレクトリを解決して残りを連結する
+ */
+export async function resolveRealPath(path: string): Promise<string> {
+  try {
+    return await Deno.realPath(path);
+  } catch (error) {
+    const parent = dirname(path);
+    if (!(error instanceof Deno.errors.NotFound) || parent === path) {
+      return path;
+    }
+    return join(await resolveRealPath(parent), basename(path));
+  }
+}
+
+/**
+ * ワークスペースの範囲を判定するクラス
+ * プロジェクトのルートと追加で許可したディレクトリの外にあるパスを検出する
+ */
+export class WorkspacePolicy {
+  private settings: Partial<WorkspaceSettings>;
+  private baseDirectory: string;
+  private directories: Promise<string[]> | null = null;
+
+  constructor(settings: Partial<WorkspaceSettings> | undefined, baseDirectory = Deno.cwd()) {
+    this.settings = settings ?? {};
+    this.baseDirectory = baseDirectory;
+  }
+
+  /**
+   * ワークスペース外へのアクセスの扱い
+   */
+  get outsideAccess(): 'deny' | 'approval' {
+    return this.settings.outsideAccess ?? 'approval';
+  }
+
+  /**
+   * ワークスペースとして扱うディレクトリ（シンボリックリンク解決済み）
+   */
+  getDirectories(): Promise<string[]> {
+    if (!this.directories) {
+      const roots = this.settings.roots?.length ? this.settings.roots : [this.baseDirectory];
+      const directories = [...roots, ...(this.settings.allowedDirectories ?? [])];
+      this.directories = Promise.all(
+        directories.map((directory) =>
+          resolveRealPath(resolveToolPath(directory, this.baseDirectory))
+        ),
+      );
+    }
+    return this.directories;
+  }
+
+  /**
+   * ワークスペースの外にあるパスを取得
+   * @param paths 作業ディレクトリからの相対パスまたは絶対パス
+   * @returns 外にあるパス（指定された表記のまま）
+   */
+  async findOutsidePaths(paths: string[], workingDirectory = Deno.cwd()): Promise<string[]> {
+    const directories = await this.getDirectories();
+    const outside: string[] = [];
+    for (const path of paths) {
+      const realPath = await resolveRealPath(resolveToolPath(path, workingDirectory));
+      if (!directories.some((directory) => isWithin(realPath, directory))) {
+        outside.push(path);
+      }
+    }
+    return outside;
+  }
+}
+
+/**
+ * パスがディレクトリ自身またはその配下かを判定
+ */
+function isWithin(path: string, directory: string): boolean {
+  const compare = Deno.build.os === 'windows'
+    ? (value: string) => value.toLowerCase()
+    : (value: string) => value;
+  const relativePath = relative(compare(directory), compare(path));
+  return relativePath === '' ||
+    (!isAbsolute(relativePath) && relativePath.split(/[\\/]/)[0] !== '..');
+}
@@ -0,0 +1,90 @@
+import { assertEquals } from '@std/assert';
+import { exists } from '@std/fs';
+import { join } from '@std/path';
+import { WriteToFileTool } from '../tools/file_tools.ts';
+import { getToolPaths, WorkspacePolicy } from './workspace_policy.ts';
+
+Deno.test('WorkspacePolicy: ルート外・シンボリックリンク経由のパスを検出する', async () => {
+  const base = await Deno.realPath(await Deno.makeTempDir());
+  try {
+    const project = join(base, 'project');
+    const extra = join(base, 'extra');
+    const other = join(base, 'other');
+    for (const dir of [project, extra, other]) {
+      await Deno.mkdir(dir);
+    }
+    await Deno.symlink(other, join(project, 'link'));
+
+    const policy = new WorkspacePolicy({ roots: [project], allowedDirectories: [extra] });
+    const outside = await policy.findOutsidePaths(
+      [
+        'src/new/file.ts',
+        '.',
+        '../extra/notes.md',
+        '../other/a.txt',
+        'link/a.txt',
+        '../project-backup/a.txt',
+        '/',
+      ],
+      project,
+    );
+
+    assertEquals(outside, ['../other/a.txt', 'link/a.txt', '../project-backup/a.txt', '/']);
+  } finally {
+    await Deno.remove(base, { recursive: true });
+  }
+});
+
+Deno.test('WorkspacePolicy: ルート未指定時は基準ディレクトリをルートにする', async () => {
+  const base = await Deno.realPath(await Deno.makeTempDir());
+  try {
+    const policy = new WorkspacePolicy(undefined, base);
+    assertEquals(await policy.findOutsidePaths(['a.txt', join(base, 'b.txt'), '..'], base), ['..']);
+    assertEquals(policy.outsideAccess, 'approval');
+  } finally {
+    await Deno.remove(base, { recursive: true });
+  }
+});
+
+Deno.test('WorkspacePolicy: ~ から始まるパスはツールが書き込むのと同じパスで判定する', async () => {
+  const base = await Deno.realPath(await Deno.makeTempDir());
+  const home = Deno.env.get('HOME');
+  try {
+    const project = join(base, 'project');
+    await Deno.mkdir(project);
+    Deno.env.set('HOME', join(base, 'home'));
+
+    const policy = new WorkspacePolicy({ roots: [project] });
+    assertEquals(await policy.findOutsidePaths(['~/x.txt'], project), ['~/x.txt']);
+
+    const result = await new WriteToFileTool().execute({ path: '~/x.txt', content: 'x' }, {
+      workingDirectory: project,
+      environment: {},
+      sessionId: 'test',
+      timestamp: new Date(),
+    });
+    assertEquals(result.success, true);
+    assertEquals(await Deno.readTextFile(join(base, 'home', 'x.txt')), 'x');
+    assertEquals(await exists(join(project, '~')), false);
+  } finally {
+    if (home === undefined) {
+      Deno.env.delete('HOME');
+    } else {
+      Deno.env.set('HOME', home);
+    }
+    await Deno.remove(base, { recursive: true });
+  }
+});
+
+Deno.test('getToolPaths: パス・ディレクトリ・パッチの対象を取得する', () => {
+  assertEquals(
+    getToolPaths({
+      source: 'a.txt',
+      destination: 'b.txt',
+      workingDirectory: 'sub',
+      paths: ['c.txt', 1],
+      patch: '--- a/d.txt\n+++ b/d.txt\n@@ -1 +1 @@\n-x\n+y\n',
+    }),
+    ['a.txt', 'b.txt', 'sub', 'c.txt', 'd.txt', 'd.txt'],
+  );
+});
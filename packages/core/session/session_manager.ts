@@ -1,10 +1,13 @@
 import { ConfigManager } from '../config/manager.ts';
 import { HistoryRecorder } from '../history/history_recorder.ts';
-import { OpenAIClient } from '../llm/openai_client.ts';
+import type { LLMClient } from '../llm/llm_client.ts';
+import { createLLMClient } from '../llm/client_factory.ts';
 import { buildSystemPrompt } from '../llm/system_prompt.ts';
 import type { IProgressManager } from '../../interfaces/progress.ts';
 import { NoOpProgressManager } from '../../interfaces/progress.ts';
 import type { AgentConfig } from '../../interfaces/agent.ts';
+import type { ProcessRegistry } from '../tools/process_registry.ts';
+import type { ModelConfig } from '../config/types.ts';
 
 /**
  * セッション管理クラス
@@ -14,17 +17,20 @@ export class SessionManager {
   private configManager: ConfigManager;
   private historyRecorder: HistoryRecorder;
   private progressManager: IProgressManager;
+  private processRegistry?: ProcessRegistry;
   private currentSessionId?: string;
-  private openaiClient?: OpenAIClient;
+  private llmClient?: LLMClient;
 
   constructor(
     configManager: ConfigManager,
     historyRecorder: HistoryRecorder,
     progressManager?: IProgressManager,
+    processRegistry?: ProcessRegistry,
   ) {
     this.configManager = configManager;
     this.historyRecorder = historyRecorder;
     this.progressManager = progressManager || new NoOpProgressManager();
+    this.processRegistry = processRegistry;
   }
 
   /**
@@ -33,12 +39,87 @@ export class SessionManager {
   async startChat(
     model?: string,
     apiKey?: string,
-  ): Promise<{ sessionId: string; openaiClient: OpenAIClient }> {
-    // 設定を読み込み
+  ): Promise<{ sessionId: string; llmClient: LLMClient }> {
     const appSettings = await this.configManager.getAppSettings();
-    const modelSettings = await this.configManager.getModelSettings();
-
     const selectedModel = model || appSettings.defaultModel;
+    const modelConfig = await this.setupLLMClient(selectedModel, apiKey);
+
+    // システムプロンプトを構築
+    const systemPrompt = await buildSystemPrompt(
+      modelConfig.customInstructions,
+      modelConfig.toolCallMode,
+    );
+
+    // セッションを開始
+    this.currentSessionId = await this.historyRecorder.startSession(selectedModel, systemPrompt);
+
+    console.log('\n🤖 Minoc LLMエージェントとの対話を開始します');
+    await this.printSessionInfo(selectedModel);
+
+    return {
+      sessionId: this.currentSessionId,
+      llmClient: this.llmClient!,
+    };
+  }
+
+  /**
+   * 保存済みのセッションを再開
+   * @param model 省略時はセッションで使用していたモデル
+   * @param refreshSystemPrompt システムプロンプト（ディレクトリ構造など）を現在の状態で作り直すか
+   */
+  async resumeChat(
+    sessionId: string,
+    model?: string,
+    apiKey?: string,
+    refreshSystemPrompt = false,
+  ): Promise<{ sessionId: string; llmClient: LLMClient }> {
+    const saved = await this.historyRecorder.getSession(sessionId);
+    if (!saved) {
+      throw new Error(`セッション ${sessionId} が見つかりません`);
+    }
+
+    const selectedModel = model || saved.model;
+    const modelConfig = await this.setupLLMClient(selectedModel, apiKey);
+
+    const systemPrompt = refreshSystemPrompt
+      ? await buildSystemPrompt(modelConfig.customInstructions, modelConfig.toolCallMode)
+      : undefined;
+    const session = await this.historyRecorder.resumeSession(sessionId, systemPrompt);
+    this.currentSessionId = session.sessionId;
+
+    const turns = session.messages.filter((message) => message.role === 'user').length;
+    console.log(`\n🔄 セッション ${sessionId} を再開します（ユーザーの発言 ${turns} 件）`);
+    const workingDirectory = session.metadata.workingDirectory;
+    if (workingDirectory && workingDirectory !== Deno.cwd()) {
+      console.log(`⚠️  このセッションは別のディレクトリで開始されました: ${workingDirectory}`);
+    }
+    if (refreshSystemPrompt) {
+      console.log('🔃 システムプロンプトを現在のディレクトリ構造で更新しました');
+    }
+    await this.printSessionInfo(selectedModel);
+
+    return {
+      sessionId: this.currentSessionId,
+      llmClient: this.llmClient!,
+    };
+  }
+
+  /**
+   * 現在の作業ディレクトリで最後に使用したセッションのIDを取得
+   */
+  async findLatestSessionId(): Promise<string | null> {
+    const session = await this.historyRecorder.findLatestSession(Deno.cwd());
+    return session?.sessionId ?? null;
+  }
+
+  /**
+   * モデル設定を読み込んでLLMクライアントを初期化
+   */
+  private async setupLLMClient(
+    selectedModel: string,
+    apiKey?: string,
+  ): Promise<ModelConfig> {
+    const modelSettings = await this.configManager.getModelSettings();
     const modelConfig = modelSettings[selectedModel];
 
     if (!modelConfig) {
@@ -58,36 +139,38 @@ export class SessionManager {
       apiKey: apiKey || modelConfig.apiKey!,
     };
 
-    // OpenAIクライアントを初期化
-    this.openaiClient = new OpenAIClient(agentConfig);
-
-    // システムプロンプトを構築
-    const systemPrompt = await buildSystemPrompt(modelConfig.customInstructions);
-
-    // セッションを開始
-    this.currentSessionId = await this.historyRecorder.startSession(selectedModel, systemPrompt);
+    // プロバイダーに応じたLLMクライアントを初期化
+    this.llmClient = createLLMClient(agentConfig);
+    return modelConfig;
+  }
 
-    console.log('\n🤖 Minoc LLMエージェントとの対話を開始します');
-    console.log(`📋 モデル: ${selectedModel}`);
+  /**
+   * 対話開始時の案内を表示
+   */
+  private async printSessionInfo(model: string): Promise<void> {
+    console.log(`📋 モデル: ${model}`);
+    for (const file of await this.configManager.getProjectConfigFiles()) {
+      console.log(`📁 プロジェクト設定: ${file.path}`);
+    }
     console.log('💬 メッセージを入力してください（終了: /quit, ヘルプ: /help）');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
-
-    return {
-      sessionId: this.currentSessionId,
-      openaiClient: this.openaiClient,
-    };
   }
 
   /**
    * セッションを終了
+   * セッション中に起動したバックグラウンドプロセスもすべて停止する
    */
   async endSession(): Promise<void> {
     if (this.currentSessionId) {
+      const stopped = await this.processRegistry?.stopSession(this.currentSessionId);
+      if (stopped) {
+        console.log(`🛑 バックグラウンドプロセスを${stopped}個停止しました`);
+      }
       await this.historyRecorder.endSession(this.currentSessionId, {
         duration: Date.now(),
       });
       this.currentSessionId = undefined;
-      this.openaiClient = undefined;
+      this.llmClient = undefined;
     }
   }
 
@@ -99,10 +182,10 @@ export class SessionManager {
   }
 
   /**
-   * 現在のOpenAIクライアントを取得
+   * 現在のLLMクライアントを取得
    */
-  getCurrentOpenAIClient(): OpenAIClient | undefined {
-    return this.openaiClient;
+  getCurrentLLMClient(): LLMClient | undefined {
+    return this.llmClient;
   }
 
   /**
@@ -1,9 +1,13 @@
 import type {
+  AffectedPath,
+  FileChangePreview,
   Tool,
   ToolExecutionContext,
+  ToolParameterDefinition,
   ToolParameters,
   ToolResult,
 } from '../../interfaces/tool.ts';
+import { resolveToolPath } from './path_utils.ts';
 
 /**
  * 基本ツール抽象クラス
@@ -13,6 +17,7 @@ export abstract class BaseTool implements Tool {
   abstract readonly description: string;
   abstract readonly requiredParameters: string[];
   readonly optionalParameters: string[] = [];
+  readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {};
   readonly dangerous: boolean = false;
   readonly requiresApproval: boolean = false;
 
@@ -37,6 +42,26 @@ export abstract class BaseTool implements Tool {
     return true;
   }
 
+  /**
+   * 実行によって変更される可能性のあるパス（ファイルを変更するツールでオーバーライド）
+   */
+  getAffectedPaths(
+    _parameters: ToolParameters,
+    _context?: ToolExecutionContext,
+  ): AffectedPath[] {
+    return [];
+  }
+
+  /**
+   * 実行した場合のファイルの変更内容（ファイルを変更するツールでオーバーライド）
+   */
+  previewChanges(
+    _parameters: ToolParameters,
+    _context?: ToolExecutionContext,
+  ): Promise<FileChangePreview[]> {
+    return Promise.resolve([]);
+  }
+
   /**
    * 成功結果を返すヘルパーメソッド
    */
@@ -73,6 +98,13 @@ export abstract class BaseTool implements Tool {
     return value as T;
   }
 
+  /**
+   * 作業ディレクトリを基準にパスを解決（絶対パスはそのまま、~ はホームディレクトリ）
+   */
+  protected resolvePath(path: string, context?: ToolExecutionContext): string {
+    return resolveToolPath(path, context?.workingDirectory || Deno.cwd());
+  }
+
   /**
    * パラメータを安全に取得するヘルパーメソッド（オプション）
    */
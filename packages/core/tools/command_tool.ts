@@ -1,5 +1,13 @@
 import { BaseTool } from './base_tool.ts';
-import type { ToolExecutionContext, ToolParameters, ToolResult } from '../../interfaces/tool.ts';
+import { buildCommandInvocation, ShellSyntaxError } from './shell_utils.ts';
+import { HeadTailBuffer } from './output_buffer.ts';
+import { kill, STOP_GRACE_PERIOD, waitFor } from './process_registry.ts';
+import type {
+  ToolExecutionContext,
+  ToolParameterDefinition,
+  ToolParameters,
+  ToolResult,
+} from '../../interfaces/tool.ts';
 
 /**
  * コマンド実行ツール
@@ -9,6 +17,12 @@ export class ExecuteCommandTool extends BaseTool {
   override readonly description = 'シェルコマンドを実行します';
   override readonly requiredParameters = ['command'];
   override readonly optionalParameters = ['workingDirectory', 'timeout', 'requiresApproval'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    command: { type: 'string', description: '実行するコマンド' },
+    workingDirectory: { type: 'string', description: '作業ディレクトリ' },
+    timeout: { type: 'integer', description: 'タイムアウト時間（ミリ秒、デフォルト: 30000）' },
+    requiresApproval: { type: 'boolean', description: '明示的に承認を要求するかどうか' },
+  };
   override readonly dangerous = true;
   override readonly requiresApproval = true;
 
@@ -23,42 +37,66 @@ export class ExecuteCommandTool extends BaseTool {
         'workingDirectory',
         context?.workingDirectory || Deno.cwd(),
       );
-      const timeout = this.getOptionalParameter<number>(parameters, 'timeout', 30000); // 30秒
+      const timeout = this.getOptionalParameter<number>(parameters, 'timeout', 30000) || 30000; // 30秒
 
-      // コマンドを分割
-      const args = this.parseCommand(command);
-      if (args.length === 0) {
+      if (command.trim().length === 0) {
         return this.error('コマンドが空です');
       }
 
+      let program: string;
+      let args: string[];
+      try {
+        ({ program, args } = buildCommandInvocation(command, context?.shell));
+      } catch (error) {
+        if (error instanceof ShellSyntaxError) {
+          return this.error(error.message);
+        }
+        throw error;
+      }
+
       const startTime = Date.now();
 
       // プロセスを実行
-      const cmd = new Deno.Command(args[0], {
-        args: args.slice(1),
+      const cmd = new Deno.Command(program, {
+        args,
         cwd: workingDirectory,
         stdout: 'piped',
         stderr: 'piped',
+        // 環境変数はポリシー適用済みのものだけを渡す
         env: context?.environment,
+        clearEnv: context?.environment !== undefined,
       });
 
-      let process: Deno.ChildProcess;
-      let output: Deno.CommandOutput;
+      // 出力は先頭と末尾だけを保持し、実行中の出力は逐次コールバックに渡す
+      const stdout = new HeadTailBuffer(context?.outputLimits);
+      const stderr = new HeadTailBuffer(context?.outputLimits);
+      let status: Deno.CommandStatus;
+      let timedOut = false;
 
       try {
-        process = cmd.spawn();
-
-        // タイムアウト制御
-        const timeoutId = setTimeout(() => {
-          try {
-            process.kill('SIGTERM');
-          } catch {
-            // プロセスが既に終了している場合は無視
+        const process = cmd.spawn();
+        const reading = new AbortController();
+        const exited = process.status.then(() => {});
+        const output = Promise.all([
+          this.collectOutput(process.stdout, stdout, 'stdout', reading.signal, context),
+          this.collectOutput(process.stderr, stderr, 'stderr', reading.signal, context),
+        ]).then(() => {});
+
+        // タイムアウト制御（停止要求に応じない場合は強制終了する）
+        if (!await waitFor(Promise.all([exited, output]).then(() => {}), timeout)) {
+          timedOut = true;
+          kill(process, 'SIGTERM');
+          if (!await waitFor(exited, STOP_GRACE_PERIOD)) {
+            kill(process, 'SIGKILL');
           }
-        }, timeout);
+          // 子孫プロセスが出力を開いたままの場合は読み取りの完了を待ち続けない
+          if (!await waitFor(output, STOP_GRACE_PERIOD)) {
+            reading.abort();
+          }
+        }
 
-        output = await process.output();
-        clearTimeout(timeoutId);
+        status = await process.status;
+        await output;
       } catch (error) {
         return this.error(
           `コマンド実行エラー: ${error instanceof Error ? error.message : String(error)}`,
@@ -66,26 +104,39 @@ export class ExecuteCommandTool extends BaseTool {
       }
 
       const duration = Date.now() - startTime;
-      const stdout = new TextDecoder().decode(output.stdout);
-      const stderr = new TextDecoder().decode(output.stderr);
 
       const result = {
         command,
-        exitCode: output.code,
-        stdout,
-        stderr,
+        exitCode: status.code,
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
         duration,
         workingDirectory,
+        shell: context?.shell?.path,
+        ...(timedOut ? { timedOut } : {}),
+        ...(stdout.truncated || stderr.truncated
+          ? {
+            truncated: {
+              stdoutOmittedLines: stdout.omittedLines,
+              stderrOmittedLines: stderr.omittedLines,
+              stdoutBytes: stdout.totalBytes,
+              stderrBytes: stderr.totalBytes,
+            },
+          }
+          : {}),
       };
 
-      if (output.success) {
+      if (timedOut) {
+        return this.error(`コマンドがタイムアウトしました (${timeout}ms)`, result);
+      }
+      if (status.success) {
         return this.success(
           result,
-          `コマンドが正常に実行されました (終了コード: ${output.code}, 実行時間: ${duration}ms)`,
+          `コマンドが正常に実行されました (終了コード: ${status.code}, 実行時間: ${duration}ms)`,
         );
       } else {
         return this.error(
-          `コマンドが失敗しました (終了コード: ${output.code})`,
+          `コマンドが失敗しました (終了コード: ${status.code})`,
           result,
         );
       }
@@ -97,43 +148,25 @@ export class ExecuteCommandTool extends BaseTool {
   }
 
   /**
-   * コマンド文字列を引数配列に分割
+   * 出力ストリームを読み取り、バッファへの蓄積と逐次表示を行う
+   * signalが中断された場合はそこまでの出力で読み取りを終える
    */
-  private parseCommand(command: string): string[] {
-    const args: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    let quoteChar = '';
-
-    for (let i = 0; i < command.length; i++) {
-      const char = command[i];
-
-      if (inQuotes) {
-        if (char === quoteChar) {
-          inQuotes = false;
-          quoteChar = '';
-        } else {
-          current += char;
-        }
-      } else {
-        if (char === '"' || char === "'") {
-          inQuotes = true;
-          quoteChar = char;
-        } else if (char === ' ') {
-          if (current.length > 0) {
-            args.push(current);
-            current = '';
-          }
-        } else {
-          current += char;
-        }
+  private async collectOutput(
+    stream: ReadableStream<Uint8Array>,
+    buffer: HeadTailBuffer,
+    name: 'stdout' | 'stderr',
+    signal: AbortSignal,
+    context?: ToolExecutionContext,
+  ): Promise<void> {
+    try {
+      for await (const chunk of stream.pipeThrough(new TextDecoderStream(), { signal })) {
+        buffer.append(chunk);
+        context?.onOutput?.(chunk, name);
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        throw error;
       }
     }
-
-    if (current.length > 0) {
-      args.push(current);
-    }
-
-    return args;
   }
 }
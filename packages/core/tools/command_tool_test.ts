@@ -0,0 +1,49 @@
+import { assert, assertEquals } from '@std/assert';
+import { ExecuteCommandTool } from './command_tool.ts';
+import type { ToolExecutionContext } from '../../interfaces/tool.ts';
+
+const context: ToolExecutionContext = {
+  workingDirectory: Deno.cwd(),
+  environment: Deno.env.toObject(),
+  sessionId: 'test',
+  timestamp: new Date(),
+  shell: { path: 'sh', args: ['-c'] },
+};
+
+Deno.test({
+  name: 'ExecuteCommandTool: 出力を返し、実行中の出力を逐次コールバックに渡す',
+  ignore: Deno.build.os === 'windows',
+  async fn() {
+    const chunks: string[] = [];
+    const result = await new ExecuteCommandTool().execute(
+      { command: 'echo out; echo err >&2' },
+      { ...context, onOutput: (chunk, stream) => chunks.push(`${stream}:${chunk}`) },
+    );
+
+    assert(result.success);
+    const data = result.data as { stdout: string; stderr: string; timedOut?: boolean };
+    assertEquals(data.stdout, 'out\n');
+    assertEquals(data.stderr, 'err\n');
+    assertEquals(data.timedOut, undefined);
+    assertEquals(chunks.sort(), ['stderr:err\n', 'stdout:out\n']);
+  },
+});
+
+Deno.test({
+  name: 'ExecuteCommandTool: 子孫プロセスが出力を開いたままでもタイムアウト後に結果を返す',
+  ignore: Deno.build.os === 'windows',
+  async fn() {
+    const startTime = Date.now();
+    const result = await new ExecuteCommandTool().execute(
+      { command: 'echo started; sleep 30 & sleep 30', timeout: 200 },
+      context,
+    );
+
+    assert(!result.success);
+    assert(result.error?.includes('タイムアウト'));
+    const data = result.data as { stdout: string; timedOut?: boolean };
+    assertEquals(data.timedOut, true);
+    assertEquals(data.stdout, 'started\n');
+    assert(Date.now() - startTime < 10000);
+  },
+});
@@ -0,0 +1,184 @@
+/**
+ * 行単位の差分操作
+ */
+export interface DiffLine {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * テキストを行に分割（末尾の改行は行の区切りとして扱う）
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * 2つの行配列の差分を計算
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  // 共通の先頭・末尾を除いてから比較する
+  let prefix = 0;
+  while (
+    prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middle = diffMiddle(
+    oldLines.slice(prefix, oldLines.length - suffix),
+    newLines.slice(prefix, newLines.length - suffix),
+  );
+  const equal = (text: string): DiffLine => ({ type: 'equal', text });
+  return [
+    ...oldLines.slice(0, prefix).map(equal),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffix).map(equal),
+  ];
+}
+
+/**
+ * Myersの差分アルゴリズム
+ */
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  const trace: number[][] = [];
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break outer;
+      }
+    }
+  }
+
+  // 経路を逆にたどって差分を組み立てる
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]))
+      ? k + 1
+      : k - 1;
+    const prevX = previous[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: 'equal', text: oldLines[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        result.push({ type: 'insert', text: newLines[--y] });
+      } else {
+        result.push({ type: 'delete', text: oldLines[--x] });
+      }
+    }
+  }
+
+  return result.reverse();
+}
+
+/**
+ * unified diff 形式の差分を生成
+ * @param contextLines 変更箇所の前後に表示する行数
+ * @returns 差分がない場合は空文字列
+ */
+export function createUnifiedDiff(
+  oldPath: string,
+  newPath: string,
+  oldText: string,
+  newText: string,
+  contextLines = 3,
+): string {
+  const diff = diffLines(splitLines(oldText), splitLines(newText));
+  if (diff.every((line) => line.type === 'equal')) {
+    return '';
+  }
+
+  const output = [`--- ${oldPath}`, `+++ ${newPath}`];
+
+  // 変更行の位置から、前後の文脈を含むハンクの範囲をまとめる
+  const ranges: Array<[number, number]> = [];
+  diff.forEach((line, index) => {
+    if (line.type === 'equal') {
+      return;
+    }
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(diff.length, index + contextLines + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  let oldLine = 1;
+  let newLine = 1;
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    for (; cursor < start; cursor++) {
+      if (diff[cursor].type !== 'insert') oldLine++;
+      if (diff[cursor].type !== 'delete') newLine++;
+    }
+
+    const hunk = diff.slice(start, end);
+    const oldCount = hunk.filter((line) => line.type !== 'insert').length;
+    const newCount = hunk.filter((line) => line.type !== 'delete').length;
+    output.push(
+      `@@ -${formatRange(oldLine, oldCount)} +${formatRange(newLine, newCount)} @@`,
+    );
+    for (const line of hunk) {
+      const prefix = line.type === 'equal' ? ' ' : line.type === 'insert' ? '+' : '-';
+      output.push(prefix + line.text);
+    }
+
+    for (; cursor < end; cursor++) {
+      if (diff[cursor].type !== 'insert') oldLine++;
+      if (diff[cursor].type !== 'delete') newLine++;
+    }
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * ハンクヘッダーの範囲表記（空の範囲は直前の行番号を使う）
+ */
+function formatRange(start: number, count: number): string {
+  if (count === 0) {
+    return `${start - 1},0`;
+  }
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
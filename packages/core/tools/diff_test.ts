@@ -0,0 +1,50 @@
+import { assertEquals } from '@std/assert';
+import { createUnifiedDiff, diffLines } from './diff.ts';
+
+Deno.test('diffLines: 変更のない行は equal として残す', () => {
+  assertEquals(diffLines(['a', 'b', 'c'], ['a', 'x', 'c']), [
+    { type: 'equal', text: 'a' },
+    { type: 'delete', text: 'b' },
+    { type: 'insert', text: 'x' },
+    { type: 'equal', text: 'c' },
+  ]);
+});
+
+Deno.test('createUnifiedDiff: 変更箇所の前後3行を含むハンクを生成する', () => {
+  const oldText = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n') + '\n';
+  const newText = oldText.replace('5\n', 'five\n');
+
+  assertEquals(
+    createUnifiedDiff('a/file.txt', 'b/file.txt', oldText, newText),
+    [
+      '--- a/file.txt',
+      '+++ b/file.txt',
+      '@@ -2,7 +2,7 @@',
+      ' 2',
+      ' 3',
+      ' 4',
+      '-5',
+      '+five',
+      ' 6',
+      ' 7',
+      ' 8',
+      '',
+    ].join('\n'),
+  );
+});
+
+Deno.test('createUnifiedDiff: 離れた変更は別のハンクに分ける', () => {
+  const lines = Array.from({ length: 20 }, (_, i) => `line${i + 1}`);
+  const changed = [...lines];
+  changed[0] = 'first';
+  changed.push('added');
+
+  const diff = createUnifiedDiff('a', 'b', lines.join('\n'), changed.join('\n'));
+  const headers = diff.split('\n').filter((line) => line.startsWith('@@'));
+  assertEquals(headers, ['@@ -1,4 +1,4 @@', '@@ -18,3 +18,4 @@']);
+});
+
+Deno.test('createUnifiedDiff: 新規作成と差分なしを扱う', () => {
+  assertEquals(createUnifiedDiff('a', 'b', '', 'x\n'), '--- a\n+++ b\n@@ -0,0 +1 @@\n+x\n');
+  assertEquals(createUnifiedDiff('a', 'b', 'same\n', 'same\n'), '');
+});
@@ -0,0 +1,140 @@
+import { BaseTool } from './base_tool.ts';
+import { EnvironmentPolicy, isValidEnvName, SessionEnvironment } from './environment.ts';
+import { ConfigManager } from '../config/manager.ts';
+import type {
+  ToolExecutionContext,
+  ToolParameterDefinition,
+  ToolParameters,
+  ToolResult,
+} from '../../interfaces/tool.ts';
+
+/**
+ * 環境変数ツールの共通処理
+ */
+abstract class EnvTool extends BaseTool {
+  protected sessionEnvironment: SessionEnvironment;
+  protected configManager: ConfigManager;
+
+  constructor(sessionEnvironment: SessionEnvironment, configManager: ConfigManager) {
+    super();
+    this.sessionEnvironment = sessionEnvironment;
+    this.configManager = configManager;
+  }
+
+  /**
+   * 設定から環境変数のポリシーを読み込む
+   */
+  protected async loadPolicy(): Promise<EnvironmentPolicy> {
+    const appSettings = await this.configManager.getAppSettings();
+    return new EnvironmentPolicy(appSettings.environment);
+  }
+}
+
+/**
+ * 環境変数取得ツール
+ * コマンドに渡される（ポリシー適用後の）環境変数を参照する
+ */
+export class GetEnvTool extends EnvTool {
+  override readonly name = 'get_env';
+  override readonly description =
+    'コマンドに渡される環境変数の値を取得します。名前を省略すると変数名の一覧を返します';
+  override readonly requiredParameters = [];
+  override readonly optionalParameters = ['name'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    name: { type: 'string', description: '取得する環境変数名' },
+  };
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const name = this.getOptionalParameter<string>(parameters, 'name');
+      const environment = context?.environment ?? {};
+      const sessionVariables = context?.sessionId
+        ? this.sessionEnvironment.get(context.sessionId)
+        : {};
+
+      if (name === undefined || name === '') {
+        const names = Object.keys(environment).sort();
+        return this.success(
+          { names, sessionVariables },
+          `コマンドに渡される環境変数: ${names.length} 件`,
+        );
+      }
+
+      if (Object.hasOwn(environment, name)) {
+        return this.success(
+          { name, value: environment[name], setInSession: Object.hasOwn(sessionVariables, name) },
+          `${name}=${environment[name]}`,
+        );
+      }
+
+      const policy = await this.loadPolicy();
+      const reason = policy.isDenied(name)
+        ? 'ポリシーにより拒否されているため、コマンドには渡されません'
+        : sessionVariables[name] === null
+        ? 'このセッションで削除されています'
+        : Deno.env.get(name) !== undefined
+        ? 'ポリシーの許可リストに含まれていないため、コマンドには渡されません'
+        : '設定されていません';
+      return this.success({ name, value: null }, `環境変数 ${name} は${reason}`);
+    } catch (error) {
+      return this.error(
+        `環境変数取得エラー: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+/**
+ * 環境変数設定ツール
+ * このセッションで以降に実行するコマンドに渡す変数を設定・削除する
+ */
+export class SetEnvTool extends EnvTool {
+  override readonly name = 'set_env';
+  override readonly description =
+    'このセッションで以降に実行するコマンドに渡す環境変数を設定します。値を省略すると変数を削除します';
+  override readonly requiredParameters = ['name'];
+  override readonly optionalParameters = ['value'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    name: { type: 'string', description: '環境変数名' },
+    value: { type: 'string', description: '設定する値（省略すると削除）' },
+  };
+  override readonly requiresApproval = true;
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const name = this.getParameter<string>(parameters, 'name');
+      const value = this.getOptionalParameter<string>(parameters, 'value');
+
+      if (!context?.sessionId) {
+        return this.error('環境変数の設定にはセッションが必要です');
+      }
+      if (!isValidEnvName(name)) {
+        return this.error(`無効な環境変数名です: ${name}`);
+      }
+
+      const policy = await this.loadPolicy();
+      if (policy.isDenied(name)) {
+        return this.error(`環境変数 ${name} はポリシーにより拒否されているため設定できません`);
+      }
+      if (policy.isOverridden(name)) {
+        return this.error(`環境変数 ${name} は設定ファイルで値が固定されているため変更できません`);
+      }
+
+      this.sessionEnvironment.set(context.sessionId, name, value ?? null);
+      return this.success(
+        { name, value: value ?? null },
+        value === undefined ? `環境変数 ${name} を削除しました` : `環境変数 ${name} を設定しました`,
+      );
+    } catch (error) {
+      return this.error(
+        `環境変数設定エラー: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import type { EnvironmentSettings } from '../config/types.ts';
+
+/**
+ * 環境変数名として有効な形式
+ */
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * 環境変数名として有効かを判定
+ */
+export function isValidEnvName(name: string): boolean {
+  return ENV_NAME_PATTERN.test(name);
+}
+
+/**
+ * 変数名のglobパターン（* と ? のみ）を正規表現に変換
+ * Windowsの環境変数名は大文字・小文字を区別しない
+ */
+function envPatternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, Deno.build.os === 'windows' ? 'i' : '');
+}
+
+/**
+ * コマンドに渡す環境変数のポリシー
+ * 親プロセスの環境変数のうち引き継ぐものを選び、セッション変数と設定の上書きを適用する
+ */
+export class EnvironmentPolicy {
+  private inherit: 'all' | 'allowlist';
+  private allow: RegExp[];
+  private deny: RegExp[];
+  private overrides: Record<string, string>;
+
+  constructor(settings?: Partial<EnvironmentSettings>) {
+    this.inherit = settings?.inherit ?? 'all';
+    this.allow = (settings?.allow ?? []).map(envPatternToRegExp);
+    this.deny = (settings?.deny ?? []).map(envPatternToRegExp);
+    this.overrides = settings?.overrides ?? {};
+  }
+
+  /**
+   * 拒否パターンに一致する変数かを判定
+   */
+  isDenied(name: string): boolean {
+    return this.deny.some((pattern) => pattern.test(name));
+  }
+
+  /**
+   * 設定で値が固定されている変数かを判定
+   */
+  isOverridden(name: string): boolean {
+    return Object.hasOwn(this.overrides, name);
+  }
+
+  /**
+   * 親プロセスから引き継ぐ変数かを判定
+   */
+  isInherited(name: string): boolean {
+    if (this.isDenied(name)) {
+      return false;
+    }
+    return this.inherit === 'all' || this.allow.some((pattern) => pattern.test(name));
+  }
+
+  /**
+   * コマンドに渡す環境変数を構築
+   * @param base 親プロセスの環境変数
+   * @param sessionVariables セッションで設定した変数（null は削除）
+   */
+  build(
+    base: Record<string, string>,
+    sessionVariables: Record<string, string | null> = {},
+  ): Record<string, string> {
+    const environment: Record<string, string> = {};
+    for (const [name, value] of Object.entries(base)) {
+      if (this.isInherited(name)) {
+        environment[name] = value;
+      }
+    }
+
+    for (const [name, value] of Object.entries(sessionVariables)) {
+      if (value === null) {
+        delete environment[name];
+      } else if (!this.isDenied(name)) {
+        environment[name] = value;
+      }
+    }
+
+    return { ...environment, ...this.overrides };
+  }
+}
+
+/**
+ * セッションごとに設定された環境変数の管理クラス
+ */
+export class SessionEnvironment {
+  private sessions = new Map<string, Record<string, string | null>>();
+
+  /**
+   * セッションで設定した変数を取得（null は削除した変数）
+   */
+  get(sessionId: string): Record<string, string | null> {
+    return { ...this.sessions.get(sessionId) };
+  }
+
+  /**
+   * セッションの変数を設定
+   * @param value null の場合は引き継いだ変数も含めて削除する
+   */
+  set(sessionId: string, name: string, value: string | null): void {
+    const variables = this.sessions.get(sessionId) ?? {};
+    variables[name] = value;
+    this.sessions.set(sessionId, variables);
+  }
+}
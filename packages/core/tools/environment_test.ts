@@ -0,0 +1,73 @@
+import { assertEquals } from '@std/assert';
+import { EnvironmentPolicy, isValidEnvName, SessionEnvironment } from './environment.ts';
+
+const base = {
+  PATH: '/usr/bin',
+  HOME: '/home/user',
+  LC_ALL: 'ja_JP.UTF-8',
+  OPENAI_API_KEY: 'sk-xxx',
+  GITHUB_TOKEN: 'ghp_xxx',
+  EDITOR: 'vim',
+};
+
+Deno.test('EnvironmentPolicy: すべて引き継ぐ場合も拒否パターンに一致する変数は除外する', () => {
+  const policy = new EnvironmentPolicy({
+    inherit: 'all',
+    deny: ['*_API_KEY', '*_TOKEN'],
+  });
+
+  assertEquals(policy.build(base), {
+    PATH: '/usr/bin',
+    HOME: '/home/user',
+    LC_ALL: 'ja_JP.UTF-8',
+    EDITOR: 'vim',
+  });
+});
+
+Deno.test('EnvironmentPolicy: 許可リストに一致する変数だけを引き継ぎ、拒否を優先する', () => {
+  const policy = new EnvironmentPolicy({
+    inherit: 'allowlist',
+    allow: ['PATH', 'LC_*', 'GITHUB_*'],
+    deny: ['*_TOKEN'],
+  });
+
+  assertEquals(policy.build(base), { PATH: '/usr/bin', LC_ALL: 'ja_JP.UTF-8' });
+  assertEquals(policy.isInherited('LC_CTYPE'), true);
+  assertEquals(policy.isInherited('GITHUB_TOKEN'), false);
+});
+
+Deno.test('EnvironmentPolicy: セッション変数を反映し、設定の上書きを最優先する', () => {
+  const policy = new EnvironmentPolicy({
+    inherit: 'all',
+    deny: ['*_TOKEN', '*_API_KEY'],
+    overrides: { EDITOR: 'true', CI: '1' },
+  });
+
+  const environment = policy.build(base, {
+    NODE_ENV: 'test',
+    HOME: null,
+    EDITOR: 'nano',
+    NPM_TOKEN: 'npm_xxx',
+  });
+
+  assertEquals(environment, {
+    PATH: '/usr/bin',
+    LC_ALL: 'ja_JP.UTF-8',
+    EDITOR: 'true',
+    NODE_ENV: 'test',
+    CI: '1',
+  });
+  assertEquals(policy.isOverridden('CI'), true);
+});
+
+Deno.test('SessionEnvironment: セッションごとに変数を保持する', () => {
+  const sessions = new SessionEnvironment();
+  sessions.set('s1', 'NODE_ENV', 'test');
+  sessions.set('s1', 'HOME', null);
+
+  assertEquals(sessions.get('s1'), { NODE_ENV: 'test', HOME: null });
+  assertEquals(sessions.get('s2'), {});
+  assertEquals(isValidEnvName('NODE_ENV'), true);
+  assertEquals(isValidEnvName('1ABC'), false);
+  assertEquals(isValidEnvName('A=B'), false);
+});
@@ -0,0 +1,274 @@
+import { dirname } from '@std/path';
+import { copy, ensureDir, exists, move } from '@std/fs';
+import { BaseTool } from './base_tool.ts';
+import type {
+  AffectedPath,
+  ToolExecutionContext,
+  ToolParameterDefinition,
+  ToolParameters,
+  ToolResult,
+} from '../../interfaces/tool.ts';
+
+/**
+ * パスの種類を表す表示名
+ */
+function describeType(info: Deno.FileInfo): string {
+  if (info.isSymlink) return 'シンボリックリンク';
+  if (info.isDirectory) return 'ディレクトリ';
+  return 'ファイル';
+}
+
+/**
+ * ファイル・ディレクトリ削除ツール
+ */
+export class DeletePathTool extends BaseTool {
+  override readonly name = 'delete_path';
+  override readonly description = 'ファイルまたはディレクトリを削除します';
+  override readonly requiredParameters = ['path'];
+  override readonly optionalParameters = ['recursive'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    path: { type: 'string', description: '削除するファイルまたはディレクトリのパス' },
+    recursive: {
+      type: 'boolean',
+      description: '空でないディレクトリを中身ごと削除するかどうか（デフォルト: false）',
+    },
+  };
+  override readonly dangerous = true;
+  override readonly requiresApproval = true;
+
+  override getAffectedPaths(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): AffectedPath[] {
+    return [{
+      path: this.resolvePath(String(parameters.path), context),
+      recursive: parameters.recursive === true,
+    }];
+  }
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const path = this.getParameter<string>(parameters, 'path');
+      // 権限チェックは recursive === true の場合のみ承認を必須にするため、真偽値以外は受け付けない
+      if (parameters.recursive !== undefined && typeof parameters.recursive !== 'boolean') {
+        return this.error('recursive には true または false を指定してください');
+      }
+      const recursive = parameters.recursive === true;
+      const fullPath = this.resolvePath(path, context);
+
+      let info: Deno.FileInfo;
+      try {
+        info = await Deno.lstat(fullPath);
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+          return this.error(`パスが見つかりません: ${path}`);
+        }
+        throw error;
+      }
+
+      if (info.isDirectory && !recursive) {
+        for await (const _ of Deno.readDir(fullPath)) {
+          return this.error(
+            `ディレクトリが空ではありません: ${path}（中身ごと削除する場合は recursive に true を指定してください）`,
+          );
+        }
+      }
+
+      await Deno.remove(fullPath, { recursive: info.isDirectory && recursive });
+
+      const type = describeType(info);
+      return this.success({ path, type }, `${type}を削除しました: ${path}`);
+    } catch (error) {
+      return this.error(
+        `削除エラー: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+/**
+ * ファイル・ディレクトリ移動（名前変更）ツール
+ */
+export class MovePathTool extends BaseTool {
+  override readonly name = 'move_path';
+  override readonly description = 'ファイルまたはディレクトリを移動・名前変更します';
+  override readonly requiredParameters = ['source', 'destination'];
+  override readonly optionalParameters = ['overwrite'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    source: { type: 'string', description: '移動元のパス' },
+    destination: { type: 'string', description: '移動先のパス' },
+    overwrite: {
+      type: 'boolean',
+      description: '移動先が存在する場合に上書きするかどうか（デフォルト: false）',
+    },
+  };
+  override readonly dangerous = true;
+  override readonly requiresApproval = true;
+
+  override getAffectedPaths(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): AffectedPath[] {
+    const source = this.resolvePath(String(parameters.source), context);
+    return [
+      { path: source, recursive: true },
+      {
+        path: this.resolvePath(String(parameters.destination), context),
+        recursive: parameters.overwrite === true,
+        source,
+      },
+    ];
+  }
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const source = this.getParameter<string>(parameters, 'source');
+      const destination = this.getParameter<string>(parameters, 'destination');
+      const overwrite = this.getOptionalParameter<boolean>(parameters, 'overwrite', false) ??
+        false;
+      const sourcePath = this.resolvePath(source, context);
+      const destinationPath = this.resolvePath(destination, context);
+
+      if (!await exists(sourcePath)) {
+        return this.error(`移動元が見つかりません: ${source}`);
+      }
+      if (!overwrite && await exists(destinationPath)) {
+        return this.error(`移動先が既に存在します: ${destination}`);
+      }
+
+      await ensureDir(dirname(destinationPath));
+      await move(sourcePath, destinationPath, { overwrite });
+
+      return this.success(
+        { source, destination },
+        `移動しました: ${source} → ${destination}`,
+      );
+    } catch (error) {
+      return this.error(
+        `移動エラー: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+/**
+ * ファイル・ディレクトリコピーツール
+ */
+export class CopyPathTool extends BaseTool {
+  override readonly name = 'copy_path';
+  override readonly description = 'ファイルまたはディレクトリをコピーします';
+  override readonly requiredParameters = ['source', 'destination'];
+  override readonly optionalParameters = ['overwrite'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    source: { type: 'string', description: 'コピー元のパス' },
+    destination: { type: 'string', description: 'コピー先のパス' },
+    overwrite: {
+      type: 'boolean',
+      description: 'コピー先が存在する場合に上書きするかどうか（デフォルト: false）',
+    },
+  };
+  override readonly dangerous = true;
+  override readonly requiresApproval = true;
+
+  override getAffectedPaths(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): AffectedPath[] {
+    return [{
+      path: this.resolvePath(String(parameters.destination), context),
+      recursive: parameters.overwrite === true,
+      source: this.resolvePath(String(parameters.source), context),
+    }];
+  }
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const source = this.getParameter<string>(parameters, 'source');
+      const destination = this.getParameter<string>(parameters, 'destination');
+      const overwrite = this.getOptionalParameter<boolean>(parameters, 'overwrite', false) ??
+        false;
+      const sourcePath = this.resolvePath(source, context);
+      const destinationPath = this.resolvePath(destination, context);
+
+      if (!await exists(sourcePath)) {
+        return this.error(`コピー元が見つかりません: ${source}`);
+      }
+      if (!overwrite && await exists(destinationPath)) {
+        return this.error(`コピー先が既に存在します: ${destination}`);
+      }
+
+      await ensureDir(dirname(destinationPath));
+      await copy(sourcePath, destinationPath, { overwrite });
+
+      return this.success(
+        { source, destination },
+        `コピーしました: ${source} → ${destination}`,
+      );
+    } catch (error) {
+      return this.error(
+        `コピーエラー: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+/**
+ * ファイル・ディレクトリ情報取得ツール
+ */
+export class StatPathTool extends BaseTool {
+  override readonly name = 'stat_path';
+  override readonly description = 'ファイルまたはディレクトリの種類・サイズ・更新日時を取得します';
+  override readonly requiredParameters = ['path'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    path: { type: 'string', description: '対象のパス' },
+  };
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const path = this.getParameter<string>(parameters, 'path');
+      const fullPath = this.resolvePath(path, context);
+
+      let info: Deno.FileInfo;
+      try {
+        info = await Deno.lstat(fullPath);
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+          return this.success({ path, exists: false }, `パスは存在しません: ${path}`);
+        }
+        throw error;
+      }
+
+      const type = describeType(info);
+      const data: Record<string, unknown> = {
+        path,
+        exists: true,
+        type,
+        size: info.size,
+        modified: info.mtime?.toISOString(),
+        created: info.birthtime?.toISOString(),
+        mode: info.mode !== null ? (info.mode & 0o777).toString(8) : undefined,
+      };
+      if (info.isSymlink) {
+        data.target = await Deno.readLink(fullPath);
+      }
+
+      return this.success(data, `${type}: ${path} (${info.size} bytes)`);
+    } catch (error) {
+      return this.error(
+        `情報取得エラー: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
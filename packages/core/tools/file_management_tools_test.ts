@@ -0,0 +1,97 @@
+import { assertEquals } from '@std/assert';
+import { exists } from '@std/fs';
+import { join } from '@std/path';
+import {
+  CopyPathTool,
+  DeletePathTool,
+  MovePathTool,
+  StatPathTool,
+} from './file_management_tools.ts';
+
+/**
+ * 一時ディレクトリを作業ディレクトリとして実行する
+ */
+async function withWorkspace(
+  fn: (directory: string, context: {
+    workingDirectory: string;
+    environment: Record<string, string>;
+    sessionId: string;
+    timestamp: Date;
+  }) => Promise<void>,
+): Promise<void> {
+  const directory = await Deno.makeTempDir();
+  try {
+    await fn(directory, {
+      workingDirectory: directory,
+      environment: {},
+      sessionId: 'test',
+      timestamp: new Date(),
+    });
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+}
+
+Deno.test('DeletePathTool: 空でないディレクトリは recursive が true の場合のみ削除する', async () => {
+  await withWorkspace(async (directory, context) => {
+    await Deno.mkdir(join(directory, 'dir'));
+    await Deno.writeTextFile(join(directory, 'dir', 'a.txt'), 'a');
+    const tool = new DeletePathTool();
+
+    assertEquals((await tool.execute({ path: 'dir' }, context)).success, false);
+    for (const recursive of ['true', 'false', 1]) {
+      assertEquals((await tool.execute({ path: 'dir', recursive }, context)).success, false);
+    }
+    assertEquals(await exists(join(directory, 'dir', 'a.txt')), true);
+
+    assertEquals((await tool.execute({ path: 'dir', recursive: true }, context)).success, true);
+    assertEquals(await exists(join(directory, 'dir')), false);
+    assertEquals((await tool.execute({ path: 'dir' }, context)).success, false);
+  });
+});
+
+Deno.test('MovePathTool / CopyPathTool: 既存の移動先・コピー先は overwrite を指定した場合のみ上書きする', async () => {
+  await withWorkspace(async (directory, context) => {
+    await Deno.writeTextFile(join(directory, 'a.txt'), 'a');
+    await Deno.writeTextFile(join(directory, 'b.txt'), 'b');
+
+    const copy = new CopyPathTool();
+    assertEquals(
+      (await copy.execute({ source: 'a.txt', destination: 'b.txt' }, context)).success,
+      false,
+    );
+    assertEquals(
+      (await copy.execute({ source: 'a.txt', destination: 'nested/c.txt' }, context)).success,
+      true,
+    );
+    assertEquals(await Deno.readTextFile(join(directory, 'nested', 'c.txt')), 'a');
+
+    const move = new MovePathTool();
+    assertEquals(
+      (await move.execute({ source: 'a.txt', destination: 'b.txt' }, context)).success,
+      false,
+    );
+    assertEquals(
+      (await move.execute({ source: 'a.txt', destination: 'b.txt', overwrite: true }, context))
+        .success,
+      true,
+    );
+    assertEquals(await exists(join(directory, 'a.txt')), false);
+    assertEquals(await Deno.readTextFile(join(directory, 'b.txt')), 'a');
+  });
+});
+
+Deno.test('StatPathTool: 種類とサイズを返し、存在しないパスは exists: false とする', async () => {
+  await withWorkspace(async (directory, context) => {
+    await Deno.writeTextFile(join(directory, 'a.txt'), 'abc');
+    const tool = new StatPathTool();
+
+    const file = await tool.execute({ path: 'a.txt' }, context);
+    assertEquals((file.data as { type: string; size: number }).type, 'ファイル');
+    assertEquals((file.data as { type: string; size: number }).size, 3);
+    assertEquals((await tool.execute({ path: 'missing' }, context)).data, {
+      path: 'missing',
+      exists: false,
+    });
+  });
+});
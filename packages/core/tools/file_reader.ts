@@ -0,0 +1,221 @@
+/**
+ * 1ファイルあたりの既定の読み込み上限
+ */
+export const DEFAULT_MAX_LINES = 2000;
+export const DEFAULT_MAX_BYTES = 100 * 1024;
+
+/**
+ * 複数ファイル読み込み時の合計の上限（バイト）
+ */
+export const DEFAULT_TOTAL_MAX_BYTES = 200 * 1024;
+
+/**
+ * バイナリ判定に使用する先頭のバイト数
+ */
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * 読み込み範囲と上限
+ */
+export interface FileReadOptions {
+  /** 読み込み開始行（1始まり） */
+  startLine?: number;
+  /** 読み込み終了行（この行を含む） */
+  endLine?: number;
+  maxLines?: number;
+  maxBytes?: number;
+}
+
+/**
+ * テキストファイルの読み込み結果
+ */
+export interface TextFileContent {
+  binary: false;
+  /** 行番号付きの内容 */
+  content: string;
+  size: number;
+  totalLines: number;
+  startLine: number;
+  /** 実際に読み込んだ最後の行 */
+  endLine: number;
+  truncated: boolean;
+  /** 上限により省略された行数 */
+  remainingLines: number;
+  /** 出力したバイト数 */
+  bytes: number;
+}
+
+/**
+ * バイナリファイルの情報
+ */
+export interface BinaryFileContent {
+  binary: true;
+  type: string;
+  size: number;
+}
+
+export type FileContent = TextFileContent | BinaryFileContent;
+
+/**
+ * ファイルの読み込み範囲の指定エラー
+ */
+export class FileRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileRangeError';
+  }
+}
+
+const MAGIC_NUMBERS: Array<{ bytes: number[]; type: string }> = [
+  { bytes: [0x89, 0x50, 0x4e, 0x47], type: 'PNG画像' },
+  { bytes: [0xff, 0xd8, 0xff], type: 'JPEG画像' },
+  { bytes: [0x47, 0x49, 0x46, 0x38], type: 'GIF画像' },
+  { bytes: [0x25, 0x50, 0x44, 0x46], type: 'PDF文書' },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], type: 'ZIPアーカイブ' },
+  { bytes: [0x1f, 0x8b], type: 'gzipアーカイブ' },
+  { bytes: [0x7f, 0x45, 0x4c, 0x46], type: 'ELF実行ファイル' },
+  { bytes: [0x4d, 0x5a], type: 'Windows実行ファイル' },
+  { bytes: [0x00, 0x61, 0x73, 0x6d], type: 'WebAssemblyモジュール' },
+];
+
+/**
+ * バイト列がバイナリデータかどうかを判定し、種類を返す
+ * @returns テキストの場合はnull
+ */
+export function detectBinaryType(bytes: Uint8Array): string | null {
+  for (const { bytes: magic, type } of MAGIC_NUMBERS) {
+    if (magic.every((byte, index) => bytes[index] === byte)) {
+      return type;
+    }
+  }
+
+  const sample = bytes.subarray(0, BINARY_SNIFF_BYTES);
+  if (sample.includes(0)) {
+    return 'バイナリデータ';
+  }
+  try {
+    // 末尾で途切れたマルチバイト文字は許容する
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+  } catch {
+    return 'バイナリデータ';
+  }
+  return null;
+}
+
+/**
+ * ファイルを読み込み、範囲と上限を適用して行番号付きで返す
+ */
+export async function readFileContent(
+  fullPath: string,
+  options: FileReadOptions = {},
+): Promise<FileContent> {
+  const bytes = await Deno.readFile(fullPath);
+  const binaryType = detectBinaryType(bytes);
+  if (binaryType) {
+    return { binary: true, type: binaryType, size: bytes.length };
+  }
+
+  const text = new TextDecoder().decode(bytes);
+  return { ...formatLines(text, options), size: bytes.length };
+}
+
+/**
+ * テキストに範囲と上限を適用して行番号を付ける
+ */
+export function formatLines(
+  text: string,
+  options: FileReadOptions = {},
+): Omit<TextFileContent, 'size'> {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  const totalLines = lines.length;
+
+  const startLine = options.startLine ?? 1;
+  const endLine = Math.min(options.endLine ?? totalLines, totalLines);
+  const maxLines = options.maxLines ?? DEFAULT_MAX_LINES;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+
+  if (!Number.isInteger(startLine) || startLine < 1) {
+    throw new FileRangeError('startLine には1以上の整数を指定してください');
+  }
+  if (
+    options.endLine !== undefined &&
+    (!Number.isInteger(options.endLine) || options.endLine < startLine)
+  ) {
+    throw new FileRangeError('endLine には startLine 以上の整数を指定してください');
+  }
+  if (totalLines > 0 && startLine > totalLines) {
+    throw new FileRangeError(
+      `startLine (${startLine}) がファイルの行数 (${totalLines}) を超えています`,
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const width = String(endLine).length;
+  const output: string[] = [];
+  let bytes = 0;
+  let lineNumber = startLine;
+  let lineTruncated = false;
+
+  for (; lineNumber <= endLine; lineNumber++) {
+    if (output.length >= maxLines) {
+      break;
+    }
+    const line = `${String(lineNumber).padStart(width)}\t${
+      lines[lineNumber - 1].replace(/\r$/, '')
+    }`;
+    const lineBytes = encoder.encode(line).length + 1;
+    if (bytes + lineBytes > maxBytes) {
+      if (output.length === 0) {
+        // 1行が上限を超える場合（圧縮されたファイルなど）はその行を切り詰める
+        const remaining = maxBytes - bytes;
+        output.push(truncateToBytes(line, remaining) + ' ...[行の途中で省略]');
+        bytes = maxBytes;
+        lineNumber++;
+        lineTruncated = true;
+      }
+      break;
+    }
+    output.push(line);
+    bytes += lineBytes;
+  }
+
+  const lastLine = lineNumber - 1;
+  const remainingLines = endLine - lastLine;
+  if (remainingLines > 0) {
+    output.push(
+      `...[省略: 残り ${remainingLines} 行。続きは startLine=${lastLine + 1} で読み込めます]`,
+    );
+  }
+
+  return {
+    binary: false,
+    content: output.join('\n'),
+    totalLines,
+    startLine,
+    endLine: lastLine,
+    truncated: remainingLines > 0 || lineTruncated,
+    remainingLines,
+    bytes,
+  };
+}
+
+/**
+ * 文字列をUTF-8のバイト数で切り詰める
+ */
+export function truncateToBytes(text: string, maxBytes: number): string {
+  const encoder = new TextEncoder();
+  let result = '';
+  let bytes = 0;
+  for (const char of text) {
+    const size = encoder.encode(char).length;
+    if (bytes + size > maxBytes) {
+      break;
+    }
+    result += char;
+    bytes += size;
+  }
+  return result;
+}
@@ -0,0 +1,54 @@
+import { assert, assertEquals, assertStringIncludes, assertThrows } from '@std/assert';
+import { detectBinaryType, FileRangeError, formatLines, readFileContent } from './file_reader.ts';
+
+const TEXT = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+Deno.test('formatLines: 指定した範囲を行番号付きで返す', () => {
+  const result = formatLines(TEXT, { startLine: 9, endLine: 10 });
+
+  assertEquals(result.content, ' 9\tline 9\n10\tline 10');
+  assertEquals(result.totalLines, 12);
+  assertEquals(result.endLine, 10);
+  assertEquals(result.truncated, false);
+});
+
+Deno.test('formatLines: 行数の上限を超える場合は残りの行数を示して省略する', () => {
+  const result = formatLines(TEXT, { maxLines: 5 });
+
+  assertEquals(result.endLine, 5);
+  assertEquals(result.remainingLines, 7);
+  assert(result.truncated);
+  assertStringIncludes(result.content, '残り 7 行');
+  assertStringIncludes(result.content, 'startLine=6');
+});
+
+Deno.test('formatLines: バイト数の上限を超える長い行は行の途中で切り詰める', () => {
+  const result = formatLines('x'.repeat(1000) + '\nnext\n', { maxBytes: 100 });
+
+  assertEquals(result.endLine, 1);
+  assertEquals(result.remainingLines, 1);
+  assertStringIncludes(result.content, '行の途中で省略');
+  assert(result.content.length < 200);
+});
+
+Deno.test('formatLines: 不正な範囲はエラーにする', () => {
+  assertThrows(() => formatLines(TEXT, { startLine: 0 }), FileRangeError);
+  assertThrows(() => formatLines(TEXT, { startLine: 5, endLine: 4 }), FileRangeError);
+  assertThrows(() => formatLines(TEXT, { startLine: 13 }), FileRangeError);
+});
+
+Deno.test('detectBinaryType: マジックナンバーとNULバイトでバイナリを判定する', () => {
+  assertEquals(detectBinaryType(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d])), 'PNG画像');
+  assertEquals(detectBinaryType(new Uint8Array([0x41, 0x00, 0x42])), 'バイナリデータ');
+  assertEquals(detectBinaryType(new TextEncoder().encode('日本語のテキスト')), null);
+});
+
+Deno.test('readFileContent: バイナリファイルは内容の代わりに種類とサイズを返す', async () => {
+  const path = await Deno.makeTempFile();
+  try {
+    await Deno.writeFile(path, new Uint8Array([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01]));
+    assertEquals(await readFileContent(path), { binary: true, type: 'ELF実行ファイル', size: 6 });
+  } finally {
+    await Deno.remove(path);
+  }
+});
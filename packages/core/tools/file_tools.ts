@@ -1,15 +1,42 @@
 import { dirname, join } from '@std/path';
-import { ensureDir, exists } from '@std/fs';
+import { ensureDir, exists, existsSync } from '@std/fs';
 import { BaseTool } from './base_tool.ts';
-import type { ToolExecutionContext, ToolParameters, ToolResult } from '../../interfaces/tool.ts';
+import { createUnifiedDiff } from './diff.ts';
+import {
+  DEFAULT_MAX_BYTES,
+  DEFAULT_TOTAL_MAX_BYTES,
+  FileRangeError,
+  readFileContent,
+} from './file_reader.ts';
+import {
+  applyHunks,
+  type FilePatch,
+  type HunkFailure,
+  parsePatch,
+  PatchParseError,
+} from './patch.ts';
+import type {
+  AffectedPath,
+  FileChangePreview,
+  ToolExecutionContext,
+  ToolParameterDefinition,
+  ToolParameters,
+  ToolResult,
+} from '../../interfaces/tool.ts';
 
 /**
  * ファイル読み込みツール
  */
 export class ReadFileTool extends BaseTool {
   override readonly name = 'read_file';
-  override readonly description = 'ファイルの内容を読み込みます';
+  override readonly description = 'ファイルの内容を行番号付きで読み込みます';
   override readonly requiredParameters = ['path'];
+  override readonly optionalParameters = ['startLine', 'endLine'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    path: { type: 'string', description: '読み込むファイルのパス' },
+    startLine: { type: 'integer', description: '読み込み開始行（1始まり、デフォルト: 1）' },
+    endLine: { type: 'integer', description: '読み込み終了行（この行を含む、デフォルト: 最終行）' },
+  };
 
   override async execute(
     parameters: ToolParameters,
@@ -17,7 +44,9 @@ export class ReadFileTool extends BaseTool {
   ): Promise<ToolResult> {
     try {
       const path = this.getParameter<string>(parameters, 'path');
-      const fullPath = context?.workingDirectory ? join(context.workingDirectory, path) : path;
+      const startLine = this.getOptionalParameter<number>(parameters, 'startLine');
+      const endLine = this.getOptionalParameter<number>(parameters, 'endLine');
+      const fullPath = this.resolvePath(path, context);
 
       if (!await exists(fullPath)) {
         return this.error(`ファイルが見つかりません: ${path}`);
@@ -28,12 +57,33 @@ export class ReadFileTool extends BaseTool {
         return this.error(`指定されたパスはファイルではありません: ${path}`);
       }
 
-      const content = await Deno.readTextFile(fullPath);
+      const file = await readFileContent(fullPath, { startLine, endLine });
+      if (file.binary) {
+        return this.success(
+          { path, binary: true, type: file.type, size: file.size },
+          `ファイル '${path}' はバイナリファイルのため内容を表示しません (${file.type}, ${file.size} bytes)`,
+        );
+      }
+
+      const { content, totalLines, truncated, remainingLines } = file;
       return this.success(
-        { path, content, size: stat.size },
-        `ファイル '${path}' を読み込みました (${stat.size} bytes)`,
+        {
+          path,
+          content,
+          size: file.size,
+          totalLines,
+          startLine: file.startLine,
+          endLine: file.endLine,
+          truncated,
+          remainingLines,
+        },
+        `ファイル '${path}' を読み込みました (${file.startLine}-${file.endLine} / ${totalLines} 行, ` +
+          `${file.size} bytes${truncated ? `, 残り ${remainingLines} 行を省略` : ''})`,
       );
     } catch (error) {
+      if (error instanceof FileRangeError) {
+        return this.error(error.message);
+      }
       return this.error(
         `ファイル読み込みエラー: ${error instanceof Error ? error.message : String(error)}`,
       );
@@ -49,9 +99,37 @@ export class WriteToFileTool extends BaseTool {
   override readonly description = 'ファイルに内容を書き込みます';
   override readonly requiredParameters = ['path', 'content'];
   override readonly optionalParameters = ['overwrite'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    path: { type: 'string', description: '書き込み先ファイルのパス' },
+    content: { type: 'string', description: '書き込む内容' },
+    overwrite: { type: 'boolean', description: '上書きを許可するかどうか（デフォルト: true）' },
+  };
   override readonly dangerous = true;
   override readonly requiresApproval = true;
 
+  override getAffectedPaths(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): AffectedPath[] {
+    return [{ path: this.resolvePath(String(parameters.path), context) }];
+  }
+
+  override async previewChanges(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<FileChangePreview[]> {
+    const path = String(parameters.path);
+    const fullPath = this.resolvePath(path, context);
+    const before = await exists(fullPath, { isFile: true })
+      ? await Deno.readTextFile(fullPath)
+      : null;
+    return [{ path, before, after: String(parameters.content) }];
+  }
+
+  withEditedContent(parameters: ToolParameters, content: string): Promise<ToolParameters> {
+    return Promise.resolve({ ...parameters, content });
+  }
+
   override async execute(
     parameters: ToolParameters,
     context?: ToolExecutionContext,
@@ -61,7 +139,7 @@ export class WriteToFileTool extends BaseTool {
       const content = this.getParameter<string>(parameters, 'content');
       const overwrite = this.getOptionalParameter<boolean>(parameters, 'overwrite', true);
 
-      const fullPath = context?.workingDirectory ? join(context.workingDirectory, path) : path;
+      const fullPath = this.resolvePath(path, context);
 
       // ファイルが既に存在し、上書きが許可されていない場合
       if (!overwrite && await exists(fullPath)) {
@@ -87,6 +165,395 @@ export class WriteToFileTool extends BaseTool {
   }
 }
 
+/**
+ * ファイル編集ツール
+ * 置換前のテキストブロックを置換後のテキストに置き換える
+ */
+export class EditFileTool extends BaseTool {
+  override readonly name = 'edit_file';
+  override readonly description =
+    'ファイル内のテキストブロックを置換して編集します（置換前のテキストは一意に一致する必要があります）';
+  override readonly requiredParameters = ['path', 'edits'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    path: { type: 'string', description: '編集するファイルのパス' },
+    edits: {
+      type: 'array',
+      description: '置換内容のリスト（すべての置換がまとめて適用されます）',
+      items: {
+        type: 'object',
+        properties: {
+          oldText: { type: 'string', description: '置換前のテキスト（ファイル内で1箇所のみ一致）' },
+          newText: { type: 'string', description: '置換後のテキスト' },
+        },
+        required: ['oldText', 'newText'],
+      },
+    },
+  };
+  override readonly dangerous = true;
+  override readonly requiresApproval = true;
+
+  override getAffectedPaths(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): AffectedPath[] {
+    return [{ path: this.resolvePath(String(parameters.path), context) }];
+  }
+
+  override async previewChanges(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<FileChangePreview[]> {
+    const path = String(parameters.path);
+    const fullPath = this.resolvePath(path, context);
+    if (!Array.isArray(parameters.edits) || !await exists(fullPath, { isFile: true })) {
+      return [];
+    }
+    const original = await Deno.readTextFile(fullPath);
+    const edited = this.applyEdits(original, parameters.edits);
+    // 適用できない置換は実行時にエラーになる
+    return typeof edited === 'string' ? [] : [{ path, before: original, after: edited.updated }];
+  }
+
+  /**
+   * 編集後の内容でファイル全体を置き換える置換に変換
+   */
+  async withEditedContent(
+    parameters: ToolParameters,
+    content: string,
+    context?: ToolExecutionContext,
+  ): Promise<ToolParameters> {
+    const original = await Deno.readTextFile(
+      this.resolvePath(String(parameters.path), context),
+    );
+    return { ...parameters, edits: [{ oldText: original, newText: content }] };
+  }
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const path = this.getParameter<string>(parameters, 'path');
+      const edits = this.getParameter<Array<{ oldText?: unknown; newText?: unknown }>>(
+        parameters,
+        'edits',
+      );
+      if (!Array.isArray(edits) || edits.length === 0) {
+        return this.error('置換内容が指定されていません');
+      }
+
+      const fullPath = this.resolvePath(path, context);
+      if (!await exists(fullPath)) {
+        return this.error(`ファイルが見つかりません: ${path}`);
+      }
+
+      const original = await Deno.readTextFile(fullPath);
+      const edited = this.applyEdits(original, edits);
+      if (typeof edited === 'string') {
+        return this.error(edited);
+      }
+      const { updated, replacements } = edited;
+
+      await Deno.writeTextFile(fullPath, updated);
+
+      const diff = createUnifiedDiff(path, path, original, updated);
+      return this.success(
+        { path, replacements, diff },
+        `ファイル '${path}' を編集しました (${replacements} 箇所)\n${diff}`,
+      );
+    } catch (error) {
+      return this.error(
+        `ファイル編集エラー: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * 置換内容をまとめて適用
+   * @returns 適用できない場合はエラーメッセージ
+   */
+  private applyEdits(
+    original: string,
+    edits: Array<{ oldText?: unknown; newText?: unknown }>,
+  ): { updated: string; replacements: number } | string {
+    // CRLFのファイルでは置換テキストの改行をファイルに合わせる
+    const newline = original.includes('\r\n') ? '\r\n' : '\n';
+
+    const replacements: Array<{ start: number; end: number; text: string }> = [];
+    for (const [index, edit] of edits.entries()) {
+      const label = `${index + 1} 番目の置換`;
+      if (typeof edit?.oldText !== 'string' || typeof edit?.newText !== 'string') {
+        return `${label}: oldText と newText を文字列で指定してください`;
+      }
+      if (edit.oldText === '') {
+        return `${label}: oldText が空です`;
+      }
+
+      let oldText = edit.oldText;
+      let newText = edit.newText;
+      if (newline === '\r\n' && !original.includes(oldText)) {
+        oldText = oldText.replace(/\r?\n/g, '\r\n');
+        newText = newText.replace(/\r?\n/g, '\r\n');
+      }
+
+      const start = original.indexOf(oldText);
+      if (start === -1) {
+        return `${label}: 置換前のテキストがファイル内に見つかりません`;
+      }
+      const matches = this.countOccurrences(original, oldText);
+      if (matches > 1) {
+        return `${label}: 置換前のテキストが ${matches} 箇所に一致します。前後の行を含めて一意に特定してください`;
+      }
+      replacements.push({ start, end: start + oldText.length, text: newText });
+    }
+
+    // 置換範囲が重なっていないことを確認してから、まとめて適用する
+    replacements.sort((a, b) => a.start - b.start);
+    for (let i = 1; i < replacements.length; i++) {
+      if (replacements[i].start < replacements[i - 1].end) {
+        return '置換範囲が重複しています。重なる置換は1つにまとめてください';
+      }
+    }
+
+    let updated = '';
+    let cursor = 0;
+    for (const replacement of replacements) {
+      updated += original.slice(cursor, replacement.start) + replacement.text;
+      cursor = replacement.end;
+    }
+    updated += original.slice(cursor);
+
+    return { updated, replacements: replacements.length };
+  }
+
+  /**
+   * 文字列の出現回数を数える（重なりを含む）
+   */
+  private countOccurrences(text: string, search: string): number {
+    let count = 0;
+    let position = text.indexOf(search);
+    while (position !== -1) {
+      count++;
+      position = text.indexOf(search, position + 1);
+    }
+    return count;
+  }
+}
+
+/**
+ * パッチ適用後のファイルの内容（content が null の場合は削除）
+ */
+interface PlannedChange {
+  path: string;
+  content: string | null;
+  action: string;
+}
+
+/**
+ * パッチ適用ツール
+ * unified diff 形式の複数ファイルのパッチを、すべて適用できる場合のみ適用する
+ */
+export class ApplyPatchTool extends BaseTool {
+  override readonly name = 'apply_patch';
+  override readonly description =
+    'unified diff 形式のパッチを適用します（ファイルの作成・削除・名前変更を含む）';
+  override readonly requiredParameters = ['patch'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    patch: { type: 'string', description: 'unified diff 形式のパッチ（複数ファイル可）' },
+  };
+  override readonly dangerous = true;
+  override readonly requiresApproval = true;
+
+  override getAffectedPaths(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): AffectedPath[] {
+    try {
+      return parsePatch(String(parameters.patch)).flatMap(({ oldPath, newPath }) =>
+        [oldPath, newPath]
+          .filter((path): path is string => path !== null)
+          .map((path) => ({ path: this.resolvePath(path, context) }))
+      );
+    } catch {
+      // 解析できないパッチは実行時にエラーになる
+      return [];
+    }
+  }
+
+  override async previewChanges(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<FileChangePreview[]> {
+    let filePatches: FilePatch[];
+    try {
+      filePatches = parsePatch(String(parameters.patch));
+    } catch {
+      return [];
+    }
+
+    const { changes, failures } = await this.planChanges(filePatches, context);
+    if (failures.length > 0) {
+      return [];
+    }
+    return await Promise.all(changes.map(async ({ path, content }) => {
+      const fullPath = this.resolvePath(path, context);
+      const before = await exists(fullPath, { isFile: true })
+        ? await Deno.readTextFile(fullPath)
+        : null;
+      return { path, before, after: content };
+    }));
+  }
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const patchText = this.getParameter<string>(parameters, 'patch');
+
+      let filePatches: FilePatch[];
+      try {
+        filePatches = parsePatch(patchText);
+      } catch (error) {
+        if (error instanceof PatchParseError) {
+          return this.error(`パッチの解析に失敗しました: ${error.message}`);
+        }
+        throw error;
+      }
+
+      const resolvePath = (path: string) => this.resolvePath(path, context);
+
+      // すべての変更を検証してから書き込む
+      const { changes, failures } = await this.planChanges(filePatches, context);
+
+      if (failures.length > 0) {
+        return this.error(
+          `パッチを適用できませんでした（ファイルは変更されていません）\n\n${
+            failures.join('\n\n')
+          }`,
+        );
+      }
+
+      // 書き込み中に失敗した場合は、それまでの変更を元に戻す
+      const backups: Array<{ fullPath: string; content: string | null }> = [];
+      try {
+        for (const change of changes) {
+          const fullPath = resolvePath(change.path);
+          const previous = await exists(fullPath) ? await Deno.readTextFile(fullPath) : null;
+          backups.push({ fullPath, content: previous });
+          if (change.content === null) {
+            await Deno.remove(fullPath);
+          } else {
+            await ensureDir(dirname(fullPath));
+            await Deno.writeTextFile(fullPath, change.content);
+          }
+        }
+      } catch (error) {
+        for (const backup of backups.reverse()) {
+          try {
+            if (backup.content === null) {
+              await Deno.remove(backup.fullPath);
+            } else {
+              await Deno.writeTextFile(backup.fullPath, backup.content);
+            }
+          } catch {
+            // 復元できなかったファイルは無視する
+          }
+        }
+        throw error;
+      }
+
+      return this.success(
+        { files: changes.map(({ path, action }) => ({ path, action })) },
+        `パッチを適用しました (${changes.length} 件)\n` +
+          changes.map(({ path, action }) => `- ${path}: ${action}`).join('\n'),
+      );
+    } catch (error) {
+      return this.error(
+        `パッチ適用エラー: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * パッチを適用した後の各ファイルの内容を計算（content が null の場合は削除）
+   */
+  private async planChanges(
+    filePatches: FilePatch[],
+    context?: ToolExecutionContext,
+  ): Promise<{ changes: PlannedChange[]; failures: string[] }> {
+    const resolvePath = (path: string) => this.resolvePath(path, context);
+    const changes: PlannedChange[] = [];
+    const failures: string[] = [];
+
+    for (const filePatch of filePatches) {
+      const { oldPath, newPath } = filePatch;
+
+      if (oldPath === null) {
+        if (newPath === null) {
+          failures.push('変更対象のファイルパスが指定されていません');
+          continue;
+        }
+        if (await exists(resolvePath(newPath))) {
+          failures.push(`${newPath}: 作成しようとしたファイルが既に存在します`);
+          continue;
+        }
+        const created = applyHunks('', filePatch.hunks);
+        if (created.success) {
+          changes.push({ path: newPath, content: created.content, action: '作成' });
+        } else {
+          failures.push(...this.formatFailures(newPath, created.failures));
+        }
+        continue;
+      }
+
+      const sourcePath = resolvePath(oldPath);
+      if (!await exists(sourcePath)) {
+        failures.push(`${oldPath}: ファイルが見つかりません`);
+        continue;
+      }
+      const original = await Deno.readTextFile(sourcePath);
+      const applied = applyHunks(original, filePatch.hunks);
+      if (!applied.success) {
+        failures.push(...this.formatFailures(oldPath, applied.failures));
+        continue;
+      }
+
+      if (newPath === null) {
+        if (applied.content !== '') {
+          failures.push(`${oldPath}: 削除パッチの内容が実際のファイル内容と一致しません`);
+          continue;
+        }
+        changes.push({ path: oldPath, content: null, action: '削除' });
+      } else if (newPath !== oldPath) {
+        if (await exists(resolvePath(newPath))) {
+          failures.push(`${newPath}: 名前変更先のファイルが既に存在します`);
+          continue;
+        }
+        changes.push({
+          path: newPath,
+          content: applied.content,
+          action: `名前変更 (${oldPath} から)`,
+        });
+        changes.push({ path: oldPath, content: null, action: `名前変更 (${newPath} へ)` });
+      } else {
+        changes.push({ path: oldPath, content: applied.content, action: '変更' });
+      }
+    }
+
+    return { changes, failures };
+  }
+
+  /**
+   * 適用できなかったハンクを実際のファイル内容とともに整形
+   */
+  private formatFailures(path: string, failures: HunkFailure[]): string[] {
+    return failures.map((failure) =>
+      `${path}: ${failure.message}\n想定位置付近の実際のファイル内容:\n${failure.actual}`
+    );
+  }
+}
+
 /**
  * ディレクトリ作成ツール
  */
@@ -95,6 +562,22 @@ export class CreateDirectoryTool extends BaseTool {
   override readonly description = 'ディレクトリを作成します';
   override readonly requiredParameters = ['path'];
   override readonly optionalParameters = ['recursive'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    path: { type: 'string', description: '作成するディレクトリのパス' },
+    recursive: {
+      type: 'boolean',
+      description: '親ディレクトリも作成するかどうか（デフォルト: true）',
+    },
+  };
+
+  override getAffectedPaths(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): AffectedPath[] {
+    // 既に存在するディレクトリは変更しないため記録しない
+    const path = this.resolvePath(String(parameters.path), context);
+    return existsSync(path) ? [] : [{ path }];
+  }
 
   override async execute(
     parameters: ToolParameters,
@@ -104,7 +587,7 @@ export class CreateDirectoryTool extends BaseTool {
       const path = this.getParameter<string>(parameters, 'path');
       const recursive = this.getOptionalParameter<boolean>(parameters, 'recursive', true);
 
-      const fullPath = context?.workingDirectory ? join(context.workingDirectory, path) : path;
+      const fullPath = this.resolvePath(path, context);
 
       if (await exists(fullPath)) {
         const stat = await Deno.stat(fullPath);
@@ -136,9 +619,30 @@ export class CreateDirectoryTool extends BaseTool {
  */
 export class FindFilesByNameTool extends BaseTool {
   override readonly name = 'find_files_by_name';
-  override readonly description = 'ファイル名に基づいてファイルを検索します（拡張子やキーワードで絞り込み可能）';
+  override readonly description =
+    'ファイル名に基づいてファイルを検索します（拡張子やキーワードで絞り込み可能）';
   override readonly requiredParameters = [];
-  override readonly optionalParameters = ['directory', 'fileExtensions', 'nameContains', 'maxResults', 'includeHidden'];
+  override readonly optionalParameters = [
+    'directory',
+    'fileExtensions',
+    'nameContains',
+    'maxResults',
+    'includeHidden',
+  ];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    directory: { type: 'string', description: '検索対象ディレクトリ（デフォルト: .）' },
+    fileExtensions: {
+      type: 'array',
+      description: '検索対象の拡張子リスト（例: ["ts", ".js"]）',
+      items: { type: 'string' },
+    },
+    nameContains: { type: 'string', description: 'ファイル名に含まれるキーワード' },
+    maxResults: { type: 'integer', description: '最大取得件数（デフォルト: 100）' },
+    includeHidden: {
+      type: 'boolean',
+      description: '隠しファイルを含めるかどうか（デフォルト: false）',
+    },
+  };
 
   override async execute(
     parameters: ToolParameters,
@@ -149,14 +653,17 @@ export class FindFilesByNameTool extends BaseTool {
       const fileExtensions = this.getOptionalParameter<string[]>(parameters, 'fileExtensions');
       const nameContains = this.getOptionalParameter<string>(parameters, 'nameContains');
       const maxResults = this.getOptionalParameter<number>(parameters, 'maxResults', 100) || 100;
-      const includeHidden = this.getOptionalParameter<boolean>(parameters, 'includeHidden', false) ?? false;
+      const includeHidden =
+        this.getOptionalParameter<boolean>(parameters, 'includeHidden', false) ?? false;
 
       if ((!fileExtensions || fileExtensions.length === 0) && !nameContains) {
-        return this.error('検索条件として fileExtensions または nameContains のいずれかを指定してください');
+        return this.error(
+          '検索条件として fileExtensions または nameContains のいずれかを指定してください',
+        );
       }
 
       const workingDir = context?.workingDirectory || Deno.cwd();
-      const baseDir = directory === '.' ? workingDir : join(workingDir, directory);
+      const baseDir = this.resolvePath(directory, context);
 
       if (!await exists(baseDir)) {
         return this.error(`検索ディレクトリが見つかりません: ${directory}`);
@@ -232,7 +739,7 @@ export class FindFilesByNameTool extends BaseTool {
           // 拡張子チェック
           if (fileExtensions && fileExtensions.length > 0) {
             const fileExt = entry.name.split('.').pop()?.toLowerCase() || '';
-            const searchExts = fileExtensions.map(ext => 
+            const searchExts = fileExtensions.map((ext) =>
               ext.startsWith('.') ? ext.slice(1).toLowerCase() : ext.toLowerCase()
             );
             if (!searchExts.includes(fileExt)) {
@@ -274,9 +781,34 @@ export class FindFilesByNameTool extends BaseTool {
  */
 export class SearchContentInFilesTool extends BaseTool {
   override readonly name = 'search_content_in_files';
-  override readonly description = 'ファイルの内容から指定された文字列を検索します（grepのような動作）';
+  override readonly description =
+    'ファイルの内容から指定された文字列を検索します（grepのような動作）';
   override readonly requiredParameters = ['searchText'];
-  override readonly optionalParameters = ['directory', 'fileExtensions', 'maxResults', 'caseSensitive', 'includeHidden'];
+  override readonly optionalParameters = [
+    'directory',
+    'fileExtensions',
+    'maxResults',
+    'caseSensitive',
+    'includeHidden',
+  ];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    searchText: { type: 'string', description: '検索する文字列' },
+    directory: { type: 'string', description: '検索対象ディレクトリ（デフォルト: .）' },
+    fileExtensions: {
+      type: 'array',
+      description: '検索対象の拡張子リスト（例: ["ts", "js"]）',
+      items: { type: 'string' },
+    },
+    maxResults: { type: 'integer', description: '最大取得件数（デフォルト: 100）' },
+    caseSensitive: {
+      type: 'boolean',
+      description: '大文字小文字を区別するかどうか（デフォルト: false）',
+    },
+    includeHidden: {
+      type: 'boolean',
+      description: '隠しファイルを含めるかどうか（デフォルト: false）',
+    },
+  };
 
   override async execute(
     parameters: ToolParameters,
@@ -287,11 +819,13 @@ export class SearchContentInFilesTool extends BaseTool {
       const directory = this.getOptionalParameter<string>(parameters, 'directory', '.') || '.';
       const fileExtensions = this.getOptionalParameter<string[]>(parameters, 'fileExtensions');
       const maxResults = this.getOptionalParameter<number>(parameters, 'maxResults', 100) || 100;
-      const caseSensitive = this.getOptionalParameter<boolean>(parameters, 'caseSensitive', false) ?? false;
-      const includeHidden = this.getOptionalParameter<boolean>(parameters, 'includeHidden', false) ?? false;
+      const caseSensitive =
+        this.getOptionalParameter<boolean>(parameters, 'caseSensitive', false) ?? false;
+      const includeHidden =
+        this.getOptionalParameter<boolean>(parameters, 'includeHidden', false) ?? false;
 
       const workingDir = context?.workingDirectory || Deno.cwd();
-      const baseDir = directory === '.' ? workingDir : join(workingDir, directory);
+      const baseDir = this.resolvePath(directory, context);
 
       if (!await exists(baseDir)) {
         return this.error(`検索ディレクトリが見つかりません: ${directory}`);
@@ -381,7 +915,7 @@ export class SearchContentInFilesTool extends BaseTool {
           // 拡張子フィルタ
           if (fileExtensions && fileExtensions.length > 0) {
             const fileExt = entry.name.split('.').pop()?.toLowerCase();
-            const allowedExts = fileExtensions.map(ext => 
+            const allowedExts = fileExtensions.map((ext) =>
               ext.startsWith('.') ? ext.slice(1).toLowerCase() : ext.toLowerCase()
             );
             if (!fileExt || !allowedExts.includes(fileExt)) {
@@ -435,6 +969,9 @@ export class ListDirectoryTool extends BaseTool {
   override readonly description =
     '指定されたディレクトリ内のファイル・フォルダ一覧を取得します（隠しファイル含む、詳細情報付き）';
   override readonly requiredParameters = ['path'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    path: { type: 'string', description: '対象ディレクトリのパス' },
+  };
 
   override async execute(
     parameters: ToolParameters,
@@ -444,7 +981,7 @@ export class ListDirectoryTool extends BaseTool {
       const path = this.getParameter<string>(parameters, 'path');
 
       const workingDir = context?.workingDirectory || Deno.cwd();
-      const targetDir = path === '.' ? workingDir : join(workingDir, path);
+      const targetDir = this.resolvePath(path, context);
 
       if (!await exists(targetDir)) {
         return this.error(`ディレクトリが見つかりません: ${path}`);
@@ -542,31 +1079,64 @@ export class ListDirectoryTool extends BaseTool {
   }
 }
 
+/**
+ * read_files で一度に読み込めるファイル数
+ */
+const MAX_READ_FILES = 5;
+
 /**
  * 複数ファイル読み込みツール
  */
 export class ReadMultipleFilesTool extends BaseTool {
   override readonly name = 'read_files';
-  override readonly description = '複数のファイルの内容を読み込みます';
+  override readonly description = '複数のファイルの内容を行番号付きで読み込みます';
   override readonly requiredParameters = ['paths'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    paths: {
+      type: 'array',
+      description: `読み込むファイルパスのリスト（最大${MAX_READ_FILES}件）`,
+      items: { type: 'string' },
+    },
+  };
 
   override async execute(
     parameters: ToolParameters,
     context?: ToolExecutionContext,
   ): Promise<ToolResult> {
     try {
-      const paths = this.getParameter<Array<{ path: string }>>(parameters, 'paths');
-      if (!paths || paths.length === 0) {
+      // 権限チェック（getToolPaths）と同じく文字列のパスのみを受け付ける
+      const paths = this.getParameter<unknown[]>(parameters, 'paths');
+      if (!Array.isArray(paths) || paths.length === 0) {
         return this.error('ファイルパスが指定されていません');
       }
+      if (!paths.every((path): path is string => typeof path === 'string')) {
+        return this.error('paths にはファイルパスの文字列を指定してください');
+      }
+      if (paths.length > MAX_READ_FILES) {
+        return this.error(
+          `一度に読み込めるファイルは最大${MAX_READ_FILES}件です（${paths.length} 件指定されました）`,
+        );
+      }
 
-      const results: Array<{ path: string; content?: string; error?: string; size?: number }> = [];
+      const results: Array<
+        {
+          path: string;
+          content?: string;
+          error?: string;
+          size?: number;
+          totalLines?: number;
+          truncated?: boolean;
+          binary?: boolean;
+          type?: string;
+        }
+      > = [];
       let successCount = 0;
       let errorCount = 0;
+      // 各ファイルの上限に加え、全体の出力量も制限する
+      let remainingBytes = DEFAULT_TOTAL_MAX_BYTES;
 
-      for (const item of paths) {
-        const path = item.path;
-        const fullPath = context?.workingDirectory ? join(context.workingDirectory, path) : path;
+      for (const path of paths) {
+        const fullPath = this.resolvePath(path, context);
 
         try {
           if (!await exists(fullPath)) {
@@ -582,8 +1152,30 @@ export class ReadMultipleFilesTool extends BaseTool {
             continue;
           }
 
-          const content = await Deno.readTextFile(fullPath);
-          results.push({ path, content, size: stat.size });
+          if (remainingBytes <= 0) {
+            results.push({
+              path,
+              error: '読み込み量の上限に達したため省略しました。個別に読み込んでください',
+            });
+            errorCount++;
+            continue;
+          }
+
+          const file = await readFileContent(fullPath, {
+            maxBytes: Math.min(DEFAULT_MAX_BYTES, remainingBytes),
+          });
+          if (file.binary) {
+            results.push({ path, binary: true, type: file.type, size: file.size });
+          } else {
+            results.push({
+              path,
+              content: file.content,
+              size: file.size,
+              totalLines: file.totalLines,
+              truncated: file.truncated,
+            });
+            remainingBytes -= file.bytes;
+          }
           successCount++;
         } catch (error) {
           results.push({
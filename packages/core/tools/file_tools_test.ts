@@ -0,0 +1,72 @@
+import { assertEquals } from '@std/assert';
+import { join } from '@std/path';
+import { CreateDirectoryTool, ReadMultipleFilesTool } from './file_tools.ts';
+
+Deno.test('ReadMultipleFilesTool: 文字列以外のパスは読み込まずにエラーにする', async () => {
+  const directory = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(join(directory, 'a.txt'), 'secret');
+    const tool = new ReadMultipleFilesTool();
+    const context = {
+      workingDirectory: directory,
+      environment: {},
+      sessionId: 'test',
+      timestamp: new Date(),
+    };
+
+    const rejected = await tool.execute({ paths: [{ path: 'a.txt' }] }, context);
+    assertEquals(rejected.success, false);
+    assertEquals(JSON.stringify(rejected).includes('secret'), false);
+
+    const result = await tool.execute({ paths: ['a.txt'] }, context);
+    assertEquals(result.success, true);
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test('ReadMultipleFilesTool: 6件以上のパスは読み込まずにエラーにする', async () => {
+  const directory = await Deno.makeTempDir();
+  try {
+    const paths = Array.from({ length: 6 }, (_, i) => `${i}.txt`);
+    for (const path of paths) {
+      await Deno.writeTextFile(join(directory, path), path);
+    }
+    const tool = new ReadMultipleFilesTool();
+    const context = {
+      workingDirectory: directory,
+      environment: {},
+      sessionId: 'test',
+      timestamp: new Date(),
+    };
+
+    const rejected = await tool.execute({ paths }, context);
+    assertEquals(rejected.success, false);
+    assertEquals(rejected.error?.includes('最大5件'), true);
+
+    const result = await tool.execute({ paths: paths.slice(0, 5) }, context);
+    assertEquals(result.success, true);
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test('CreateDirectoryTool: 既に存在するディレクトリはチェックポイントの対象にしない', async () => {
+  const directory = await Deno.makeTempDir();
+  try {
+    const tool = new CreateDirectoryTool();
+    const context = {
+      workingDirectory: directory,
+      environment: {},
+      sessionId: 'test',
+      timestamp: new Date(),
+    };
+
+    assertEquals(tool.getAffectedPaths({ path: '.' }, context), []);
+    assertEquals(tool.getAffectedPaths({ path: 'new' }, context), [{
+      path: join(directory, 'new'),
+    }]);
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
@@ -0,0 +1,637 @@
+import { join, resolve } from '@std/path';
+import { BaseTool } from './base_tool.ts';
+import { type FilePatch, parseGitHeader, parsePatch, PatchParseError } from './patch.ts';
+import type { SecurityManager } from '../permission/security_manager.ts';
+import type {
+  ToolExecutionContext,
+  ToolParameterDefinition,
+  ToolParameters,
+  ToolResult,
+} from '../../interfaces/tool.ts';
+
+/**
+ * 差分として返すハンク行数の上限（超えた分のファイルはハンクを省略する）
+ */
+const MAX_DIFF_LINES = 2000;
+
+/**
+ * git_log の既定の取得件数
+ */
+const DEFAULT_LOG_COUNT = 20;
+
+/**
+ * コミット情報の出力形式（フィールドは \x1f、レコードは \x1e で区切る）
+ */
+const COMMIT_FORMAT = ['%H', '%h', '%P', '%an', '%ae', '%aI', '%s'].join('%x1f');
+
+/**
+ * 変更種別の表示名
+ */
+const STATUS_NAMES: Record<string, string> = {
+  M: 'modified',
+  A: 'added',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'type_changed',
+};
+
+/**
+ * 競合状態を表すステータスの組み合わせ
+ */
+const CONFLICT_CODES = new Set(['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU']);
+
+/**
+ * git コマンドの実行エラー
+ */
+export class GitCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitCommandError';
+  }
+}
+
+/**
+ * 変更されたファイル
+ */
+export interface GitFileChange {
+  path: string;
+  /** 名前変更・コピー元のパス */
+  originalPath?: string;
+  status: string;
+}
+
+/**
+ * 作業ツリーの状態
+ */
+export interface GitStatus {
+  /** ブランチ名（detached HEAD の場合はnull） */
+  branch: string | null;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  staged: GitFileChange[];
+  unstaged: GitFileChange[];
+  untracked: string[];
+  conflicted: string[];
+}
+
+/**
+ * ファイルごとの差分
+ */
+export interface GitDiffFile {
+  path: string;
+  /** 名前変更前のパス */
+  originalPath?: string;
+  status: 'added' | 'deleted' | 'renamed' | 'modified';
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  /** 各行は先頭に +, -, 空白のいずれかを付けた形式 */
+  hunks: Array<{ oldStart: number; newStart: number; lines: string[] }>;
+  /** 上限を超えたためハンクを省略した場合はtrue */
+  truncated?: boolean;
+}
+
+/**
+ * コミット情報
+ */
+export interface GitCommit {
+  hash: string;
+  shortHash: string;
+  parents: string[];
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+  body?: string;
+}
+
+/**
+ * git status --porcelain=v1 -z --branch の出力を解析
+ */
+export function parseGitStatus(output: string): GitStatus {
+  const status: GitStatus = {
+    branch: null,
+    ahead: 0,
+    behind: 0,
+    staged: [],
+    unstaged: [],
+    untracked: [],
+    conflicted: [],
+  };
+  const entries = output.split('\0');
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.startsWith('## ')) {
+      Object.assign(status, parseBranchLine(entry.slice(3)));
+      continue;
+    }
+    if (entry.length < 4) {
+      continue;
+    }
+
+    const code = entry.slice(0, 2);
+    const path = entry.slice(3);
+    if (code === '??') {
+      status.untracked.push(path);
+      continue;
+    }
+    if (code === '!!') {
+      continue;
+    }
+    if (CONFLICT_CODES.has(code)) {
+      status.conflicted.push(path);
+      continue;
+    }
+
+    // 名前変更・コピーは次のエントリが元のパス
+    const originalPath = code[0] === 'R' || code[0] === 'C' ? entries[++i] : undefined;
+    if (code[0] !== ' ') {
+      status.staged.push({ path, originalPath, status: STATUS_NAMES[code[0]] ?? code[0] });
+    }
+    if (code[1] !== ' ') {
+      status.unstaged.push({ path, status: STATUS_NAMES[code[1]] ?? code[1] });
+    }
+  }
+
+  return status;
+}
+
+/**
+ * ブランチ行（## main...origin/main [ahead 1, behind 2]）を解析
+ */
+function parseBranchLine(line: string): Partial<GitStatus> {
+  if (line.startsWith('HEAD (no branch)')) {
+    return { branch: null };
+  }
+  const initial = /^(?:No commits yet on|Initial commit on) (.+)$/.exec(line);
+  if (initial) {
+    return { branch: initial[1] };
+  }
+
+  const match = /^(.+?)(?:\.\.\.(\S+))?(?: \[(.+)\])?$/.exec(line);
+  if (!match) {
+    return { branch: line };
+  }
+  return {
+    branch: match[1],
+    upstream: match[2],
+    ahead: Number(/ahead (\d+)/.exec(match[3] ?? '')?.[1] ?? 0),
+    behind: Number(/behind (\d+)/.exec(match[3] ?? '')?.[1] ?? 0),
+  };
+}
+
+/**
+ * git diff の出力をファイルごとの差分に解析
+ * 合計のハンク行数が上限を超えた以降のファイルはハンクを省略する
+ */
+export function parseGitDiff(output: string, maxLines = MAX_DIFF_LINES): GitDiffFile[] {
+  const chunks = output.split(/^(?=diff --git )/m).filter((chunk) =>
+    chunk.startsWith('diff --git ')
+  );
+  let remaining = maxLines;
+
+  return chunks.map((chunk) => {
+    let patch: FilePatch;
+    try {
+      [patch] = parsePatch(chunk);
+    } catch (error) {
+      if (!(error instanceof PatchParseError)) {
+        throw error;
+      }
+      // バイナリファイルやモード変更のみの場合はハンクがない
+      const paths = parseGitHeader(chunk.split('\n')[0]);
+      patch = { oldPath: paths?.oldPath ?? null, newPath: paths?.newPath ?? null, hunks: [] };
+    }
+
+    const file: GitDiffFile = {
+      path: (patch.newPath ?? patch.oldPath)!,
+      status: patch.oldPath === null
+        ? 'added'
+        : patch.newPath === null
+        ? 'deleted'
+        : patch.oldPath !== patch.newPath
+        ? 'renamed'
+        : 'modified',
+      binary: /^(Binary files .* differ|GIT binary patch)$/m.test(chunk),
+      additions: 0,
+      deletions: 0,
+      hunks: [],
+    };
+    if (file.status === 'renamed') {
+      file.originalPath = patch.oldPath!;
+    }
+
+    for (const hunk of patch.hunks) {
+      file.additions += hunk.lines.filter((line) => line.type === 'add').length;
+      file.deletions += hunk.lines.filter((line) => line.type === 'remove').length;
+    }
+    const lineCount = patch.hunks.reduce((sum, hunk) => sum + hunk.lines.length, 0);
+    if (lineCount > remaining) {
+      file.truncated = patch.hunks.length > 0;
+      remaining = 0;
+    } else {
+      remaining -= lineCount;
+      file.hunks = patch.hunks.map((hunk) => ({
+        oldStart: hunk.oldStart,
+        newStart: hunk.newStart,
+        lines: hunk.lines.map((line) =>
+          (line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ') + line.text
+        ),
+      }));
+    }
+    return file;
+  });
+}
+
+/**
+ * COMMIT_FORMAT で出力したコミット情報を解析
+ */
+export function parseCommitRecord(record: string): GitCommit {
+  const [hash, shortHash, parents, author, email, date, subject, body] = record
+    .replace(/^\n/, '')
+    .split('\x1f');
+  const commit: GitCommit = {
+    hash,
+    shortHash,
+    parents: parents ? parents.split(' ') : [],
+    author,
+    email,
+    date,
+    subject,
+  };
+  if (body !== undefined) {
+    commit.body = body.trim();
+  }
+  return commit;
+}
+
+/**
+ * git log の出力を解析
+ */
+export function parseGitLog(output: string): GitCommit[] {
+  return output.split('\x1e')
+    .filter((record) => record.trim().length > 0)
+    .map(parseCommitRecord);
+}
+
+/**
+ * NUL区切りのファイル名リストを配列に変換
+ */
+function splitNames(output: string): string[] {
+  return output.split('\0').filter((name) => name.length > 0);
+}
+
+/**
+ * git ツールの共通処理
+ */
+abstract class GitTool extends BaseTool {
+  /**
+   * git コマンドを実行して標準出力を返す
+   */
+  protected async git(
+    args: string[],
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<string> {
+    const cwd = this.getOptionalParameter<string>(
+      parameters,
+      'workingDirectory',
+      context?.workingDirectory || Deno.cwd(),
+    );
+    const output = await new Deno.Command('git', {
+      // 日本語などのファイル名を8進数でエスケープしない
+      args: ['-c', 'core.quotepath=off', ...args],
+      cwd,
+      env: context?.environment,
+      clearEnv: context?.environment !== undefined,
+      stdout: 'piped',
+      stderr: 'piped',
+    }).output();
+
+    if (!output.success) {
+      const stderr = new TextDecoder().decode(output.stderr).trim();
+      throw new GitCommandError(
+        stderr || `git ${args[0]} が失敗しました (終了コード: ${output.code})`,
+      );
+    }
+    return new TextDecoder().decode(output.stdout);
+  }
+
+  /**
+   * オプションとして解釈されないようにリビジョン指定を検証
+   */
+  protected validateRef(ref: string | undefined): void {
+    if (ref?.startsWith('-')) {
+      throw new GitCommandError(`不正なリビジョン指定です: ${ref}`);
+    }
+  }
+
+  /**
+   * エラーをツール結果に変換
+   */
+  protected handleError(prefix: string, error: unknown): ToolResult {
+    if (error instanceof GitCommandError) {
+      return this.error(`${prefix}: ${error.message}`);
+    }
+    if (error instanceof Deno.errors.NotFound) {
+      return this.error(
+        'git コマンドが見つかりません。git がインストールされているか確認してください',
+      );
+    }
+    return this.error(`${prefix}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+const WORKING_DIRECTORY_PARAMETER: ToolParameterDefinition = {
+  type: 'string',
+  description: 'リポジトリ内の作業ディレクトリ',
+};
+
+/**
+ * 作業ツリーの状態取得ツール
+ */
+export class GitStatusTool extends GitTool {
+  override readonly name = 'git_status';
+  override readonly description =
+    'ブランチと変更されたファイル（ステージ済み・未ステージ・未追跡）を取得します';
+  override readonly requiredParameters = [];
+  override readonly optionalParameters = ['workingDirectory'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    workingDirectory: WORKING_DIRECTORY_PARAMETER,
+  };
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const output = await this.git(
+        ['status', '--porcelain=v1', '-z', '--branch', '--untracked-files=all'],
+        parameters,
+        context,
+      );
+      const status = parseGitStatus(output);
+      const changes = status.staged.length + status.unstaged.length + status.untracked.length +
+        status.conflicted.length;
+
+      return this.success(
+        status,
+        `ブランチ: ${status.branch ?? '(detached HEAD)'}, ` +
+          (changes === 0
+            ? '変更はありません'
+            : `ステージ済み: ${status.staged.length}, 未ステージ: ${status.unstaged.length}, ` +
+              `未追跡: ${status.untracked.length}, 競合: ${status.conflicted.length}`),
+      );
+    } catch (error) {
+      return this.handleError('git status エラー', error);
+    }
+  }
+}
+
+/**
+ * 差分取得ツール
+ */
+export class GitDiffTool extends GitTool {
+  override readonly name = 'git_diff';
+  override readonly description =
+    '作業ツリー・ステージ済みの変更、または指定したリビジョンとの差分をファイルとハンクごとに取得します';
+  override readonly requiredParameters = [];
+  override readonly optionalParameters = ['staged', 'ref', 'path', 'workingDirectory'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    staged: {
+      type: 'boolean',
+      description: 'ステージ済みの変更を対象にするかどうか（デフォルト: false）',
+    },
+    ref: { type: 'string', description: '比較対象のリビジョン（例: HEAD~1, main）' },
+    path: { type: 'string', description: '対象を絞り込むパス' },
+    workingDirectory: WORKING_DIRECTORY_PARAMETER,
+  };
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const staged = this.getOptionalParameter<boolean>(parameters, 'staged', false);
+      const ref = this.getOptionalParameter<string>(parameters, 'ref');
+      const path = this.getOptionalParameter<string>(parameters, 'path');
+      this.validateRef(ref);
+
+      const args = ['diff', '--no-color', '--no-ext-diff', '--find-renames'];
+      if (staged) args.push('--cached');
+      if (ref) args.push(ref);
+      args.push('--');
+      if (path) args.push(path);
+
+      const files = parseGitDiff(await this.git(args, parameters, context));
+      const additions = files.reduce((sum, file) => sum + file.additions, 0);
+      const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+
+      return this.success(
+        { files },
+        files.length === 0
+          ? '差分はありません'
+          : `${files.length}個のファイルに差分があります (+${additions} -${deletions})`,
+      );
+    } catch (error) {
+      return this.handleError('git diff エラー', error);
+    }
+  }
+}
+
+/**
+ * コミット履歴取得ツール
+ */
+export class GitLogTool extends GitTool {
+  override readonly name = 'git_log';
+  override readonly description = 'コミット履歴を取得します';
+  override readonly requiredParameters = [];
+  override readonly optionalParameters = ['maxCount', 'ref', 'path', 'workingDirectory'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    maxCount: {
+      type: 'integer',
+      description: `取得するコミット数（デフォルト: ${DEFAULT_LOG_COUNT}）`,
+    },
+    ref: { type: 'string', description: '起点のリビジョン（デフォルト: HEAD）' },
+    path: { type: 'string', description: 'このパスを変更したコミットに絞り込む' },
+    workingDirectory: WORKING_DIRECTORY_PARAMETER,
+  };
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const maxCount = this.getOptionalParameter<number>(parameters, 'maxCount', DEFAULT_LOG_COUNT);
+      const ref = this.getOptionalParameter<string>(parameters, 'ref');
+      const path = this.getOptionalParameter<string>(parameters, 'path');
+      this.validateRef(ref);
+
+      const args = ['log', `--max-count=${maxCount}`, `--format=${COMMIT_FORMAT}%x1e`];
+      if (ref) args.push(ref);
+      args.push('--');
+      if (path) args.push(path);
+
+      const commits = parseGitLog(await this.git(args, parameters, context));
+      return this.success({ commits }, `${commits.length}件のコミットを取得しました`);
+    } catch (error) {
+      return this.handleError('git log エラー', error);
+    }
+  }
+}
+
+/**
+ * コミット内容取得ツール
+ */
+export class GitShowTool extends GitTool {
+  override readonly name = 'git_show';
+  override readonly description = 'コミットの情報と変更内容を取得します';
+  override readonly requiredParameters = [];
+  override readonly optionalParameters = ['ref', 'path', 'workingDirectory'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    ref: { type: 'string', description: '対象のコミット（デフォルト: HEAD）' },
+    path: { type: 'string', description: '変更内容を絞り込むパス' },
+    workingDirectory: WORKING_DIRECTORY_PARAMETER,
+  };
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const ref = this.getOptionalParameter<string>(parameters, 'ref', 'HEAD')!;
+      const path = this.getOptionalParameter<string>(parameters, 'path');
+      this.validateRef(ref);
+
+      const args = [
+        'show',
+        '--no-color',
+        '--no-ext-diff',
+        '--find-renames',
+        // マージコミットは最初の親との差分を表示する
+        '--diff-merges=first-parent',
+        `--format=${COMMIT_FORMAT}%x1f%b%x1e`,
+        ref,
+        '--',
+      ];
+      if (path) args.push(path);
+
+      const output = await this.git(args, parameters, context);
+      const separator = output.indexOf('\x1e');
+      const commit = parseCommitRecord(output.slice(0, separator));
+      const files = parseGitDiff(output.slice(separator + 1));
+
+      return this.success(
+        { commit, files },
+        `${commit.shortHash} ${commit.subject} (${files.length}個のファイルを変更)`,
+      );
+    } catch (error) {
+      return this.handleError('git show エラー', error);
+    }
+  }
+}
+
+/**
+ * コミット作成ツール
+ * 保護されたパスのファイルを含むコミットは作成しない
+ */
+export class GitCommitTool extends GitTool {
+  override readonly name = 'git_commit';
+  override readonly description =
+    'ステージ済みの変更をコミットします（常にユーザーの承認が必要です）';
+  override readonly requiredParameters = ['message'];
+  override readonly optionalParameters = ['paths', 'all', 'workingDirectory'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    message: { type: 'string', description: 'コミットメッセージ' },
+    paths: {
+      type: 'array',
+      description: 'コミット前にステージするファイルまたはディレクトリのリスト',
+      items: { type: 'string' },
+    },
+    all: {
+      type: 'boolean',
+      description:
+        '追跡済みファイルの変更をすべてステージしてからコミットするかどうか（デフォルト: false）',
+    },
+    workingDirectory: WORKING_DIRECTORY_PARAMETER,
+  };
+  override readonly dangerous = true;
+  override readonly requiresApproval = true;
+
+  private securityManager: SecurityManager;
+
+  constructor(securityManager: SecurityManager) {
+    super();
+    this.securityManager = securityManager;
+  }
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const message = this.getParameter<string>(parameters, 'message');
+      const paths = this.getOptionalParameter<string[]>(parameters, 'paths', []) ?? [];
+      const all = this.getOptionalParameter<boolean>(parameters, 'all', false);
+      const cwd = this.getOptionalParameter<string>(
+        parameters,
+        'workingDirectory',
+        context?.workingDirectory || Deno.cwd(),
+      )!;
+
+      if (message.trim().length === 0) {
+        return this.error('コミットメッセージが空です');
+      }
+
+      const stageCommands: string[][] = [];
+      if (all) stageCommands.push(['add', '-u']);
+      if (paths.length > 0) stageCommands.push(['add', '--', ...paths]);
+
+      // ステージする前に、コミットに含まれるファイルをすべて確認する
+      const root = (await this.git(['rev-parse', '--show-toplevel'], parameters, context)).trim();
+      const candidates = splitNames(
+        await this.git(['diff', '--cached', '--name-only', '-z'], parameters, context),
+      );
+      for (const [command, ...args] of stageCommands) {
+        const dryRun = await this.git([command, '--dry-run', ...args], parameters, context);
+        for (const line of dryRun.split('\n')) {
+          const match = /^(?:add|remove) '(.+)'$/.exec(line);
+          if (match) candidates.push(match[1]);
+        }
+      }
+
+      const blocked = candidates.find((file) =>
+        this.securityManager.isDangerousPath(join(root, file)) ||
+        this.securityManager.isDangerousPath(resolve(cwd, file))
+      );
+      if (blocked) {
+        return this.error(`保護されたパスのファイルを含むためコミットできません: ${blocked}`);
+      }
+
+      for (const args of stageCommands) {
+        await this.git(args, parameters, context);
+      }
+      const files = splitNames(
+        await this.git(['diff', '--cached', '--name-only', '-z'], parameters, context),
+      );
+      if (files.length === 0) {
+        return this.error('コミットする変更がありません');
+      }
+
+      await this.git(['commit', '-m', message], parameters, context);
+      const [commit] = parseGitLog(
+        await this.git(['log', '-1', `--format=${COMMIT_FORMAT}%x1e`], parameters, context),
+      );
+
+      return this.success(
+        { commit, files },
+        `コミットしました: ${commit.shortHash} ${commit.subject} (${files.length}個のファイル)`,
+      );
+    } catch (error) {
+      return this.handleError('git commit エラー', error);
+    }
+  }
+}
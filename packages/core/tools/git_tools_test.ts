@@ -0,0 +1,141 @@
+import { assert, assertEquals } from '@std/assert';
+import { parseGitDiff, parseGitLog, parseGitStatus } from './git_tools.ts';
+
+Deno.test('parseGitStatus: ブランチとステージ済み・未ステージ・未追跡・競合を分類する', () => {
+  const status = parseGitStatus(
+    [
+      '## main...origin/main [ahead 2, behind 1]',
+      'M  src/staged.ts',
+      ' M src/unstaged.ts',
+      'MM src/both.ts',
+      'R  src/new name.ts',
+      'src/old name.ts',
+      'UU src/conflict.ts',
+      '?? メモ.txt',
+      '',
+    ].join('\0'),
+  );
+
+  assertEquals(status.branch, 'main');
+  assertEquals(status.upstream, 'origin/main');
+  assertEquals([status.ahead, status.behind], [2, 1]);
+  assertEquals(status.staged, [
+    { path: 'src/staged.ts', originalPath: undefined, status: 'modified' },
+    { path: 'src/both.ts', originalPath: undefined, status: 'modified' },
+    { path: 'src/new name.ts', originalPath: 'src/old name.ts', status: 'renamed' },
+  ]);
+  assertEquals(status.unstaged, [
+    { path: 'src/unstaged.ts', status: 'modified' },
+    { path: 'src/both.ts', status: 'modified' },
+  ]);
+  assertEquals(status.conflicted, ['src/conflict.ts']);
+  assertEquals(status.untracked, ['メモ.txt']);
+});
+
+Deno.test('parseGitStatus: コミットのないブランチと detached HEAD', () => {
+  assertEquals(parseGitStatus('## No commits yet on main\0').branch, 'main');
+  assertEquals(parseGitStatus('## HEAD (no branch)\0').branch, null);
+});
+
+Deno.test('parseGitDiff: 変更・追加・名前変更・バイナリのファイルを解析する', () => {
+  const files = parseGitDiff([
+    'diff --git a/src/my file.ts b/src/my file.ts',
+    'index 1111111..2222222 100644',
+    '--- a/src/my file.ts\t',
+    '+++ b/src/my file.ts\t',
+    '@@ -1,2 +1,2 @@',
+    ' const a = 1;',
+    '-const b = 2;',
+    '+const b = 3;',
+    'diff --git a/docs/new.md b/docs/new.md',
+    'new file mode 100644',
+    'index 0000000..3333333',
+    '--- /dev/null',
+    '+++ b/docs/new.md',
+    '@@ -0,0 +1 @@',
+    '+# New',
+    'diff --git a/old.ts b/renamed.ts',
+    'similarity index 100%',
+    'rename from old.ts',
+    'rename to renamed.ts',
+    'diff --git a/logo.png b/logo.png',
+    'index 4444444..5555555 100644',
+    'Binary files a/logo.png and b/logo.png differ',
+    '',
+  ].join('\n'));
+
+  assertEquals(
+    files.map(({ path, originalPath, status, binary, additions, deletions }) => ({
+      path,
+      originalPath,
+      status,
+      binary,
+      additions,
+      deletions,
+    })),
+    [
+      {
+        path: 'src/my file.ts',
+        originalPath: undefined,
+        status: 'modified',
+        binary: false,
+        additions: 1,
+        deletions: 1,
+      },
+      {
+        path: 'docs/new.md',
+        originalPath: undefined,
+        status: 'added',
+        binary: false,
+        additions: 1,
+        deletions: 0,
+      },
+      {
+        path: 'renamed.ts',
+        originalPath: 'old.ts',
+        status: 'renamed',
+        binary: false,
+        additions: 0,
+        deletions: 0,
+      },
+      {
+        path: 'logo.png',
+        originalPath: undefined,
+        status: 'modified',
+        binary: true,
+        additions: 0,
+        deletions: 0,
+      },
+    ],
+  );
+  assertEquals(files[0].hunks, [
+    { oldStart: 1, newStart: 1, lines: [' const a = 1;', '-const b = 2;', '+const b = 3;'] },
+  ]);
+});
+
+Deno.test('parseGitDiff: ハンク行数の上限を超えたファイルはハンクを省略する', () => {
+  const diff = (name: string) =>
+    `diff --git a/${name} b/${name}\n--- a/${name}\n+++ b/${name}\n@@ -1 +1 @@\n-a\n+b\n`;
+  const files = parseGitDiff(diff('a.txt') + diff('b.txt'), 3);
+
+  assertEquals(files[0].hunks.length, 1);
+  assertEquals(files[1].hunks, []);
+  assert(files[1].truncated);
+  assertEquals(files[1].additions, 1);
+});
+
+Deno.test('parseGitLog: コミット情報のレコードを解析する', () => {
+  const commits = parseGitLog(
+    'abc123\x1fabc\x1fdef456\x1fTaro\x1ftaro@example.com\x1f2024-01-01T00:00:00+09:00\x1fInitial\x1e\n',
+  );
+
+  assertEquals(commits, [{
+    hash: 'abc123',
+    shortHash: 'abc',
+    parents: ['def456'],
+    author: 'Taro',
+    email: 'taro@example.com',
+    date: '2024-01-01T00:00:00+09:00',
+    subject: 'Initial',
+  }]);
+});
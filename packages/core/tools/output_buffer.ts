@@ -0,0 +1,152 @@
+import { truncateToBytes } from './file_reader.ts';
+
+/**
+ * コマンド出力の既定の保持方法
+ */
+export const DEFAULT_HEAD_LINES = 100;
+export const DEFAULT_TAIL_LINES = 200;
+export const DEFAULT_OUTPUT_MAX_BYTES = 256 * 1024;
+
+/**
+ * 先頭・末尾の保持行数と合計バイト数の上限
+ */
+export interface HeadTailOptions {
+  headLines: number;
+  tailLines: number;
+  maxBytes: number;
+}
+
+/**
+ * 出力の先頭と末尾だけを保持するバッファ
+ * 中間の行は破棄して行数だけを数えるため、出力量にかかわらず使用メモリは上限内に収まる
+ */
+export class HeadTailBuffer {
+  private head: string[] = [];
+  private tail: string[] = [];
+  private tailSizes: number[] = [];
+  private partial = '';
+  private headBytes = 0;
+  private tailBytes = 0;
+  private headClosed = false;
+  private skippingLine = false;
+  private omitted = 0;
+  private received = 0;
+  private lineTruncated = false;
+  private options: HeadTailOptions;
+  private encoder = new TextEncoder();
+
+  constructor(options: Partial<HeadTailOptions> = {}) {
+    this.options = {
+      headLines: options.headLines ?? DEFAULT_HEAD_LINES,
+      tailLines: options.tailLines ?? DEFAULT_TAIL_LINES,
+      maxBytes: options.maxBytes ?? DEFAULT_OUTPUT_MAX_BYTES,
+    };
+  }
+
+  /**
+   * 出力を追加
+   */
+  append(text: string): void {
+    this.received += this.encoder.encode(text).length;
+
+    const parts = text.split('\n');
+    const last = parts.pop()!;
+    for (const part of parts) {
+      if (this.skippingLine) {
+        // 切り詰めた行の残りは捨てる
+        this.skippingLine = false;
+        this.partial = '';
+        continue;
+      }
+      this.pushLine(this.partial + part);
+      this.partial = '';
+    }
+
+    if (this.skippingLine) {
+      return;
+    }
+    this.partial += last;
+    // 改行を含まない出力が続く場合も上限を超えて保持しない
+    if (this.partial.length > this.lineLimit) {
+      this.pushLine(this.partial);
+      this.partial = '';
+      this.skippingLine = true;
+    }
+  }
+
+  /**
+   * 中間の行を省略した出力を取得
+   */
+  toString(): string {
+    const lines = this.head.map((line) => line + '\n');
+    if (this.omitted > 0) {
+      lines.push(`...[省略: ${this.omitted} 行]...\n`);
+    }
+    lines.push(...this.tail.map((line) => line + '\n'));
+    return lines.join('') + this.partial;
+  }
+
+  /**
+   * 省略された行数
+   */
+  get omittedLines(): number {
+    return this.omitted;
+  }
+
+  /**
+   * 受け取った出力の合計バイト数
+   */
+  get totalBytes(): number {
+    return this.received;
+  }
+
+  /**
+   * 出力の一部が省略されたかどうか
+   */
+  get truncated(): boolean {
+    return this.omitted > 0 || this.lineTruncated;
+  }
+
+  /**
+   * 1行あたりの上限（バイト）
+   */
+  private get lineLimit(): number {
+    return Math.floor(this.options.maxBytes / 4);
+  }
+
+  /**
+   * 1行を先頭または末尾に追加
+   */
+  private pushLine(line: string): void {
+    const { headLines, tailLines, maxBytes } = this.options;
+    let size = this.encoder.encode(line).length + 1;
+    if (size > this.lineLimit) {
+      line = truncateToBytes(line, this.lineLimit) + ' ...[行の途中で省略]';
+      size = this.encoder.encode(line).length + 1;
+      this.lineTruncated = true;
+    }
+
+    if (!this.headClosed) {
+      // 末尾の行のために上限の半分は残しておく
+      const headBudget = tailLines > 0 ? maxBytes / 2 : maxBytes;
+      if (this.head.length < headLines && this.headBytes + size <= headBudget) {
+        this.head.push(line);
+        this.headBytes += size;
+        return;
+      }
+      this.headClosed = true;
+    }
+
+    this.tail.push(line);
+    this.tailSizes.push(size);
+    this.tailBytes += size;
+    while (
+      this.tail.length > 0 &&
+      (this.tail.length > tailLines || this.headBytes + this.tailBytes > maxBytes)
+    ) {
+      this.tail.shift();
+      this.tailBytes -= this.tailSizes.shift()!;
+      this.omitted++;
+    }
+  }
+}
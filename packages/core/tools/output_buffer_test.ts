@@ -0,0 +1,51 @@
+import { assert, assertEquals, assertStringIncludes } from '@std/assert';
+import { HeadTailBuffer } from './output_buffer.ts';
+
+const lines = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => `line ${from + i}\n`).join('');
+
+Deno.test('HeadTailBuffer: 上限内の出力はそのまま返す', () => {
+  const buffer = new HeadTailBuffer({ headLines: 3, tailLines: 3 });
+  buffer.append('first\nsec');
+  buffer.append('ond\nno newline');
+
+  assertEquals(buffer.toString(), 'first\nsecond\nno newline');
+  assertEquals(buffer.truncated, false);
+});
+
+Deno.test('HeadTailBuffer: 先頭と末尾の行を残し、省略した行数を示す', () => {
+  const buffer = new HeadTailBuffer({ headLines: 2, tailLines: 3 });
+  for (let i = 1; i <= 20; i++) {
+    buffer.append(`line ${i}\n`);
+  }
+
+  assertEquals(buffer.toString(), lines(1, 2) + '...[省略: 15 行]...\n' + lines(18, 20));
+  assertEquals(buffer.omittedLines, 15);
+  assertEquals(buffer.totalBytes, new TextEncoder().encode(lines(1, 20)).length);
+});
+
+Deno.test('HeadTailBuffer: 合計バイト数の上限を超えないように末尾の行を減らす', () => {
+  const buffer = new HeadTailBuffer({ headLines: 1, tailLines: 1000, maxBytes: 100 });
+  buffer.append('x'.repeat(9) + '\n');
+  for (let i = 0; i < 10000; i++) {
+    buffer.append('y'.repeat(9) + '\n');
+  }
+
+  const output = buffer.toString();
+  assert(buffer.truncated);
+  assert(output.length < 150);
+  assert(output.startsWith('x'.repeat(9) + '\n...[省略: '));
+});
+
+Deno.test('HeadTailBuffer: 改行のない長い出力は行の途中で切り詰める', () => {
+  const buffer = new HeadTailBuffer({ maxBytes: 400 });
+  for (let i = 0; i < 100; i++) {
+    buffer.append('z'.repeat(50));
+  }
+  buffer.append('\nnext\n');
+
+  const output = buffer.toString();
+  assertStringIncludes(output, '...[行の途中で省略]\nnext\n');
+  assert(output.length < 200);
+  assert(buffer.truncated);
+});
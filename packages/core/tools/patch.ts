@@ -0,0 +1,383 @@
+/**
+ * ハンク内の行
+ */
+export interface PatchLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+}
+
+/**
+ * unified diff のハンク
+ */
+export interface PatchHunk {
+  /** 変更前の開始行（1始まり） */
+  oldStart: number;
+  /** 変更後の開始行（1始まり） */
+  newStart: number;
+  lines: PatchLine[];
+}
+
+/**
+ * 1ファイル分のパッチ
+ * 新規作成の場合は oldPath、削除の場合は newPath が null になる
+ */
+export interface FilePatch {
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+/**
+ * ハンクの適用失敗情報
+ */
+export interface HunkFailure {
+  /** ハンク番号（1始まり） */
+  hunk: number;
+  message: string;
+  /** 想定位置付近の実際のファイル内容（行番号付き） */
+  actual: string;
+}
+
+/**
+ * ハンク適用結果
+ */
+export type HunkApplyResult =
+  | { success: true; content: string }
+  | { success: false; failures: HunkFailure[] };
+
+/**
+ * パッチの構文エラー
+ */
+export class PatchParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} (${line}行目)`);
+    this.name = 'PatchParseError';
+  }
+}
+
+/**
+ * 一致判定で無視する文脈行の最大数（GNU patch の fuzz factor 相当）
+ */
+const MAX_FUZZ = 2;
+
+/**
+ * 失敗時に表示する前後の行数
+ */
+const FAILURE_CONTEXT_LINES = 5;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * unified diff 形式のテキストをファイルごとのパッチに分解
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const patches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let hunk: PatchHunk | null = null;
+  // diff --git ヘッダーの直後で、まだ ---/+++ 行が現れていない状態
+  let awaitingFileHeader = false;
+
+  const finish = () => {
+    if (current) {
+      // 名前変更・作成・削除以外でハンクがない場合は不正なパッチ
+      if (current.hunks.length === 0 && current.oldPath === current.newPath) {
+        throw new PatchParseError(`'${current.newPath}' にハンクがありません`, lines.length);
+      }
+      patches.push({ oldPath: current.oldPath, newPath: current.newPath, hunks: current.hunks });
+    }
+    current = null;
+    hunk = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith('diff --git ')) {
+      finish();
+      const paths = parseGitHeader(line);
+      current = {
+        oldPath: paths?.oldPath ?? null,
+        newPath: paths?.newPath ?? null,
+        hunks: [],
+      };
+      awaitingFileHeader = true;
+      continue;
+    }
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const oldPath = parsePathLine(line.slice(4));
+      const newPath = parsePathLine(lines[i + 1].slice(4));
+      // diff --git ヘッダーの直後でパスが一致する場合は同じファイルの続きとして扱う
+      const continues = current !== null && awaitingFileHeader &&
+        (oldPath === null || oldPath === current.oldPath) &&
+        (newPath === null || newPath === current.newPath);
+      if (continues) {
+        current!.oldPath = oldPath;
+        current!.newPath = newPath;
+      } else {
+        finish();
+        current = { oldPath, newPath, hunks: [] };
+      }
+      awaitingFileHeader = false;
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    if (current && !hunk) {
+      if (line.startsWith('rename from ')) {
+        current.oldPath = line.slice('rename from '.length).trim();
+        continue;
+      }
+      if (line.startsWith('rename to ')) {
+        current.newPath = line.slice('rename to '.length).trim();
+        continue;
+      }
+      if (line.startsWith('new file mode')) {
+        current.oldPath = null;
+        continue;
+      }
+      if (line.startsWith('deleted file mode')) {
+        current.newPath = null;
+        continue;
+      }
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      if (!current) {
+        throw new PatchParseError('ファイルヘッダー (---/+++) の前にハンクがあります', i + 1);
+      }
+      hunk = { oldStart: Number(header[1]), newStart: Number(header[3]), lines: [] };
+      current.hunks.push(hunk);
+      continue;
+    }
+
+    if (hunk) {
+      if (line.startsWith('+')) {
+        hunk.lines.push({ type: 'add', text: line.slice(1) });
+      } else if (line.startsWith('-')) {
+        hunk.lines.push({ type: 'remove', text: line.slice(1) });
+      } else if (line.startsWith(' ')) {
+        hunk.lines.push({ type: 'context', text: line.slice(1) });
+      } else if (line === '') {
+        // 先頭の空白が失われた空の文脈行（末尾の空行は除く）
+        if (lines.slice(i + 1).some((rest) => rest !== '')) {
+          hunk.lines.push({ type: 'context', text: '' });
+        }
+      } else if (!line.startsWith('\\')) {
+        hunk = null;
+      }
+    }
+  }
+  finish();
+
+  if (patches.length === 0) {
+    throw new PatchParseError('パッチにファイルの変更が含まれていません', 1);
+  }
+  return patches;
+}
+
+/**
+ * ファイル内容にハンクを順に適用
+ * いずれかのハンクが適用できない場合はすべての失敗を返し、内容は変更しない
+ */
+export function applyHunks(content: string, hunks: PatchHunk[]): HunkApplyResult {
+  const endsWithNewline = content === '' || content.endsWith('\n');
+  const newline = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content === '' ? [] : content.replace(/\r\n/g, '\n').split('\n');
+  if (endsWithNewline && lines.length > 0) {
+    lines.pop();
+  }
+
+  const result: string[] = [];
+  const failures: HunkFailure[] = [];
+  let cursor = 0;
+  // 前のハンクで生じた行番号のずれ
+  let offset = 0;
+
+  hunks.forEach((hunk, index) => {
+    const match = locateHunk(lines, hunk, cursor, offset);
+    if (!match) {
+      const expected = Math.max(0, Math.min(lines.length, hunk.oldStart - 1 + offset));
+      failures.push({
+        hunk: index + 1,
+        message: `ハンク ${index + 1} (@@ -${hunk.oldStart} +${hunk.newStart} @@) の文脈が` +
+          'ファイル内容と一致しません',
+        actual: formatExcerpt(lines, expected),
+      });
+      return;
+    }
+
+    result.push(...lines.slice(cursor, match.start));
+    // fuzz により無視した文脈行は実際のファイル内容を残す
+    const body = hunk.lines.slice(match.skipStart, hunk.lines.length - match.skipEnd);
+    let position = match.start;
+    for (const line of body) {
+      if (line.type === 'add') {
+        result.push(line.text);
+      } else {
+        if (line.type === 'context') {
+          result.push(lines[position]);
+        }
+        position++;
+      }
+    }
+    cursor = position;
+    offset = match.start - match.skipStart - (hunk.oldStart - 1);
+  });
+
+  if (failures.length > 0) {
+    return { success: false, failures };
+  }
+
+  result.push(...lines.slice(cursor));
+  if (result.length === 0) {
+    return { success: true, content: '' };
+  }
+  return { success: true, content: result.join(newline) + (endsWithNewline ? newline : '') };
+}
+
+/**
+ * ハンクの適用位置を探す
+ * 想定位置に近い順に、完全一致・空白を無視した一致・文脈行を減らした一致を試す
+ */
+function locateHunk(
+  lines: string[],
+  hunk: PatchHunk,
+  minStart: number,
+  offset: number,
+): { start: number; skipStart: number; skipEnd: number } | null {
+  const normalizers = [
+    (text: string) => text,
+    (text: string) => text.trimEnd(),
+    (text: string) => text.replace(/\s+/g, ' ').trim(),
+  ];
+
+  for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+    const skipStart = countLeadingContext(hunk.lines, fuzz);
+    const skipEnd = countTrailingContext(hunk.lines, fuzz);
+    const body = hunk.lines.slice(skipStart, hunk.lines.length - skipEnd);
+    if (fuzz > 0 && skipStart + skipEnd === 0) {
+      break;
+    }
+    const oldLines = body.filter((line) => line.type !== 'add').map((line) => line.text);
+    // 文脈を減らした結果、照合する行がなくなる場合は位置を特定できない
+    if (fuzz > 0 && oldLines.length === 0) {
+      break;
+    }
+    const expected = hunk.oldStart - 1 + offset + skipStart;
+
+    for (const normalize of normalizers) {
+      const target = oldLines.map(normalize);
+      const start = findClosest(lines, target, normalize, minStart, expected);
+      if (start !== -1) {
+        return { start, skipStart, skipEnd };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * 想定位置に最も近い一致位置を探す
+ */
+function findClosest(
+  lines: string[],
+  target: string[],
+  normalize: (text: string) => string,
+  minStart: number,
+  expected: number,
+): number {
+  const maxStart = lines.length - target.length;
+  if (target.length === 0) {
+    return Math.max(minStart, Math.min(expected, lines.length));
+  }
+
+  const matchesAt = (start: number) =>
+    target.every((text, index) => normalize(lines[start + index]) === text);
+
+  // ヘッダーの行番号が範囲外の場合も探索範囲内から始める
+  expected = Math.max(minStart, Math.min(expected, maxStart));
+  for (let distance = 0;; distance++) {
+    for (const start of [expected - distance, expected + distance]) {
+      if (start >= minStart && start <= maxStart && matchesAt(start)) {
+        return start;
+      }
+    }
+    if (expected - distance < minStart && expected + distance > maxStart) {
+      break;
+    }
+  }
+  return -1;
+}
+
+function countLeadingContext(lines: PatchLine[], limit: number): number {
+  let count = 0;
+  while (count < limit && lines[count]?.type === 'context') {
+    count++;
+  }
+  return count;
+}
+
+function countTrailingContext(lines: PatchLine[], limit: number): number {
+  let count = 0;
+  while (count < limit && lines[lines.length - 1 - count]?.type === 'context') {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * 指定位置付近のファイル内容を行番号付きで整形
+ */
+function formatExcerpt(lines: string[], center: number): string {
+  if (lines.length === 0) {
+    return '(空のファイル)';
+  }
+  const start = Math.max(0, center - FAILURE_CONTEXT_LINES);
+  const end = Math.min(lines.length, center + FAILURE_CONTEXT_LINES + 1);
+  const width = String(end).length;
+  return lines
+    .slice(start, end)
+    .map((line, index) => `${String(start + index + 1).padStart(width)}: ${line}`)
+    .join('\n');
+}
+
+/**
+ * --- / +++ 行からパスを取り出す（/dev/null は null）
+ */
+function parsePathLine(value: string): string | null {
+  // タイムスタンプなどの付加情報はタブ区切り
+  const path = value.split('\t')[0].trim();
+  if (path === '/dev/null') {
+    return null;
+  }
+  return stripPrefix(path);
+}
+
+/**
+ * diff --git ヘッダーから変更前後のパスを取得
+ * 空白を含むパスは前後が同じ場合のみ判別できる
+ */
+export function parseGitHeader(line: string): { oldPath: string; newPath: string } | null {
+  const rest = line.slice('diff --git '.length);
+  const match = /^(\S+) (\S+)$/.exec(rest);
+  if (match) {
+    return { oldPath: stripPrefix(match[1]), newPath: stripPrefix(match[2]) };
+  }
+  const half = (rest.length - 1) / 2;
+  const oldPath = stripPrefix(rest.slice(0, half));
+  if (Number.isInteger(half) && oldPath === stripPrefix(rest.slice(half + 1))) {
+    return { oldPath, newPath: oldPath };
+  }
+  return null;
+}
+
+/**
+ * git 形式の a/ b/ プレフィックスを除去
+ */
+function stripPrefix(path: string): string {
+  return path.replace(/^[ab]\//, '');
+}
@@ -0,0 +1,108 @@
+import { assert, assertEquals, assertStringIncludes, assertThrows } from '@std/assert';
+import { applyHunks, parsePatch, PatchParseError } from './patch.ts';
+
+const SOURCE = [
+  'import { serve } from "./server.ts";',
+  '',
+  'const host = "localhost";',
+  'const port = 8000;',
+  '',
+  'serve(host, port);',
+  '',
+].join('\n');
+
+Deno.test('parsePatch: 複数ファイルの作成・削除・名前変更を解釈する', () => {
+  const patches = parsePatch([
+    'diff --git a/src/old.ts b/src/new.ts',
+    'similarity index 100%',
+    'rename from src/old.ts',
+    'rename to src/new.ts',
+    'diff --git a/docs/README.md b/docs/README.md',
+    'new file mode 100644',
+    '--- /dev/null',
+    '+++ b/docs/README.md',
+    '@@ -0,0 +1,2 @@',
+    '+# Title',
+    '+',
+    '--- a/tmp.txt',
+    '+++ /dev/null',
+    '@@ -1 +0,0 @@',
+    '-temporary',
+    '',
+  ].join('\n'));
+
+  assertEquals(patches.map(({ oldPath, newPath }) => ({ oldPath, newPath })), [
+    { oldPath: 'src/old.ts', newPath: 'src/new.ts' },
+    { oldPath: null, newPath: 'docs/README.md' },
+    { oldPath: 'tmp.txt', newPath: null },
+  ]);
+  assertEquals(patches[1].hunks[0].lines, [
+    { type: 'add', text: '# Title' },
+    { type: 'add', text: '' },
+  ]);
+});
+
+Deno.test('parsePatch: ファイルヘッダーのないハンクはエラーにする', () => {
+  assertThrows(() => parsePatch('@@ -1 +1 @@\n-a\n+b\n'), PatchParseError);
+  assertThrows(() => parsePatch('変更はありません'), PatchParseError);
+});
+
+Deno.test('applyHunks: 行番号がずれていても文脈から位置を特定する', () => {
+  const [patch] = parsePatch([
+    '--- a/main.ts',
+    '+++ b/main.ts',
+    '@@ -10,3 +10,3 @@',
+    ' const host = "localhost";',
+    '-const port = 8000;',
+    '+const port = 8080;',
+    ' ',
+  ].join('\n'));
+
+  const result = applyHunks(SOURCE, patch.hunks);
+  assert(result.success);
+  assertEquals(result.content, SOURCE.replace('8000', '8080'));
+});
+
+Deno.test('applyHunks: 空白の違いや一致しない文脈行を許容する', () => {
+  const [patch] = parsePatch([
+    '--- a/main.ts',
+    '+++ b/main.ts',
+    '@@ -3,4 +3,4 @@',
+    ' const host   = "localhost";  ',
+    '-const port = 8000;',
+    '+const port = 8080;',
+    ' ',
+    ' serve(host, port); // 変更された文脈',
+  ].join('\n'));
+
+  const result = applyHunks(SOURCE, patch.hunks);
+  assert(result.success);
+  assertEquals(result.content, SOURCE.replace('8000', '8080'));
+});
+
+Deno.test('applyHunks: 適用できないハンクがある場合は実際の内容とともに失敗を返す', () => {
+  const [patch] = parsePatch([
+    '--- a/main.ts',
+    '+++ b/main.ts',
+    '@@ -1,1 +1,1 @@',
+    '-import { serve } from "./server.ts";',
+    '+import { serve } from "./http.ts";',
+    '@@ -4,1 +4,1 @@',
+    '-const port = 9000;',
+    '+const port = 8080;',
+  ].join('\n'));
+
+  const result = applyHunks(SOURCE, patch.hunks);
+  assert(!result.success);
+  assertEquals(result.failures.length, 1);
+  assertEquals(result.failures[0].hunk, 2);
+  assertStringIncludes(result.failures[0].actual, '4: const port = 8000;');
+});
+
+Deno.test('applyHunks: CRLFと末尾の改行を維持する', () => {
+  const [patch] = parsePatch('--- a/a.txt\n+++ b/a.txt\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n');
+
+  const result = applyHunks('a\r\nb\r\n', patch.hunks);
+  assert(result.success);
+  assertEquals(result.content, 'a\r\nc\r\n');
+});
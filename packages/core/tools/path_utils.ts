@@ -0,0 +1,21 @@
+import { join, resolve } from '@std/path';
+
+/**
+ * 先頭の ~ をホームディレクトリに展開
+ */
+export function expandHome(path: string): string {
+  const home = Deno.env.get('HOME') ?? Deno.env.get('USERPROFILE');
+  if (home && (path === '~' || path.startsWith('~/') || path.startsWith('~\\'))) {
+    return join(home, path.slice(1));
+  }
+  return path;
+}
+
+/**
+ * ツールに指定されたパスを絶対パスに変換
+ * 権限の判定と実際のアクセスで同じパスを対象にするよう、どちらもこの関数で解決する
+ * @param path 作業ディレクトリからの相対パス、絶対パス、または ~ から始まるパス
+ */
+export function resolveToolPath(path: string, workingDirectory: string): string {
+  return resolve(workingDirectory, expandHome(path));
+}
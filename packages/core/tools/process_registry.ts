@@ -0,0 +1,377 @@
+/**
+ * 標準出力・標準エラー出力ごとに保持する既定の文字数
+ */
+export const DEFAULT_BUFFER_CAPACITY = 64 * 1024;
+
+/**
+ * 1セッションで同時に実行できる既定のプロセス数
+ */
+export const DEFAULT_MAX_PROCESSES_PER_SESSION = 10;
+
+/**
+ * 停止要求後、強制終了するまでの待機時間（ミリ秒）
+ */
+export const STOP_GRACE_PERIOD = 3000;
+
+/**
+ * 古い内容から破棄していく固定容量の出力バッファ
+ * 書き込まれた文字の累計位置で読み出し位置を管理する
+ */
+export class OutputRingBuffer {
+  private data = '';
+  private start = 0;
+  private capacity: number;
+
+  constructor(capacity: number = DEFAULT_BUFFER_CAPACITY) {
+    this.capacity = capacity;
+  }
+
+  /**
+   * 出力を追加し、容量を超えた分を先頭から破棄
+   */
+  append(text: string): void {
+    this.data += text;
+    const overflow = this.data.length - this.capacity;
+    if (overflow > 0) {
+      this.data = this.data.slice(overflow);
+      this.start += overflow;
+    }
+  }
+
+  /**
+   * これまでに書き込まれた文字の累計
+   */
+  get end(): number {
+    return this.start + this.data.length;
+  }
+
+  /**
+   * 指定位置以降の内容を取得
+   * @returns 破棄済みで読み出せなかった文字数と次回の読み出し位置を含む
+   */
+  readFrom(offset: number): { text: string; dropped: number; next: number } {
+    const from = Math.max(offset, this.start);
+    return {
+      text: this.data.slice(from - this.start),
+      dropped: from - offset,
+      next: this.end,
+    };
+  }
+}
+
+/**
+ * プロセス管理のエラー
+ */
+export class ProcessRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProcessRegistryError';
+  }
+}
+
+/**
+ * プロセス起動オプション
+ */
+export interface ProcessStartOptions {
+  sessionId: string;
+  /** 表示用のコマンド文字列 */
+  command: string;
+  program: string;
+  args: string[];
+  cwd: string;
+  /** 環境変数（指定した場合は親プロセスの環境変数を引き継がない） */
+  env?: Record<string, string>;
+}
+
+/**
+ * 管理中のプロセスの情報
+ */
+export interface ProcessInfo {
+  id: string;
+  sessionId: string;
+  command: string;
+  pid: number;
+  status: 'running' | 'exited';
+  exitCode?: number;
+  signal?: string;
+  startedAt: Date;
+  endedAt?: Date;
+}
+
+/**
+ * 前回の読み出し以降に追加された出力
+ */
+export interface ProcessOutput {
+  stdout: string;
+  stderr: string;
+  /** バッファから溢れて読み出せなかった文字数 */
+  droppedStdout: number;
+  droppedStderr: number;
+}
+
+interface ManagedProcess {
+  info: ProcessInfo;
+  child: Deno.ChildProcess;
+  stdin: WritableStreamDefaultWriter<Uint8Array>;
+  stdinClosed: boolean;
+  stdout: OutputRingBuffer;
+  stderr: OutputRingBuffer;
+  stdoutCursor: number;
+  stderrCursor: number;
+  /** プロセスの終了 */
+  exited: Promise<void>;
+  /** プロセスの終了と出力の読み取りの完了 */
+  finished: Promise<void>;
+}
+
+/**
+ * バックグラウンドプロセス管理クラス
+ * セッションごとに起動したプロセスを保持し、出力をリングバッファに蓄積する
+ */
+export class ProcessRegistry {
+  private processes: Map<string, ManagedProcess> = new Map();
+  private nextId = 1;
+  private bufferCapacity: number;
+  private maxProcessesPerSession: number;
+
+  constructor(
+    options: { bufferCapacity?: number; maxProcessesPerSession?: number } = {},
+  ) {
+    this.bufferCapacity = options.bufferCapacity ?? DEFAULT_BUFFER_CAPACITY;
+    this.maxProcessesPerSession = options.maxProcessesPerSession ??
+      DEFAULT_MAX_PROCESSES_PER_SESSION;
+  }
+
+  /**
+   * プロセスを起動して登録
+   */
+  start(options: ProcessStartOptions): ProcessInfo {
+    const running = this.list(options.sessionId).filter((info) => info.status === 'running');
+    if (running.length >= this.maxProcessesPerSession) {
+      throw new ProcessRegistryError(
+        `同時に実行できるプロセスは ${this.maxProcessesPerSession} 個までです。不要なプロセスを停止してください`,
+      );
+    }
+
+    const child = new Deno.Command(options.program, {
+      args: options.args,
+      cwd: options.cwd,
+      env: options.env,
+      clearEnv: options.env !== undefined,
+      stdin: 'piped',
+      stdout: 'piped',
+      stderr: 'piped',
+    }).spawn();
+
+    const id = `proc_${this.nextId++}`;
+    const managed: ManagedProcess = {
+      info: {
+        id,
+        sessionId: options.sessionId,
+        command: options.command,
+        pid: child.pid,
+        status: 'running',
+        startedAt: new Date(),
+      },
+      child,
+      stdin: child.stdin.getWriter(),
+      stdinClosed: false,
+      stdout: new OutputRingBuffer(this.bufferCapacity),
+      stderr: new OutputRingBuffer(this.bufferCapacity),
+      stdoutCursor: 0,
+      stderrCursor: 0,
+      exited: Promise.resolve(),
+      finished: Promise.resolve(),
+    };
+
+    managed.exited = child.status.then((status) => {
+      managed.info.status = 'exited';
+      managed.info.exitCode = status.code;
+      managed.info.signal = status.signal ?? undefined;
+      managed.info.endedAt = new Date();
+      return this.closeStdin(managed);
+    });
+    managed.finished = Promise.all([
+      pump(child.stdout, managed.stdout),
+      pump(child.stderr, managed.stderr),
+      managed.exited,
+    ]).then(() => {});
+
+    this.processes.set(id, managed);
+    return { ...managed.info };
+  }
+
+  /**
+   * プロセス情報を取得
+   */
+  get(id: string, sessionId: string): ProcessInfo {
+    return { ...this.find(id, sessionId).info };
+  }
+
+  /**
+   * セッションのプロセス一覧を取得（終了済みのものを含む）
+   */
+  list(sessionId: string): ProcessInfo[] {
+    return Array.from(this.processes.values())
+      .filter((managed) => managed.info.sessionId === sessionId)
+      .map((managed) => ({ ...managed.info }));
+  }
+
+  /**
+   * 前回の読み出し以降の出力を取得
+   */
+  readOutput(id: string, sessionId: string): ProcessOutput {
+    const managed = this.find(id, sessionId);
+    const stdout = managed.stdout.readFrom(managed.stdoutCursor);
+    const stderr = managed.stderr.readFrom(managed.stderrCursor);
+    managed.stdoutCursor = stdout.next;
+    managed.stderrCursor = stderr.next;
+    return {
+      stdout: stdout.text,
+      stderr: stderr.text,
+      droppedStdout: stdout.dropped,
+      droppedStderr: stderr.dropped,
+    };
+  }
+
+  /**
+   * プロセスが終了するか指定時間が経過するまで待機
+   * @returns 待機中にプロセスが終了した場合はtrue
+   */
+  async waitForExit(id: string, sessionId: string, timeout: number): Promise<boolean> {
+    const managed = this.find(id, sessionId);
+    return await waitFor(managed.finished, timeout);
+  }
+
+  /**
+   * 標準入力に書き込む
+   */
+  async writeInput(
+    id: string,
+    sessionId: string,
+    input: string,
+    closeStdin = false,
+  ): Promise<void> {
+    const managed = this.find(id, sessionId);
+    if (managed.info.status !== 'running') {
+      throw new ProcessRegistryError(`プロセスは既に終了しています: ${id}`);
+    }
+    if (managed.stdinClosed) {
+      throw new ProcessRegistryError(`標準入力は既に閉じられています: ${id}`);
+    }
+
+    if (input) {
+      await managed.stdin.write(new TextEncoder().encode(input));
+    }
+    if (closeStdin) {
+      await this.closeStdin(managed);
+    }
+  }
+
+  /**
+   * プロセスを停止
+   * 停止要求に応じない場合は猶予時間の後に強制終了する
+   */
+  async stop(id: string, sessionId: string, force = false): Promise<ProcessInfo> {
+    const managed = this.find(id, sessionId);
+    await this.terminate(managed, force);
+    return { ...managed.info };
+  }
+
+  /**
+   * セッションが起動したすべてのプロセスを停止して登録を解除
+   * @returns 停止したプロセス数
+   */
+  async stopSession(sessionId: string): Promise<number> {
+    const targets = Array.from(this.processes.values())
+      .filter((managed) => managed.info.sessionId === sessionId);
+    const running = targets.filter((managed) => managed.info.status === 'running').length;
+
+    await Promise.all(targets.map((managed) => this.terminate(managed, false)));
+    for (const managed of targets) {
+      this.processes.delete(managed.info.id);
+    }
+    return running;
+  }
+
+  /**
+   * プロセスを終了させ、出力の読み取りが完了するまで待機
+   * 子孫プロセスが出力を開いたままの場合は読み取りの完了を待ち続けない
+   */
+  private async terminate(managed: ManagedProcess, force: boolean): Promise<void> {
+    if (managed.info.status === 'running') {
+      kill(managed.child, force ? 'SIGKILL' : 'SIGTERM');
+      if (!force && !await waitFor(managed.exited, STOP_GRACE_PERIOD)) {
+        kill(managed.child, 'SIGKILL');
+      }
+    }
+    await managed.exited;
+    await waitFor(managed.finished, STOP_GRACE_PERIOD);
+  }
+
+  /**
+   * 標準入力を閉じる
+   */
+  private async closeStdin(managed: ManagedProcess): Promise<void> {
+    if (managed.stdinClosed) {
+      return;
+    }
+    managed.stdinClosed = true;
+    try {
+      await managed.stdin.close();
+    } catch {
+      // プロセスが既に終了している場合は無視
+    }
+  }
+
+  /**
+   * セッションに属するプロセスを取得
+   */
+  private find(id: string, sessionId: string): ManagedProcess {
+    const managed = this.processes.get(id);
+    if (!managed || managed.info.sessionId !== sessionId) {
+      throw new ProcessRegistryError(`プロセスが見つかりません: ${id}`);
+    }
+    return managed;
+  }
+}
+
+/**
+ * ストリームの内容をバッファに書き込み続ける
+ */
+async function pump(stream: ReadableStream<Uint8Array>, buffer: OutputRingBuffer): Promise<void> {
+  try {
+    for await (const text of stream.pipeThrough(new TextDecoderStream())) {
+      buffer.append(text);
+    }
+  } catch {
+    // プロセス終了時の読み取りエラーは無視
+  }
+}
+
+/**
+ * シグナルを送信
+ */
+export function kill(child: Deno.ChildProcess, signal: Deno.Signal): void {
+  try {
+    child.kill(signal);
+  } catch {
+    // プロセスが既に終了している場合は無視
+  }
+}
+
+/**
+ * Promiseの完了を指定時間まで待機
+ * @returns 時間内に完了した場合はtrue
+ */
+export async function waitFor(promise: Promise<void>, timeout: number): Promise<boolean> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<boolean>((resolve) => {
+    timeoutId = setTimeout(() => resolve(false), timeout);
+  });
+  try {
+    return await Promise.race([promise.then(() => true), timedOut]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,80 @@
+import { assert, assertEquals, assertRejects, assertThrows } from '@std/assert';
+import { OutputRingBuffer, ProcessRegistry, ProcessRegistryError } from './process_registry.ts';
+
+const SESSION = 'session_test';
+
+/**
+ * テスト用にDenoでスクリプトを実行するプロセスを起動
+ */
+function startScript(registry: ProcessRegistry, script: string, sessionId = SESSION) {
+  return registry.start({
+    sessionId,
+    command: script,
+    program: Deno.execPath(),
+    args: ['eval', script],
+    cwd: Deno.cwd(),
+  });
+}
+
+Deno.test('OutputRingBuffer: 容量を超えた古い出力を破棄し、読み出せなかった文字数を返す', () => {
+  const buffer = new OutputRingBuffer(8);
+  buffer.append('abcdef');
+  const first = buffer.readFrom(0);
+  assertEquals(first, { text: 'abcdef', dropped: 0, next: 6 });
+
+  buffer.append('ghijkl');
+  assertEquals(buffer.readFrom(first.next), { text: 'ghijkl', dropped: 0, next: 12 });
+  assertEquals(buffer.readFrom(0), { text: 'efghijkl', dropped: 4, next: 12 });
+});
+
+Deno.test('ProcessRegistry: 出力は前回の読み出し以降の分だけを返す', async () => {
+  const registry = new ProcessRegistry();
+  const { id } = startScript(registry, 'console.log("out"); console.error("err");');
+  try {
+    assert(await registry.waitForExit(id, SESSION, 10000));
+    assertEquals(registry.readOutput(id, SESSION), {
+      stdout: 'out\n',
+      stderr: 'err\n',
+      droppedStdout: 0,
+      droppedStderr: 0,
+    });
+    assertEquals(registry.readOutput(id, SESSION).stdout, '');
+    assertEquals(registry.get(id, SESSION).exitCode, 0);
+  } finally {
+    await registry.stopSession(SESSION);
+  }
+});
+
+Deno.test('ProcessRegistry: 標準入力への書き込みと入力の終了', async () => {
+  const registry = new ProcessRegistry();
+  const { id } = startScript(
+    registry,
+    'const text = await new Response(Deno.stdin.readable).text(); console.log(text.toUpperCase());',
+  );
+  try {
+    await registry.writeInput(id, SESSION, 'hello\n', true);
+    assert(await registry.waitForExit(id, SESSION, 10000));
+    assertEquals(registry.readOutput(id, SESSION).stdout, 'HELLO\n\n');
+    await assertRejects(
+      () => registry.writeInput(id, SESSION, 'again'),
+      ProcessRegistryError,
+    );
+  } finally {
+    await registry.stopSession(SESSION);
+  }
+});
+
+Deno.test('ProcessRegistry: セッション終了時に実行中のプロセスを停止して登録を解除する', async () => {
+  const registry = new ProcessRegistry();
+  startScript(registry, 'setInterval(() => {}, 1000);');
+  const other = startScript(registry, 'setInterval(() => {}, 1000);', 'session_other');
+  try {
+    assertThrows(() => registry.get(other.id, SESSION), ProcessRegistryError);
+
+    assertEquals(await registry.stopSession(SESSION), 1);
+    assertEquals(registry.list(SESSION), []);
+    assertEquals(registry.list('session_other').length, 1);
+  } finally {
+    await registry.stopSession('session_other');
+  }
+});
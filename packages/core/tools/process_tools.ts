@@ -0,0 +1,312 @@
+import { BaseTool } from './base_tool.ts';
+import { ProcessRegistry, ProcessRegistryError } from './process_registry.ts';
+import type { ProcessInfo, ProcessOutput } from './process_registry.ts';
+import { buildCommandInvocation, ShellSyntaxError } from './shell_utils.ts';
+import type {
+  ToolExecutionContext,
+  ToolParameterDefinition,
+  ToolParameters,
+  ToolResult,
+} from '../../interfaces/tool.ts';
+
+/**
+ * 起動直後の出力を待つ既定の時間（ミリ秒）
+ */
+const DEFAULT_START_WAIT = 1000;
+
+/**
+ * 待機時間の上限（ミリ秒）
+ */
+const MAX_WAIT = 60000;
+
+/**
+ * プロセス情報と出力をツール結果の形式にまとめる
+ */
+function describeProcess(info: ProcessInfo, output?: ProcessOutput): Record<string, unknown> {
+  const data: Record<string, unknown> = {
+    id: info.id,
+    command: info.command,
+    pid: info.pid,
+    status: info.status,
+    exitCode: info.exitCode,
+    signal: info.signal,
+    startedAt: info.startedAt.toISOString(),
+    endedAt: info.endedAt?.toISOString(),
+  };
+  if (output) {
+    data.stdout = output.stdout;
+    data.stderr = output.stderr;
+    if (output.droppedStdout > 0 || output.droppedStderr > 0) {
+      data.dropped = { stdout: output.droppedStdout, stderr: output.droppedStderr };
+    }
+  }
+  return data;
+}
+
+/**
+ * 状態の表示名
+ */
+function describeStatus(info: ProcessInfo): string {
+  return info.status === 'running' ? '実行中' : `終了 (終了コード: ${info.exitCode})`;
+}
+
+/**
+ * 待機時間を上限内に丸める
+ */
+function clampWait(wait: number | undefined, fallback: number): number {
+  return Math.min(Math.max(wait ?? fallback, 0), MAX_WAIT);
+}
+
+/**
+ * プロセス管理ツールの共通処理
+ */
+abstract class ProcessTool extends BaseTool {
+  protected registry: ProcessRegistry;
+
+  constructor(registry: ProcessRegistry) {
+    super();
+    this.registry = registry;
+  }
+
+  /**
+   * 実行コンテキストからセッションIDを取得
+   */
+  protected getSessionId(context?: ToolExecutionContext): string {
+    if (!context?.sessionId) {
+      throw new ProcessRegistryError('プロセス管理にはセッションが必要です');
+    }
+    return context.sessionId;
+  }
+
+  /**
+   * エラーをツール結果に変換
+   */
+  protected handleError(prefix: string, error: unknown): ToolResult {
+    if (error instanceof ProcessRegistryError || error instanceof ShellSyntaxError) {
+      return this.error(error.message);
+    }
+    return this.error(`${prefix}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * バックグラウンドプロセス起動ツール
+ */
+export class StartProcessTool extends ProcessTool {
+  override readonly name = 'start_process';
+  override readonly description =
+    '開発サーバーやウォッチャーなどの長時間実行するコマンドをバックグラウンドで起動します';
+  override readonly requiredParameters = ['command'];
+  override readonly optionalParameters = ['workingDirectory', 'wait'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    command: { type: 'string', description: '実行するコマンド' },
+    workingDirectory: { type: 'string', description: '作業ディレクトリ' },
+    wait: {
+      type: 'integer',
+      description: `起動直後の出力を待つ時間（ミリ秒、デフォルト: ${DEFAULT_START_WAIT}）`,
+    },
+  };
+  override readonly dangerous = true;
+  override readonly requiresApproval = true;
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const sessionId = this.getSessionId(context);
+      const command = this.getParameter<string>(parameters, 'command');
+      const workingDirectory = this.getOptionalParameter<string>(
+        parameters,
+        'workingDirectory',
+        context?.workingDirectory || Deno.cwd(),
+      )!;
+      const wait = clampWait(
+        this.getOptionalParameter<number>(parameters, 'wait'),
+        DEFAULT_START_WAIT,
+      );
+
+      if (command.trim().length === 0) {
+        return this.error('コマンドが空です');
+      }
+
+      const { program, args } = buildCommandInvocation(command, context?.shell);
+      const { id } = this.registry.start({
+        sessionId,
+        command,
+        program,
+        args,
+        cwd: workingDirectory,
+        env: context?.environment,
+      });
+
+      await this.registry.waitForExit(id, sessionId, wait);
+      const output = this.registry.readOutput(id, sessionId);
+      const info = this.registry.get(id, sessionId);
+
+      return this.success(
+        describeProcess(info, output),
+        `プロセスを起動しました: ${id} (PID: ${info.pid}, 状態: ${describeStatus(info)})`,
+      );
+    } catch (error) {
+      return this.handleError('プロセス起動エラー', error);
+    }
+  }
+}
+
+/**
+ * バックグラウンドプロセス出力取得ツール
+ */
+export class ReadProcessOutputTool extends ProcessTool {
+  override readonly name = 'read_process_output';
+  override readonly description = 'バックグラウンドプロセスの前回の取得以降の出力を取得します';
+  override readonly requiredParameters = ['id'];
+  override readonly optionalParameters = ['wait'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    id: { type: 'string', description: 'start_process が返したプロセスID' },
+    wait: {
+      type: 'integer',
+      description: '出力を取得する前に待つ時間（ミリ秒、プロセスが終了した場合はすぐに返す）',
+    },
+  };
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const sessionId = this.getSessionId(context);
+      const id = this.getParameter<string>(parameters, 'id');
+      const wait = clampWait(this.getOptionalParameter<number>(parameters, 'wait'), 0);
+
+      if (wait > 0) {
+        await this.registry.waitForExit(id, sessionId, wait);
+      }
+      const output = this.registry.readOutput(id, sessionId);
+      const info = this.registry.get(id, sessionId);
+
+      return this.success(
+        describeProcess(info, output),
+        `プロセスの出力を取得しました: ${id} (状態: ${describeStatus(info)})`,
+      );
+    } catch (error) {
+      return this.handleError('出力取得エラー', error);
+    }
+  }
+}
+
+/**
+ * バックグラウンドプロセス入力送信ツール
+ */
+export class SendProcessInputTool extends ProcessTool {
+  override readonly name = 'send_process_input';
+  override readonly description = 'バックグラウンドプロセスの標準入力にテキストを送信します';
+  override readonly requiredParameters = ['id', 'input'];
+  override readonly optionalParameters = ['appendNewline', 'closeStdin'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    id: { type: 'string', description: 'start_process が返したプロセスID' },
+    input: { type: 'string', description: '送信するテキスト' },
+    appendNewline: {
+      type: 'boolean',
+      description: '末尾に改行を追加するかどうか（デフォルト: true）',
+    },
+    closeStdin: {
+      type: 'boolean',
+      description: '送信後に標準入力を閉じるかどうか（デフォルト: false）',
+    },
+  };
+  override readonly dangerous = true;
+  override readonly requiresApproval = true;
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const sessionId = this.getSessionId(context);
+      const id = this.getParameter<string>(parameters, 'id');
+      const input = String(this.getParameter<unknown>(parameters, 'input'));
+      const appendNewline = this.getOptionalParameter<boolean>(parameters, 'appendNewline', true);
+      const closeStdin = this.getOptionalParameter<boolean>(parameters, 'closeStdin', false);
+
+      await this.registry.writeInput(
+        id,
+        sessionId,
+        appendNewline ? `${input}\n` : input,
+        closeStdin,
+      );
+
+      return this.success(
+        { id, bytes: new TextEncoder().encode(input).length, closeStdin },
+        `入力を送信しました: ${id}${closeStdin ? '（標準入力を閉じました）' : ''}`,
+      );
+    } catch (error) {
+      return this.handleError('入力送信エラー', error);
+    }
+  }
+}
+
+/**
+ * バックグラウンドプロセス一覧ツール
+ */
+export class ListProcessesTool extends ProcessTool {
+  override readonly name = 'list_processes';
+  override readonly description =
+    'このセッションで起動したバックグラウンドプロセスの一覧を取得します';
+  override readonly requiredParameters = [];
+
+  override execute(
+    _parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const processes = this.registry.list(this.getSessionId(context));
+      const running = processes.filter((info) => info.status === 'running').length;
+
+      return Promise.resolve(this.success(
+        { processes: processes.map((info) => describeProcess(info)) },
+        `${processes.length}個のプロセス（実行中: ${running}個）`,
+      ));
+    } catch (error) {
+      return Promise.resolve(this.handleError('プロセス一覧取得エラー', error));
+    }
+  }
+}
+
+/**
+ * バックグラウンドプロセス停止ツール
+ */
+export class StopProcessTool extends ProcessTool {
+  override readonly name = 'stop_process';
+  override readonly description = 'バックグラウンドプロセスを停止します';
+  override readonly requiredParameters = ['id'];
+  override readonly optionalParameters = ['force'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    id: { type: 'string', description: 'start_process が返したプロセスID' },
+    force: {
+      type: 'boolean',
+      description: '終了要求を送らずに強制終了するかどうか（デフォルト: false）',
+    },
+  };
+
+  override async execute(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<ToolResult> {
+    try {
+      const sessionId = this.getSessionId(context);
+      const id = this.getParameter<string>(parameters, 'id');
+      const force = this.getOptionalParameter<boolean>(parameters, 'force', false);
+
+      const info = await this.registry.stop(id, sessionId, force);
+      const output = this.registry.readOutput(id, sessionId);
+
+      return this.success(
+        describeProcess(info, output),
+        `プロセスを停止しました: ${id} (状態: ${describeStatus(info)})`,
+      );
+    } catch (error) {
+      return this.handleError('プロセス停止エラー', error);
+    }
+  }
+}
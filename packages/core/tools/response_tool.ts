@@ -1,5 +1,10 @@
 import { BaseTool } from './base_tool.ts';
-import type { ToolExecutionContext, ToolParameters, ToolResult } from '../../interfaces/tool.ts';
+import type {
+  ToolExecutionContext,
+  ToolParameterDefinition,
+  ToolParameters,
+  ToolResult,
+} from '../../interfaces/tool.ts';
 
 /**
  * ユーザーへの応答表示ツール
@@ -10,6 +15,14 @@ export class RespondToUserTool extends BaseTool {
   override readonly description = 'ユーザーに対して回答や情報を表示するためのツール';
   override readonly requiredParameters = ['message'];
   override readonly optionalParameters = ['type'];
+  override readonly parameterDefinitions: Record<string, ToolParameterDefinition> = {
+    message: { type: 'string', description: 'ユーザーに表示するメッセージ' },
+    type: {
+      type: 'string',
+      description: 'ユーザーの要求を完全に満たせた場合はsuccess、そうでない場合はerror',
+      enum: ['success', 'error'],
+    },
+  };
   override readonly dangerous = false;
   override readonly requiresApproval = false;
 
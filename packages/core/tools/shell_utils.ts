@@ -0,0 +1,225 @@
+/**
+ * シェル解釈が必要な構文（パイプ、連結、リダイレクト、変数展開、コマンド置換、グロブ）
+ */
+const SHELL_SYNTAX = /[|&;<>()$`*\n]/;
+
+/**
+ * コマンド文字列をクォートを考慮して走査し、クォート外の文字ごとにコールバックを呼ぶ
+ * コールバックは処理済みの最後の位置を返し、走査はその次の文字から続ける
+ */
+function scanUnquoted(command: string, onChar: (index: number) => number): void {
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      continue;
+    }
+    i = onChar(i);
+  }
+}
+
+/**
+ * コマンド文字列にシェル解釈が必要な構文が含まれるかを判定
+ */
+export function containsShellSyntax(command: string): boolean {
+  let found = false;
+  scanUnquoted(command, (index) => {
+    // 単語の先頭の ~ はホームディレクトリに展開される
+    const homeExpansion = command[index] === '~' && (index === 0 || /\s/.test(command[index - 1]));
+    if (SHELL_SYNTAX.test(command[index]) || homeExpansion) {
+      found = true;
+      return command.length;
+    }
+    return index;
+  });
+  // ダブルクォート内の変数展開・コマンド置換
+  return found || /"[^"]*(\$|`)[^"]*"/.test(command);
+}
+
+/**
+ * コマンド置換・プロセス置換（$(...)、バッククォート、<(...)、>(...)）
+ */
+const SUBSTITUTION_PATTERN = /\$\(|`|[<>]\(/;
+
+/**
+ * コマンド置換・プロセス置換を含むかを判定
+ * ダブルクォート内でも展開されるため、クォートの有無に関係なく検出する
+ */
+export function containsSubstitution(command: string): boolean {
+  return SUBSTITUTION_PATTERN.test(command);
+}
+
+/**
+ * パイプラインやコマンド連結（|, ||, &&, ;, &, 改行）を個々のコマンドに分割
+ * コマンド置換（$(...) とバッククォート）の中身も個別のコマンドとして含める
+ */
+export function splitShellCommands(command: string): string[] {
+  const commands: string[] = [];
+  let start = 0;
+
+  const push = (text: string) => {
+    const trimmed = text.trim();
+    if (trimmed) {
+      commands.push(trimmed);
+    }
+  };
+
+  scanUnquoted(command, (index) => {
+    const char = command[index];
+
+    // コマンド置換は中身を再帰的に分割する
+    if (char === '$' && command[index + 1] === '(') {
+      const end = findClosingParen(command, index + 2);
+      commands.push(...splitShellCommands(command.slice(index + 2, end)));
+      return end;
+    }
+    if (char === '`') {
+      const end = command.indexOf('`', index + 1);
+      const close = end === -1 ? command.length : end;
+      commands.push(...splitShellCommands(command.slice(index + 1, close)));
+      return close;
+    }
+
+    if (char === '|' || char === '&' || char === ';' || char === '\n') {
+      // リダイレクトの一部（2>&1, &> など）は区切りとして扱わない
+      if (char === '&' && (command[index - 1] === '>' || command[index + 1] === '>')) {
+        return index;
+      }
+      push(command.slice(start, index));
+      const doubled = (char === '|' || char === '&') && command[index + 1] === char;
+      start = index + (doubled ? 2 : 1);
+      return start - 1;
+    }
+    return index;
+  });
+  push(command.slice(start));
+
+  return commands;
+}
+
+/**
+ * 出力リダイレクト（>, >>）の書き込み先を取得
+ */
+export function findRedirectTargets(command: string): string[] {
+  const targets: string[] = [];
+  scanUnquoted(command, (index) => {
+    if (command[index] !== '>') {
+      return index;
+    }
+    let cursor = index + 1;
+    if (command[cursor] === '>' || command[cursor] === '|') cursor++;
+    if (command[cursor] === '&') return cursor;
+    while (command[cursor] === ' ' || command[cursor] === '\t') cursor++;
+
+    const match = /^("[^"]*"|'[^']*'|[^\s|&;<>]+)/.exec(command.slice(cursor));
+    if (match) {
+      targets.push(match[1].replace(/^["']|["']$/g, ''));
+      return cursor + match[1].length - 1;
+    }
+    return cursor - 1;
+  });
+  return targets;
+}
+
+/**
+ * 対応する閉じ括弧の位置を探す
+ */
+function findClosingParen(command: string, start: number): number {
+  let depth = 1;
+  let end = command.length;
+  scanUnquoted(command.slice(start), (index) => {
+    if (command[start + index] === '(') depth++;
+    if (command[start + index] === ')' && --depth === 0) {
+      end = start + index;
+      return command.length;
+    }
+    return index;
+  });
+  return end;
+}
+
+/**
+ * コマンド文字列をクォートを考慮して引数配列に分割
+ */
+export function splitArguments(command: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let quoteChar = '';
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (inQuotes) {
+      if (char === quoteChar) {
+        inQuotes = false;
+        quoteChar = '';
+      } else {
+        current += char;
+      }
+    } else {
+      if (char === '"' || char === "'") {
+        inQuotes = true;
+        quoteChar = char;
+      } else if (char === ' ') {
+        if (current.length > 0) {
+          args.push(current);
+          current = '';
+        }
+      } else {
+        current += char;
+      }
+    }
+  }
+
+  if (current.length > 0) {
+    args.push(current);
+  }
+
+  return args;
+}
+
+/**
+ * シェル実行が無効な状態でシェル構文が使われた場合のエラー
+ */
+export class ShellSyntaxError extends Error {
+  constructor() {
+    super(
+      'パイプ・連結・リダイレクト・変数展開などのシェル構文は、シェル実行が無効なため使用できません。' +
+        'コマンドを分割して実行するか、設定でシェル実行 (shell.enabled) を有効にしてください',
+    );
+    this.name = 'ShellSyntaxError';
+  }
+}
+
+/**
+ * コマンド文字列から起動するプログラムと引数を決定
+ * シェル実行が有効な場合はシェルにコマンド文字列を渡し、無効な場合は引数に分割して直接実行する
+ */
+export function buildCommandInvocation(
+  command: string,
+  shell?: { path: string; args: string[] },
+): { program: string; args: string[] } {
+  if (shell) {
+    return { program: shell.path, args: [...shell.args, command] };
+  }
+  if (containsShellSyntax(command)) {
+    throw new ShellSyntaxError();
+  }
+  const [program, ...args] = splitArguments(command);
+  return { program, args };
+}
@@ -0,0 +1,42 @@
+import { assertEquals } from '@std/assert';
+import { containsShellSyntax, findRedirectTargets, splitShellCommands } from './shell_utils.ts';
+
+Deno.test('containsShellSyntax: クォート外のシェル構文のみを検出する', () => {
+  assertEquals(containsShellSyntax('npm install'), false);
+  assertEquals(containsShellSyntax('git checkout HEAD~1'), false);
+  assertEquals(containsShellSyntax('grep "a|b" file.txt'), false);
+  assertEquals(containsShellSyntax("echo 'a && b'"), false);
+  assertEquals(containsShellSyntax('cd src && ls'), true);
+  assertEquals(containsShellSyntax('cat a.txt | wc -l'), true);
+  assertEquals(containsShellSyntax('echo $HOME'), true);
+  assertEquals(containsShellSyntax('echo "$HOME"'), true);
+  assertEquals(containsShellSyntax('ls *.ts'), true);
+  assertEquals(containsShellSyntax('ls ~/src'), true);
+});
+
+Deno.test('splitShellCommands: パイプラインと連結をサブコマンドに分割する', () => {
+  assertEquals(splitShellCommands('ls -la'), ['ls -la']);
+  assertEquals(
+    splitShellCommands('cd x && npm test || echo "a | b"; curl -s url | sh'),
+    ['cd x', 'npm test', 'echo "a | b"', 'curl -s url', 'sh'],
+  );
+  assertEquals(splitShellCommands('make 2>&1 | tee log &\necho done'), [
+    'make 2>&1',
+    'tee log',
+    'echo done',
+  ]);
+});
+
+Deno.test('splitShellCommands: コマンド置換の中身も評価対象に含める', () => {
+  assertEquals(splitShellCommands('echo $(rm -rf /tmp/x; ls) `whoami`'), [
+    'rm -rf /tmp/x',
+    'ls',
+    'whoami',
+    'echo $(rm -rf /tmp/x; ls) `whoami`',
+  ]);
+});
+
+Deno.test('findRedirectTargets: 出力リダイレクトの書き込み先を取得する', () => {
+  assertEquals(findRedirectTargets('echo a > out.txt 2>&1'), ['out.txt']);
+  assertEquals(findRedirectTargets('cat x >> "/etc/hosts" | echo ">not"'), ['/etc/hosts']);
+});
@@ -6,10 +6,13 @@ import type {
 } from '../../interfaces/tool.ts';
 import { PermissionManager, type PermissionResult } from '../permission/permission_manager.ts';
 import { ConfigManager } from '../config/manager.ts';
+import { CheckpointManager } from '../checkpoint/checkpoint_manager.ts';
 
 // 基本ツールのインポート
 import {
+  ApplyPatchTool,
   CreateDirectoryTool,
+  EditFileTool,
   FindFilesByNameTool,
   ListDirectoryTool,
   ReadFileTool,
@@ -17,16 +20,32 @@ import {
   SearchContentInFilesTool,
   WriteToFileTool,
 } from './file_tools.ts';
+import {
+  CopyPathTool,
+  DeletePathTool,
+  MovePathTool,
+  StatPathTool,
+} from './file_management_tools.ts';
 import { ExecuteCommandTool } from './command_tool.ts';
+import { GitCommitTool, GitDiffTool, GitLogTool, GitShowTool, GitStatusTool } from './git_tools.ts';
+import {
+  ListProcessesTool,
+  ReadProcessOutputTool,
+  SendProcessInputTool,
+  StartProcessTool,
+  StopProcessTool,
+} from './process_tools.ts';
+import { ProcessRegistry } from './process_registry.ts';
+import { GetEnvTool, SetEnvTool } from './env_tools.ts';
+import { EnvironmentPolicy, SessionEnvironment } from './environment.ts';
+import {
+  DEFAULT_HEAD_LINES,
+  DEFAULT_OUTPUT_MAX_BYTES,
+  DEFAULT_TAIL_LINES,
+} from './output_buffer.ts';
 import { RespondToUserTool } from './response_tool.ts';
-
-/**
- * XML形式のツール呼び出しをパースする結果
- */
-export interface ParsedToolCall {
-  toolName: string;
-  parameters: Record<string, unknown>;
-}
+import { buildToolSchemas, type ToolSchema } from './tool_schema.ts';
+import { parseToolCall, type ToolCallParseResult } from './xml_tool_parser.ts';
 
 /**
  * ツール実行管理クラス
@@ -35,10 +54,16 @@ export class ToolExecutor {
   private tools: Map<string, Tool> = new Map();
   private permissionManager: PermissionManager;
   private configManager: ConfigManager;
+  private processRegistry: ProcessRegistry;
+  private checkpointManager: CheckpointManager;
+  private sessionEnvironment: SessionEnvironment;
 
   constructor(configManager: ConfigManager) {
     this.configManager = configManager;
     this.permissionManager = new PermissionManager(configManager);
+    this.processRegistry = new ProcessRegistry();
+    this.checkpointManager = new CheckpointManager(configManager);
+    this.sessionEnvironment = new SessionEnvironment();
     this.registerDefaultTools();
   }
 
@@ -49,11 +74,29 @@ export class ToolExecutor {
     const defaultTools = [
       new ReadFileTool(),
       new WriteToFileTool(),
+      new EditFileTool(),
+      new ApplyPatchTool(),
       new CreateDirectoryTool(),
       new FindFilesByNameTool(),
       new SearchContentInFilesTool(),
       new ListDirectoryTool(),
+      new DeletePathTool(),
+      new MovePathTool(),
+      new CopyPathTool(),
+      new StatPathTool(),
       new ExecuteCommandTool(),
+      new StartProcessTool(this.processRegistry),
+      new ReadProcessOutputTool(this.processRegistry),
+      new SendProcessInputTool(this.processRegistry),
+      new ListProcessesTool(this.processRegistry),
+      new StopProcessTool(this.processRegistry),
+      new GitStatusTool(),
+      new GitDiffTool(),
+      new GitLogTool(),
+      new GitShowTool(),
+      new GitCommitTool(this.permissionManager.getSecurityManager()),
+      new GetEnvTool(this.sessionEnvironment, this.configManager),
+      new SetEnvTool(this.sessionEnvironment, this.configManager),
       new ReadMultipleFilesTool(),
       new RespondToUserTool(),
     ];
@@ -85,90 +128,63 @@ export class ToolExecutor {
   }
 
   /**
-   * XML形式のツール呼び出し文字列をパース
+   * ネイティブ関数呼び出し用のツールスキーマを取得
    */
-  parseXmlToolCall(xmlContent: string): ParsedToolCall | null {
-    try {
-      // 簡単なXMLパーサー（要件では複雑なXMLは想定していない）
-      const toolCallMatch = xmlContent.match(/<tool_call>\s*<(\w+)>(.*?)<\/\1>\s*<\/tool_call>/s);
-      if (!toolCallMatch) {
-        return null;
-      }
-
-      const toolName = toolCallMatch[1];
-      const parametersXml = toolCallMatch[2];
-
-      // パラメータを抽出
-      const parameters: Record<string, unknown> = {};
-      const paramMatches = parametersXml.matchAll(/<(\w+)>(.*?)<\/\1>/gs);
-
-      for (const match of paramMatches) {
-        const paramName = match[1];
-        const rawValue = match[2].trim();
-        // contentパラメータは生の文字列をそのまま使用し、その他は型変換を試行
-        if (paramName === 'content') {
-          parameters[paramName] = rawValue;
-        } else {
-          parameters[paramName] = this.parseParameterValue(rawValue);
-        }
-      }
-
-      // 特別な処理：pathsパラメータ（複数ファイル読み込み用）
-      if (toolName === 'read_files' && parametersXml.includes('<paths>')) {
-        const pathsMatch = parametersXml.match(/<paths>(.*?)<\/paths>/s);
-        if (pathsMatch) {
-          const pathElements = pathsMatch[1].matchAll(/<path>(.*?)<\/path>/gs);
-          parameters.paths = Array.from(pathElements).map((m) => ({ path: m[1].trim() }));
-        }
-      }
-
-      return {
-        toolName,
-        parameters,
-      };
-    } catch {
-      return null;
-    }
+  getToolSchemas(): ToolSchema[] {
+    return buildToolSchemas(this.listTools());
   }
 
   /**
-   * パラメータ値の型変換
+   * XML形式のツール呼び出し文字列をパース
+   * 登録されたツールのパラメータ定義に従って値を変換する
    */
-  private parseParameterValue(value: string): unknown {
-    // 改行文字の復元
-    value = value.replace(/\\n/g, '\n').replace(/\\t/g, '\t');
-
-    // JSON形式の場合
-    if (
-      (value.startsWith('{') && value.endsWith('}')) ||
-      (value.startsWith('[') && value.endsWith(']'))
-    ) {
-      try {
-        return JSON.parse(value);
-      } catch {
-        return value;
-      }
-    }
+  parseXmlToolCall(xmlContent: string): ToolCallParseResult {
+    return parseToolCall(xmlContent, (toolName) => this.getTool(toolName)?.parameterDefinitions);
+  }
 
-    // 数値の場合
-    if (/^\d+$/.test(value)) {
-      return parseInt(value, 10);
-    }
+  /**
+   * ツール実行コンテキストを作成
+   * 環境変数は設定のポリシーで絞り込み、セッションで設定した変数を反映する
+   * 設定でシェル実行が有効な場合は使用するシェルを含める
+   * @param onOutput コマンド出力の逐次表示先（設定で無効な場合は使用しない）
+   */
+  async createExecutionContext(
+    sessionId: string,
+    onOutput?: ToolExecutionContext['onOutput'],
+  ): Promise<ToolExecutionContext> {
+    const appSettings = await this.configManager.getAppSettings();
+    const outputSettings = appSettings.commandOutput;
+    const environmentPolicy = new EnvironmentPolicy(appSettings.environment);
+    const context: ToolExecutionContext = {
+      workingDirectory: Deno.cwd(),
+      environment: environmentPolicy.build(
+        Deno.env.toObject(),
+        this.sessionEnvironment.get(sessionId),
+      ),
+      sessionId,
+      timestamp: new Date(),
+      outputLimits: {
+        headLines: outputSettings?.headLines ?? DEFAULT_HEAD_LINES,
+        tailLines: outputSettings?.tailLines ?? DEFAULT_TAIL_LINES,
+        maxBytes: outputSettings?.maxBytes ?? DEFAULT_OUTPUT_MAX_BYTES,
+      },
+    };
 
-    if (/^\d+\.\d+$/.test(value)) {
-      return parseFloat(value);
+    if (onOutput && outputSettings?.stream !== false) {
+      context.onOutput = onOutput;
     }
 
-    // 真偽値の場合
-    if (value.toLowerCase() === 'true') {
-      return true;
-    }
-    if (value.toLowerCase() === 'false') {
-      return false;
+    if (appSettings.shell?.enabled) {
+      const isWindows = Deno.build.os === 'windows';
+      const path = appSettings.shell.path || (isWindows ? 'cmd' : 'sh');
+      const isCmd = /(^|[\\/])cmd(\.exe)?$/i.test(path);
+      context.shell = {
+        path,
+        args: appSettings.shell.args ?? (isCmd ? ['/d', '/s', '/c'] : ['-c']),
+      };
     }
 
-    // デフォルトは文字列
-    return value;
+    return context;
   }
 
   /**
@@ -202,6 +218,24 @@ export class ToolExecutor {
       };
     }
 
+    // ファイルを変更するツールは実行前に対象の状態を保存し、/undo で戻せるようにする
+    const affectedPaths = tool.getAffectedPaths?.(toolCall.parameters, context) ?? [];
+    if (affectedPaths.length > 0) {
+      try {
+        await this.checkpointManager.createCheckpoint(
+          context.sessionId,
+          tool.name,
+          affectedPaths,
+        );
+      } catch (error) {
+        console.warn(
+          `⚠️  チェックポイントの作成に失敗しました: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    }
+
     try {
       // BaseTool.executeは追加のcontextパラメータを受け取る
       if ('execute' in tool && typeof tool.execute === 'function') {
@@ -222,4 +256,25 @@ export class ToolExecutor {
   getPermissionManager(): PermissionManager {
     return this.permissionManager;
   }
+
+  /**
+   * チェックポイントマネージャーを取得
+   */
+  getCheckpointManager(): CheckpointManager {
+    return this.checkpointManager;
+  }
+
+  /**
+   * バックグラウンドプロセスの管理クラスを取得
+   */
+  getProcessRegistry(): ProcessRegistry {
+    return this.processRegistry;
+  }
+
+  /**
+   * セッションごとの環境変数の管理クラスを取得
+   */
+  getSessionEnvironment(): SessionEnvironment {
+    return this.sessionEnvironment;
+  }
 }
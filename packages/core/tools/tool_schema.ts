@@ -0,0 +1,87 @@
+import type { Tool, ToolParameterDefinition } from '../../interfaces/tool.ts';
+
+/**
+ * JSON Schemaの型定義（ツールパラメータ用の最小限のサブセット）
+ */
+export interface JsonSchema {
+  type: string;
+  description?: string;
+  enum?: string[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+/**
+ * プロバイダー非依存のツールスキーマ
+ */
+export interface ToolSchema {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+/**
+ * パラメータ定義をJSON Schemaに変換
+ */
+function toJsonSchema(definition: ToolParameterDefinition): JsonSchema {
+  const schema: JsonSchema = { type: definition.type };
+
+  if (definition.description) {
+    schema.description = definition.description;
+  }
+  if (definition.enum) {
+    schema.enum = definition.enum;
+  }
+  if (definition.items) {
+    schema.items = toJsonSchema(definition.items);
+  }
+  if (definition.properties) {
+    schema.properties = {};
+    for (const [key, value] of Object.entries(definition.properties)) {
+      schema.properties[key] = toJsonSchema(value);
+    }
+    if (definition.required && definition.required.length > 0) {
+      schema.required = definition.required;
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * 登録されたツールからスキーマを生成
+ */
+export function buildToolSchema(tool: Tool): ToolSchema {
+  const definitions = tool.parameterDefinitions ?? {};
+  const properties: Record<string, JsonSchema> = {};
+  const parameterNames = [...tool.requiredParameters, ...(tool.optionalParameters ?? [])];
+
+  for (const name of parameterNames) {
+    // 型定義のないパラメータは文字列として扱う
+    properties[name] = toJsonSchema(definitions[name] ?? { type: 'string' });
+  }
+
+  const parameters: JsonSchema = {
+    type: 'object',
+    properties,
+    additionalProperties: false,
+  };
+  if (tool.requiredParameters.length > 0) {
+    parameters.required = [...tool.requiredParameters];
+  }
+
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters,
+  };
+}
+
+/**
+ * 複数ツールのスキーマを生成
+ */
+export function buildToolSchemas(tools: Tool[]): ToolSchema[] {
+  return tools.map((tool) => buildToolSchema(tool));
+}
@@ -0,0 +1,79 @@
+import { assertEquals } from '@std/assert';
+import type { Tool } from '../../interfaces/tool.ts';
+import { buildToolSchema } from './tool_schema.ts';
+
+function createTool(overrides: Partial<Tool>): Tool {
+  return {
+    name: 'test_tool',
+    description: 'テスト用のツール',
+    requiredParameters: [],
+    dangerous: false,
+    requiresApproval: false,
+    execute: () => Promise.resolve({ success: true }),
+    validateParameters: () => true,
+    ...overrides,
+  };
+}
+
+Deno.test('buildToolSchema: 配列・列挙値・オブジェクトのパラメータをJSON Schemaに変換する', () => {
+  const schema = buildToolSchema(createTool({
+    requiredParameters: ['paths', 'type'],
+    optionalParameters: ['options', 'note'],
+    parameterDefinitions: {
+      paths: { type: 'array', description: 'ファイルパス', items: { type: 'string' } },
+      type: { type: 'string', enum: ['success', 'error'] },
+      options: {
+        type: 'object',
+        properties: {
+          recursive: { type: 'boolean' },
+          depth: { type: 'number', description: '深さ' },
+        },
+        required: ['recursive'],
+      },
+    },
+  }));
+
+  assertEquals(schema, {
+    name: 'test_tool',
+    description: 'テスト用のツール',
+    parameters: {
+      type: 'object',
+      properties: {
+        paths: { type: 'array', description: 'ファイルパス', items: { type: 'string' } },
+        type: { type: 'string', enum: ['success', 'error'] },
+        options: {
+          type: 'object',
+          properties: {
+            recursive: { type: 'boolean' },
+            depth: { type: 'number', description: '深さ' },
+          },
+          required: ['recursive'],
+        },
+        // 型定義のないパラメータは文字列として扱う
+        note: { type: 'string' },
+      },
+      additionalProperties: false,
+      required: ['paths', 'type'],
+    },
+  });
+});
+
+Deno.test('buildToolSchema: 必須パラメータがない場合は required を出力しない', () => {
+  const schema = buildToolSchema(createTool({
+    optionalParameters: ['items'],
+    parameterDefinitions: {
+      items: {
+        type: 'array',
+        items: { type: 'object', properties: { name: { type: 'string' } }, required: [] },
+      },
+    },
+  }));
+
+  assertEquals(schema.parameters, {
+    type: 'object',
+    properties: {
+      items: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' } } } },
+    },
+    additionalProperties: false,
+  });
+});
@@ -0,0 +1,449 @@
+import type { ToolParameterDefinition } from '../../interfaces/tool.ts';
+
+const TOOL_CALL_OPEN = '<tool_call>';
+const TOOL_CALL_CLOSE = '</tool_call>';
+const CDATA_OPEN = '<![CDATA[';
+const CDATA_CLOSE = ']]>';
+
+/**
+ * バックトラックの上限（異常な入力で処理が終わらなくなるのを防ぐ）
+ */
+const MAX_PARSE_STEPS = 100000;
+
+/**
+ * ツール呼び出しのパース結果
+ */
+export type ToolCallParseResult =
+  /** <tool_call> ブロックが存在しない */
+  | { status: 'none' }
+  /** <tool_call> ブロックが閉じられていない（ストリーミング途中など） */
+  | { status: 'incomplete' }
+  /** 構文エラー */
+  | { status: 'error'; message: string; position: number; line: number; column: number }
+  /** パース成功 */
+  | {
+    status: 'ok';
+    toolName: string;
+    parameters: Record<string, unknown>;
+    /** <tool_call> ブロックの開始位置 */
+    start: number;
+    /** </tool_call> 直後の位置 */
+    end: number;
+  };
+
+/**
+ * ツール名からパラメータ定義を取得する関数
+ */
+export type ParameterDefinitionLookup = (
+  toolName: string,
+) => Record<string, ToolParameterDefinition> | undefined;
+
+/**
+ * パース失敗（バックトラックのために例外として扱う）
+ */
+class ParseFailure {
+  constructor(
+    readonly message: string,
+    readonly position: number,
+    readonly incomplete: boolean = false,
+  ) {}
+}
+
+type Continuation<T> = (position: number, value: T) => number;
+
+/**
+ * ツール呼び出しXMLパーサー
+ *
+ * system_prompt.ts のツール呼び出し形式を解釈する。
+ * - 文字列型のパラメータは生テキストとして扱い、値に終了タグと同じ文字列が含まれていても
+ *   後続の構文が成立する終了タグまでを値とみなす（バックトラック）
+ * - <![CDATA[ ... ]]> で囲まれた値はそのまま使用する
+ * - 配列・オブジェクト型は子要素またはJSONで指定できる
+ * - 入力が途中で終わっている場合は incomplete を返す
+ */
+class ToolCallParser {
+  private steps = 0;
+  private furthestFailure: ParseFailure | null = null;
+
+  constructor(private readonly text: string) {}
+
+  parse(lookup: ParameterDefinitionLookup): ToolCallParseResult {
+    const start = this.text.indexOf(TOOL_CALL_OPEN);
+    if (start === -1) {
+      return { status: 'none' };
+    }
+
+    try {
+      let toolName = '';
+      let parameters: Record<string, unknown> = {};
+
+      let position = this.skipWhitespace(start + TOOL_CALL_OPEN.length);
+      const open = this.readOpenTag(position, 'ツール名の開始タグ');
+      toolName = open.name;
+
+      const end = this.parseElements(
+        open.end,
+        lookup(toolName),
+        `</${toolName}>`,
+        {},
+        (afterTool, params) => {
+          position = this.skipWhitespace(afterTool);
+          this.expectLiteral(position, TOOL_CALL_CLOSE);
+          const callEnd = position + TOOL_CALL_CLOSE.length;
+
+          // 後続テキストに対応する開始タグのない </tool_call> が残る場合は、
+          // 値の途中で区切ってしまっているとみなしてより長い候補を試す
+          const rest = this.text.slice(callEnd);
+          const nextClose = rest.indexOf(TOOL_CALL_CLOSE);
+          const nextOpen = rest.indexOf(TOOL_CALL_OPEN);
+          if (nextClose !== -1 && (nextOpen === -1 || nextClose < nextOpen)) {
+            throw new ParseFailure('ツール呼び出しの終了位置が曖昧です', callEnd + nextClose);
+          }
+
+          parameters = params;
+          return callEnd;
+        },
+      );
+
+      return { status: 'ok', toolName, parameters, start, end };
+    } catch (error) {
+      if (!(error instanceof ParseFailure)) {
+        throw error;
+      }
+      const failure = this.furthestFailure ?? error;
+      if (failure.incomplete) {
+        return { status: 'incomplete' };
+      }
+      const { line, column } = this.lineColumn(failure.position);
+      return {
+        status: 'error',
+        message: `${failure.message} (${line}行目 ${column}列目)`,
+        position: failure.position,
+        line,
+        column,
+      };
+    }
+  }
+
+  /**
+   * 子要素の並びを閉じタグまでパース
+   */
+  private parseElements(
+    position: number,
+    definitions: Record<string, ToolParameterDefinition> | undefined,
+    closeTag: string,
+    accumulated: Record<string, unknown>,
+    next: Continuation<Record<string, unknown>>,
+  ): number {
+    this.step();
+    position = this.skipWhitespace(position);
+
+    if (this.text.startsWith(closeTag, position)) {
+      return next(position + closeTag.length, accumulated);
+    }
+
+    const open = this.readOpenTag(position, `パラメータの開始タグまたは ${closeTag}`);
+    if (open.name in accumulated) {
+      this.fail(`パラメータ <${open.name}> が重複しています`, position);
+    }
+
+    return this.parseValue(
+      open.end,
+      open.name,
+      definitions?.[open.name],
+      (afterValue, value) =>
+        this.parseElements(
+          afterValue,
+          definitions,
+          closeTag,
+          { ...accumulated, [open.name]: value },
+          next,
+        ),
+    );
+  }
+
+  /**
+   * パラメータ値をパース（終了タグの直後の位置で継続を呼び出す）
+   */
+  private parseValue(
+    position: number,
+    name: string,
+    definition: ToolParameterDefinition | undefined,
+    next: Continuation<unknown>,
+  ): number {
+    this.step();
+    const closeTag = `</${name}>`;
+
+    // CDATAセクション
+    const cdataStart = this.skipWhitespace(position);
+    if (this.text.startsWith(CDATA_OPEN, cdataStart)) {
+      let value = '';
+      let cursor = cdataStart;
+      while (this.text.startsWith(CDATA_OPEN, cursor)) {
+        const cdataEnd = this.text.indexOf(CDATA_CLOSE, cursor + CDATA_OPEN.length);
+        if (cdataEnd === -1) {
+          this.fail(`<${name}> のCDATAセクションが閉じられていません`, cursor, true);
+        }
+        value += this.text.slice(cursor + CDATA_OPEN.length, cdataEnd);
+        cursor = this.skipWhitespace(cdataEnd + CDATA_CLOSE.length);
+      }
+      this.expectLiteral(cursor, closeTag);
+      return next(
+        cursor + closeTag.length,
+        this.convertText(value, name, definition, cdataStart, true),
+      );
+    }
+
+    // 配列・オブジェクトは子要素で指定可能
+    if (definition?.type === 'array' && this.text.startsWith('<', cdataStart)) {
+      return this.parseArrayItems(cdataStart, name, definition.items, closeTag, [], next);
+    }
+    if (definition?.type === 'object' && this.text.startsWith('<', cdataStart)) {
+      return this.parseElements(cdataStart, definition.properties, closeTag, {}, next);
+    }
+
+    // 生テキスト: 後続の構文が成立する終了タグを先頭から順に試す
+    let candidate = this.text.indexOf(closeTag, position);
+    if (candidate === -1) {
+      this.fail(`パラメータ <${name}> の終了タグ ${closeTag} が見つかりません`, position, true);
+    }
+
+    let lastFailure: unknown;
+    while (candidate !== -1) {
+      this.step();
+      try {
+        const value = this.convertText(
+          this.text.slice(position, candidate),
+          name,
+          definition,
+          position,
+          false,
+        );
+        return next(candidate + closeTag.length, value);
+      } catch (error) {
+        if (!(error instanceof ParseFailure)) {
+          throw error;
+        }
+        lastFailure = error;
+        // 文字列以外の値は最初の終了タグで確定する
+        if (definition && definition.type !== 'string') {
+          break;
+        }
+      }
+      candidate = this.text.indexOf(closeTag, candidate + 1);
+    }
+    throw lastFailure;
+  }
+
+  /**
+   * 配列の子要素をパース
+   */
+  private parseArrayItems(
+    position: number,
+    name: string,
+    itemDefinition: ToolParameterDefinition | undefined,
+    closeTag: string,
+    accumulated: unknown[],
+    next: Continuation<unknown>,
+  ): number {
+    this.step();
+    position = this.skipWhitespace(position);
+
+    if (this.text.startsWith(closeTag, position)) {
+      return next(position + closeTag.length, accumulated);
+    }
+
+    const open = this.readOpenTag(position, `<${name}> の要素の開始タグまたは ${closeTag}`);
+    return this.parseValue(
+      open.end,
+      open.name,
+      itemDefinition,
+      (afterItem, item) =>
+        this.parseArrayItems(
+          afterItem,
+          name,
+          itemDefinition,
+          closeTag,
+          [...accumulated, item],
+          next,
+        ),
+    );
+  }
+
+  /**
+   * テキスト値を定義された型に変換
+   */
+  private convertText(
+    raw: string,
+    name: string,
+    definition: ToolParameterDefinition | undefined,
+    position: number,
+    isCdata: boolean,
+  ): unknown {
+    const trimmed = raw.trim();
+
+    if (!definition) {
+      return inferParameterValue(isCdata ? raw : normalizeStringValue(raw));
+    }
+
+    switch (definition.type) {
+      case 'string': {
+        const value = isCdata ? raw : normalizeStringValue(raw);
+        if (definition.enum && !definition.enum.includes(value)) {
+          this.fail(
+            `パラメータ <${name}> には ${definition.enum.join(', ')} のいずれかを指定してください`,
+            position,
+          );
+        }
+        return value;
+      }
+      case 'integer':
+      case 'number': {
+        const pattern = definition.type === 'integer' ? /^-?\d+$/ : /^-?\d+(\.\d+)?$/;
+        if (!pattern.test(trimmed)) {
+          this.fail(`パラメータ <${name}> は数値で指定してください: "${trimmed}"`, position);
+        }
+        return Number(trimmed);
+      }
+      case 'boolean': {
+        const lower = trimmed.toLowerCase();
+        if (lower !== 'true' && lower !== 'false') {
+          this.fail(`パラメータ <${name}> は true または false で指定してください`, position);
+        }
+        return lower === 'true';
+      }
+      case 'array':
+      case 'object': {
+        try {
+          const parsed = JSON.parse(trimmed);
+          const isArray = Array.isArray(parsed);
+          if ((definition.type === 'array') !== isArray || typeof parsed !== 'object') {
+            throw new Error('型が一致しません');
+          }
+          return parsed;
+        } catch {
+          return this.fail(
+            `パラメータ <${name}> は${
+              definition.type === 'array' ? '配列' : 'オブジェクト'
+            }（子要素またはJSON）で指定してください`,
+            position,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * 開始タグを読み取る
+   */
+  private readOpenTag(position: number, expected: string): { name: string; end: number } {
+    const match = /^<([A-Za-z_][\w.-]*)>/.exec(this.text.slice(position, position + 256));
+    if (!match) {
+      const rest = this.text.slice(position);
+      // 入力の末尾で途切れている場合は継続を待つ
+      const incomplete = /^(<\/?[\w.-]*)?$/.test(rest);
+      this.fail(`${expected}が必要です`, position, incomplete);
+    }
+    return { name: match[1], end: position + match[0].length };
+  }
+
+  /**
+   * 指定された文字列が続くことを確認
+   */
+  private expectLiteral(position: number, literal: string): void {
+    if (!this.text.startsWith(literal, position)) {
+      const rest = this.text.slice(position);
+      this.fail(`${literal} が必要です`, position, literal.startsWith(rest));
+    }
+  }
+
+  private skipWhitespace(position: number): number {
+    while (position < this.text.length && /\s/.test(this.text[position])) {
+      position++;
+    }
+    return position;
+  }
+
+  private step(): void {
+    if (++this.steps > MAX_PARSE_STEPS) {
+      throw new ParseFailure('ツール呼び出しが複雑すぎて解析できません', this.text.length);
+    }
+  }
+
+  private fail(message: string, position: number, incomplete = false): never {
+    const failure = new ParseFailure(message, position, incomplete);
+    if (
+      !this.furthestFailure || position > this.furthestFailure.position ||
+      (position === this.furthestFailure.position && incomplete)
+    ) {
+      this.furthestFailure = failure;
+    }
+    throw failure;
+  }
+
+  private lineColumn(position: number): { line: number; column: number } {
+    const before = this.text.slice(0, position).split('\n');
+    return { line: before.length, column: before[before.length - 1].length + 1 };
+  }
+}
+
+/**
+ * 文字列パラメータの前後の空白を正規化
+ * 1行の値は前後の空白を除去し、複数行の値は開始タグ直後の改行のみを除去する
+ */
+function normalizeStringValue(raw: string): string {
+  const trimmed = raw.trim();
+  if (!trimmed.includes('\n')) {
+    return trimmed;
+  }
+  return raw.replace(/^[ \t]*\r?\n/, '');
+}
+
+/**
+ * 型定義のないパラメータの値を推定して変換
+ */
+export function inferParameterValue(value: string): unknown {
+  const trimmed = value.trim();
+
+  // JSON形式の場合
+  if (
+    (trimmed.startsWith('{') && trimmed.endsWith('}')) ||
+    (trimmed.startsWith('[') && trimmed.endsWith(']'))
+  ) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return value;
+    }
+  }
+
+  // 数値の場合
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10);
+  }
+
+  if (/^\d+\.\d+$/.test(trimmed)) {
+    return parseFloat(trimmed);
+  }
+
+  // 真偽値の場合
+  if (trimmed.toLowerCase() === 'true') {
+    return true;
+  }
+  if (trimmed.toLowerCase() === 'false') {
+    return false;
+  }
+
+  // デフォルトは文字列
+  return value;
+}
+
+/**
+ * テキストから最初のツール呼び出しをパース
+ */
+export function parseToolCall(
+  text: string,
+  lookup: ParameterDefinitionLookup = () => undefined,
+): ToolCallParseResult {
+  return new ToolCallParser(text).parse(lookup);
+}
@@ -0,0 +1,232 @@
+import { assert, assertEquals, assertStringIncludes } from '@std/assert';
+import type { ToolParameterDefinition } from '../../interfaces/tool.ts';
+import { parseToolCall } from './xml_tool_parser.ts';
+
+const DEFINITIONS: Record<string, Record<string, ToolParameterDefinition>> = {
+  write_to_file: {
+    path: { type: 'string' },
+    content: { type: 'string' },
+    overwrite: { type: 'boolean' },
+  },
+  read_files: {
+    paths: { type: 'array', items: { type: 'string' } },
+  },
+  edit_file: {
+    path: { type: 'string' },
+    edits: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { oldText: { type: 'string' }, newText: { type: 'string' } },
+      },
+    },
+  },
+  read_file: {
+    path: { type: 'string' },
+    startLine: { type: 'integer' },
+  },
+};
+
+const lookup = (toolName: string) => DEFINITIONS[toolName];
+
+function writeCall(path: string, content: string): string {
+  return `<tool_call>\n<write_to_file>\n<path>${path}</path>\n<content>${content}</content>\n` +
+    `<overwrite>true</overwrite>\n</write_to_file>\n</tool_call>`;
+}
+
+/**
+ * 再現可能な疑似乱数生成器（mulberry32）
+ */
+function random(seed: number): () => number {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const FRAGMENTS = [
+  'a',
+  'xyz',
+  ' ',
+  '\n',
+  '\\n',
+  '\t',
+  '<',
+  '>',
+  '&amp;',
+  '</content>',
+  '<content>',
+  '</path>',
+  '</write_to_file>',
+  '</tool_call>',
+  '<tool_call>',
+  '<div class="x">',
+  '</div>',
+  ']]>',
+  '<![CDATA[',
+  '{"a": 1}',
+  '日本語',
+];
+
+function randomText(next: () => number, maxFragments: number): string {
+  const count = Math.floor(next() * maxFragments);
+  let text = '';
+  for (let i = 0; i < count; i++) {
+    text += FRAGMENTS[Math.floor(next() * FRAGMENTS.length)];
+  }
+  return text;
+}
+
+/**
+ * 生テキストとして往復可能な値（空白の正規化の影響を受けない値）に整える
+ */
+function stableValue(text: string): string {
+  const value = `x${text}x`;
+  return value.trim().includes('\n') ? value : value.trim();
+}
+
+Deno.test('parseToolCall: 基本的なツール呼び出しを型定義に従って変換する', () => {
+  const result = parseToolCall(
+    '説明文\n<tool_call>\n<read_file>\n<path>src/main.ts</path>\n<startLine>10</startLine>\n' +
+      '</read_file>\n</tool_call>',
+    lookup,
+  );
+
+  assert(result.status === 'ok');
+  assertEquals(result.toolName, 'read_file');
+  assertEquals(result.parameters, { path: 'src/main.ts', startLine: 10 });
+});
+
+Deno.test('parseToolCall: 値に終了タグやXMLを含む文字列パラメータを切り詰めない', () => {
+  const content = 'const a = "</content>";\n<div>\n  <p>text</p>\n</div>\n';
+  const result = parseToolCall(writeCall('a.tsx', content), lookup);
+
+  assert(result.status === 'ok');
+  assertEquals(result.parameters.content, content);
+  assertEquals(result.parameters.overwrite, true);
+});
+
+Deno.test('parseToolCall: ツール呼び出し形式そのものを含む内容を扱える', () => {
+  const content = writeCall('inner.txt', 'inner') + '\n';
+  const result = parseToolCall(writeCall('docs.md', content), lookup);
+
+  assert(result.status === 'ok');
+  assertEquals(result.parameters.path, 'docs.md');
+  assertEquals(result.parameters.content, content);
+});
+
+Deno.test('parseToolCall: CDATAセクションの内容をそのまま使用する', () => {
+  const result = parseToolCall(
+    writeCall('a.html', '<![CDATA[\n<html>\\n</content></html>\n]]>'),
+    lookup,
+  );
+
+  assert(result.status === 'ok');
+  assertEquals(result.parameters.content, '\n<html>\\n</content></html>\n');
+});
+
+Deno.test('parseToolCall: エスケープされた改行を変換しない', () => {
+  const result = parseToolCall(writeCall('a.ts', 'console.log("a\\nb");'), lookup);
+
+  assert(result.status === 'ok');
+  assertEquals(result.parameters.content, 'console.log("a\\nb");');
+});
+
+Deno.test('parseToolCall: 子要素による配列とオブジェクトを解釈する', () => {
+  const files = parseToolCall(
+    '<tool_call><read_files><paths>\n<path>a.ts</path>\n<path>b.ts</path>\n</paths>' +
+      '</read_files></tool_call>',
+    lookup,
+  );
+  assert(files.status === 'ok');
+  assertEquals(files.parameters.paths, ['a.ts', 'b.ts']);
+
+  const edit = parseToolCall(
+    '<tool_call><edit_file><path>a.ts</path><edits>\n<edit>\n<oldText>a</oldText>\n' +
+      '<newText></newText></newText>\n</edit>\n</edits></edit_file></tool_call>',
+    lookup,
+  );
+  assert(edit.status === 'ok');
+  assertEquals(edit.parameters.edits, [{ oldText: 'a', newText: '</newText>' }]);
+});
+
+Deno.test('parseToolCall: JSONで指定された配列を解釈する', () => {
+  const result = parseToolCall(
+    '<tool_call><read_files><paths>["a.ts", "b.ts"]</paths></read_files></tool_call>',
+    lookup,
+  );
+
+  assert(result.status === 'ok');
+  assertEquals(result.parameters.paths, ['a.ts', 'b.ts']);
+});
+
+Deno.test('parseToolCall: ツール呼び出しがない場合と途中の場合を区別する', () => {
+  assertEquals(parseToolCall('こんにちは', lookup).status, 'none');
+  assertEquals(parseToolCall('<tool_call>\n<write_to_file>\n<path>a', lookup).status, 'incomplete');
+  assertEquals(
+    parseToolCall('<tool_call><read_file><path>a</path></read_file></tool_', lookup).status,
+    'incomplete',
+  );
+});
+
+Deno.test('parseToolCall: 構文エラーの位置を報告する', () => {
+  const result = parseToolCall(
+    '<tool_call>\n<read_file>\n<path>a</path>\n<startLine>abc</startLine>\n</read_file>\n</tool_call>',
+    lookup,
+  );
+
+  assert(result.status === 'error');
+  assertEquals(result.line, 4);
+  assertStringIncludes(result.message, 'startLine');
+  assertStringIncludes(result.message, '4行目');
+});
+
+Deno.test('parseToolCall: 閉じタグの不一致をエラーとして報告する', () => {
+  const result = parseToolCall(
+    '<tool_call>\n<read_file>\n<path>a</path>\n</write_to_file>\n</tool_call>',
+    lookup,
+  );
+
+  assert(result.status === 'error');
+  assertEquals(result.line, 4);
+});
+
+Deno.test('parseToolCall: ランダムな文字列値を往復できる（fuzz）', () => {
+  const next = random(20250101);
+  for (let i = 0; i < 300; i++) {
+    const path = stableValue(randomText(next, 3).replace(/[<>\n]/g, ''));
+    const raw = stableValue(randomText(next, 12));
+    const useCdata = !raw.includes(']]>') && next() < 0.5;
+    const content = useCdata ? `<![CDATA[${raw}]]>` : raw;
+
+    const result = parseToolCall(writeCall(path, content), lookup);
+    assert(result.status === 'ok', `case ${i}: ${JSON.stringify(content)} -> ${result.status}`);
+    assertEquals(result.parameters.path, path, `case ${i}`);
+    assertEquals(result.parameters.content, raw, `case ${i}`);
+  }
+});
+
+Deno.test('parseToolCall: 途中までの入力は完了扱いにならない（fuzz）', () => {
+  const next = random(42);
+  for (let i = 0; i < 50; i++) {
+    const raw = stableValue(randomText(next, 8).replaceAll('</tool_call>', ''));
+    const text = writeCall('a.txt', raw);
+    for (let cut = 0; cut < text.length; cut += 7) {
+      const result = parseToolCall(text.slice(0, cut), lookup);
+      assert(result.status !== 'ok', `case ${i}: ${JSON.stringify(text.slice(0, cut))}`);
+    }
+    assertEquals(parseToolCall(text, lookup).status, 'ok');
+  }
+});
+
+Deno.test('parseToolCall: 任意の入力で例外を投げない（fuzz）', () => {
+  const next = random(7);
+  for (let i = 0; i < 500; i++) {
+    const text = '<tool_call>' + randomText(next, 20);
+    const result = parseToolCall(text, lookup);
+    assert(['ok', 'incomplete', 'error'].includes(result.status));
+  }
+});
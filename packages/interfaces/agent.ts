@@ -5,6 +5,8 @@ import type { ToolCallRequest, ToolResult } from './tool.ts';
  * LLMエージェントの設定
  */
 export interface AgentConfig {
+  /** APIプロバイダー（openai: Chat Completions API、anthropic: Messages API） */
+  provider?: 'openai' | 'anthropic';
   /** APIベースURL */
   baseUrl?: string;
   /** APIキー */
@@ -16,6 +18,12 @@ export interface AgentConfig {
   top_p?: number;
   top_k?: number;
   max_tokens?: number;
+  /** コンテキストウィンドウのトークン数（超える場合は古いツール結果から圧縮） */
+  contextWindow?: number;
+  /** ストリーミング応答を使用するか（デフォルト: true） */
+  stream?: boolean;
+  /** ツール呼び出し形式（xml: XMLタグ形式、native: ネイティブ関数呼び出し、デフォルト: xml） */
+  toolCallMode?: 'xml' | 'native';
   /** カスタムインストラクション */
   customInstructions?: string;
 }
@@ -1,7 +1,7 @@
 /**
  * メッセージの役割
  */
-export type MessageRole = 'user' | 'assistant' | 'system';
+export type MessageRole = 'user' | 'assistant' | 'system' | 'tool';
 
 /**
  * メッセージの型定義
@@ -13,6 +13,30 @@ export interface Message {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * ツール実行の承認結果
+ * - auto: 承認を求めずに実行した
+ * - allow_once / allow_always: ユーザーが承認した
+ * - deny: ユーザーが拒否した
+ * - blocked: 権限チェックで拒否された
+ */
+export type ToolApprovalDecision = 'auto' | 'allow_once' | 'allow_always' | 'deny' | 'blocked';
+
+/**
+ * ツール実行結果のメッセージのメタデータ
+ */
+export interface ToolResponseMetadata {
+  /** ネイティブ関数呼び出しの呼び出しID */
+  toolCallId?: string;
+  toolName?: string;
+  approval?: ToolApprovalDecision;
+  /** ユーザーが承認時に変更内容を編集したか */
+  edited?: boolean;
+  /** ツールの実行時間（ミリ秒、承認待ちの時間は含まない） */
+  durationMs?: number;
+  [key: string]: unknown;
+}
+
 /**
  * セッションメタデータ
  */
@@ -22,6 +46,12 @@ export interface SessionMetadata {
   toolCallsCount?: number;
   errorCount?: number;
   model?: string;
+  /** セッションを開始した作業ディレクトリ */
+  workingDirectory?: string;
+  /** セッションを再開した日時 */
+  resumedAt?: string[];
+  /** 終了が記録されていないセッションか（異常終了した場合や別のプロセスで実行中の場合） */
+  interrupted?: boolean;
   [key: string]: unknown;
 }
 
@@ -45,6 +75,11 @@ export interface HistoryRecorder {
    */
   startSession(model: string, systemPrompt: string): Promise<string>;
 
+  /**
+   * 保存済みのセッションを再開
+   */
+  resumeSession(sessionId: string, systemPrompt?: string): Promise<SessionHistory>;
+
   /**
    * メッセージを記録
    */
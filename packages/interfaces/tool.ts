@@ -15,6 +15,27 @@ export interface ToolParameters {
   [key: string]: unknown;
 }
 
+/**
+ * ツールパラメータの型
+ */
+export type ToolParameterType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+
+/**
+ * ツールパラメータの定義（JSON Schemaの生成に使用）
+ */
+export interface ToolParameterDefinition {
+  type: ToolParameterType;
+  description?: string;
+  /** 選択可能な値 */
+  enum?: string[];
+  /** 配列要素の定義 */
+  items?: ToolParameterDefinition;
+  /** オブジェクトのプロパティ定義 */
+  properties?: Record<string, ToolParameterDefinition>;
+  /** オブジェクトの必須プロパティ */
+  required?: string[];
+}
+
 /**
  * ツール定義インターフェース
  */
@@ -27,6 +48,8 @@ export interface Tool {
   requiredParameters: string[];
   /** オプションパラメータ */
   optionalParameters?: string[];
+  /** パラメータの型定義（未定義のパラメータは文字列として扱う） */
+  parameterDefinitions?: Record<string, ToolParameterDefinition>;
   /** 危険なツールかどうか */
   dangerous: boolean;
   /** 実行前に承認が必要かどうか */
@@ -41,12 +64,61 @@ export interface Tool {
    * パラメータの検証
    */
   validateParameters(parameters: ToolParameters): boolean;
+
+  /**
+   * 実行によって変更される可能性のあるパス（実行前のチェックポイント作成に使用）
+   */
+  getAffectedPaths?(parameters: ToolParameters, context?: ToolExecutionContext): AffectedPath[];
+
+  /**
+   * 実行した場合のファイルの変更内容（承認時の差分表示に使用）
+   */
+  previewChanges?(
+    parameters: ToolParameters,
+    context?: ToolExecutionContext,
+  ): Promise<FileChangePreview[]>;
+
+  /**
+   * 変更後の内容をユーザーが編集した場合のパラメータを作成（1ファイルを変更するツールのみ）
+   */
+  withEditedContent?(
+    parameters: ToolParameters,
+    content: string,
+    context?: ToolExecutionContext,
+  ): Promise<ToolParameters>;
+}
+
+/**
+ * ツール実行によって変更される可能性のあるパス
+ * ディレクトリは存在のみを記録し、recursive の場合だけ中身の内容も保存する
+ */
+export interface AffectedPath {
+  /** 絶対パス */
+  path: string;
+  /** 削除・上書きによって中身が失われるディレクトリか */
+  recursive?: boolean;
+  /** このパスの下に中身をコピー・移動する元のパス（新しく作成されるパスを記録するため） */
+  source?: string;
+}
+
+/**
+ * ツール実行によるファイルの変更内容
+ */
+export interface FileChangePreview {
+  /** ツールに指定されたパス */
+  path: string;
+  /** 変更前の内容（新規作成の場合はnull） */
+  before: string | null;
+  /** 変更後の内容（削除の場合はnull） */
+  after: string | null;
 }
 
 /**
  * ツール呼び出しリクエストの型定義
  */
 export interface ToolCallRequest {
+  /** ネイティブ関数呼び出しモードでのツール呼び出しID */
+  id?: string;
   toolName: string;
   parameters: ToolParameters;
   requiresApproval?: boolean;
@@ -60,4 +132,17 @@ export interface ToolExecutionContext {
   environment: Record<string, string>;
   sessionId: string;
   timestamp: Date;
+  /** シェル経由でコマンドを実行する場合のシェル（未指定時は直接実行） */
+  shell?: {
+    path: string;
+    args: string[];
+  };
+  /** コマンド出力の保持方法（先頭・末尾の行数と合計バイト数の上限） */
+  outputLimits?: {
+    headLines: number;
+    tailLines: number;
+    maxBytes: number;
+  };
+  /** コマンド実行中の出力を逐次受け取るコールバック */
+  onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void;
 }